@@ -0,0 +1,463 @@
+/**
+ * Account-level routes for the /v1alpha "my festival" API.
+ *
+ * Routes (MyFestivalService in proto/.../my_festival_service.proto):
+ *   POST   /v1alpha/me:claimDevice   move a device's entries into the account
+ *   DELETE /v1alpha/me               erase everything held about the caller
+ *
+ * ClaimDevice is the sign-in upgrade: an app that wrote entries under a bare
+ * X-Device-Id signs in, then claims that device ID so its entries join the
+ * account's (`user:<uid>` rows, see auth.ts). It covers every festival in the
+ * caller's bucket. A drink only the device has an entry for moves across
+ * unchanged. A drink both have keeps the copy with the newer updated_at —
+ * tombstones included, so a later delete on either side wins — and the
+ * account's copy on a tie; the device's row is then dropped. The response
+ * reports each moved and merged entry.
+ *
+ * The merge runs as set-based statements in one D1 batch, so it is atomic and
+ * safe to repeat: once claimed, the device ID owns no rows and a second claim
+ * reports nothing. Aggregates are refreshed for the merged drinks, the only
+ * ones whose counts change, and their summaries pushed to watchers. The
+ * device's check-ins (checkins.ts) and their photos (photos.ts) move across
+ * in the same batch. Their IDs are the client's UUIDs, so a check-in is on
+ * both sides only when one create reached both; that copy merges like an
+ * entry, the newer one kept. Want-to-try marks (wanttotry.ts) merge the same
+ * way, with the want counts refreshed for drinks both had marked. Neither is
+ * reported.
+ *
+ * Only a signed-in caller can claim. Device IDs are unauthenticated, so
+ * knowing one is the only proof of owning it — the same trust the
+ * X-Device-Id header already extends during the transition.
+ *
+ * EraseCaller deletes every row the worker holds under the caller's owner
+ * key — entries, check-ins, photos, want-to-try marks and rate-limit buckets,
+ * at every festival and in every bucket — tombstones included, so nothing
+ * waits for the purge. It is one D1 batch, which also refreshes the review
+ * aggregates and want counts of every drink the caller's live rows counted
+ * towards and writes the audit row (migration 0010: the time, and an unsalted
+ * SHA-256 of the owner key). That hash is a pseudonym, not an anonymisation:
+ * anyone holding the device ID or uid can recompute it and find the row,
+ * which is what lets the log answer "was this ID erased?". The refreshes are
+ * set-based, so the batch is the same size however much the caller stored.
+ * The photos' R2 objects are deleted first, so a failure leaves the rows for a
+ * retry rather than unlisted images. Any caller can erase themselves,
+ * device-ID callers included; a caller with nothing stored is still audited,
+ * as the request was made.
+ */
+
+import type { components } from "./src/api-types";
+import {
+  type CorsHeaders,
+  type Env,
+  resolveBucket,
+  rfc3339,
+  isValidId,
+  parseV1alphaPath,
+  jsonResponse,
+  errorResponse,
+  methodNotAllowed,
+} from "./shared.js";
+import {
+  refreshAggregate,
+  refreshAggregatesWithout,
+  refreshWantCount,
+  refreshWantCountsWithout,
+} from "./aggregates.js";
+import { USER_KEY_PREFIX, resolveCaller } from "./auth.js";
+import { publishReviewSummaries } from "./reviews.js";
+import { callerBucketKeys, sha256Hex } from "./ratelimit.js";
+
+type ClaimDeviceResponse = components["schemas"]["ClaimDeviceResponse"];
+type MergedEntry = components["schemas"]["MergedEntry"];
+
+interface ClaimRow {
+  festival_id: string;
+  drink_id: string;
+  device_updated_at: number;
+  account_updated_at: number | null;
+}
+
+interface ClaimCtx {
+  env: Env;
+  executionCtx: ExecutionContext;
+  db: D1Database;
+  bucket: string;
+  /** The device ID being claimed. */
+  deviceId: string;
+  /** Owner key of the caller's account rows (`user:<uid>`). */
+  accountKey: string;
+  userId: string;
+  corsHeaders: CorsHeaders;
+}
+
+// Matches an account row (`a`) to the device row (`d`) for the same drink.
+const SAME_DRINK =
+  "d.bucket = a.bucket AND d.festival_id = a.festival_id AND d.drink_id = a.drink_id";
+const SAME_CHECK_IN =
+  "d.bucket = a.bucket AND d.festival_id = a.festival_id AND d.check_in_id = a.check_in_id";
+
+export async function handleAccount(
+  request: Request,
+  url: URL,
+  env: Env,
+  corsHeaders: CorsHeaders,
+  executionCtx: ExecutionContext,
+): Promise<Response | null> {
+  const segments = parseV1alphaPath(url.pathname);
+  // /v1alpha/me and /v1alpha/me:claimDevice
+  if (
+    !segments ||
+    segments.length !== 1 ||
+    (segments[0] !== "me" && segments[0] !== "me:claimDevice")
+  ) {
+    return null;
+  }
+  const isErase = segments[0] === "me";
+  if (request.method !== (isErase ? "DELETE" : "POST")) {
+    return methodNotAllowed(corsHeaders);
+  }
+
+  if (!env?.RATINGS_DB) {
+    return errorResponse(
+      503,
+      "UNAVAILABLE",
+      "Storage is not configured",
+      "STORAGE_UNCONFIGURED",
+      corsHeaders,
+    );
+  }
+
+  const callerResult = await resolveCaller(request, env, corsHeaders);
+  if ("error" in callerResult) return callerResult.error;
+  if (isErase) {
+    return eraseCaller(
+      env,
+      executionCtx,
+      callerResult.caller.deviceId,
+      corsHeaders,
+    );
+  }
+  const { deviceId: accountKey, userId } = callerResult.caller;
+  if (userId === null) {
+    return errorResponse(
+      403,
+      "PERMISSION_DENIED",
+      "Claiming a device requires a signed-in caller (Authorization: Bearer)",
+      "ACCOUNT_REQUIRED",
+      corsHeaders,
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      "Invalid JSON body",
+      "INVALID_BODY",
+      corsHeaders,
+    );
+  }
+  const deviceId = (body as { deviceId?: unknown } | null)?.deviceId;
+  if (
+    typeof deviceId !== "string" ||
+    !isValidId(deviceId) ||
+    deviceId.startsWith(USER_KEY_PREFIX)
+  ) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      `deviceId is required (non-empty, max 200 chars, not starting with "${USER_KEY_PREFIX}")`,
+      "INVALID_DEVICE_ID",
+      corsHeaders,
+    );
+  }
+
+  const origin = request.headers.get("Origin") ?? "";
+  return claimDevice({
+    env,
+    executionCtx,
+    db: env.RATINGS_DB,
+    bucket: resolveBucket(origin, env),
+    deviceId,
+    accountKey,
+    userId,
+    corsHeaders,
+  });
+}
+
+async function claimDevice(ctx: ClaimCtx): Promise<Response> {
+  const {
+    env,
+    executionCtx,
+    db,
+    bucket,
+    deviceId,
+    accountKey,
+    userId,
+    corsHeaders,
+  } = ctx;
+
+  const { results } = await db
+    .prepare(
+      "SELECT d.festival_id, d.drink_id, d.updated_at AS device_updated_at, " +
+        "a.updated_at AS account_updated_at FROM reviews d " +
+        `LEFT JOIN reviews a ON ${SAME_DRINK} AND a.device_id = ? ` +
+        "WHERE d.bucket = ? AND d.device_id = ? " +
+        "ORDER BY d.festival_id, d.drink_id",
+    )
+    .bind(accountKey, bucket, deviceId)
+    .all<ClaimRow>();
+
+  const movedEntries: string[] = [];
+  const mergedEntries: MergedEntry[] = [];
+  for (const row of results) {
+    const name = `festivals/${row.festival_id}/drinks/${row.drink_id}/entry`;
+    if (row.account_updated_at === null) {
+      movedEntries.push(name);
+      continue;
+    }
+    mergedEntries.push({
+      name,
+      kept:
+        row.device_updated_at > row.account_updated_at
+          ? "SOURCE_DEVICE"
+          : "SOURCE_ACCOUNT",
+      deviceUpdateTime: rfc3339(row.device_updated_at),
+      accountUpdateTime: rfc3339(row.account_updated_at),
+    });
+  }
+
+  // A check-in's ID is the client's UUID, so the device's and the account's
+  // meet only when one check-in was written under both — an offline create
+  // replayed after sign-in. That pair merges like an entry: the newer copy is
+  // kept. Photos follow the check-in ID onto whichever copy survives; a
+  // photo's R2 key has no owner in it, so R2 is untouched.
+  const moveCheckIns = [
+    db
+      .prepare(
+        "UPDATE check_ins AS a SET (drink_id, title, note, rating, recommend, " +
+          "check_in_time, created_at, updated_at, deleted_at) = " +
+          "(SELECT d.drink_id, d.title, d.note, d.rating, d.recommend, " +
+          "d.check_in_time, d.created_at, d.updated_at, d.deleted_at " +
+          `FROM check_ins d WHERE ${SAME_CHECK_IN} AND d.device_id = ?) ` +
+          "WHERE a.bucket = ? AND a.device_id = ? AND EXISTS (SELECT 1 " +
+          `FROM check_ins d WHERE ${SAME_CHECK_IN} AND d.device_id = ? ` +
+          "AND d.updated_at > a.updated_at)",
+      )
+      .bind(deviceId, bucket, accountKey, deviceId),
+    db
+      .prepare(
+        "DELETE FROM check_ins AS d WHERE d.bucket = ? AND d.device_id = ? " +
+          `AND EXISTS (SELECT 1 FROM check_ins a WHERE ${SAME_CHECK_IN} ` +
+          "AND a.device_id = ?)",
+      )
+      .bind(bucket, deviceId, accountKey),
+    db
+      .prepare(
+        "UPDATE check_ins SET device_id = ?, user_id = ? " +
+          "WHERE bucket = ? AND device_id = ?",
+      )
+      .bind(accountKey, userId, bucket, deviceId),
+    db
+      .prepare(
+        "UPDATE photos SET device_id = ?, user_id = ? " +
+          "WHERE bucket = ? AND device_id = ?",
+      )
+      .bind(accountKey, userId, bucket, deviceId),
+  ];
+  const mergeWants = await mergeWantToTry(ctx);
+
+  if (results.length === 0) {
+    await db.batch([...moveCheckIns, ...mergeWants]);
+  } else {
+    const merged = results.filter((row) => row.account_updated_at !== null);
+    await db.batch([
+      ...moveCheckIns,
+      ...mergeWants,
+      // Conflicts the device won: its copy overwrites the account's.
+      db
+        .prepare(
+          "UPDATE reviews AS a SET (is_favourite, star_rating, recommend, " +
+            "note, pours, created_at, updated_at, deleted_at) = (SELECT " +
+            "d.is_favourite, d.star_rating, d.recommend, d.note, d.pours, " +
+            "d.created_at, d.updated_at, d.deleted_at FROM reviews d " +
+            `WHERE ${SAME_DRINK} AND d.device_id = ?) ` +
+            "WHERE a.bucket = ? AND a.device_id = ? AND EXISTS (SELECT 1 " +
+            `FROM reviews d WHERE ${SAME_DRINK} AND d.device_id = ? ` +
+            "AND d.updated_at > a.updated_at)",
+        )
+        .bind(deviceId, bucket, accountKey, deviceId),
+      // Every conflict is now settled in the account's row.
+      db
+        .prepare(
+          "DELETE FROM reviews AS d WHERE d.bucket = ? AND d.device_id = ? " +
+            `AND EXISTS (SELECT 1 FROM reviews a WHERE ${SAME_DRINK} ` +
+            "AND a.device_id = ?)",
+        )
+        .bind(bucket, deviceId, accountKey),
+      // The rest move across as they are.
+      db
+        .prepare(
+          "UPDATE reviews SET device_id = ?, user_id = ? " +
+            "WHERE bucket = ? AND device_id = ?",
+        )
+        .bind(accountKey, userId, bucket, deviceId),
+      ...merged.flatMap((row) =>
+        refreshAggregate(db, {
+          bucket,
+          festivalId: row.festival_id,
+          drinkId: row.drink_id,
+        }),
+      ),
+    ]);
+
+    const mergedByFestival = new Map<string, string[]>();
+    for (const row of merged) {
+      const drinkIds = mergedByFestival.get(row.festival_id) ?? [];
+      drinkIds.push(row.drink_id);
+      mergedByFestival.set(row.festival_id, drinkIds);
+    }
+    for (const [festivalId, drinkIds] of mergedByFestival) {
+      executionCtx.waitUntil(
+        publishReviewSummaries(env, bucket, festivalId, drinkIds),
+      );
+    }
+  }
+
+  const response: ClaimDeviceResponse = { movedEntries, mergedEntries };
+  return jsonResponse(response, 200, corsHeaders);
+}
+
+/**
+ * Statements that merge the device's want-to-try marks into the account's,
+ * as claimDevice merges entries: on a drink both have marked, the newer copy
+ * wins (tombstones included) and the account's on a tie. Only those drinks'
+ * want counts change, so only theirs are refreshed.
+ */
+async function mergeWantToTry(ctx: ClaimCtx): Promise<D1PreparedStatement[]> {
+  const { db, bucket, deviceId, accountKey, userId } = ctx;
+  const { results: both } = await db
+    .prepare(
+      "SELECT d.festival_id, d.drink_id FROM want_to_try d " +
+        `JOIN want_to_try a ON ${SAME_DRINK} AND a.device_id = ? ` +
+        "WHERE d.bucket = ? AND d.device_id = ?",
+    )
+    .bind(accountKey, bucket, deviceId)
+    .all<{ festival_id: string; drink_id: string }>();
+
+  return [
+    db
+      .prepare(
+        "UPDATE want_to_try AS a SET (created_at, updated_at, deleted_at) = " +
+          "(SELECT d.created_at, d.updated_at, d.deleted_at FROM want_to_try d " +
+          `WHERE ${SAME_DRINK} AND d.device_id = ?) ` +
+          "WHERE a.bucket = ? AND a.device_id = ? AND EXISTS (SELECT 1 " +
+          `FROM want_to_try d WHERE ${SAME_DRINK} AND d.device_id = ? ` +
+          "AND d.updated_at > a.updated_at)",
+      )
+      .bind(deviceId, bucket, accountKey, deviceId),
+    db
+      .prepare(
+        "DELETE FROM want_to_try AS d WHERE d.bucket = ? AND d.device_id = ? " +
+          `AND EXISTS (SELECT 1 FROM want_to_try a WHERE ${SAME_DRINK} ` +
+          "AND a.device_id = ?)",
+      )
+      .bind(bucket, deviceId, accountKey),
+    db
+      .prepare(
+        "UPDATE want_to_try SET device_id = ?, user_id = ? " +
+          "WHERE bucket = ? AND device_id = ?",
+      )
+      .bind(accountKey, userId, bucket, deviceId),
+    ...both.flatMap((row) =>
+      refreshWantCount(db, {
+        bucket,
+        festivalId: row.festival_id,
+        drinkId: row.drink_id,
+      }),
+    ),
+  ];
+}
+
+/**
+ * Delete everything held under `ownerKey`, in every bucket, and audit it (see
+ * the file header). Summaries are pushed for the drinks reviewed when the
+ * caller's rows were read; one reviewed after that is refreshed in the batch
+ * but not pushed.
+ */
+async function eraseCaller(
+  env: Env,
+  executionCtx: ExecutionContext,
+  ownerKey: string,
+  corsHeaders: CorsHeaders,
+): Promise<Response> {
+  const db = env.RATINGS_DB;
+  type DrinkRow = { bucket: string; festival_id: string; drink_id: string };
+  const [reviewed, photos] = await db.batch([
+    db
+      .prepare(
+        "SELECT bucket, festival_id, drink_id FROM reviews " +
+          "WHERE device_id = ? AND deleted_at IS NULL",
+      )
+      .bind(ownerKey),
+    db
+      .prepare(
+        "SELECT bucket, festival_id, photo_id FROM photos WHERE device_id = ?",
+      )
+      .bind(ownerKey),
+  ]);
+
+  const photoKeys = (
+    photos.results as {
+      bucket: string;
+      festival_id: string;
+      photo_id: string;
+    }[]
+  ).map((row) => `${row.bucket}/${row.festival_id}/${row.photo_id}`);
+  if (photoKeys.length > 0 && env.PHOTOS) {
+    // R2 deletes at most 1000 keys per call.
+    for (let i = 0; i < photoKeys.length; i += 1000) {
+      await env.PHOTOS.delete(photoKeys.slice(i, i + 1000));
+    }
+  }
+
+  const reviewedDrinks = reviewed.results as DrinkRow[];
+  const bucketKeys = callerBucketKeys(ownerKey);
+  await db.batch([
+    // These read the caller's rows, so they go before the deletes.
+    ...refreshAggregatesWithout(db, ownerKey),
+    ...refreshWantCountsWithout(db, ownerKey),
+    ...["reviews", "check_ins", "photos", "want_to_try"].map((table) =>
+      db.prepare(`DELETE FROM ${table} WHERE device_id = ?`).bind(ownerKey),
+    ),
+    db
+      .prepare(
+        `DELETE FROM rate_limits WHERE key IN (${bucketKeys.map(() => "?").join(", ")})`,
+      )
+      .bind(...bucketKeys),
+    db
+      .prepare("INSERT INTO erasures (caller_hash, erased_at) VALUES (?, ?)")
+      .bind(await sha256Hex(ownerKey), Date.now()),
+  ]);
+
+  const changed = new Map<string, DrinkRow[]>();
+  for (const row of reviewedDrinks) {
+    const key = `${row.bucket}/${row.festival_id}`;
+    changed.set(key, [...(changed.get(key) ?? []), row]);
+  }
+  for (const rows of changed.values()) {
+    executionCtx.waitUntil(
+      publishReviewSummaries(
+        env,
+        rows[0].bucket,
+        rows[0].festival_id,
+        rows.map((row) => row.drink_id),
+      ),
+    );
+  }
+
+  return jsonResponse({}, 200, corsHeaders);
+}
@@ -0,0 +1,301 @@
+/**
+ * Pre-computed review summaries: the `review_aggregates` table.
+ *
+ * Each row holds one drink's counts over the live review rows — what a
+ * ReviewSummary reports — so the summary routes read one row per drink instead
+ * of grouping the festival's reviews on every request.
+ *
+ * Every write to a `reviews` row refreshes its drink's aggregate in the same
+ * D1 batch (refreshAggregate). The refresh recomputes the drink's counts from
+ * `reviews` rather than applying a delta, so it is idempotent and cannot
+ * compound an earlier error; a drink's rows are few, and the scan runs on
+ * idx_reviews_aggregate. A drink left with no rating and no recommendation
+ * loses its aggregate row, so the table lists exactly the drinks a summary
+ * list shows. An erasure (account.ts), which deletes all of one owner's rows,
+ * refreshes every drink they counted towards at once instead
+ * (refreshAggregatesWithout).
+ *
+ * checkReviewAggregates recomputes the whole table from `reviews` and reports
+ * (and optionally repairs) any drift; the scheduled handler runs it daily.
+ *
+ * `want_to_try_aggregates` is kept the same way for the "most wanted" list
+ * (wanttotry.ts): refreshWantCount recomputes one drink's count of live
+ * `want_to_try` rows in the batch that writes them, and drops it at zero.
+ */
+
+import type { Env } from "./shared.js";
+
+/** The stored counts for one drink. */
+export interface AggregateCounts {
+  rating_count: number;
+  rating_sum: number;
+  response_count: number;
+  recommend_count: number;
+  stars_1: number;
+  stars_2: number;
+  stars_3: number;
+  stars_4: number;
+  stars_5: number;
+}
+
+/** One drink whose stored aggregate differs from its recomputed one. */
+export interface AggregateDrift {
+  bucket: string;
+  festivalId: string;
+  drinkId: string;
+  /** Recomputed from `reviews`; null when the drink should have no row. */
+  expected: AggregateCounts | null;
+  /** As stored; null when the row is missing. */
+  actual: AggregateCounts | null;
+}
+
+export interface AggregateCheck {
+  /** Drinks compared: the union of stored and recomputed rows. */
+  checked: number;
+  drift: AggregateDrift[];
+  repaired: boolean;
+}
+
+interface AggregateKey {
+  bucket: string;
+  festivalId: string;
+  drinkId: string;
+}
+
+type KeyedCounts = AggregateCounts & {
+  bucket: string;
+  festival_id: string;
+  drink_id: string;
+};
+
+const COUNT_COLUMNS = [
+  "rating_count",
+  "rating_sum",
+  "response_count",
+  "recommend_count",
+  "stars_1",
+  "stars_2",
+  "stars_3",
+  "stars_4",
+  "stars_5",
+] as const;
+
+// The counts over a set of `reviews` rows, in COUNT_COLUMNS order. The same
+// expressions back the 0004 backfill migration.
+const COUNT_EXPRESSIONS = [
+  "COUNT(star_rating)",
+  "COALESCE(SUM(star_rating), 0)",
+  "COUNT(recommend)",
+  "COALESCE(SUM(recommend = 1), 0)",
+  ...[1, 2, 3, 4, 5].map((n) => `COALESCE(SUM(star_rating = ${n}), 0)`),
+];
+
+const COUNTS_SELECT = COUNT_EXPRESSIONS.map(
+  (expression, i) => `${expression} AS ${COUNT_COLUMNS[i]}`,
+).join(", ");
+
+const LIVE = "deleted_at IS NULL";
+const EMPTY = "rating_count = 0 AND response_count = 0";
+
+/**
+ * Statements that bring one drink's aggregate up to date with its `reviews`
+ * rows. Append them to the batch that writes those rows, after the writes.
+ */
+export function refreshAggregate(
+  db: D1Database,
+  key: AggregateKey,
+): D1PreparedStatement[] {
+  const { bucket, festivalId, drinkId } = key;
+  return [
+    db
+      .prepare(
+        "INSERT INTO review_aggregates " +
+          `(bucket, festival_id, drink_id, ${COUNT_COLUMNS.join(", ")}) ` +
+          `SELECT ?, ?, ?, ${COUNT_EXPRESSIONS.join(", ")} FROM reviews ` +
+          `WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND ${LIVE} ` +
+          "ON CONFLICT (bucket, festival_id, drink_id) DO UPDATE SET " +
+          COUNT_COLUMNS.map((c) => `${c} = excluded.${c}`).join(", "),
+      )
+      .bind(bucket, festivalId, drinkId, bucket, festivalId, drinkId),
+    db
+      .prepare(
+        "DELETE FROM review_aggregates " +
+          `WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND ${EMPTY}`,
+      )
+      .bind(bucket, festivalId, drinkId),
+  ];
+}
+
+// The drinks `table` holds a live row of for one owner key (bound once).
+function ownedDrinks(table: string): string {
+  return (
+    `(bucket, festival_id, drink_id) IN (SELECT bucket, festival_id, drink_id ` +
+    `FROM ${table} WHERE device_id = ? AND ${LIVE})`
+  );
+}
+
+// Whether another owner holds a live `table` row for the drink of the
+// `aggregate` table's row being tested (the owner key bound once).
+function othersLive(table: string, aggregate: string): string {
+  return (
+    `EXISTS (SELECT 1 FROM ${table} AS r WHERE r.bucket = ${aggregate}.bucket ` +
+    `AND r.festival_id = ${aggregate}.festival_id ` +
+    `AND r.drink_id = ${aggregate}.drink_id AND r.device_id != ? ` +
+    `AND r.deleted_at IS NULL)`
+  );
+}
+
+/**
+ * Statements that bring the aggregate of every drink `ownerKey` has a live
+ * review of up to date as if those reviews were gone. They are set-based, so
+ * there are two however many drinks the owner reviewed. Put them in the batch
+ * that deletes the owner's rows, before the delete.
+ */
+export function refreshAggregatesWithout(
+  db: D1Database,
+  ownerKey: string,
+): D1PreparedStatement[] {
+  return [
+    db
+      .prepare(
+        "INSERT INTO review_aggregates " +
+          `(bucket, festival_id, drink_id, ${COUNT_COLUMNS.join(", ")}) ` +
+          `SELECT bucket, festival_id, drink_id, ${COUNT_EXPRESSIONS.join(", ")} ` +
+          `FROM reviews WHERE ${LIVE} AND device_id != ? ` +
+          `AND ${ownedDrinks("reviews")} ` +
+          "GROUP BY bucket, festival_id, drink_id " +
+          "ON CONFLICT (bucket, festival_id, drink_id) DO UPDATE SET " +
+          COUNT_COLUMNS.map((c) => `${c} = excluded.${c}`).join(", "),
+      )
+      .bind(ownerKey, ownerKey),
+    db
+      .prepare(
+        `DELETE FROM review_aggregates WHERE ${ownedDrinks("reviews")} ` +
+          `AND (${EMPTY} OR NOT ${othersLive("reviews", "review_aggregates")})`,
+      )
+      .bind(ownerKey, ownerKey),
+  ];
+}
+
+/**
+ * Recompute every aggregate from `reviews` and compare it with the stored
+ * table. With `repair`, drifted drinks are refreshed in one batch.
+ */
+export async function checkReviewAggregates(
+  env: Partial<Env>,
+  { repair = false }: { repair?: boolean } = {},
+): Promise<AggregateCheck> {
+  const db = env?.RATINGS_DB;
+  if (!db) return { checked: 0, drift: [], repaired: false };
+
+  const [expected, actual] = await db.batch<KeyedCounts>([
+    db.prepare(
+      `SELECT bucket, festival_id, drink_id, ${COUNTS_SELECT} FROM reviews ` +
+        `WHERE ${LIVE} GROUP BY bucket, festival_id, drink_id ` +
+        `HAVING NOT (${EMPTY})`,
+    ),
+    db.prepare(
+      `SELECT bucket, festival_id, drink_id, ${COUNT_COLUMNS.join(", ")} ` +
+        "FROM review_aggregates",
+    ),
+  ]);
+
+  const keyOf = (row: KeyedCounts) =>
+    JSON.stringify([row.bucket, row.festival_id, row.drink_id]);
+  const stored = new Map(actual.results.map((row) => [keyOf(row), row]));
+  const drift: AggregateDrift[] = [];
+  for (const row of expected.results) {
+    const key = keyOf(row);
+    const storedRow = stored.get(key) ?? null;
+    stored.delete(key);
+    if (!storedRow || COUNT_COLUMNS.some((c) => storedRow[c] !== row[c])) {
+      drift.push(driftOf(row, row, storedRow));
+    }
+  }
+  for (const row of stored.values()) drift.push(driftOf(row, null, row));
+
+  const checked = expected.results.length + stored.size;
+  if (repair && drift.length > 0) {
+    await db.batch(drift.flatMap((d) => refreshAggregate(db, d)));
+  }
+  return { checked, drift, repaired: repair && drift.length > 0 };
+}
+
+function driftOf(
+  key: KeyedCounts,
+  expected: KeyedCounts | null,
+  actual: KeyedCounts | null,
+): AggregateDrift {
+  return {
+    bucket: key.bucket,
+    festivalId: key.festival_id,
+    drinkId: key.drink_id,
+    expected: expected && countsOf(expected),
+    actual: actual && countsOf(actual),
+  };
+}
+
+function countsOf(row: KeyedCounts): AggregateCounts {
+  const { bucket, festival_id, drink_id, ...counts } = row;
+  return counts;
+}
+
+/**
+ * Statements that bring one drink's want count up to date with its
+ * `want_to_try` rows. Append them to the batch that writes those rows, after
+ * the writes.
+ */
+export function refreshWantCount(
+  db: D1Database,
+  key: AggregateKey,
+): D1PreparedStatement[] {
+  const { bucket, festivalId, drinkId } = key;
+  return [
+    db
+      .prepare(
+        "INSERT INTO want_to_try_aggregates " +
+          "(bucket, festival_id, drink_id, want_count) " +
+          "SELECT ?, ?, ?, COUNT(*) FROM want_to_try " +
+          `WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND ${LIVE} ` +
+          "ON CONFLICT (bucket, festival_id, drink_id) DO UPDATE SET " +
+          "want_count = excluded.want_count",
+      )
+      .bind(bucket, festivalId, drinkId, bucket, festivalId, drinkId),
+    db
+      .prepare(
+        "DELETE FROM want_to_try_aggregates " +
+          "WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND want_count = 0",
+      )
+      .bind(bucket, festivalId, drinkId),
+  ];
+}
+
+/**
+ * refreshAggregatesWithout for want counts: the counts of every drink
+ * `ownerKey` has a live mark on, as if those marks were gone.
+ */
+export function refreshWantCountsWithout(
+  db: D1Database,
+  ownerKey: string,
+): D1PreparedStatement[] {
+  return [
+    db
+      .prepare(
+        "INSERT INTO want_to_try_aggregates " +
+          "(bucket, festival_id, drink_id, want_count) " +
+          "SELECT bucket, festival_id, drink_id, COUNT(*) FROM want_to_try " +
+          `WHERE ${LIVE} AND device_id != ? AND ${ownedDrinks("want_to_try")} ` +
+          "GROUP BY bucket, festival_id, drink_id " +
+          "ON CONFLICT (bucket, festival_id, drink_id) DO UPDATE SET " +
+          "want_count = excluded.want_count",
+      )
+      .bind(ownerKey, ownerKey),
+    db
+      .prepare(
+        "DELETE FROM want_to_try_aggregates " +
+          `WHERE ${ownedDrinks("want_to_try")} ` +
+          `AND NOT ${othersLive("want_to_try", "want_to_try_aggregates")}`,
+      )
+      .bind(ownerKey, ownerKey),
+  ];
+}
@@ -0,0 +1,341 @@
+/**
+ * Caller identity for the /v1alpha "my festival" API.
+ *
+ * Callers authenticate with a Firebase ID token (Firebase Anonymous Auth, per
+ * docs/planning/rating-service/design.md) in an `Authorization: Bearer`
+ * header. The worker verifies it itself — RS256 signature against Google's
+ * published JWKS, then the iss/aud/exp/iat/sub claims — with no Admin SDK.
+ * The token's `sub` is the Firebase UID: it goes into the reserved `user_id`
+ * column, and the caller's rows are keyed by `user:<uid>` in `device_id`, so
+ * the rest of the API keeps one owner key whichever way a caller signed in.
+ *
+ * The bare `X-Device-Id` header is still accepted while ALLOW_DEVICE_ID is
+ * "true" (see wrangler.toml), for app builds that predate sign-in. Anyone can
+ * send any device ID, so it is a transition measure only; the `user:` prefix
+ * is refused there so a device ID can never name an account's rows.
+ *
+ * The JWKS is cached per isolate for as long as Google's Cache-Control allows.
+ * A FIREBASE_JWKS var holding a JWKS document replaces the fetch entirely —
+ * the test suite points it at test/fixtures/firebase-jwks.json to run offline.
+ */
+
+import {
+  type CorsHeaders,
+  type Env,
+  errorResponse,
+  getDeviceId,
+} from "./shared.js";
+
+const JWKS_URL =
+  "https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com";
+const DEFAULT_JWKS_TTL_MS = 60 * 60 * 1000;
+// Floor between refetches prompted by an unknown key id, so tokens naming
+// made-up keys cannot turn every request into a JWKS fetch.
+const JWKS_REFRESH_FLOOR_MS = 60 * 1000;
+// Tolerated clock difference between Firebase and the worker.
+const CLOCK_SKEW_S = 60;
+
+/** Owner-key prefix for rows belonging to a Firebase account. */
+export const USER_KEY_PREFIX = "user:";
+
+/** The authenticated caller. */
+export interface Caller {
+  /** Owner key of the caller's `reviews` rows (the device_id column). */
+  deviceId: string;
+  /** Firebase UID, or null for a legacy X-Device-Id caller. */
+  userId: string | null;
+}
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+}
+
+interface KeySet {
+  keys: Map<string, CryptoKey>;
+  fetched: number;
+  expires: number;
+}
+
+interface TokenClaims {
+  iss?: unknown;
+  aud?: unknown;
+  sub?: unknown;
+  exp?: unknown;
+  iat?: unknown;
+}
+
+// Per-isolate JWKS cache, keyed by its source (the URL or the fixture text).
+let keySetCache: { source: string; keySet: KeySet } | null = null;
+
+class TokenError extends Error {
+  constructor(
+    message: string,
+    readonly reason: string = "INVALID_TOKEN",
+  ) {
+    super(message);
+  }
+}
+
+class KeySetUnavailable extends Error {}
+
+type CallerResult = { caller: Caller } | { error: Response };
+
+// Callers already resolved, per request: the rate limiter (ratelimit.ts) and
+// the route handler both ask, and the token is verified once.
+const resolvedCallers = new WeakMap<Request, Promise<CallerResult>>();
+
+/**
+ * Identify the caller from a bearer token or, while allowed, X-Device-Id.
+ * Failures are 401 UNAUTHENTICATED (or 400 for a malformed device ID).
+ */
+export function resolveCaller(
+  request: Request,
+  env: Partial<Env>,
+  corsHeaders: CorsHeaders,
+): Promise<CallerResult> {
+  let result = resolvedCallers.get(request);
+  if (!result) {
+    result = identifyCaller(request, env, corsHeaders);
+    resolvedCallers.set(request, result);
+  }
+  return result;
+}
+
+async function identifyCaller(
+  request: Request,
+  env: Partial<Env>,
+  corsHeaders: CorsHeaders,
+): Promise<CallerResult> {
+  const authorization = request.headers.get("Authorization");
+  if (authorization !== null) {
+    const match = /^Bearer\s+(\S+)$/i.exec(authorization);
+    if (!match) {
+      return unauthenticated(
+        "Authorization must be a Bearer token",
+        "INVALID_TOKEN",
+        corsHeaders,
+      );
+    }
+    if (!env.FIREBASE_PROJECT_ID) {
+      return {
+        error: errorResponse(
+          503,
+          "UNAVAILABLE",
+          "Authentication is not configured",
+          "AUTH_UNCONFIGURED",
+          corsHeaders,
+        ),
+      };
+    }
+    try {
+      const userId = await verifyIdToken(match[1], env);
+      return { caller: { deviceId: USER_KEY_PREFIX + userId, userId } };
+    } catch (e) {
+      if (e instanceof KeySetUnavailable) {
+        return {
+          error: errorResponse(
+            503,
+            "UNAVAILABLE",
+            "Token signing keys are unavailable; retry shortly",
+            "JWKS_UNAVAILABLE",
+            corsHeaders,
+          ),
+        };
+      }
+      if (!(e instanceof TokenError)) throw e;
+      return unauthenticated(e.message, e.reason, corsHeaders);
+    }
+  }
+
+  if (env.ALLOW_DEVICE_ID !== "true") {
+    return unauthenticated(
+      "An Authorization: Bearer <Firebase ID token> header is required",
+      "MISSING_CREDENTIALS",
+      corsHeaders,
+    );
+  }
+  const deviceResult = getDeviceId(request, corsHeaders);
+  if ("error" in deviceResult) return deviceResult;
+  if (deviceResult.deviceId.startsWith(USER_KEY_PREFIX)) {
+    return {
+      error: errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        `X-Device-Id must not start with "${USER_KEY_PREFIX}"`,
+        "INVALID_DEVICE_ID",
+        corsHeaders,
+      ),
+    };
+  }
+  return { caller: { deviceId: deviceResult.deviceId, userId: null } };
+}
+
+function unauthenticated(
+  message: string,
+  reason: string,
+  corsHeaders: CorsHeaders,
+): { error: Response } {
+  return {
+    error: errorResponse(401, "UNAUTHENTICATED", message, reason, {
+      ...corsHeaders,
+      "WWW-Authenticate": "Bearer",
+    }),
+  };
+}
+
+/**
+ * Verify a Firebase ID token and return its UID (the `sub` claim). Throws a
+ * TokenError describing the first check that failed.
+ */
+async function verifyIdToken(
+  token: string,
+  env: Partial<Env>,
+  now: number = Date.now(),
+): Promise<string> {
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new TokenError("Malformed ID token");
+  const [headerPart, payloadPart, signaturePart] = parts;
+
+  let header: { alg?: unknown; kid?: unknown };
+  let claims: TokenClaims;
+  let signature: Uint8Array;
+  try {
+    header = JSON.parse(base64UrlDecodeText(headerPart));
+    claims = JSON.parse(base64UrlDecodeText(payloadPart));
+    signature = base64UrlDecode(signaturePart);
+    if (!isObject(header) || !isObject(claims)) throw new Error();
+  } catch {
+    throw new TokenError("Malformed ID token");
+  }
+  if (header.alg !== "RS256" || typeof header.kid !== "string") {
+    throw new TokenError("ID token must be RS256-signed with a key id");
+  }
+
+  const key = await signingKey(header.kid, env, now);
+  if (!key) throw new TokenError("ID token signed with an unknown key");
+  let valid: boolean;
+  try {
+    valid = await crypto.subtle.verify(
+      "RSASSA-PKCS1-v1_5",
+      key,
+      signature,
+      new TextEncoder().encode(`${headerPart}.${payloadPart}`),
+    );
+  } catch {
+    valid = false;
+  }
+  if (!valid) throw new TokenError("ID token signature is invalid");
+
+  const projectId = env.FIREBASE_PROJECT_ID;
+  const nowS = now / 1000;
+  if (claims.aud !== projectId) {
+    throw new TokenError("ID token was issued for another project");
+  }
+  if (claims.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new TokenError("ID token has the wrong issuer");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_S <= nowS) {
+    throw new TokenError("ID token has expired", "TOKEN_EXPIRED");
+  }
+  if (typeof claims.iat !== "number" || claims.iat - CLOCK_SKEW_S > nowS) {
+    throw new TokenError("ID token was issued in the future");
+  }
+  if (
+    typeof claims.sub !== "string" ||
+    claims.sub.length === 0 ||
+    claims.sub.length > 128
+  ) {
+    throw new TokenError("ID token has no valid subject");
+  }
+  return claims.sub;
+}
+
+/**
+ * The public key for `kid`, from the cached key set. An unknown kid on a key
+ * set fetched from Google prompts a refresh (at most once a minute), in case
+ * Google rotated keys ahead of the cache expiry.
+ */
+async function signingKey(
+  kid: string,
+  env: Partial<Env>,
+  now: number,
+): Promise<CryptoKey | undefined> {
+  const source = env.FIREBASE_JWKS ?? JWKS_URL;
+  let keySet =
+    keySetCache?.source === source && keySetCache.keySet.expires > now
+      ? keySetCache.keySet
+      : null;
+  const rotated =
+    keySet !== null &&
+    !keySet.keys.has(kid) &&
+    !env.FIREBASE_JWKS &&
+    now - keySet.fetched >= JWKS_REFRESH_FLOOR_MS;
+  if (!keySet || rotated) {
+    keySet = await loadKeySet(env, now);
+    keySetCache = { source, keySet };
+  }
+  return keySet.keys.get(kid);
+}
+
+async function loadKeySet(env: Partial<Env>, now: number): Promise<KeySet> {
+  let document: { keys?: Jwk[] };
+  let ttl = DEFAULT_JWKS_TTL_MS;
+  if (env.FIREBASE_JWKS) {
+    try {
+      document = JSON.parse(env.FIREBASE_JWKS);
+      if (!isObject(document)) throw new Error("not a JSON object");
+    } catch (e) {
+      console.error(`FIREBASE_JWKS is malformed: ${e}`);
+      throw new KeySetUnavailable("FIREBASE_JWKS is malformed");
+    }
+    ttl = Infinity;
+  } else {
+    let response: Response;
+    try {
+      response = await fetch(JWKS_URL);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      document = await response.json();
+    } catch (e) {
+      throw new KeySetUnavailable(`JWKS fetch failed: ${e}`);
+    }
+    const maxAge = /max-age=(\d+)/.exec(
+      response.headers.get("Cache-Control") ?? "",
+    );
+    if (maxAge) ttl = Number(maxAge[1]) * 1000;
+  }
+
+  // A key that will not import is left out, so a token naming it fails as
+  // signed with an unknown key rather than taking the whole set down.
+  const keys = new Map<string, CryptoKey>();
+  for (const jwk of document.keys ?? []) {
+    if (jwk.kty !== "RSA" || !jwk.kid) continue;
+    try {
+      keys.set(
+        jwk.kid,
+        await crypto.subtle.importKey(
+          "jwk",
+          { kty: jwk.kty, n: jwk.n, e: jwk.e, alg: "RS256", ext: true },
+          { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+          false,
+          ["verify"],
+        ),
+      );
+    } catch (e) {
+      console.error(`JWKS key ${jwk.kid} did not import: ${e}`);
+    }
+  }
+  return { keys, fetched: now, expires: now + ttl };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const b64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+function base64UrlDecodeText(value: string): string {
+  return new TextDecoder().decode(base64UrlDecode(value));
+}
@@ -0,0 +1,608 @@
+/**
+ * CatalogService routes: the shared festival catalogue for the /v1alpha API.
+ *
+ * Routes (CatalogService in proto/.../catalog_service.proto):
+ *   GET /v1alpha/festivals                         list the festivals
+ *   GET /v1alpha/festivals/{f}                     get one festival
+ *   GET /v1alpha/festivals/{f}/drinks              list the festival's drinks
+ *   GET /v1alpha/festivals/{f}/drinks/{d}          get one drink
+ *   GET /v1alpha/festivals/{f}/drinks:search?q=    ranked drink search
+ *   GET /v1alpha/festivals/{f}/producers           list the festival's producers
+ *   GET /v1alpha/festivals/{f}/producers/{p}       get one producer
+ *
+ * ListDrinkChanges (`drinkChanges`), which reads D1 rather than the upstream,
+ * is routed separately (changes.ts).
+ *
+ * Festivals come from the registry embedded in the worker (festivals.json),
+ * reshaped by toFestival; their list takes an AIP-160 `filter` on `active`,
+ * matched in memory (filter.ts).
+ *
+ * A festival's catalogue is its beverage lists on the upstream data API (one
+ * `{type}.json` per available beverage type, see festivals.ts), reshaped into
+ * the contract's resources. Each product becomes a Drink, categorised by the
+ * list it came from — so the "foreign beer" products of
+ * international-beer.json are `international-beer`, the quirk that
+ * CATEGORY_TO_ENDPOINT in functions/_lib/drink-preview.js maps by hand — with
+ * a ProducerReference to its producer. Each producer becomes a Producer once,
+ * however many lists it appears in. Both take the list's `timestamp` as their
+ * updateTime (a producer, its latest).
+ *
+ * The catalogue is cached per isolate for five minutes — long enough to spare
+ * the upstream a fetch per request, short enough that availability stays
+ * current during a festival. The lists come through the edge cache
+ * (edgecache.ts), which serves a stale copy while the upstream is down; only
+ * while a list is neither fetchable nor cached are the routes 503 UNAVAILABLE.
+ *
+ * Every list is ordered by ID and, as the proto specifies, return everything
+ * in one page unless page_size asks for less; their page tokens are the
+ * shared keyset tokens (AIP-158). Search (search.ts) pages its ranked results
+ * with tokens tied to the query. The catalogue is public: these routes need
+ * no credentials.
+ */
+
+import type { components } from "./src/api-types";
+import {
+  type CorsHeaders,
+  type Env,
+  isValidId,
+  parseV1alphaPath,
+  jsonResponse,
+  errorResponse,
+  methodNotAllowed,
+  encodePageToken,
+  encodeKeysetToken,
+  resolvePageRequest,
+  resolveKeysetPageRequest,
+} from "./shared.js";
+import {
+  type FestivalRecord,
+  type FestivalRegistry,
+  type UpstreamProducer,
+  type UpstreamProduct,
+  resolveFestival,
+  toFestival,
+  fetchBeverageList,
+  drinkNotFound,
+} from "./festivals.js";
+import { type FilterFields, resolveFilter } from "./filter.js";
+import {
+  type SearchIndex,
+  buildSearchIndex,
+  queryTerms,
+  searchIndex,
+} from "./search.js";
+
+type Festival = components["schemas"]["Festival"];
+type ListFestivalsResponse = components["schemas"]["ListFestivalsResponse"];
+type Drink = components["schemas"]["Drink"];
+type Availability = NonNullable<Drink["availability"]>;
+type Producer = components["schemas"]["Producer"];
+type ListDrinksResponse = components["schemas"]["ListDrinksResponse"];
+type SearchDrinksResponse = components["schemas"]["SearchDrinksResponse"];
+type ListProducersResponse = components["schemas"]["ListProducersResponse"];
+
+const CATALOG_TTL_MS = 5 * 60 * 1000;
+const MAX_QUERY_LENGTH = 200;
+// The lists' default page: everything (the proto's "single page" default).
+const LIST_DEFAULT_PAGE_SIZE = Number.POSITIVE_INFINITY;
+
+const FESTIVAL_FILTER_FIELDS: FilterFields = {
+  active: { type: "boolean" },
+};
+
+// The festivals' status-text vocabulary, lowercased; any other text is
+// AVAILABILITY_UNKNOWN. Mirrors _statusMap in lib/models/drink.dart.
+const AVAILABILITY: Record<string, Availability> = {
+  "sold out": "AVAILABILITY_OUT",
+  "nearly finished!": "AVAILABILITY_VERY_LOW",
+  "a little remaining": "AVAILABILITY_LOW",
+  "some beer remaining": "AVAILABILITY_GOOD",
+  "plenty left": "AVAILABILITY_PLENTY",
+  arrived: "AVAILABILITY_PLENTY",
+};
+
+/**
+ * A festival's drinks and producers, each keyed and ordered by ID, with the
+ * drinks' search index.
+ */
+export interface FestivalCatalog {
+  drinks: Map<string, Drink>;
+  producers: Map<string, Producer>;
+  index: SearchIndex;
+}
+
+// Per-isolate catalogues by festival. Failed fetches are not cached.
+const catalogCache = new Map<
+  string,
+  { catalog: FestivalCatalog; expires: number }
+>();
+
+export async function handleCatalog(
+  request: Request,
+  url: URL,
+  env: Env,
+  corsHeaders: CorsHeaders,
+  festivals: FestivalRegistry,
+  executionCtx: ExecutionContext,
+): Promise<Response | null> {
+  const segments = parseV1alphaPath(url.pathname);
+  if (!segments || segments[0] !== "festivals") return null;
+
+  // /v1alpha/festivals and /v1alpha/festivals/{f}
+  const isFestivalPath = segments.length <= 2;
+  // /v1alpha/festivals/{f}/{drinks|producers}[/{id}] or .../drinks:search
+  const collection = segments[2];
+  const isSearch = segments.length === 3 && collection === "drinks:search";
+  const isCatalogPath =
+    (collection === "drinks" || collection === "producers") &&
+    segments.length <= 4;
+  if (!isFestivalPath && !isSearch && !isCatalogPath) return null;
+  if (request.method !== "GET") return methodNotAllowed(corsHeaders);
+
+  if (segments.length === 1) return listFestivals(festivals, url, corsHeaders);
+
+  const festivalId = segments[1];
+  const resourceId = segments.length === 4 ? segments[3] : null;
+  if (
+    !isValidId(festivalId) ||
+    (resourceId !== null && !isValidId(resourceId))
+  ) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      "Invalid resource name",
+      "INVALID_RESOURCE_NAME",
+      corsHeaders,
+    );
+  }
+  const festivalResult = resolveFestival(
+    festivals,
+    festivalId,
+    env,
+    corsHeaders,
+  );
+  if ("error" in festivalResult) return festivalResult.error;
+  const { festival } = festivalResult;
+
+  if (isFestivalPath) {
+    return jsonResponse<Festival>(
+      toFestival(festival, festivals, url.origin),
+      200,
+      corsHeaders,
+    );
+  }
+  if (isSearch) {
+    return searchDrinks(festival, env, executionCtx, url, corsHeaders);
+  }
+  if (collection === "drinks") {
+    return resourceId === null
+      ? listDrinks(festival, env, executionCtx, url, corsHeaders)
+      : getDrink(festival, env, executionCtx, resourceId, corsHeaders);
+  }
+  return resourceId === null
+    ? listProducers(festival, env, executionCtx, url, corsHeaders)
+    : getProducer(festival, env, executionCtx, resourceId, corsHeaders);
+}
+
+function listFestivals(
+  registry: FestivalRegistry,
+  url: URL,
+  corsHeaders: CorsHeaders,
+): Response {
+  const filterResult = resolveFilter(url, FESTIVAL_FILTER_FIELDS, corsHeaders);
+  if ("error" in filterResult) return filterResult.error;
+  const { filter, raw: scope } = filterResult;
+  const pageRequest = resolvePageRequest(
+    url,
+    corsHeaders,
+    scope,
+    LIST_DEFAULT_PAGE_SIZE,
+  );
+  if ("error" in pageRequest) return pageRequest.error;
+
+  const festivals = new Map<string, Festival>();
+  for (const festival of registry.festivals) {
+    if (filter && !filter.matches({ active: festival.is_active ? 1 : 0 })) {
+      continue;
+    }
+    festivals.set(festival.id, toFestival(festival, registry, url.origin));
+  }
+  const { page, nextPageToken } = pageByKey(
+    sortByKey(festivals),
+    pageRequest,
+    scope,
+  );
+  return jsonResponse<ListFestivalsResponse>(
+    { festivals: page, nextPageToken, totalSize: festivals.size },
+    200,
+    corsHeaders,
+  );
+}
+
+async function listDrinks(
+  festival: FestivalRecord,
+  env: Env,
+  executionCtx: ExecutionContext,
+  url: URL,
+  corsHeaders: CorsHeaders,
+): Promise<Response> {
+  const pageRequest = resolvePageRequest(
+    url,
+    corsHeaders,
+    "",
+    LIST_DEFAULT_PAGE_SIZE,
+  );
+  if ("error" in pageRequest) return pageRequest.error;
+  const catalogResult = await loadCatalog(
+    festival,
+    env,
+    executionCtx,
+    corsHeaders,
+  );
+  if ("error" in catalogResult) return catalogResult.error;
+  const { drinks } = catalogResult.catalog;
+
+  const { page, nextPageToken } = pageByKey(drinks, pageRequest);
+  return jsonResponse<ListDrinksResponse>(
+    { drinks: page, nextPageToken, totalSize: drinks.size },
+    200,
+    corsHeaders,
+  );
+}
+
+async function getDrink(
+  festival: FestivalRecord,
+  env: Env,
+  executionCtx: ExecutionContext,
+  drinkId: string,
+  corsHeaders: CorsHeaders,
+): Promise<Response> {
+  const catalogResult = await loadCatalog(
+    festival,
+    env,
+    executionCtx,
+    corsHeaders,
+  );
+  if ("error" in catalogResult) return catalogResult.error;
+  const drink = catalogResult.catalog.drinks.get(drinkId);
+  if (!drink) return drinkNotFound(festival.id, drinkId, corsHeaders);
+  return jsonResponse(drink, 200, corsHeaders);
+}
+
+async function listProducers(
+  festival: FestivalRecord,
+  env: Env,
+  executionCtx: ExecutionContext,
+  url: URL,
+  corsHeaders: CorsHeaders,
+): Promise<Response> {
+  const pageRequest = resolvePageRequest(
+    url,
+    corsHeaders,
+    "",
+    LIST_DEFAULT_PAGE_SIZE,
+  );
+  if ("error" in pageRequest) return pageRequest.error;
+  const catalogResult = await loadCatalog(
+    festival,
+    env,
+    executionCtx,
+    corsHeaders,
+  );
+  if ("error" in catalogResult) return catalogResult.error;
+  const { producers } = catalogResult.catalog;
+
+  const { page, nextPageToken } = pageByKey(producers, pageRequest);
+  return jsonResponse<ListProducersResponse>(
+    { producers: page, nextPageToken, totalSize: producers.size },
+    200,
+    corsHeaders,
+  );
+}
+
+async function getProducer(
+  festival: FestivalRecord,
+  env: Env,
+  executionCtx: ExecutionContext,
+  producerId: string,
+  corsHeaders: CorsHeaders,
+): Promise<Response> {
+  const catalogResult = await loadCatalog(
+    festival,
+    env,
+    executionCtx,
+    corsHeaders,
+  );
+  if ("error" in catalogResult) return catalogResult.error;
+  const producer = catalogResult.catalog.producers.get(producerId);
+  if (!producer) {
+    return errorResponse(
+      404,
+      "NOT_FOUND",
+      `Producer "${producerId}" is not listed at festival "${festival.id}"`,
+      "PRODUCER_NOT_FOUND",
+      corsHeaders,
+    );
+  }
+  return jsonResponse(producer, 200, corsHeaders);
+}
+
+/**
+ * One page of an ID-ordered map, after the cursor's key. `scope` is the scope
+ * of the request's tokens (see encodePageToken).
+ */
+function pageByKey<T>(
+  items: Map<string, T>,
+  { pageSize, cursor }: { pageSize: number; cursor: string | null },
+  scope = "",
+): { page: T[]; nextPageToken: string } {
+  const keys = [...items.keys()];
+  let start = cursor === null ? 0 : keys.findIndex((key) => key > cursor);
+  if (start === -1) start = keys.length;
+  const pageKeys = keys.slice(start, start + pageSize);
+  const nextPageToken =
+    start + pageSize < keys.length
+      ? encodePageToken(pageKeys[pageKeys.length - 1], scope)
+      : "";
+  return { page: pageKeys.map((key) => items.get(key)!), nextPageToken };
+}
+
+async function searchDrinks(
+  festival: FestivalRecord,
+  env: Env,
+  executionCtx: ExecutionContext,
+  url: URL,
+  corsHeaders: CorsHeaders,
+): Promise<Response> {
+  const query = url.searchParams.get("q") ?? "";
+  const terms = queryTerms(query);
+  if (terms.length === 0 || query.length > MAX_QUERY_LENGTH) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      `q must contain at least one word (max ${MAX_QUERY_LENGTH} chars)`,
+      "INVALID_QUERY",
+      corsHeaders,
+    );
+  }
+  // Tokens continue the folded query, so "Kölsch" and "kolsch" share pages.
+  const scope = terms.join(" ");
+  const pageRequest = resolveKeysetPageRequest(url, corsHeaders, scope);
+  if ("error" in pageRequest) return pageRequest.error;
+  const { pageSize, cursor } = pageRequest;
+
+  const catalogResult = await loadCatalog(
+    festival,
+    env,
+    executionCtx,
+    corsHeaders,
+  );
+  if ("error" in catalogResult) return catalogResult.error;
+  const { drinks, index } = catalogResult.catalog;
+
+  const matches = searchIndex(index, terms);
+  let start = 0;
+  if (cursor !== null) {
+    start = matches.findIndex(
+      (m) =>
+        m.score < cursor.value ||
+        (m.score === cursor.value && m.drinkId > cursor.id),
+    );
+    if (start === -1) start = matches.length;
+  }
+  const page = matches.slice(start, start + pageSize);
+
+  let nextPageToken = "";
+  if (start + pageSize < matches.length) {
+    const last = page[page.length - 1];
+    nextPageToken = encodeKeysetToken(
+      { value: last.score, id: last.drinkId },
+      scope,
+    );
+  }
+
+  return jsonResponse<SearchDrinksResponse>(
+    {
+      drinks: page.map((m) => drinks.get(m.drinkId)!),
+      nextPageToken,
+      totalSize: matches.length,
+    },
+    200,
+    corsHeaders,
+  );
+}
+
+/**
+ * A festival's catalogue, from the isolate's cache or freshly fetched, or a
+ * 503 UNAVAILABLE while its beverage lists cannot be fetched.
+ */
+export async function loadCatalog(
+  festival: FestivalRecord,
+  env: Partial<Env>,
+  executionCtx: ExecutionContext,
+  corsHeaders: CorsHeaders,
+): Promise<{ catalog: FestivalCatalog } | { error: Response }> {
+  const now = Date.now();
+  const cached = catalogCache.get(festival.id);
+  if (cached && cached.expires > now) return { catalog: cached.catalog };
+
+  const types = festival.available_beverage_types ?? [];
+  let lists;
+  try {
+    lists = await Promise.all(
+      types.map((type) => fetchBeverageList(festival, type, env, executionCtx)),
+    );
+  } catch (e) {
+    console.error(`Catalogue unavailable for ${festival.id}: ${e}`);
+    return {
+      error: errorResponse(
+        503,
+        "UNAVAILABLE",
+        `The drinks for festival "${festival.id}" cannot be fetched; retry later`,
+        "CATALOG_UNAVAILABLE",
+        corsHeaders,
+      ),
+    };
+  }
+
+  const drinks = new Map<string, Drink>();
+  const producers = new Map<string, Producer>();
+  for (const [i, list] of lists.entries()) {
+    const updateTime = timestamp(list.timestamp);
+    for (const producer of list.producers ?? []) {
+      const producerId = text(producer.id);
+      if (isValidId(producerId)) {
+        const listed = producers.get(producerId);
+        producers.set(
+          producerId,
+          listed
+            ? laterUpdate(listed, updateTime)
+            : toProducer(festival.id, producerId, producer, updateTime),
+        );
+      }
+      for (const product of producer.products ?? []) {
+        // A drink listed twice keeps its first listing.
+        const drinkId = text(product.id);
+        if (drinks.has(drinkId)) continue;
+        const drink = toDrink(
+          festival.id,
+          types[i],
+          producer,
+          product,
+          updateTime,
+        );
+        if (drink) drinks.set(drinkId, drink);
+      }
+    }
+  }
+  const catalog = {
+    drinks: sortByKey(drinks),
+    producers: sortByKey(producers),
+    index: buildSearchIndex(drinks),
+  };
+  catalogCache.set(festival.id, { catalog, expires: now + CATALOG_TTL_MS });
+  return { catalog };
+}
+
+/**
+ * Reshape an upstream product into a Drink, or null when it has no usable ID.
+ * Unset fields are omitted, as proto3 JSON does.
+ */
+export function toDrink(
+  festivalId: string,
+  category: string,
+  producer: UpstreamProducer,
+  product: UpstreamProduct,
+  updateTime: string | null,
+): Drink | null {
+  const drinkId = text(product.id);
+  if (!isValidId(drinkId)) return null;
+
+  const style = text(product.style);
+  const dispense = text(product.dispense);
+  const notes = text(product.notes);
+  const statusText = text(product.status_text).trim();
+  // `bar` is a bar's name, or a boolean for "at an unnamed bar".
+  const bar = typeof product.bar === "boolean" ? "" : text(product.bar);
+  const vegan = flag(product.is_vegan ?? product.vegan);
+  const producerId = text(producer.id);
+  return {
+    name: `festivals/${festivalId}/drinks/${drinkId}`,
+    displayName: text(product.name),
+    category,
+    ...(style && { style }),
+    ...(dispense && { dispense }),
+    abv: abv(product.abv),
+    ...(notes && { tastingNotes: notes }),
+    ...(statusText && {
+      statusText,
+      availability: availabilityOf(statusText),
+    }),
+    ...(bar && { bar }),
+    allergens: allergens(product.allergens),
+    ...(vegan !== null && { vegan }),
+    ...(isValidId(producerId) && {
+      producer: {
+        producer: `festivals/${festivalId}/producers/${producerId}`,
+        displayName: text(producer.name),
+      },
+    }),
+    ...(updateTime && { updateTime }),
+  };
+}
+
+/** The Availability a (non-empty) status text reports. */
+export function availabilityOf(statusText: string): Availability {
+  return AVAILABILITY[statusText.toLowerCase()] ?? "AVAILABILITY_UNKNOWN";
+}
+
+/** Reshape an upstream producer into a Producer. */
+function toProducer(
+  festivalId: string,
+  producerId: string,
+  producer: UpstreamProducer,
+  updateTime: string | null,
+): Producer {
+  const location = text(producer.location);
+  const foundingYear = parseInt(text(producer.year_founded), 10);
+  const notes = text(producer.notes);
+  return {
+    name: `festivals/${festivalId}/producers/${producerId}`,
+    displayName: text(producer.name),
+    ...(location && { location }),
+    ...(foundingYear > 0 && { foundingYear }),
+    ...(notes && { notes }),
+    ...(updateTime && { updateTime }),
+  };
+}
+
+// A producer listed again in another list keeps its first listing's fields,
+// and the later of the lists' update times.
+function laterUpdate(producer: Producer, updateTime: string | null): Producer {
+  if (!updateTime || (producer.updateTime ?? "") >= updateTime) {
+    return producer;
+  }
+  return { ...producer, updateTime };
+}
+
+function sortByKey<T>(items: Map<string, T>): Map<string, T> {
+  return new Map([...items].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" || typeof value === "number"
+    ? String(value)
+    : "";
+}
+
+// ABV as a number or numeric string; 0 when unknown.
+function abv(value: unknown): number {
+  const n = typeof value === "number" ? value : parseFloat(text(value));
+  return Number.isFinite(n) ? n : 0;
+}
+
+// Allergens arrive as `{ name: indicator }`; a truthy indicator (1, true, a
+// non-empty string) declares the allergen.
+function allergens(value: unknown): string[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return [];
+  return Object.entries(value)
+    .filter(([name, present]) => name && present && present !== "0")
+    .map(([name]) => name);
+}
+
+// A boolean that may arrive as a number or a "true"/"yes"/"1" string.
+function flag(value: unknown): boolean | null {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  if (typeof value === "string") {
+    const normalized = value.toLowerCase();
+    if (["true", "1", "yes"].includes(normalized)) return true;
+    if (["false", "0", "no"].includes(normalized)) return false;
+  }
+  return null;
+}
+
+function timestamp(value: unknown): string | null {
+  const millis = typeof value === "string" ? Date.parse(value) : NaN;
+  return Number.isNaN(millis) ? null : new Date(millis).toISOString();
+}
@@ -0,0 +1,457 @@
+/**
+ * The drink change feed (CatalogService ListDrinkChanges): what changed in a
+ * festival's beverage lists, drink by drink.
+ *
+ * Availability moves all day during a festival ("Sold out", "Nearly
+ * finished!"), and clients should not have to re-download every list to
+ * notice. A cron trigger (DRINK_CHANGES_CRON) fetches the beverage lists of
+ * each active festival (`is_active` in festivals.json) and diffs every list
+ * against its last snapshot in `drink_snapshots` (migration 0006): a drink new
+ * to the list is ADDED, one gone from it REMOVED, and one whose status text
+ * changed STATUS_CHANGED. The changes are appended to `drink_changes` and the
+ * snapshot rewritten in one D1 batch. A list's first snapshot is its baseline
+ * and records no changes; a list that cannot be fetched, that the upstream
+ * does not serve (404), or that it serves with no drinks at all, is skipped
+ * rather than reported as emptied — an empty list is more likely a glitch
+ * upstream than every drink gone at once.
+ *
+ *   GET /v1alpha/festivals/{f}/drinkChanges?since=&page_size=&page_token=
+ *
+ * lists the changes after `since` (RFC 3339; default: every change), oldest
+ * first. The feed is open-ended, so next_page_token is always set: a page
+ * shorter than page_size means the caller is up to date, and the token picks
+ * up from there on its next poll (`since` is ignored alongside a token).
+ * Tokens are the shared page tokens over the change's id and the time they
+ * were issued, scoped to the festival.
+ *
+ * Changes are kept for CHANGE_RETENTION_MS; the daily housekeeping purges
+ * older ones. A token older than that may sit before changes since purged, so
+ * it is refused as expired (reason PAGE_TOKEN_EXPIRED) — the client reloads
+ * the lists and polls afresh.
+ *
+ * Each poll's changes are also pushed to the festival's watchers as
+ * `drinkChange` events (watch.ts), with the feed's token after each change as
+ * the event id.
+ */
+
+import type { components } from "./src/api-types";
+import {
+  type CorsHeaders,
+  type Env,
+  isValidId,
+  parseV1alphaPath,
+  errorResponse,
+  jsonResponse,
+  methodNotAllowed,
+  encodePageToken,
+  resolvePageRequest,
+  rfc3339,
+} from "./shared.js";
+import {
+  type FestivalRecord,
+  type FestivalRegistry,
+  resolveFestival,
+  fetchBeverageList,
+} from "./festivals.js";
+import { availabilityOf, toDrink } from "./catalog.js";
+import { publishToWatchers } from "./watch.js";
+
+type DrinkChange = components["schemas"]["DrinkChange"];
+type ListDrinkChangesResponse =
+  components["schemas"]["ListDrinkChangesResponse"];
+
+/** The cron schedule (wrangler.toml) that polls for drink changes. */
+export const DRINK_CHANGES_CRON = "*/5 * * * *";
+
+/** How long recorded changes, and the tokens pointing into them, last. */
+export const CHANGE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+type ChangeType = "ADDED" | "REMOVED" | "STATUS_CHANGED";
+
+/** A drink's state in one beverage list, as snapshotted. */
+interface SnapshotRow {
+  drink_id: string;
+  display_name: string;
+  status_text: string;
+}
+
+interface ChangeRow {
+  id: number;
+  beverage_type: string;
+  drink_id: string;
+  change_type: ChangeType;
+  display_name: string;
+  status_text: string;
+  previous_status_text: string;
+  change_time: number;
+}
+
+const INSERT_CHANGE =
+  "INSERT INTO drink_changes (festival_id, beverage_type, drink_id, " +
+  "change_type, display_name, status_text, previous_status_text, " +
+  "change_time) VALUES (?, ?, ?, ?, ?, ?, ?, ?)";
+
+const UPSERT_SNAPSHOT =
+  "INSERT INTO drink_snapshots (festival_id, beverage_type, drink_id, " +
+  "display_name, status_text) VALUES (?, ?, ?, ?, ?) " +
+  "ON CONFLICT (festival_id, beverage_type, drink_id) DO UPDATE SET " +
+  "display_name = excluded.display_name, status_text = excluded.status_text";
+
+/**
+ * Diff the beverage lists of every active festival against their snapshots,
+ * record the changes and publish them to the festival's watchers. Returns the
+ * number recorded; a no-op without a database.
+ */
+export async function recordDrinkChanges(
+  env: Partial<Env>,
+  registry: FestivalRegistry,
+  now: number = Date.now(),
+): Promise<number> {
+  const db = env?.RATINGS_DB;
+  if (!db) return 0;
+  let recorded = 0;
+  for (const festival of registry.festivals) {
+    if (festival.is_active !== true) continue;
+    const changes: ChangeRow[] = [];
+    for (const type of festival.available_beverage_types ?? []) {
+      try {
+        changes.push(...(await diffBeverageList(db, festival, type, now)));
+      } catch (e) {
+        console.error(`Drink changes: skipped ${festival.id}/${type}: ${e}`);
+      }
+    }
+    recorded += changes.length;
+    await publishToWatchers(
+      env,
+      festival.id,
+      changes.map((row) => ({
+        event: "drinkChange",
+        data: toDrinkChange(festival.id, row),
+        id: encodeFeedToken(festival.id, row.id, now),
+      })),
+    );
+  }
+  return recorded;
+}
+
+// Diff one beverage list against its snapshot, recording the changes and
+// rewriting the snapshot. Returns the changes recorded.
+async function diffBeverageList(
+  db: D1Database,
+  festival: FestivalRecord,
+  type: string,
+  now: number,
+): Promise<ChangeRow[]> {
+  const list = await fetchBeverageList(festival, type);
+  if (!list.producers?.length) return [];
+
+  const prefix = `festivals/${festival.id}/drinks/`;
+  const current = new Map<string, SnapshotRow>();
+  for (const producer of list.producers) {
+    for (const product of producer.products ?? []) {
+      const drink = toDrink(festival.id, type, producer, product, null);
+      if (!drink?.name) continue;
+      const drinkId = drink.name.slice(prefix.length);
+      if (current.has(drinkId)) continue;
+      current.set(drinkId, {
+        drink_id: drinkId,
+        display_name: drink.displayName ?? "",
+        status_text: drink.statusText ?? "",
+      });
+    }
+  }
+  if (current.size === 0) return [];
+
+  const { results: rows } = await db
+    .prepare(
+      "SELECT drink_id, display_name, status_text FROM drink_snapshots " +
+        "WHERE festival_id = ? AND beverage_type = ?",
+    )
+    .bind(festival.id, type)
+    .all<SnapshotRow>();
+  const previous = new Map(rows.map((row) => [row.drink_id, row]));
+  const baseline = previous.size === 0;
+
+  const statements: D1PreparedStatement[] = [];
+  // Each change, and the index of the statement inserting it.
+  const changes: { row: ChangeRow; index: number }[] = [];
+  const record = (
+    changeType: ChangeType,
+    drink: SnapshotRow,
+    previousStatus: string,
+  ) => {
+    if (baseline) return;
+    const row: ChangeRow = {
+      id: 0,
+      beverage_type: type,
+      drink_id: drink.drink_id,
+      change_type: changeType,
+      display_name: drink.display_name,
+      status_text: changeType === "REMOVED" ? "" : drink.status_text,
+      previous_status_text: previousStatus,
+      change_time: now,
+    };
+    changes.push({ row, index: statements.length });
+    statements.push(
+      db
+        .prepare(INSERT_CHANGE)
+        .bind(
+          festival.id,
+          row.beverage_type,
+          row.drink_id,
+          row.change_type,
+          row.display_name,
+          row.status_text,
+          row.previous_status_text,
+          row.change_time,
+        ),
+    );
+  };
+
+  for (const [drinkId, drink] of current) {
+    const before = previous.get(drinkId);
+    if (
+      before?.display_name === drink.display_name &&
+      before.status_text === drink.status_text
+    ) {
+      continue;
+    }
+    statements.push(
+      db
+        .prepare(UPSERT_SNAPSHOT)
+        .bind(
+          festival.id,
+          type,
+          drinkId,
+          drink.display_name,
+          drink.status_text,
+        ),
+    );
+    if (!before) record("ADDED", drink, "");
+    else if (before.status_text !== drink.status_text) {
+      record("STATUS_CHANGED", drink, before.status_text);
+    }
+  }
+  for (const [drinkId, before] of previous) {
+    if (current.has(drinkId)) continue;
+    statements.push(
+      db
+        .prepare(
+          "DELETE FROM drink_snapshots " +
+            "WHERE festival_id = ? AND beverage_type = ? AND drink_id = ?",
+        )
+        .bind(festival.id, type, drinkId),
+    );
+    record("REMOVED", before, before.status_text);
+  }
+
+  if (statements.length === 0) return [];
+  const results = await db.batch(statements);
+  return changes.map(({ row, index }) => ({
+    ...row,
+    id: results[index].meta.last_row_id,
+  }));
+}
+
+// The page token scope of a festival's feed.
+function feedScope(festivalId: string): string {
+  return `drinkChanges/${festivalId}`;
+}
+
+// A feed token's cursor is `{change id}:{issue time}`, both integers.
+function encodeFeedToken(
+  festivalId: string,
+  id: number,
+  issuedAt: number,
+): string {
+  return encodePageToken(`${id}:${issuedAt}`, feedScope(festivalId));
+}
+
+function parseFeedCursor(
+  cursor: string,
+): { afterId: number; issuedAt: number } | null {
+  const match = /^(\d+):(\d+)$/.exec(cursor);
+  if (!match) return null;
+  const [afterId, issuedAt] = [Number(match[1]), Number(match[2])];
+  if (!Number.isSafeInteger(afterId) || !Number.isSafeInteger(issuedAt)) {
+    return null;
+  }
+  return { afterId, issuedAt };
+}
+
+/**
+ * Delete changes recorded longer ago than the retention window. Run from the
+ * worker's scheduled handler; returns the number purged.
+ */
+export async function purgeDrinkChanges(
+  env: Partial<Env>,
+  now: number = Date.now(),
+): Promise<number> {
+  const db = env?.RATINGS_DB;
+  if (!db) return 0;
+  const result = await db
+    .prepare("DELETE FROM drink_changes WHERE change_time < ?")
+    .bind(now - CHANGE_RETENTION_MS)
+    .run();
+  return result.meta?.changes ?? 0;
+}
+
+export async function handleDrinkChanges(
+  request: Request,
+  url: URL,
+  env: Env,
+  corsHeaders: CorsHeaders,
+  festivals: FestivalRegistry,
+): Promise<Response | null> {
+  const segments = parseV1alphaPath(url.pathname);
+  if (
+    !segments ||
+    segments.length !== 3 ||
+    segments[0] !== "festivals" ||
+    segments[2] !== "drinkChanges"
+  ) {
+    return null;
+  }
+  if (request.method !== "GET") return methodNotAllowed(corsHeaders);
+
+  const festivalId = segments[1];
+  if (!isValidId(festivalId)) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      "Invalid resource name",
+      "INVALID_RESOURCE_NAME",
+      corsHeaders,
+    );
+  }
+  const festivalResult = resolveFestival(
+    festivals,
+    festivalId,
+    env,
+    corsHeaders,
+  );
+  if ("error" in festivalResult) return festivalResult.error;
+  return listDrinkChanges(festivalResult.festival, url, env, corsHeaders);
+}
+
+async function listDrinkChanges(
+  festival: FestivalRecord,
+  url: URL,
+  env: Partial<Env>,
+  corsHeaders: CorsHeaders,
+): Promise<Response> {
+  const db = env?.RATINGS_DB;
+  if (!db) {
+    return errorResponse(
+      503,
+      "UNAVAILABLE",
+      "Storage is not configured",
+      "STORAGE_UNCONFIGURED",
+      corsHeaders,
+    );
+  }
+
+  const page = resolvePageRequest(url, corsHeaders, feedScope(festival.id));
+  if ("error" in page) return page.error;
+
+  const now = Date.now();
+  const conditions = ["festival_id = ?"];
+  const binds: unknown[] = [festival.id];
+  let afterId: number | null = null;
+  if (page.cursor !== null) {
+    const cursor = parseFeedCursor(page.cursor);
+    if (!cursor) {
+      return errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        "Invalid page_token, or one issued for a different query",
+        "INVALID_PAGE_TOKEN",
+        corsHeaders,
+      );
+    }
+    if (cursor.issuedAt < now - CHANGE_RETENTION_MS) {
+      return errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        "page_token has expired; reload the drink lists and poll again " +
+          "without it",
+        "PAGE_TOKEN_EXPIRED",
+        corsHeaders,
+      );
+    }
+    afterId = cursor.afterId;
+    conditions.push("id > ?");
+    binds.push(afterId);
+  } else {
+    const rawSince = url.searchParams.get("since");
+    if (rawSince) {
+      const since = Date.parse(rawSince);
+      if (Number.isNaN(since)) {
+        return errorResponse(
+          400,
+          "INVALID_ARGUMENT",
+          "since must be an RFC 3339 timestamp",
+          "INVALID_SINCE",
+          corsHeaders,
+        );
+      }
+      conditions.push("change_time > ?");
+      binds.push(since);
+    }
+  }
+
+  // Both in one batch, so no change can land between the page and the
+  // feed's end that an empty page resumes from.
+  const [changesResult, lastResult] = await db.batch([
+    db
+      .prepare(
+        "SELECT id, beverage_type, drink_id, change_type, display_name, " +
+          "status_text, previous_status_text, change_time " +
+          `FROM drink_changes WHERE ${conditions.join(" AND ")} ` +
+          "ORDER BY id LIMIT ?",
+      )
+      .bind(...binds, page.pageSize),
+    db
+      .prepare(
+        "SELECT COALESCE(MAX(id), 0) AS id FROM drink_changes " +
+          "WHERE festival_id = ?",
+      )
+      .bind(festival.id),
+  ]);
+  const rows = changesResult.results as ChangeRow[];
+
+  // An empty page resumes from where the caller already was: its token's
+  // position, or else the end of the feed (nothing after `since` lies
+  // before it).
+  let resumeId: number;
+  if (rows.length > 0) resumeId = rows[rows.length - 1].id;
+  else if (afterId !== null) resumeId = afterId;
+  else resumeId = (lastResult.results[0] as { id: number }).id;
+
+  return jsonResponse<ListDrinkChangesResponse>(
+    {
+      drinkChanges: rows.map((row) => toDrinkChange(festival.id, row)),
+      nextPageToken: encodeFeedToken(festival.id, resumeId, now),
+    },
+    200,
+    corsHeaders,
+  );
+}
+
+function toDrinkChange(festivalId: string, row: ChangeRow): DrinkChange {
+  return {
+    drink: `festivals/${festivalId}/drinks/${row.drink_id}`,
+    changeType: `CHANGE_TYPE_${row.change_type}`,
+    displayName: row.display_name,
+    category: row.beverage_type,
+    ...(row.status_text && {
+      statusText: row.status_text,
+      availability: availabilityOf(row.status_text),
+    }),
+    ...(row.previous_status_text && {
+      previousStatusText: row.previous_status_text,
+      previousAvailability: availabilityOf(row.previous_status_text),
+    }),
+    changeTime: rfc3339(row.change_time),
+  };
+}
@@ -0,0 +1,775 @@
+/**
+ * CheckIn resource handler: the caller's My Festival timeline (ADR 0006).
+ *
+ * Routes (MyFestivalService in proto/.../my_festival_service.proto):
+ *   POST   /v1alpha/festivals/{f}/checkIns?checkInId=   create a check-in
+ *   GET    /v1alpha/festivals/{f}/checkIns              list caller's timeline
+ *   GET    /v1alpha/festivals/{f}/checkIns/{c}          get a check-in
+ *   PATCH  /v1alpha/festivals/{f}/checkIns/{c}          update a check-in
+ *   DELETE /v1alpha/festivals/{f}/checkIns/{c}          soft-delete a check-in
+ *
+ * A check-in is a timestamped entry that may reference a drink: with a
+ * `drinkId` it is a tasting, which can carry a per-pour `rating` and
+ * `wouldRecommend`; without one it is a freeform entry (a `title` such as
+ * "Scotch egg from the pie stall"), and a rating or recommendation on it is
+ * INVALID_ARGUMENT. The kind is never stored — it follows from `drinkId`.
+ * Per-pour ratings stay on the timeline: the review summaries count the
+ * drink-level rating of the DrinkEntry (entries.ts), not these.
+ *
+ * The client assigns each check-in's ID, a UUID, on create (AIP-133), so a
+ * create queued offline can be replayed: a second create with the same ID is
+ * ALREADY_EXISTS rather than a duplicate. `checkInTime` defaults to the create
+ * time and can be backdated, then edited like any other field; it is never
+ * cleared, so an update that sends it absent keeps it. Request shapes
+ * otherwise follow entries.ts: the body is the CheckIn itself, `updateMask`
+ * is a query parameter, and output-only fields and `name` are ignored.
+ *
+ * The list is the timeline, in checkInTime order (oldest first, or newest
+ * with `order_by=checkInTime desc`), and takes the AIP-160 filter of
+ * filter.ts. Deletion is soft, as for drink entries: DELETE sets `deleted_at`,
+ * GET still serves the tombstone, lists include it under show_deleted, and
+ * purgeDeletedCheckIns removes it after the retention window.
+ *
+ * Creates and updates are refused once the festival has closed, and may check
+ * drink IDs against its beverage lists (festivals.ts); deletes are always
+ * allowed.
+ */
+
+import type { components } from "./src/api-types";
+import {
+  type CorsHeaders,
+  type Env,
+  type FieldError,
+  resolveBucket,
+  rfc3339,
+  isValidId,
+  parseV1alphaPath,
+  queryParam,
+  validateStarRating,
+  validateWouldRecommend,
+  jsonResponse,
+  errorResponse,
+  methodNotAllowed,
+  encodeKeysetToken,
+  resolveKeysetPageRequest,
+} from "./shared.js";
+import { type FilterFields, resolveFilter } from "./filter.js";
+import { resolveCaller } from "./auth.js";
+import { DELETED_RETENTION_MS, validateNote } from "./entries.js";
+import {
+  type FestivalRegistry,
+  resolveFestival,
+  catalogDrinkIds,
+  drinkNotFound,
+} from "./festivals.js";
+
+type CheckIn = components["schemas"]["CheckIn"];
+type ListCheckInsResponse = components["schemas"]["ListCheckInsResponse"];
+
+// Every check-in the server returns carries its name, time and timestamps.
+type Resource = CheckIn &
+  Required<Pick<CheckIn, "name" | "checkInTime" | "createTime" | "updateTime">>;
+
+const MAX_TITLE_LENGTH = 200;
+// How far ahead of the server's clock a checkInTime may be: a phone's clock
+// drifts, but a check-in is of something that has happened.
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/** A client-assigned ID: a UUID, in either case. */
+export const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The writable columns of a `check_ins` row. NULL means "not set".
+interface CheckInColumns {
+  check_in_time: number;
+  drink_id: string | null;
+  title: string | null;
+  note: string | null;
+  rating: number | null;
+  recommend: number | null;
+}
+
+// D1 row shapes returned by SQL queries.
+interface CheckInRow extends CheckInColumns {
+  check_in_id: string;
+  created_at: number;
+  updated_at: number;
+  deleted_at: number | null;
+}
+interface TotalRow {
+  n: number;
+}
+
+type CheckInField =
+  "checkInTime" | "drinkId" | "title" | "note" | "rating" | "wouldRecommend";
+
+type FieldResult = { value: number | string } | { error: FieldError };
+
+// Writable CheckIn fields: the column each is stored in, and how a present
+// (non-null) value is validated. Absent/null clears the column, except
+// checkInTime's, which is kept.
+const CHECK_IN_FIELDS: Record<
+  CheckInField,
+  { column: keyof CheckInColumns; validate: (value: unknown) => FieldResult }
+> = {
+  checkInTime: { column: "check_in_time", validate: validateCheckInTime },
+  drinkId: { column: "drink_id", validate: validateDrinkId },
+  title: { column: "title", validate: validateTitle },
+  note: { column: "note", validate: validateNote },
+  rating: { column: "rating", validate: validateRating },
+  wouldRecommend: { column: "recommend", validate: validateWouldRecommend },
+};
+
+// Fields a ListCheckIns filter can name (AIP-160, see filter.ts).
+const CHECK_IN_FILTER_FIELDS: FilterFields = {
+  checkInTime: { sql: "check_in_time", type: "timestamp" },
+  rating: { sql: "rating", type: "integer" },
+  wouldRecommend: { sql: "recommend", type: "boolean" },
+  createTime: { sql: "created_at", type: "timestamp" },
+  updateTime: { sql: "updated_at", type: "timestamp" },
+  deleteTime: { sql: "deleted_at", type: "timestamp" },
+};
+
+// update_mask paths may use the proto field names or their JSON names.
+const MASK_ALIASES: Record<string, CheckInField> = {
+  check_in_time: "checkInTime",
+  drink_id: "drinkId",
+  would_recommend: "wouldRecommend",
+};
+
+const CHECK_IN_COLUMNS =
+  "check_in_id, check_in_time, drink_id, title, note, rating, recommend, " +
+  "created_at, updated_at, deleted_at";
+
+interface CheckInCtx {
+  db: D1Database;
+  bucket: string;
+  festivalId: string;
+  deviceId: string;
+  userId: string | null;
+  url: URL;
+  corsHeaders: CorsHeaders;
+  /** The festival's drink IDs when they are checked (festivals.ts). */
+  catalog: Set<string> | null;
+}
+
+function validateCheckInTime(value: unknown): FieldResult {
+  const millis = typeof value === "string" ? Date.parse(value) : NaN;
+  if (Number.isNaN(millis) || millis > Date.now() + MAX_CLOCK_SKEW_MS) {
+    return {
+      error: {
+        message:
+          "checkInTime must be an RFC 3339 timestamp no later than the present",
+        reason: "CHECK_IN_TIME_INVALID",
+      },
+    };
+  }
+  return { value: millis };
+}
+
+function validateDrinkId(value: unknown): FieldResult {
+  if (typeof value !== "string" || !isValidId(value)) {
+    return {
+      error: {
+        message: "drinkId must be a drink ID (non-empty, max 200 chars)",
+        reason: "DRINK_ID_INVALID",
+      },
+    };
+  }
+  return { value };
+}
+
+function validateTitle(value: unknown): FieldResult {
+  // Length is in Unicode characters (code points), as for notes.
+  if (typeof value !== "string" || [...value].length > MAX_TITLE_LENGTH) {
+    return {
+      error: {
+        message: `title must be a string of at most ${MAX_TITLE_LENGTH} characters`,
+        reason: "TITLE_INVALID",
+      },
+    };
+  }
+  return { value };
+}
+
+function validateRating(value: unknown): FieldResult {
+  if ("error" in validateStarRating(value)) {
+    return {
+      error: {
+        message: "rating must be an integer between 1 and 5",
+        reason: "RATING_OUT_OF_RANGE",
+      },
+    };
+  }
+  return { value: value as number };
+}
+
+/**
+ * Validate a CheckIn body against its update mask, returning the columns to
+ * write. No mask (or "*") writes every field, so an absent one is cleared —
+ * except checkInTime, which is only ever replaced.
+ */
+function parseCheckInFields(
+  body: unknown,
+  maskRaw: string | null,
+): { columns: Partial<CheckInColumns> } | { error: FieldError } {
+  if (body === null || typeof body !== "object" || Array.isArray(body)) {
+    return {
+      error: { message: "Body must be a JSON object", reason: "INVALID_BODY" },
+    };
+  }
+  const checkIn = body as Record<string, unknown>;
+
+  let fields = Object.keys(CHECK_IN_FIELDS) as CheckInField[];
+  if (maskRaw !== null && maskRaw.length > 0 && maskRaw !== "*") {
+    const paths = maskRaw.split(",").map((s) => s.trim());
+    const resolved = paths.map((p) => MASK_ALIASES[p] ?? p);
+    const unknown = paths.filter((_, i) => !(resolved[i] in CHECK_IN_FIELDS));
+    if (unknown.length > 0) {
+      return {
+        error: {
+          message: `Unknown updateMask field(s): ${unknown.join(", ")}`,
+          reason: "UNKNOWN_FIELD_MASK",
+        },
+      };
+    }
+    fields = [...new Set(resolved as CheckInField[])];
+  }
+
+  const columns: Partial<CheckInColumns> = {};
+  for (const field of fields) {
+    const { column, validate } = CHECK_IN_FIELDS[field];
+    const value = checkIn[field];
+    if (value === undefined || value === null || value === "") {
+      if (field !== "checkInTime") {
+        (columns as Record<string, null>)[column] = null;
+      }
+      continue;
+    }
+    const result = validate(value);
+    if ("error" in result) return result;
+    (columns as Record<string, number | string>)[column] = result.value;
+  }
+  return { columns };
+}
+
+/** Reject a freeform check-in (no drink) that carries a rating. */
+function validateKind(columns: CheckInColumns): FieldError | null {
+  if (
+    columns.drink_id === null &&
+    (columns.rating !== null || columns.recommend !== null)
+  ) {
+    return {
+      message:
+        "Only a tasting (a check-in with a drinkId) can carry a rating or wouldRecommend",
+      reason: "RATING_WITHOUT_DRINK",
+    };
+  }
+  return null;
+}
+
+/** Route a request, or return null if the path doesn't match a check-in route. */
+export async function handleCheckIns(
+  request: Request,
+  url: URL,
+  env: Env,
+  corsHeaders: CorsHeaders,
+  festivals: FestivalRegistry,
+  executionCtx: ExecutionContext,
+): Promise<Response | null> {
+  const segments = parseV1alphaPath(url.pathname);
+  // /v1alpha/festivals/{f}/checkIns[/{c}]
+  if (
+    !segments ||
+    segments[0] !== "festivals" ||
+    segments[2] !== "checkIns" ||
+    (segments.length !== 3 && segments.length !== 4)
+  ) {
+    return null;
+  }
+  const isCollection = segments.length === 3;
+
+  if (!env?.RATINGS_DB) {
+    return errorResponse(
+      503,
+      "UNAVAILABLE",
+      "Storage is not configured",
+      "STORAGE_UNCONFIGURED",
+      corsHeaders,
+    );
+  }
+
+  const festivalId = segments[1];
+  const checkInId = isCollection ? null : segments[3];
+  if (
+    !isValidId(festivalId) ||
+    (checkInId !== null && !UUID_PATTERN.test(checkInId))
+  ) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      "Invalid resource name",
+      "INVALID_RESOURCE_NAME",
+      corsHeaders,
+    );
+  }
+  // Deletes stay open after the festival closes; creates and updates do not.
+  const isWrite =
+    (isCollection && request.method === "POST") ||
+    (!isCollection && request.method === "PATCH");
+  const festivalResult = resolveFestival(
+    festivals,
+    festivalId,
+    env,
+    corsHeaders,
+    { write: isWrite },
+  );
+  if ("error" in festivalResult) return festivalResult.error;
+
+  const callerResult = await resolveCaller(request, env, corsHeaders);
+  if ("error" in callerResult) return callerResult.error;
+  const { deviceId, userId } = callerResult.caller;
+  const catalog = isWrite
+    ? await catalogDrinkIds(festivalResult.festival, env, executionCtx)
+    : null;
+
+  const ctx: CheckInCtx = {
+    db: env.RATINGS_DB,
+    bucket: resolveBucket(request.headers.get("Origin") ?? "", env),
+    festivalId,
+    deviceId,
+    userId,
+    url,
+    corsHeaders,
+    catalog,
+  };
+  if (checkInId === null) {
+    switch (request.method) {
+      case "GET":
+        return listCheckIns(ctx);
+      case "POST":
+        return createCheckIn(request, ctx);
+      default:
+        return methodNotAllowed(corsHeaders);
+    }
+  }
+  // IDs are stored as they were created: lower case.
+  const id = checkInId.toLowerCase();
+  switch (request.method) {
+    case "GET":
+      return getCheckIn(id, ctx);
+    case "PATCH":
+      return updateCheckIn(request, id, ctx);
+    case "DELETE":
+      return deleteCheckIn(id, ctx);
+    default:
+      return methodNotAllowed(corsHeaders);
+  }
+}
+
+function checkInName(festivalId: string, checkInId: string): string {
+  return `festivals/${festivalId}/checkIns/${checkInId}`;
+}
+
+function serializeCheckIn(festivalId: string, row: CheckInRow): Resource {
+  const resource: Resource = {
+    name: checkInName(festivalId, row.check_in_id),
+    checkInTime: rfc3339(row.check_in_time),
+    createTime: rfc3339(row.created_at),
+    updateTime: rfc3339(row.updated_at),
+    ...(row.deleted_at != null && { deleteTime: rfc3339(row.deleted_at) }),
+  };
+  if (row.drink_id != null) resource.drinkId = row.drink_id;
+  if (row.title != null) resource.title = row.title;
+  if (row.note != null) resource.note = row.note;
+  if (row.rating != null) resource.rating = row.rating;
+  if (row.recommend != null) resource.wouldRecommend = Boolean(row.recommend);
+  return resource;
+}
+
+function notFound(corsHeaders: CorsHeaders): Response {
+  return errorResponse(
+    404,
+    "NOT_FOUND",
+    "No check-in found",
+    "NOT_FOUND",
+    corsHeaders,
+  );
+}
+
+function invalidArgument(error: FieldError, corsHeaders: CorsHeaders) {
+  return errorResponse(
+    400,
+    "INVALID_ARGUMENT",
+    error.message,
+    error.reason,
+    corsHeaders,
+  );
+}
+
+async function readBody(
+  request: Request,
+  corsHeaders: CorsHeaders,
+): Promise<{ body: unknown } | { error: Response }> {
+  try {
+    return { body: await request.json() };
+  } catch {
+    return {
+      error: errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        "Invalid JSON body",
+        "INVALID_BODY",
+        corsHeaders,
+      ),
+    };
+  }
+}
+
+async function readCheckInRow(
+  checkInId: string,
+  ctx: CheckInCtx,
+): Promise<CheckInRow | null> {
+  const { db, bucket, festivalId, deviceId } = ctx;
+  return db
+    .prepare(
+      `SELECT ${CHECK_IN_COLUMNS} FROM check_ins ` +
+        "WHERE bucket = ? AND festival_id = ? AND device_id = ? AND check_in_id = ?",
+    )
+    .bind(bucket, festivalId, deviceId, checkInId)
+    .first<CheckInRow>();
+}
+
+/**
+ * Validate a write's resulting row against the rules spanning fields — the
+ * kind, and the drink's being listed — or return the error response.
+ */
+function checkRow(
+  row: CheckInColumns,
+  written: Partial<CheckInColumns>,
+  ctx: CheckInCtx,
+): Response | null {
+  const kindError = validateKind(row);
+  if (kindError) return invalidArgument(kindError, ctx.corsHeaders);
+  // Only a drink the write sets is checked; one already stored stands.
+  const drinkId = written.drink_id;
+  if (drinkId != null && ctx.catalog && !ctx.catalog.has(drinkId)) {
+    return drinkNotFound(ctx.festivalId, drinkId, ctx.corsHeaders);
+  }
+  return null;
+}
+
+async function createCheckIn(
+  request: Request,
+  ctx: CheckInCtx,
+): Promise<Response> {
+  const { db, bucket, festivalId, deviceId, userId, url, corsHeaders } = ctx;
+
+  const checkInId = queryParam(url, "checkInId", "check_in_id");
+  if (checkInId === null || !UUID_PATTERN.test(checkInId)) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      "checkInId is required and must be a UUID",
+      "INVALID_CHECK_IN_ID",
+      corsHeaders,
+    );
+  }
+
+  const bodyResult = await readBody(request, corsHeaders);
+  if ("error" in bodyResult) return bodyResult.error;
+  const parsed = parseCheckInFields(bodyResult.body, null);
+  if ("error" in parsed) return invalidArgument(parsed.error, corsHeaders);
+
+  const now = Date.now();
+  const row: CheckInRow = {
+    check_in_time: now,
+    drink_id: null,
+    title: null,
+    note: null,
+    rating: null,
+    recommend: null,
+    ...parsed.columns,
+    check_in_id: checkInId.toLowerCase(),
+    created_at: now,
+    updated_at: now,
+    deleted_at: null,
+  };
+  const rowError = checkRow(row, parsed.columns, ctx);
+  if (rowError) return rowError;
+
+  // The ID is the client's, so a replayed create finds it taken — deleted
+  // or not — and writes nothing.
+  const result = await db
+    .prepare(
+      "INSERT INTO check_ins (bucket, festival_id, device_id, check_in_id, " +
+        "user_id, drink_id, title, note, rating, recommend, check_in_time, " +
+        "created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) " +
+        "ON CONFLICT DO NOTHING",
+    )
+    .bind(
+      bucket,
+      festivalId,
+      deviceId,
+      row.check_in_id,
+      userId,
+      row.drink_id,
+      row.title,
+      row.note,
+      row.rating,
+      row.recommend,
+      row.check_in_time,
+      now,
+      now,
+    )
+    .run();
+  if (!result.meta?.changes) {
+    return errorResponse(
+      409,
+      "ALREADY_EXISTS",
+      `Check-in ${row.check_in_id} already exists`,
+      "CHECK_IN_EXISTS",
+      corsHeaders,
+    );
+  }
+
+  return jsonResponse<Resource>(
+    serializeCheckIn(festivalId, row),
+    200,
+    corsHeaders,
+  );
+}
+
+async function getCheckIn(
+  checkInId: string,
+  ctx: CheckInCtx,
+): Promise<Response> {
+  const row = await readCheckInRow(checkInId, ctx);
+  if (!row) return notFound(ctx.corsHeaders);
+  // A tombstone is still served, with deleteTime set (AIP-164).
+  return jsonResponse<Resource>(
+    serializeCheckIn(ctx.festivalId, row),
+    200,
+    ctx.corsHeaders,
+  );
+}
+
+async function updateCheckIn(
+  request: Request,
+  checkInId: string,
+  ctx: CheckInCtx,
+): Promise<Response> {
+  const { db, bucket, festivalId, deviceId, url, corsHeaders } = ctx;
+
+  const bodyResult = await readBody(request, corsHeaders);
+  if ("error" in bodyResult) return bodyResult.error;
+  const parsed = parseCheckInFields(
+    bodyResult.body,
+    queryParam(url, "updateMask", "update_mask"),
+  );
+  if ("error" in parsed) return invalidArgument(parsed.error, corsHeaders);
+
+  const existing = await readCheckInRow(checkInId, ctx);
+  if (!existing || existing.deleted_at !== null) return notFound(corsHeaders);
+
+  const now = Date.now();
+  const row: CheckInRow = { ...existing, ...parsed.columns, updated_at: now };
+  const rowError = checkRow(row, parsed.columns, ctx);
+  if (rowError) return rowError;
+
+  // A delete that raced ours leaves nothing to update.
+  const result = await db
+    .prepare(
+      "UPDATE check_ins SET check_in_time = ?, drink_id = ?, title = ?, " +
+        "note = ?, rating = ?, recommend = ?, updated_at = ? " +
+        "WHERE bucket = ? AND festival_id = ? AND device_id = ? " +
+        "AND check_in_id = ? AND deleted_at IS NULL",
+    )
+    .bind(
+      row.check_in_time,
+      row.drink_id,
+      row.title,
+      row.note,
+      row.rating,
+      row.recommend,
+      now,
+      bucket,
+      festivalId,
+      deviceId,
+      checkInId,
+    )
+    .run();
+  if (!result.meta?.changes) return notFound(corsHeaders);
+
+  return jsonResponse<Resource>(
+    serializeCheckIn(festivalId, row),
+    200,
+    corsHeaders,
+  );
+}
+
+async function deleteCheckIn(
+  checkInId: string,
+  ctx: CheckInCtx,
+): Promise<Response> {
+  const { db, bucket, festivalId, deviceId, url, corsHeaders } = ctx;
+  const allowMissing =
+    queryParam(url, "allowMissing", "allow_missing") === "true";
+
+  const now = Date.now();
+  const deleted = await db
+    .prepare(
+      "UPDATE check_ins SET deleted_at = ?, updated_at = ? " +
+        "WHERE bucket = ? AND festival_id = ? AND device_id = ? " +
+        "AND check_in_id = ? AND deleted_at IS NULL " +
+        `RETURNING ${CHECK_IN_COLUMNS}`,
+    )
+    .bind(now, now, bucket, festivalId, deviceId, checkInId)
+    .first<CheckInRow>();
+  if (deleted) {
+    return jsonResponse<Resource>(
+      serializeCheckIn(festivalId, deleted),
+      200,
+      corsHeaders,
+    );
+  }
+
+  // Deleting a tombstone again is NOT_FOUND, like a missing check-in; with
+  // allowMissing a replay gets the tombstone it created the first time.
+  if (!allowMissing) return notFound(corsHeaders);
+  const tombstone = await readCheckInRow(checkInId, ctx);
+  if (!tombstone) return jsonResponse({}, 200, corsHeaders);
+  return jsonResponse<Resource>(
+    serializeCheckIn(festivalId, tombstone),
+    200,
+    corsHeaders,
+  );
+}
+
+/**
+ * Parse the list's `order_by`: checkInTime, optionally followed by `asc` or
+ * `desc`. Unset is oldest first.
+ */
+function resolveTimelineOrder(
+  url: URL,
+  corsHeaders: CorsHeaders,
+): { desc: boolean } | { error: Response } {
+  const raw = (url.searchParams.get("order_by") ?? "").trim();
+  if (raw === "") return { desc: false };
+
+  const match = /^(\w+)(?:\s+(asc|desc))?$/i.exec(raw);
+  if (!match) {
+    return {
+      error: errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        `Invalid order_by "${raw}"; expected checkInTime, optionally followed by asc or desc`,
+        "INVALID_ORDER_BY",
+        corsHeaders,
+      ),
+    };
+  }
+  if (match[1] !== "checkInTime" && match[1] !== "check_in_time") {
+    return {
+      error: errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        `Unsupported order_by field: ${match[1]} (supported: checkInTime)`,
+        "UNSUPPORTED_ORDER_BY_FIELD",
+        corsHeaders,
+      ),
+    };
+  }
+  return { desc: match[2]?.toLowerCase() === "desc" };
+}
+
+async function listCheckIns(ctx: CheckInCtx): Promise<Response> {
+  const { db, bucket, festivalId, deviceId, url, corsHeaders } = ctx;
+
+  const filterResult = resolveFilter(url, CHECK_IN_FILTER_FIELDS, corsHeaders);
+  if ("error" in filterResult) return filterResult.error;
+  const { filter, raw } = filterResult;
+
+  const orderResult = resolveTimelineOrder(url, corsHeaders);
+  if ("error" in orderResult) return orderResult.error;
+  const { desc } = orderResult;
+
+  // A cursor read oldest first means nothing newest first, so tokens are
+  // scoped to the direction as well as the filter and show_deleted.
+  const showDeleted = queryParam(url, "showDeleted", "show_deleted") === "true";
+  let scope = showDeleted ? `${raw}\nshow_deleted=true` : raw;
+  if (desc) scope += "\norder_by=checkInTime desc";
+  const pageRequest = resolveKeysetPageRequest(url, corsHeaders, scope);
+  if ("error" in pageRequest) return pageRequest.error;
+  const { pageSize, cursor } = pageRequest;
+
+  const where = ["bucket = ?", "festival_id = ?", "device_id = ?"];
+  const binds: unknown[] = [bucket, festivalId, deviceId];
+  if (!showDeleted) {
+    where.push("deleted_at IS NULL");
+  }
+  if (filter) {
+    where.push(filter.sql);
+    binds.push(...filter.binds);
+  }
+  const totalWhere = where.join(" AND ");
+  const totalBinds = [...binds];
+  if (cursor !== null) {
+    // Check-ins past the cursor's time in the list's direction, or at the
+    // same time and later by ID.
+    const past = desc ? "<" : ">";
+    where.push(
+      `(check_in_time ${past} ? OR (check_in_time = ? AND check_in_id > ?))`,
+    );
+    binds.push(cursor.value, cursor.value, cursor.id);
+  }
+
+  const { results } = await db
+    .prepare(
+      `SELECT ${CHECK_IN_COLUMNS} FROM check_ins ` +
+        `WHERE ${where.join(" AND ")} ` +
+        `ORDER BY check_in_time ${desc ? "DESC" : "ASC"}, check_in_id LIMIT ?`,
+    )
+    .bind(...binds, pageSize + 1)
+    .all<CheckInRow>();
+
+  const page = results.slice(0, pageSize);
+  const checkIns = page.map((row) => serializeCheckIn(festivalId, row));
+
+  let nextPageToken = "";
+  if (results.length > pageSize) {
+    const last = page[page.length - 1];
+    nextPageToken = encodeKeysetToken(
+      { value: last.check_in_time, id: last.check_in_id },
+      scope,
+    );
+  }
+
+  const totalRow = await db
+    .prepare(`SELECT COUNT(*) AS n FROM check_ins WHERE ${totalWhere}`)
+    .bind(...totalBinds)
+    .first<TotalRow>();
+
+  return jsonResponse<ListCheckInsResponse>(
+    { checkIns, nextPageToken, totalSize: totalRow?.n ?? 0 },
+    200,
+    corsHeaders,
+  );
+}
+
+/**
+ * Permanently remove check-ins soft-deleted longer ago than the retention
+ * window. Run from the worker's scheduled handler; returns the number purged.
+ */
+export async function purgeDeletedCheckIns(
+  env: Partial<Env>,
+  now: number = Date.now(),
+): Promise<number> {
+  if (!env?.RATINGS_DB) return 0;
+  const result = await env.RATINGS_DB.prepare(
+    "DELETE FROM check_ins WHERE deleted_at IS NOT NULL AND deleted_at < ?",
+  )
+    .bind(now - DELETED_RETENTION_MS)
+    .run();
+  return result.meta?.changes ?? 0;
+}
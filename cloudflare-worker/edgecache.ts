@@ -0,0 +1,273 @@
+/**
+ * Edge cache for the proxied beverage lists (`/{festivalId}/{type}.json`).
+ *
+ * Each list fetched from the upstream data API is kept in the Workers Cache
+ * API (`caches.default`, one cache per data centre), so a slow or failing
+ * upstream does not take the app down mid-festival. A cached list is served:
+ *
+ * - while fresh (`fresh` seconds after it was fetched) straight from the
+ *   cache — `X-Cache: HIT`;
+ * - for `staleWhileRevalidate` seconds after that, still from the cache,
+ *   while a background refresh (`ctx.waitUntil`) fetches the upstream —
+ *   `X-Cache: STALE`;
+ * - after that, only once a refresh has answered — `X-Cache: MISS`.
+ *
+ * When a refresh fails — the fetch throws or the upstream answers 5xx — the
+ * cached copy is served however old it is (up to RETAIN_SECONDS), marked
+ * `X-Cache: STALE-IF-ERROR`. Any other non-2xx answer, such as the 404 for a
+ * beverage type the festival does not have, passes through uncached.
+ *
+ * Every cached list carries a strong ETag, a digest of its body, and a
+ * Last-Modified: the upstream's when it sends one, else the time the body was
+ * first seen — a refresh returning the same body keeps it. A client's
+ * If-None-Match or If-Modified-Since is answered from them with 304, and a
+ * refresh sends the upstream's own validators back to it, so an unchanged
+ * list is re-stamped fresh without downloading it again.
+ *
+ * The windows below can be overridden, as a whole or per festival, with an
+ * UPSTREAM_CACHE var holding JSON, e.g.
+ * `{"default":{"fresh":30},"cbf2024":{"fresh":86400}}`.
+ *
+ * Besides the proxy (worker.js), the /v1alpha catalogue, export and drink-ID
+ * checks read their lists through here (festivals.ts fetchBeverageList).
+ */
+
+import type { Env } from "./shared.js";
+import { contentEtag, isNotModified } from "./etag.js";
+
+/** How long a cached list is served without and with a refresh (seconds). */
+export interface CacheWindows {
+  fresh: number;
+  staleWhileRevalidate: number;
+}
+
+export type CacheStatus = "HIT" | "MISS" | "STALE" | "STALE-IF-ERROR";
+
+export const DEFAULT_CACHE_WINDOWS: CacheWindows = {
+  fresh: 60,
+  staleWhileRevalidate: 10 * 60,
+};
+
+// How long a list stays in the cache at all: the stale-if-error horizon.
+const RETAIN_SECONDS = 7 * 24 * 60 * 60;
+
+// Internal headers of a cached copy, never served: when it was fetched (epoch
+// millis), and the upstream's validators for revalidating it.
+const FETCHED_AT_HEADER = "X-Upstream-Fetched-At";
+const UPSTREAM_ETAG_HEADER = "X-Upstream-ETag";
+const UPSTREAM_MODIFIED_HEADER = "X-Upstream-Last-Modified";
+
+const USER_AGENT = "Cambridge-Beer-Festival-App-Proxy/1.0";
+
+// A festival's beverage list: `/{festivalId}/{type}.json`.
+const BEVERAGE_LIST_PATH = /^\/([^/]+)\/[^/]+\.json$/;
+
+// Per-isolate parse of UPSTREAM_CACHE, keyed by its text.
+let overridesCache: {
+  source: string;
+  overrides: Record<string, Partial<CacheWindows>>;
+} | null = null;
+
+// Upstream URLs with a background refresh in flight in this isolate, so a
+// burst of requests for a stale list refreshes it once.
+const refreshing = new Set<string>();
+
+/** The festival ID of a beverage-list path, or null for any other path. */
+export function beverageListFestivalId(pathname: string): string | null {
+  return BEVERAGE_LIST_PATH.exec(pathname)?.[1] ?? null;
+}
+
+/**
+ * GET an upstream beverage list through the edge cache, or 304 when the
+ * request's validators still match. The response carries no CORS headers;
+ * the caller adds them. Throws when the upstream cannot be reached and
+ * nothing is cached.
+ */
+export async function fetchBeverageListCached(
+  request: Request,
+  upstreamUrl: string,
+  festivalId: string,
+  env: Partial<Env>,
+  ctx: ExecutionContext,
+): Promise<Response> {
+  const cache = caches.default;
+  const windows = resolveCacheWindows(env, festivalId);
+  const cached = await cache.match(upstreamUrl);
+
+  if (cached) {
+    const age = ageSeconds(cached);
+    if (age < windows.fresh)
+      return serveCached(request, cached, "HIT", windows);
+    if (age < windows.fresh + windows.staleWhileRevalidate) {
+      if (!refreshing.has(upstreamUrl)) {
+        refreshing.add(upstreamUrl);
+        ctx.waitUntil(
+          refresh(cache, upstreamUrl, cached.clone())
+            .catch((e) =>
+              console.error(`Refreshing ${upstreamUrl} failed: ${e}`),
+            )
+            .finally(() => refreshing.delete(upstreamUrl)),
+        );
+      }
+      return serveCached(request, cached, "STALE", windows);
+    }
+  }
+
+  let response: Response;
+  try {
+    response = await refresh(cache, upstreamUrl, cached?.clone());
+  } catch (e) {
+    if (!cached) throw e;
+    console.error(`Serving stale ${upstreamUrl}: ${e}`);
+    return serveCached(request, cached, "STALE-IF-ERROR", windows);
+  }
+  if (response.status >= 500 && cached) {
+    return serveCached(request, cached, "STALE-IF-ERROR", windows);
+  }
+  return response.ok
+    ? serveCached(request, response, "MISS", windows)
+    : response;
+}
+
+/**
+ * The effective windows for a festival: the defaults, then UPSTREAM_CACHE's
+ * `default`, then its entry for the festival. Negative or non-numeric values
+ * are ignored.
+ */
+export function resolveCacheWindows(
+  env: Partial<Env>,
+  festivalId: string,
+): CacheWindows {
+  const source = env?.UPSTREAM_CACHE ?? "";
+  if (overridesCache?.source !== source) {
+    let overrides: Record<string, Partial<CacheWindows>> = {};
+    if (source) {
+      try {
+        overrides = JSON.parse(source) ?? {};
+      } catch {
+        console.error("UPSTREAM_CACHE is not valid JSON; using the defaults");
+      }
+    }
+    overridesCache = { source, overrides };
+  }
+  const { overrides } = overridesCache;
+  const windows = { ...DEFAULT_CACHE_WINDOWS };
+  for (const override of [overrides.default, overrides[festivalId]]) {
+    for (const name of ["fresh", "staleWhileRevalidate"] as const) {
+      const value = override?.[name];
+      if (typeof value === "number" && value >= 0) windows[name] = value;
+    }
+  }
+  return windows;
+}
+
+/**
+ * Fetch a list from the upstream — conditionally, when `previous` (the
+ * cached copy being replaced) has the upstream's validators — and store it.
+ * Returns the stored copy, or the upstream's answer when it is neither 2xx
+ * nor a 304 for `previous`.
+ */
+async function refresh(
+  cache: Cache,
+  upstreamUrl: string,
+  previous: Response | undefined,
+): Promise<Response> {
+  const requestHeaders: Record<string, string> = { "User-Agent": USER_AGENT };
+  const previousEtag = previous?.headers.get(UPSTREAM_ETAG_HEADER);
+  const previousModified = previous?.headers.get(UPSTREAM_MODIFIED_HEADER);
+  if (previousEtag) requestHeaders["If-None-Match"] = previousEtag;
+  if (previousModified) requestHeaders["If-Modified-Since"] = previousModified;
+  const upstream = await fetch(upstreamUrl, {
+    method: "GET",
+    headers: requestHeaders,
+  });
+  const now = Date.now();
+
+  let stored: Response;
+  if (upstream.status === 304 && previous) {
+    const headers = new Headers(previous.headers);
+    headers.set(FETCHED_AT_HEADER, String(now));
+    stored = new Response(previous.body, { status: 200, headers });
+  } else if (upstream.ok) {
+    stored = await storedCopy(upstream, previous, now);
+  } else {
+    return upstream;
+  }
+  await cache.put(upstreamUrl, stored.clone());
+  return stored;
+}
+
+// An upstream 2xx as cached: its body with our validators and its own.
+async function storedCopy(
+  upstream: Response,
+  previous: Response | undefined,
+  now: number,
+): Promise<Response> {
+  const body = await upstream.arrayBuffer();
+  const etag = `"${await contentEtag(body)}"`;
+  const upstreamModified = Date.parse(
+    upstream.headers.get("Last-Modified") ?? "",
+  );
+  let lastModified = new Date(now).toUTCString();
+  if (!Number.isNaN(upstreamModified)) {
+    lastModified = new Date(upstreamModified).toUTCString();
+  } else if (previous?.headers.get("ETag") === etag) {
+    lastModified = previous.headers.get("Last-Modified") ?? lastModified;
+  }
+
+  const headers = new Headers({
+    "Content-Type":
+      upstream.headers.get("Content-Type") ?? "application/json; charset=utf-8",
+    ETag: etag,
+    "Last-Modified": lastModified,
+    "Cache-Control": `public, max-age=${RETAIN_SECONDS}`,
+    [FETCHED_AT_HEADER]: String(now),
+  });
+  const upstreamEtag = upstream.headers.get("ETag");
+  if (upstreamEtag) headers.set(UPSTREAM_ETAG_HEADER, upstreamEtag);
+  if (!Number.isNaN(upstreamModified)) {
+    headers.set(UPSTREAM_MODIFIED_HEADER, lastModified);
+  }
+  return new Response(body, { status: 200, headers });
+}
+
+// A stored copy as served to clients: its age and remaining freshness, the
+// cache status, and validators readable cross-origin. 304 without the body
+// when the request's validators match.
+function serveCached(
+  request: Request,
+  stored: Response,
+  status: CacheStatus,
+  windows: CacheWindows,
+): Response {
+  const age = ageSeconds(stored);
+  const headers = new Headers(stored.headers);
+  for (const name of [
+    FETCHED_AT_HEADER,
+    UPSTREAM_ETAG_HEADER,
+    UPSTREAM_MODIFIED_HEADER,
+  ]) {
+    headers.delete(name);
+  }
+  if (Number.isFinite(age)) headers.set("Age", String(age));
+  headers.set(
+    "Cache-Control",
+    `public, max-age=${Math.max(0, windows.fresh - age)}`,
+  );
+  headers.set("X-Cache", status);
+  headers.set("Access-Control-Expose-Headers", "ETag, Last-Modified, X-Cache");
+  const etag = (headers.get("ETag") ?? "").replace(/^"(.*)"$/, "$1");
+  if (isNotModified(request, etag, headers.get("Last-Modified"))) {
+    headers.delete("Content-Type");
+    headers.delete("Content-Length");
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(stored.body, { status: 200, headers });
+}
+
+// Whole seconds since a stored copy was fetched.
+function ageSeconds(stored: Response): number {
+  const fetchedAt = Number(stored.headers.get(FETCHED_AT_HEADER));
+  if (!Number.isFinite(fetchedAt) || fetchedAt <= 0) return Infinity;
+  return Math.max(0, Math.floor((Date.now() - fetchedAt) / 1000));
+}
@@ -0,0 +1,1171 @@
+/**
+ * DrinkEntry resource handler for the /v1alpha "my festival" API.
+ *
+ * Routes (MyFestivalService in proto/.../my_festival_service.proto):
+ *   GET    /v1alpha/festivals/{f}/drinks/{d}/entry   get caller's entry
+ *   PATCH  /v1alpha/festivals/{f}/drinks/{d}/entry   update caller's entry
+ *   DELETE /v1alpha/festivals/{f}/drinks/{d}/entry   soft-delete caller's entry
+ *   POST   /v1alpha/festivals/{f}/drinks/{d}/entry:undelete
+ *                                                    restore a deleted entry
+ *   GET    /v1alpha/festivals/{f}/drinkEntries       list caller's entries
+ *   POST   /v1alpha/festivals/{f}/drinkEntries:batchUpdate
+ *                                                    apply queued updates
+ *
+ * Unlike the review routes, these serve the contract's DrinkEntry directly —
+ * the resource and list shapes are the generated types from src/api-types.ts.
+ * Both surfaces read and write the same `reviews` rows (see migration 0002), so
+ * a rating written by an older app build through the review routes shows up
+ * here, and vice versa.
+ *
+ * Request shapes follow the proto's HTTP transcoding: the PATCH body is the
+ * DrinkEntry itself, and `updateMask`/`allowMissing` (or their snake_case
+ * spellings) are query parameters. Output-only fields in the body are ignored
+ * (AIP-203), as is `name` — the path identifies the resource.
+ *
+ * The batch route is the offline flush (AIP-235): each item is an
+ * UpdateDrinkEntryRequest validated independently, the valid ones are written
+ * in a single D1 batch (one transaction), and every item gets a
+ * google.rpc.Status in the response, in request order.
+ *
+ * Deletion is soft (AIP-164): DELETE sets `deleted_at` and returns the
+ * tombstone, which GET still serves (with deleteTime) and lists include only
+ * under show_deleted. An update with allowMissing resurrects a tombstone as a
+ * fresh entry; `:undelete` restores it as it was. purgeDeletedEntries, run
+ * from the worker's scheduled handler, removes tombstones for good once the
+ * retention window has passed.
+ *
+ * A write that changes a drink's rating or recommendation pushes its new
+ * review summary to the festival's watchers (watch.ts).
+ *
+ * Every entry carries an etag (see etag.ts). GET honours If-None-Match; PATCH,
+ * DELETE and batch items are rejected with ABORTED when the etag they carry
+ * is stale, so a read-modify-write such as a pour increment is safe.
+ *
+ * Caller identity comes from a Firebase ID token, or the legacy X-Device-Id
+ * header while that is allowed (auth.ts).
+ *
+ * Festival IDs must name a festival in festivals.json. Updates, undeletes and
+ * batches are refused once the festival has closed, and may check drink IDs
+ * against its beverage lists (festivals.ts); deletes are always allowed.
+ */
+
+import type { components } from "./src/api-types";
+import {
+  type CorsHeaders,
+  type Env,
+  type FieldError,
+  type RpcStatus,
+  resolveBucket,
+  rfc3339,
+  isValidId,
+  parseV1alphaPath,
+  queryParam,
+  validateStarRating,
+  validateWouldRecommend,
+  jsonResponse,
+  errorResponse,
+  rpcStatus,
+  methodNotAllowed,
+  encodePageToken,
+  resolvePageRequest,
+} from "./shared.js";
+import { type FilterFields, resolveFilter } from "./filter.js";
+import { refreshAggregate } from "./aggregates.js";
+import { resolveCaller } from "./auth.js";
+import { publishReviewSummaries } from "./reviews.js";
+import {
+  type FestivalRegistry,
+  resolveFestival,
+  catalogDrinkIds,
+  drinkNotFound,
+} from "./festivals.js";
+import {
+  ROW_UNCHANGED,
+  rowUnchangedBinds,
+  rowEtag,
+  etagHeaders,
+  etagMatches,
+  writePrecondition,
+  notModified,
+  etagConflict,
+  etagConflictStatus,
+} from "./etag.js";
+
+type DrinkEntry = components["schemas"]["DrinkEntry"];
+type ListDrinkEntriesResponse =
+  components["schemas"]["ListDrinkEntriesResponse"];
+
+// Every entry the server returns carries its name, etag and timestamps; the
+// signals stay optional — absent means the caller has not set them.
+type Entry = DrinkEntry &
+  Required<Pick<DrinkEntry, "name" | "etag" | "createTime" | "updateTime">>;
+
+// The generated response types `statuses` as google.rpc.Status with `Any`
+// details; ours always carry the ErrorInfo shape from shared.ts. A failed
+// item's entry slot is empty.
+interface BatchUpdateDrinkEntriesResponse {
+  drinkEntries: (Entry | Record<string, never>)[];
+  statuses: RpcStatus[];
+}
+
+const MAX_NOTE_LENGTH = 2000;
+const MAX_POURS = 1000;
+const MAX_BATCH_SIZE = 100;
+/**
+ * How long a soft-deleted entry, check-in or want-to-try is kept before it is
+ * purged.
+ */
+export const DELETED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// The writable signal columns of a `reviews` row. NULL means "not set".
+interface EntryColumns {
+  is_favourite: number | null;
+  star_rating: number | null;
+  recommend: number | null;
+  note: string | null;
+  pours: number | null;
+}
+
+// D1 row shapes returned by SQL queries.
+interface EntryRow extends EntryColumns {
+  created_at: number | null;
+  updated_at: number;
+  deleted_at: number | null;
+}
+interface EntryListRow extends EntryRow {
+  drink_id: string;
+}
+interface TotalRow {
+  n: number;
+}
+
+type EntryField =
+  "isFavourite" | "starRating" | "wouldRecommend" | "note" | "pours";
+
+type FieldResult = { value: number | string } | { error: FieldError };
+
+// Writable DrinkEntry fields: the column each is stored in, and how a present
+// (non-null) value is validated. Absent/null always clears the column.
+const ENTRY_FIELDS: Record<
+  EntryField,
+  { column: keyof EntryColumns; validate: (value: unknown) => FieldResult }
+> = {
+  isFavourite: { column: "is_favourite", validate: validateIsFavourite },
+  starRating: { column: "star_rating", validate: validateStarRating },
+  wouldRecommend: { column: "recommend", validate: validateWouldRecommend },
+  note: { column: "note", validate: validateNote },
+  pours: { column: "pours", validate: validatePours },
+};
+
+// Fields a ListDrinkEntries filter can name (AIP-160, see filter.ts).
+// `updateTime > "..."` is the delta-sync query; with show_deleted it also
+// returns the tombstones written since.
+const ENTRY_FILTER_FIELDS: FilterFields = {
+  isFavourite: { sql: "is_favourite", type: "boolean" },
+  starRating: { sql: "star_rating", type: "integer" },
+  wouldRecommend: { sql: "recommend", type: "boolean" },
+  pours: { sql: "pours", type: "integer" },
+  createTime: { sql: "created_at", type: "timestamp" },
+  updateTime: { sql: "updated_at", type: "timestamp" },
+  deleteTime: { sql: "deleted_at", type: "timestamp" },
+};
+
+// update_mask paths may use the proto field names or their JSON names.
+const MASK_ALIASES: Record<string, EntryField> = {
+  is_favourite: "isFavourite",
+  star_rating: "starRating",
+  would_recommend: "wouldRecommend",
+};
+
+interface EntryCtx {
+  env: Env;
+  /** The request's execution context, for publishing after the response. */
+  executionCtx: ExecutionContext;
+  db: D1Database;
+  bucket: string;
+  festivalId: string;
+  drinkId: string;
+  deviceId: string;
+  userId: string | null;
+  url: URL;
+  corsHeaders: CorsHeaders;
+}
+interface ListCtx {
+  db: D1Database;
+  bucket: string;
+  festivalId: string;
+  deviceId: string;
+  url: URL;
+  corsHeaders: CorsHeaders;
+}
+type BatchCtx = Omit<ListCtx, "url"> & {
+  env: Env;
+  executionCtx: ExecutionContext;
+  userId: string | null;
+  /** The festival's drink IDs when they are checked (festivals.ts). */
+  catalog: Set<string> | null;
+};
+
+// One batch item that passed validation, ready to merge and write.
+interface BatchItem {
+  drinkId: string;
+  columns: Partial<EntryColumns>;
+  allowMissing: boolean;
+  etag: string | null;
+}
+
+function validateIsFavourite(value: unknown): FieldResult {
+  if (typeof value !== "boolean") {
+    return {
+      error: {
+        message: "isFavourite must be a boolean",
+        reason: "IS_FAVOURITE_INVALID",
+      },
+    };
+  }
+  return { value: value ? 1 : 0 };
+}
+
+export function validateNote(value: unknown): FieldResult {
+  // Length is in Unicode characters (code points), not UTF-16 units.
+  if (typeof value !== "string" || [...value].length > MAX_NOTE_LENGTH) {
+    return {
+      error: {
+        message: `note must be a string of at most ${MAX_NOTE_LENGTH} characters`,
+        reason: "NOTE_INVALID",
+      },
+    };
+  }
+  return { value };
+}
+
+function validatePours(value: unknown): FieldResult {
+  if (
+    !Number.isInteger(value) ||
+    (value as number) < 0 ||
+    (value as number) > MAX_POURS
+  ) {
+    return {
+      error: {
+        message: `pours must be an integer between 0 and ${MAX_POURS}`,
+        reason: "POURS_OUT_OF_RANGE",
+      },
+    };
+  }
+  return { value: value as number };
+}
+
+/**
+ * Validate an UpdateDrinkEntry body against its update mask, returning the
+ * columns to write. No mask (or "*") replaces every writable field, so an
+ * absent field is cleared (AIP-134).
+ */
+function parseEntryUpdate(
+  body: unknown,
+  maskRaw: string | null | undefined,
+): { columns: Partial<EntryColumns> } | { error: FieldError } {
+  if (body === null || typeof body !== "object" || Array.isArray(body)) {
+    return {
+      error: { message: "Body must be a JSON object", reason: "INVALID_BODY" },
+    };
+  }
+  const entry = body as Record<string, unknown>;
+
+  let fields = Object.keys(ENTRY_FIELDS) as EntryField[];
+  if (typeof maskRaw === "string" && maskRaw.length > 0 && maskRaw !== "*") {
+    const paths = maskRaw.split(",").map((s) => s.trim());
+    const resolved = paths.map((p) => MASK_ALIASES[p] ?? p);
+    const unknown = paths.filter((_, i) => !(resolved[i] in ENTRY_FIELDS));
+    if (unknown.length > 0) {
+      return {
+        error: {
+          message: `Unknown updateMask field(s): ${unknown.join(", ")}`,
+          reason: "UNKNOWN_FIELD_MASK",
+        },
+      };
+    }
+    fields = [...new Set(resolved as EntryField[])];
+  }
+
+  const columns: Partial<EntryColumns> = {};
+  for (const field of fields) {
+    const { column, validate } = ENTRY_FIELDS[field];
+    const value = entry[field];
+    // An empty note is the contract's "no note", stored as NULL like any
+    // other cleared signal.
+    if (value === undefined || value === null || value === "") {
+      columns[column] = null;
+      continue;
+    }
+    const result = validate(value);
+    if ("error" in result) return result;
+    (columns as Record<string, number | string>)[column] = result.value;
+  }
+  return { columns };
+}
+
+/** Route a request, or return null if the path doesn't match any entry route. */
+export async function handleEntries(
+  request: Request,
+  url: URL,
+  env: Env,
+  corsHeaders: CorsHeaders,
+  festivals: FestivalRegistry,
+  executionCtx: ExecutionContext,
+): Promise<Response | null> {
+  const segments = parseV1alphaPath(url.pathname);
+  if (!segments || segments[0] !== "festivals" || segments.length < 3) {
+    return null;
+  }
+
+  // /v1alpha/festivals/{f}/drinks/{d}/entry
+  const isEntryRecord =
+    segments.length === 5 &&
+    segments[2] === "drinks" &&
+    segments[4] === "entry";
+
+  // /v1alpha/festivals/{f}/drinks/{d}/entry:undelete
+  const isUndelete =
+    segments.length === 5 &&
+    segments[2] === "drinks" &&
+    segments[4] === "entry:undelete";
+
+  // /v1alpha/festivals/{f}/drinkEntries
+  const isEntryList = segments.length === 3 && segments[2] === "drinkEntries";
+
+  // /v1alpha/festivals/{f}/drinkEntries:batchUpdate
+  const isBatchUpdate =
+    segments.length === 3 && segments[2] === "drinkEntries:batchUpdate";
+
+  if (!isEntryRecord && !isUndelete && !isEntryList && !isBatchUpdate) {
+    return null;
+  }
+
+  if (!env?.RATINGS_DB) {
+    return errorResponse(
+      503,
+      "UNAVAILABLE",
+      "Storage is not configured",
+      "STORAGE_UNCONFIGURED",
+      corsHeaders,
+    );
+  }
+
+  const origin = request.headers.get("Origin") ?? "";
+  const bucket = resolveBucket(origin, env);
+  const db = env.RATINGS_DB;
+
+  const festivalId = segments[1];
+  const hasDrink = isEntryRecord || isUndelete;
+  const drinkId = hasDrink ? segments[3] : "";
+  if (!isValidId(festivalId) || (hasDrink && !isValidId(drinkId))) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      "Invalid resource name",
+      "INVALID_RESOURCE_NAME",
+      corsHeaders,
+    );
+  }
+  // Deletes stay open after the festival closes; every other write does not.
+  const isWrite =
+    (isEntryRecord && request.method === "PATCH") ||
+    ((isUndelete || isBatchUpdate) && request.method === "POST");
+  const festivalResult = resolveFestival(
+    festivals,
+    festivalId,
+    env,
+    corsHeaders,
+    { write: isWrite },
+  );
+  if ("error" in festivalResult) return festivalResult.error;
+
+  const callerResult = await resolveCaller(request, env, corsHeaders);
+  if ("error" in callerResult) return callerResult.error;
+  const { deviceId, userId } = callerResult.caller;
+
+  // Only once the caller is known, so an unauthenticated write cannot make
+  // the worker fetch the beverage lists.
+  const catalog =
+    isWrite && !isUndelete
+      ? await catalogDrinkIds(festivalResult.festival, env, executionCtx)
+      : null;
+  if (isEntryRecord && catalog && !catalog.has(drinkId)) {
+    return drinkNotFound(festivalId, drinkId, corsHeaders);
+  }
+
+  if (isEntryList) {
+    if (request.method !== "GET") return methodNotAllowed(corsHeaders);
+    return listEntries({ db, bucket, festivalId, deviceId, url, corsHeaders });
+  }
+
+  if (isBatchUpdate) {
+    if (request.method !== "POST") return methodNotAllowed(corsHeaders);
+    return batchUpdateEntries(request, {
+      env,
+      executionCtx,
+      db,
+      bucket,
+      festivalId,
+      deviceId,
+      userId,
+      catalog,
+      corsHeaders,
+    });
+  }
+
+  const ctx: EntryCtx = {
+    env,
+    executionCtx,
+    db,
+    bucket,
+    festivalId,
+    drinkId,
+    deviceId,
+    userId,
+    url,
+    corsHeaders,
+  };
+  if (isUndelete) {
+    if (request.method !== "POST") return methodNotAllowed(corsHeaders);
+    return undeleteEntry(request, ctx);
+  }
+  switch (request.method) {
+    case "GET":
+      return getEntry(request, ctx);
+    case "PATCH":
+      return updateEntry(request, ctx);
+    case "DELETE":
+      return deleteEntry(request, ctx);
+    default:
+      return methodNotAllowed(corsHeaders);
+  }
+}
+
+function entryName(festivalId: string, drinkId: string): string {
+  return `festivals/${festivalId}/drinks/${drinkId}/entry`;
+}
+
+/** Parse festivals/{f}/drinks/{d}/entry into its ids, or null if malformed. */
+function parseEntryName(
+  name: unknown,
+): { festivalId: string; drinkId: string } | null {
+  if (typeof name !== "string") return null;
+  const parts = name.split("/");
+  if (
+    parts.length !== 5 ||
+    parts[0] !== "festivals" ||
+    parts[2] !== "drinks" ||
+    parts[4] !== "entry" ||
+    !isValidId(parts[1]) ||
+    !isValidId(parts[3])
+  ) {
+    return null;
+  }
+  return { festivalId: parts[1], drinkId: parts[3] };
+}
+
+/** Read a body field by its JSON name, falling back to the proto name. */
+function bodyField(
+  body: Record<string, unknown>,
+  jsonName: string,
+  protoName: string,
+): unknown {
+  return body[jsonName] ?? body[protoName];
+}
+
+async function serializeEntry(name: string, row: EntryRow): Promise<Entry> {
+  const resource: Entry = {
+    name,
+    etag: await rowEtag(row),
+    createTime: rfc3339(row.created_at ?? row.updated_at),
+    updateTime: rfc3339(row.updated_at),
+    ...(row.deleted_at != null && { deleteTime: rfc3339(row.deleted_at) }),
+  };
+  if (row.is_favourite != null)
+    resource.isFavourite = Boolean(row.is_favourite);
+  if (row.star_rating != null) resource.starRating = row.star_rating;
+  if (row.recommend != null) resource.wouldRecommend = Boolean(row.recommend);
+  if (row.note != null) resource.note = row.note;
+  if (row.pours != null) resource.pours = row.pours;
+  return resource;
+}
+
+// Whether a write from `before` to `after` moves the drink's review summary:
+// the rating or recommendation the drink's live row counts changed.
+function changesSummary(
+  before: EntryRow | null,
+  after: EntryRow | null,
+): boolean {
+  const counted = (row: EntryRow | null) =>
+    row && isLive(row) ? [row.star_rating, row.recommend] : [null, null];
+  const [was, is] = [counted(before), counted(after)];
+  return was[0] !== is[0] || was[1] !== is[1];
+}
+
+function isLive(row: EntryRow | null): boolean {
+  return row != null && row.deleted_at == null;
+}
+
+function notFound(message: string, corsHeaders: CorsHeaders): Response {
+  return errorResponse(404, "NOT_FOUND", message, "NOT_FOUND", corsHeaders);
+}
+
+function selectEntryRow(
+  db: D1Database,
+  bucket: string,
+  festivalId: string,
+  drinkId: string,
+  deviceId: string,
+): D1PreparedStatement {
+  return db
+    .prepare(
+      "SELECT is_favourite, star_rating, recommend, note, pours, " +
+        "created_at, updated_at, deleted_at FROM reviews " +
+        "WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND device_id = ?",
+    )
+    .bind(bucket, festivalId, drinkId, deviceId);
+}
+
+async function readEntryRow(
+  db: D1Database,
+  bucket: string,
+  festivalId: string,
+  drinkId: string,
+  deviceId: string,
+): Promise<EntryRow | null> {
+  return selectEntryRow(
+    db,
+    bucket,
+    festivalId,
+    drinkId,
+    deviceId,
+  ).first<EntryRow>();
+}
+
+/**
+ * Merge an update into the existing row (if any) and build the statement that
+ * persists it. The merged row is returned so the response needs no re-read.
+ * A soft-deleted row is overwritten as a fresh entry: its old signals and
+ * create time do not carry over.
+ *
+ * An UPDATE only applies while the row is still `existing`, and an INSERT only
+ * while there is still no row, so a write that raced ours reports zero changes
+ * instead of being silently overwritten or failing on the primary key.
+ */
+function entryWrite(
+  db: D1Database,
+  key: Pick<
+    EntryCtx,
+    "bucket" | "festivalId" | "drinkId" | "deviceId" | "userId"
+  >,
+  existing: EntryRow | null,
+  columns: Partial<EntryColumns>,
+  now: number,
+): { row: EntryRow; statement: D1PreparedStatement } {
+  const { bucket, festivalId, drinkId, deviceId, userId } = key;
+  const live = existing && isLive(existing) ? existing : null;
+  const row: EntryRow = {
+    is_favourite: live?.is_favourite ?? null,
+    star_rating: live?.star_rating ?? null,
+    recommend: live?.recommend ?? null,
+    note: live?.note ?? null,
+    pours: live?.pours ?? null,
+    ...columns,
+    created_at: live ? (live.created_at ?? live.updated_at) : now,
+    updated_at: now,
+    deleted_at: null,
+  };
+  const values = [
+    row.is_favourite,
+    row.star_rating,
+    row.recommend,
+    row.note,
+    row.pours,
+  ];
+
+  const statement = existing
+    ? db
+        .prepare(
+          "UPDATE reviews SET is_favourite = ?, star_rating = ?, recommend = ?, " +
+            "note = ?, pours = ?, created_at = ?, updated_at = ?, deleted_at = NULL " +
+            "WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND device_id = ? " +
+            `AND ${ROW_UNCHANGED}`,
+        )
+        .bind(
+          ...values,
+          row.created_at,
+          now,
+          bucket,
+          festivalId,
+          drinkId,
+          deviceId,
+          ...rowUnchangedBinds(existing),
+        )
+    : db
+        .prepare(
+          "INSERT INTO reviews (bucket, festival_id, drink_id, device_id, user_id, " +
+            "is_favourite, star_rating, recommend, note, pours, created_at, updated_at) " +
+            "VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT DO NOTHING",
+        )
+        .bind(
+          bucket,
+          festivalId,
+          drinkId,
+          deviceId,
+          userId,
+          ...values,
+          now,
+          now,
+        );
+  return { row, statement };
+}
+
+async function getEntry(request: Request, ctx: EntryCtx): Promise<Response> {
+  const { db, bucket, festivalId, drinkId, deviceId, corsHeaders } = ctx;
+  const row = await readEntryRow(db, bucket, festivalId, drinkId, deviceId);
+  if (!row) return notFound("No drink entry found", corsHeaders);
+  // A tombstone is still served, with deleteTime set (AIP-164).
+  const entry = await serializeEntry(entryName(festivalId, drinkId), row);
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  if (ifNoneMatch && etagMatches(ifNoneMatch, entry.etag)) {
+    return notModified(entry.etag, corsHeaders);
+  }
+  return jsonResponse<Entry>(entry, 200, etagHeaders(entry.etag, corsHeaders));
+}
+
+async function updateEntry(request: Request, ctx: EntryCtx): Promise<Response> {
+  const { db, bucket, festivalId, drinkId, deviceId, url, corsHeaders } = ctx;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      "Invalid JSON body",
+      "INVALID_BODY",
+      corsHeaders,
+    );
+  }
+
+  const parsed = parseEntryUpdate(
+    body,
+    queryParam(url, "updateMask", "update_mask"),
+  );
+  if ("error" in parsed) {
+    const { message, reason } = parsed.error;
+    return errorResponse(400, "INVALID_ARGUMENT", message, reason, corsHeaders);
+  }
+
+  const existing = await readEntryRow(
+    db,
+    bucket,
+    festivalId,
+    drinkId,
+    deviceId,
+  );
+  // An etag names a version of an existing entry, so it can never match a
+  // missing one — even with allowMissing.
+  const precondition = writePrecondition(
+    request,
+    (body as Record<string, unknown>).etag,
+  );
+  if (
+    precondition !== null &&
+    (!existing || !etagMatches(precondition, await rowEtag(existing)))
+  ) {
+    return etagConflict(corsHeaders);
+  }
+
+  const allowMissing =
+    queryParam(url, "allowMissing", "allow_missing") === "true";
+  if (!isLive(existing) && !allowMissing) {
+    return notFound(
+      "No drink entry found; set allowMissing to create it",
+      corsHeaders,
+    );
+  }
+
+  const { row, statement } = entryWrite(
+    db,
+    ctx,
+    existing,
+    parsed.columns,
+    Date.now(),
+  );
+  const [result] = await db.batch([statement, ...refreshAggregate(db, ctx)]);
+  if (!result.meta?.changes) return etagConflict(corsHeaders);
+  if (changesSummary(existing, row)) {
+    ctx.executionCtx.waitUntil(
+      publishReviewSummaries(ctx.env, bucket, festivalId, [drinkId]),
+    );
+  }
+
+  const entry = await serializeEntry(entryName(festivalId, drinkId), row);
+  return jsonResponse<Entry>(entry, 200, etagHeaders(entry.etag, corsHeaders));
+}
+
+async function deleteEntry(request: Request, ctx: EntryCtx): Promise<Response> {
+  const { db, bucket, festivalId, drinkId, deviceId, url, corsHeaders } = ctx;
+  const existing = await readEntryRow(
+    db,
+    bucket,
+    festivalId,
+    drinkId,
+    deviceId,
+  );
+
+  // Deleting a tombstone again is NOT_FOUND, like a missing entry; with
+  // allowMissing a replay gets the tombstone it created the first time.
+  if (!existing || !isLive(existing)) {
+    if (queryParam(url, "allowMissing", "allow_missing") !== "true") {
+      return notFound("No drink entry found", corsHeaders);
+    }
+    if (!existing) return jsonResponse({}, 200, corsHeaders);
+    const tombstone = await serializeEntry(
+      entryName(festivalId, drinkId),
+      existing,
+    );
+    return jsonResponse<Entry>(
+      tombstone,
+      200,
+      etagHeaders(tombstone.etag, corsHeaders),
+    );
+  }
+
+  // DELETE has no body: the etag comes from the query string or If-Match.
+  const precondition = writePrecondition(request, url.searchParams.get("etag"));
+  if (
+    precondition !== null &&
+    !etagMatches(precondition, await rowEtag(existing))
+  ) {
+    return etagConflict(corsHeaders);
+  }
+
+  const now = Date.now();
+  const [result] = await db.batch([
+    db
+      .prepare(
+        "UPDATE reviews SET deleted_at = ?, updated_at = ? " +
+          "WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND device_id = ? " +
+          `AND ${ROW_UNCHANGED}`,
+      )
+      .bind(
+        now,
+        now,
+        bucket,
+        festivalId,
+        drinkId,
+        deviceId,
+        ...rowUnchangedBinds(existing),
+      ),
+    ...refreshAggregate(db, ctx),
+  ]);
+  if (!result.meta?.changes) return etagConflict(corsHeaders);
+  if (changesSummary(existing, null)) {
+    ctx.executionCtx.waitUntil(
+      publishReviewSummaries(ctx.env, bucket, festivalId, [drinkId]),
+    );
+  }
+
+  const tombstone = await serializeEntry(entryName(festivalId, drinkId), {
+    ...existing,
+    updated_at: now,
+    deleted_at: now,
+  });
+  return jsonResponse<Entry>(
+    tombstone,
+    200,
+    etagHeaders(tombstone.etag, corsHeaders),
+  );
+}
+
+async function undeleteEntry(
+  request: Request,
+  ctx: EntryCtx,
+): Promise<Response> {
+  const { db, bucket, festivalId, drinkId, deviceId, corsHeaders } = ctx;
+
+  // The body (UndeleteDrinkEntryRequest) is optional; only its etag is read.
+  let body: unknown = null;
+  const text = await request.text();
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        "Invalid JSON body",
+        "INVALID_BODY",
+        corsHeaders,
+      );
+    }
+  }
+
+  const existing = await readEntryRow(
+    db,
+    bucket,
+    festivalId,
+    drinkId,
+    deviceId,
+  );
+  if (!existing) return notFound("No drink entry found", corsHeaders);
+  if (isLive(existing)) {
+    return errorResponse(
+      409,
+      "ALREADY_EXISTS",
+      "The drink entry is not deleted",
+      "NOT_DELETED",
+      corsHeaders,
+    );
+  }
+
+  const precondition = writePrecondition(
+    request,
+    (body as Record<string, unknown> | null)?.etag,
+  );
+  if (
+    precondition !== null &&
+    !etagMatches(precondition, await rowEtag(existing))
+  ) {
+    return etagConflict(corsHeaders);
+  }
+
+  const now = Date.now();
+  const [result] = await db.batch([
+    db
+      .prepare(
+        "UPDATE reviews SET deleted_at = NULL, updated_at = ? " +
+          "WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND device_id = ? " +
+          `AND ${ROW_UNCHANGED}`,
+      )
+      .bind(
+        now,
+        bucket,
+        festivalId,
+        drinkId,
+        deviceId,
+        ...rowUnchangedBinds(existing),
+      ),
+    ...refreshAggregate(db, ctx),
+  ]);
+  if (!result.meta?.changes) return etagConflict(corsHeaders);
+  const restored = { ...existing, updated_at: now, deleted_at: null };
+  if (changesSummary(existing, restored)) {
+    ctx.executionCtx.waitUntil(
+      publishReviewSummaries(ctx.env, bucket, festivalId, [drinkId]),
+    );
+  }
+
+  const entry = await serializeEntry(entryName(festivalId, drinkId), restored);
+  return jsonResponse<Entry>(entry, 200, etagHeaders(entry.etag, corsHeaders));
+}
+
+async function listEntries(ctx: ListCtx): Promise<Response> {
+  const { db, bucket, festivalId, deviceId, url, corsHeaders } = ctx;
+
+  const filterResult = resolveFilter(url, ENTRY_FILTER_FIELDS, corsHeaders);
+  if ("error" in filterResult) return filterResult.error;
+  const { filter, raw } = filterResult;
+
+  const showDeleted = queryParam(url, "showDeleted", "show_deleted") === "true";
+  const scope = showDeleted ? `${raw}\nshow_deleted=true` : raw;
+  const pageRequest = resolvePageRequest(url, corsHeaders, scope);
+  if ("error" in pageRequest) return pageRequest.error;
+  const { pageSize, cursor } = pageRequest;
+
+  const where = ["bucket = ?", "festival_id = ?", "device_id = ?"];
+  const binds: unknown[] = [bucket, festivalId, deviceId];
+  if (!showDeleted) where.push("deleted_at IS NULL");
+  if (filter) {
+    where.push(filter.sql);
+    binds.push(...filter.binds);
+  }
+  const totalWhere = where.join(" AND ");
+  const totalBinds = [...binds];
+  if (cursor !== null) {
+    where.push("drink_id > ?");
+    binds.push(cursor);
+  }
+
+  const { results } = await db
+    .prepare(
+      "SELECT drink_id, is_favourite, star_rating, recommend, note, pours, " +
+        "created_at, updated_at, deleted_at FROM reviews " +
+        `WHERE ${where.join(" AND ")} ORDER BY drink_id LIMIT ?`,
+    )
+    .bind(...binds, pageSize + 1)
+    .all<EntryListRow>();
+
+  const page = results.slice(0, pageSize);
+  const drinkEntries: Entry[] = await Promise.all(
+    page.map((row) => serializeEntry(entryName(festivalId, row.drink_id), row)),
+  );
+
+  let nextPageToken = "";
+  if (results.length > pageSize) {
+    nextPageToken = encodePageToken(page[page.length - 1].drink_id, scope);
+  }
+
+  const totalRow = await db
+    .prepare(`SELECT COUNT(*) AS n FROM reviews WHERE ${totalWhere}`)
+    .bind(...totalBinds)
+    .first<TotalRow>();
+
+  return jsonResponse<ListDrinkEntriesResponse>(
+    { drinkEntries, nextPageToken, totalSize: totalRow?.n ?? 0 },
+    200,
+    corsHeaders,
+  );
+}
+
+/**
+ * Validate one UpdateDrinkEntryRequest of a batch against the parent festival.
+ * Everything here is decidable without reading storage.
+ */
+function parseBatchItem(
+  item: unknown,
+  festivalId: string,
+): BatchItem | { error: FieldError } {
+  if (item === null || typeof item !== "object" || Array.isArray(item)) {
+    return {
+      error: {
+        message: "Each request must be a JSON object",
+        reason: "INVALID_BODY",
+      },
+    };
+  }
+  const request = item as Record<string, unknown>;
+  const drinkEntry = bodyField(request, "drinkEntry", "drink_entry");
+  const name = parseEntryName(
+    (drinkEntry as Record<string, unknown> | null)?.name,
+  );
+  if (!name) {
+    return {
+      error: {
+        message: "drinkEntry.name must be festivals/{f}/drinks/{d}/entry",
+        reason: "INVALID_RESOURCE_NAME",
+      },
+    };
+  }
+  if (name.festivalId !== festivalId) {
+    return {
+      error: {
+        message: `drinkEntry.name is not under festivals/${festivalId}`,
+        reason: "PARENT_MISMATCH",
+      },
+    };
+  }
+  const mask = bodyField(request, "updateMask", "update_mask");
+  const parsed = parseEntryUpdate(
+    drinkEntry,
+    typeof mask === "string" ? mask : null,
+  );
+  if ("error" in parsed) return parsed;
+  const etag = (drinkEntry as Record<string, unknown>).etag;
+  return {
+    drinkId: name.drinkId,
+    columns: parsed.columns,
+    allowMissing: bodyField(request, "allowMissing", "allow_missing") === true,
+    etag: typeof etag === "string" && etag.length > 0 ? etag : null,
+  };
+}
+
+async function batchUpdateEntries(
+  request: Request,
+  ctx: BatchCtx,
+): Promise<Response> {
+  const {
+    env,
+    executionCtx,
+    db,
+    bucket,
+    festivalId,
+    deviceId,
+    userId,
+    catalog,
+    corsHeaders,
+  } = ctx;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      "Invalid JSON body",
+      "INVALID_BODY",
+      corsHeaders,
+    );
+  }
+  const batch = (body ?? {}) as Record<string, unknown>;
+  if (
+    batch.parent !== undefined &&
+    batch.parent !== `festivals/${festivalId}`
+  ) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      "parent does not match the request path",
+      "PARENT_MISMATCH",
+      corsHeaders,
+    );
+  }
+  const requests = batch.requests;
+  if (!Array.isArray(requests)) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      "requests must be an array of UpdateDrinkEntryRequest",
+      "INVALID_BODY",
+      corsHeaders,
+    );
+  }
+  if (requests.length > MAX_BATCH_SIZE) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      `At most ${MAX_BATCH_SIZE} requests per batch`,
+      "BATCH_TOO_LARGE",
+      corsHeaders,
+      { maxBatchSize: String(MAX_BATCH_SIZE) },
+    );
+  }
+
+  const items = requests.map((item) => parseBatchItem(item, festivalId));
+
+  // Read the current row of every drink the valid items touch, in one round
+  // trip. Later items for the same drink merge onto earlier ones via `rows`.
+  const drinkIds = [
+    ...new Set(
+      items.flatMap((item) => ("error" in item ? [] : [item.drinkId])),
+    ),
+  ];
+  const rows = new Map<string, EntryRow | null>();
+  if (drinkIds.length > 0) {
+    const reads = await db.batch<EntryRow>(
+      drinkIds.map((drinkId) =>
+        selectEntryRow(db, bucket, festivalId, drinkId, deviceId),
+      ),
+    );
+    drinkIds.forEach((drinkId, i) =>
+      rows.set(drinkId, reads[i].results[0] ?? null),
+    );
+  }
+
+  const now = Date.now();
+  const statements: D1PreparedStatement[] = [];
+  // For each statement: the item it writes, its drink, and whether it moves
+  // the drink's summary. Every write is guarded, so a zero-change result
+  // means a concurrent write got there first.
+  const writes: { index: number; drinkId: string; movesSummary: boolean }[] =
+    [];
+  const drinkEntries: BatchUpdateDrinkEntriesResponse["drinkEntries"] = [];
+  const statuses: RpcStatus[] = [];
+  for (const [index, item] of items.entries()) {
+    if ("error" in item) {
+      const { message, reason } = item.error;
+      drinkEntries.push({});
+      statuses.push(rpcStatus("INVALID_ARGUMENT", message, reason));
+      continue;
+    }
+    if (catalog && !catalog.has(item.drinkId)) {
+      drinkEntries.push({});
+      statuses.push(
+        rpcStatus(
+          "NOT_FOUND",
+          `Drink "${item.drinkId}" is not listed at festival "${festivalId}"`,
+          "DRINK_NOT_FOUND",
+        ),
+      );
+      continue;
+    }
+    const existing = rows.get(item.drinkId) ?? null;
+    if (
+      item.etag !== null &&
+      (!existing || !etagMatches(item.etag, await rowEtag(existing)))
+    ) {
+      drinkEntries.push({});
+      statuses.push(etagConflictStatus());
+      continue;
+    }
+    if (!isLive(existing) && !item.allowMissing) {
+      drinkEntries.push({});
+      statuses.push(
+        rpcStatus(
+          "NOT_FOUND",
+          "No drink entry found; set allowMissing to create it",
+          "NOT_FOUND",
+        ),
+      );
+      continue;
+    }
+    const { row, statement } = entryWrite(
+      db,
+      { bucket, festivalId, drinkId: item.drinkId, deviceId, userId },
+      existing,
+      item.columns,
+      now,
+    );
+    rows.set(item.drinkId, row);
+    statements.push(statement);
+    writes.push({
+      index,
+      drinkId: item.drinkId,
+      movesSummary: changesSummary(existing, row),
+    });
+    drinkEntries.push(
+      await serializeEntry(entryName(festivalId, item.drinkId), row),
+    );
+    statuses.push(rpcStatus("OK"));
+  }
+
+  if (statements.length > 0) {
+    // Each written drink's aggregate is refreshed once, after all the writes.
+    const written = new Set(writes.map(({ drinkId }) => drinkId));
+    for (const drinkId of written) {
+      statements.push(...refreshAggregate(db, { bucket, festivalId, drinkId }));
+    }
+    const results = await db.batch(statements);
+    // Drinks whose summary a write that landed moves.
+    const summaryDrinkIds = new Set<string>();
+    writes.forEach(({ index, drinkId, movesSummary }, i) => {
+      if (!results[i].meta?.changes) {
+        drinkEntries[index] = {};
+        statuses[index] = etagConflictStatus();
+      } else if (movesSummary) {
+        summaryDrinkIds.add(drinkId);
+      }
+    });
+    executionCtx.waitUntil(
+      publishReviewSummaries(env, bucket, festivalId, [...summaryDrinkIds]),
+    );
+  }
+
+  return jsonResponse<BatchUpdateDrinkEntriesResponse>(
+    { drinkEntries, statuses },
+    200,
+    corsHeaders,
+  );
+}
+
+/**
+ * Permanently remove entries soft-deleted longer ago than the retention
+ * window. Run from the worker's scheduled handler; returns the number purged.
+ */
+export async function purgeDeletedEntries(
+  env: Partial<Env>,
+  now: number = Date.now(),
+): Promise<number> {
+  if (!env?.RATINGS_DB) return 0;
+  const result = await env.RATINGS_DB.prepare(
+    "DELETE FROM reviews WHERE deleted_at IS NOT NULL AND deleted_at < ?",
+  )
+    .bind(now - DELETED_RETENTION_MS)
+    .run();
+  return result.meta?.changes ?? 0;
+}
@@ -0,0 +1,159 @@
+/**
+ * Entity tags for `reviews` rows (AIP-154 optimistic concurrency).
+ *
+ * An etag is a digest of a row's signal columns and timestamps, so it changes
+ * on every write and needs no column of its own. The review and entry
+ * routes serve the same rows, so both surfaces see the same etag: a review
+ * client's If-Match fails after a note was written through the entry routes,
+ * which is the conservative answer.
+ *
+ * Clients send the etag back in the request body (`etag`, the proto-native
+ * form), in the If-Match header, or — for DELETE, which has no body — as an
+ * `etag` query parameter. A stale etag is 409 ABORTED; re-fetch and retry.
+ *
+ * Documents served whole — the festival registry and the proxied beverage
+ * lists — carry a digest of their bytes instead (contentEtag), and
+ * isNotModified answers conditional GETs for them.
+ */
+
+import {
+  type CorsHeaders,
+  type RpcStatus,
+  errorResponse,
+  rpcStatus,
+} from "./shared.js";
+
+const STALE_MESSAGE =
+  "The resource was modified since the supplied etag was issued; re-fetch and retry";
+
+/** The columns of a `reviews` row that its etag covers. */
+export interface VersionedRow {
+  is_favourite: number | null;
+  star_rating: number | null;
+  recommend: number | null;
+  note: string | null;
+  pours: number | null;
+  updated_at: number;
+  deleted_at: number | null;
+}
+
+/**
+ * SQL condition (and its binds) that holds only while a row is still exactly
+ * `row`. Guarding a write with it turns read-check-write into compare-and-set,
+ * so a concurrent write between the etag check and ours is caught as well.
+ */
+export const ROW_UNCHANGED =
+  "updated_at = ? AND is_favourite IS ? AND star_rating IS ? " +
+  "AND recommend IS ? AND note IS ? AND pours IS ? AND deleted_at IS ?";
+
+export function rowUnchangedBinds(row: VersionedRow): unknown[] {
+  return [
+    row.updated_at,
+    row.is_favourite,
+    row.star_rating,
+    row.recommend,
+    row.note,
+    row.pours,
+    row.deleted_at,
+  ];
+}
+
+/** Compute the opaque etag of a row (unquoted; see etagHeaders). */
+export async function rowEtag(row: VersionedRow): Promise<string> {
+  const payload = JSON.stringify(rowUnchangedBinds(row));
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(payload),
+  );
+  return btoa(String.fromCharCode(...new Uint8Array(digest).slice(0, 12)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+}
+
+/** Compute the opaque etag of a document's bytes (unquoted). */
+export async function contentEtag(body: ArrayBuffer | string): Promise<string> {
+  const bytes =
+    typeof body === "string" ? new TextEncoder().encode(body) : body;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return btoa(String.fromCharCode(...new Uint8Array(digest).slice(0, 16)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/** Response headers carrying an etag, readable by cross-origin clients. */
+export function etagHeaders(etag: string, corsHeaders: CorsHeaders) {
+  return {
+    ...corsHeaders,
+    ETag: `"${etag}"`,
+    "Access-Control-Expose-Headers": "ETag",
+  };
+}
+
+/**
+ * Whether a client-supplied etag matches: a bare body etag, or an If-Match /
+ * If-None-Match header value (quoted, optionally weak, comma-separated, `*`).
+ */
+export function etagMatches(supplied: string, etag: string): boolean {
+  return supplied
+    .split(",")
+    .map((s) =>
+      s
+        .trim()
+        .replace(/^W\//, "")
+        .replace(/^"(.*)"$/, "$1"),
+    )
+    .some((candidate) => candidate === "*" || candidate === etag);
+}
+
+/**
+ * The etag a write is conditional on: the body's `etag` when it carries one,
+ * else the If-Match header. Null means an unconditional write.
+ */
+export function writePrecondition(
+  request: Request,
+  bodyEtag?: unknown,
+): string | null {
+  if (typeof bodyEtag === "string" && bodyEtag.length > 0) return bodyEtag;
+  return request.headers.get("If-Match");
+}
+
+/**
+ * Whether a GET can be answered 304: its If-None-Match names the etag or,
+ * without one, its If-Modified-Since is no earlier than `lastModified`.
+ */
+export function isNotModified(
+  request: Request,
+  etag: string,
+  lastModified?: string | null,
+): boolean {
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  if (ifNoneMatch !== null) return etagMatches(ifNoneMatch, etag);
+  const since = Date.parse(request.headers.get("If-Modified-Since") ?? "");
+  const modified = Date.parse(lastModified ?? "");
+  return !Number.isNaN(since) && !Number.isNaN(modified) && modified <= since;
+}
+
+/** 304 for a GET whose If-None-Match names the current etag. */
+export function notModified(etag: string, corsHeaders: CorsHeaders): Response {
+  return new Response(null, {
+    status: 304,
+    headers: etagHeaders(etag, corsHeaders),
+  });
+}
+
+/** 409 ABORTED for a write whose etag is stale. */
+export function etagConflict(corsHeaders: CorsHeaders): Response {
+  return errorResponse(
+    409,
+    "ABORTED",
+    STALE_MESSAGE,
+    "ETAG_MISMATCH",
+    corsHeaders,
+  );
+}
+
+/** The same rejection as a per-item batch status. */
+export function etagConflictStatus(): RpcStatus {
+  return rpcStatus("ABORTED", STALE_MESSAGE, "ETAG_MISMATCH");
+}
@@ -0,0 +1,432 @@
+/**
+ * ExportReviews: the caller's My Festival data as one downloadable file.
+ *
+ * Routes (MyFestivalService in proto/.../my_festival_service.proto):
+ *   GET /v1alpha/festivals/{f}/reviews:export?format=   one festival
+ *   GET /v1alpha/festivals/-/reviews:export?format=     every festival (AIP-159)
+ *
+ * The export is for people rather than the app — a tasting diary to keep
+ * after the festival, and the caller's copy of what is stored about them. It
+ * holds every live record the caller has: their drink entries (`reviews`
+ * rows, with the review signals), check-ins, with their photos named, and
+ * want-to-try marks. Each record is one row, its `kind` saying which, and a
+ * row about a drink carries the drink's name, producer, style, category and
+ * ABV from the festival's catalogue (catalog.ts), so the file reads on its
+ * own. A drink the catalogue no longer lists — or every drink, while the
+ * upstream lists cannot be fetched — is exported by ID alone: the caller's
+ * data is never held back for want of the names.
+ *
+ * `format` is `json` (the default) — an object whose `records` array holds
+ * the rows — or `csv`, one header line and a line per row (RFC 4180), for a
+ * spreadsheet. The body is streamed a festival at a time, and sent as an
+ * attachment. Soft-deleted records are left out; photo bytes are not
+ * included, only their names, from which :download fetches each.
+ */
+
+import {
+  type CorsHeaders,
+  type Env,
+  resolveBucket,
+  rfc3339,
+  isValidId,
+  parseV1alphaPath,
+  errorResponse,
+  methodNotAllowed,
+} from "./shared.js";
+import { resolveCaller } from "./auth.js";
+import {
+  type FestivalRecord,
+  type FestivalRegistry,
+  resolveFestival,
+} from "./festivals.js";
+import { type FestivalCatalog, loadCatalog } from "./catalog.js";
+
+/** The kinds of record an export holds. */
+export type ExportKind = "entry" | "checkIn" | "wantToTry";
+
+/** One exported record. Unset fields are omitted, as proto3 JSON does. */
+export interface ExportRow {
+  festival: string;
+  kind: ExportKind;
+  // The record's own time: an entry's last update, a check-in's
+  // checkInTime, a mark's creation.
+  time: string;
+  drinkId?: string;
+  drinkName?: string;
+  producer?: string;
+  style?: string;
+  category?: string;
+  abv?: number;
+  title?: string;
+  isFavourite?: boolean;
+  starRating?: number;
+  wouldRecommend?: boolean;
+  pours?: number;
+  note?: string;
+  photos?: string[];
+}
+
+// The CSV columns, in order.
+const CSV_COLUMNS: (keyof ExportRow)[] = [
+  "festival",
+  "kind",
+  "time",
+  "drinkId",
+  "drinkName",
+  "producer",
+  "style",
+  "category",
+  "abv",
+  "title",
+  "isFavourite",
+  "starRating",
+  "wouldRecommend",
+  "pours",
+  "note",
+  "photos",
+];
+
+const FORMATS = {
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+};
+type ExportFormat = keyof typeof FORMATS;
+
+// AIP-159: `-` in place of the festival reads across every festival.
+const ALL_FESTIVALS = "-";
+
+// D1 row shapes returned by SQL queries.
+interface EntryRow {
+  drink_id: string;
+  is_favourite: number | null;
+  star_rating: number | null;
+  recommend: number | null;
+  note: string | null;
+  pours: number | null;
+  updated_at: number;
+}
+interface CheckInRow {
+  check_in_id: string;
+  check_in_time: number;
+  drink_id: string | null;
+  title: string | null;
+  note: string | null;
+  rating: number | null;
+  recommend: number | null;
+}
+interface PhotoRow {
+  check_in_id: string;
+  photo_id: string;
+}
+interface WantRow {
+  drink_id: string;
+  created_at: number;
+}
+
+interface ExportCtx {
+  db: D1Database;
+  bucket: string;
+  deviceId: string;
+  festivals: FestivalRegistry;
+  env: Env;
+  executionCtx: ExecutionContext;
+}
+
+/** Route a request, or return null if the path isn't the export route. */
+export async function handleExport(
+  request: Request,
+  url: URL,
+  env: Env,
+  corsHeaders: CorsHeaders,
+  festivals: FestivalRegistry,
+  executionCtx: ExecutionContext,
+): Promise<Response | null> {
+  const segments = parseV1alphaPath(url.pathname);
+  // /v1alpha/festivals/{f}/reviews:export
+  if (
+    !segments ||
+    segments.length !== 3 ||
+    segments[0] !== "festivals" ||
+    segments[2] !== "reviews:export"
+  ) {
+    return null;
+  }
+  if (request.method !== "GET") return methodNotAllowed(corsHeaders);
+
+  if (!env?.RATINGS_DB) {
+    return errorResponse(
+      503,
+      "UNAVAILABLE",
+      "Storage is not configured",
+      "STORAGE_UNCONFIGURED",
+      corsHeaders,
+    );
+  }
+
+  const festivalId = segments[1];
+  if (festivalId !== ALL_FESTIVALS) {
+    if (!isValidId(festivalId)) {
+      return errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        "Invalid resource name",
+        "INVALID_RESOURCE_NAME",
+        corsHeaders,
+      );
+    }
+    const festivalResult = resolveFestival(
+      festivals,
+      festivalId,
+      env,
+      corsHeaders,
+    );
+    if ("error" in festivalResult) return festivalResult.error;
+  }
+
+  const format = (url.searchParams.get("format") ?? "json").toLowerCase();
+  if (!(format in FORMATS)) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      `format must be one of ${Object.keys(FORMATS).join(", ")}`,
+      "INVALID_EXPORT_FORMAT",
+      corsHeaders,
+    );
+  }
+
+  const callerResult = await resolveCaller(request, env, corsHeaders);
+  if ("error" in callerResult) return callerResult.error;
+
+  const ctx: ExportCtx = {
+    db: env.RATINGS_DB,
+    bucket: resolveBucket(request.headers.get("Origin") ?? "", env),
+    deviceId: callerResult.caller.deviceId,
+    festivals,
+    env,
+    executionCtx,
+  };
+  const festivalIds =
+    festivalId === ALL_FESTIVALS ? await callerFestivals(ctx) : [festivalId];
+
+  const filename =
+    festivalId === ALL_FESTIVALS
+      ? `my-festival.${format}`
+      : `my-festival-${festivalId}.${format}`;
+  return new Response(exportStream(festivalIds, format as ExportFormat, ctx), {
+    status: 200,
+    headers: {
+      "Content-Type": FORMATS[format as ExportFormat],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "private, no-store",
+      "Access-Control-Expose-Headers": "Content-Disposition",
+      ...corsHeaders,
+    },
+  });
+}
+
+/** The festivals the caller has live records at, in ID order. */
+async function callerFestivals(ctx: ExportCtx): Promise<string[]> {
+  const { db, bucket, deviceId } = ctx;
+  const { results } = await db
+    .prepare(
+      "SELECT festival_id FROM reviews WHERE bucket = ?1 AND device_id = ?2 " +
+        "AND deleted_at IS NULL " +
+        "UNION SELECT festival_id FROM check_ins WHERE bucket = ?1 " +
+        "AND device_id = ?2 AND deleted_at IS NULL " +
+        "UNION SELECT festival_id FROM want_to_try WHERE bucket = ?1 " +
+        "AND device_id = ?2 AND deleted_at IS NULL " +
+        "ORDER BY festival_id",
+    )
+    .bind(bucket, deviceId)
+    .all<{ festival_id: string }>();
+  return results.map((row) => row.festival_id);
+}
+
+/**
+ * The export body, read a festival at a time as the client takes it, so a
+ * long history is never held in memory whole.
+ */
+function exportStream(
+  festivalIds: string[],
+  format: ExportFormat,
+  ctx: ExportCtx,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let next = 0;
+  let rowsWritten = 0;
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(
+        encoder.encode(
+          format === "json"
+            ? `{"exportTime":"${rfc3339(Date.now())}","records":[`
+            : `${CSV_COLUMNS.join(",")}\r\n`,
+        ),
+      );
+    },
+    async pull(controller) {
+      if (next === festivalIds.length) {
+        if (format === "json") controller.enqueue(encoder.encode("]}"));
+        controller.close();
+        return;
+      }
+      const rows = await festivalRows(festivalIds[next++], ctx);
+      const lines = rows.map((row) =>
+        format === "json"
+          ? `${rowsWritten++ > 0 ? "," : ""}\n${JSON.stringify(row)}`
+          : `${csvLine(row)}\r\n`,
+      );
+      if (lines.length > 0) controller.enqueue(encoder.encode(lines.join("")));
+    },
+  });
+}
+
+/** One festival's rows: entries and marks by drink, check-ins by time. */
+async function festivalRows(
+  festivalId: string,
+  ctx: ExportCtx,
+): Promise<ExportRow[]> {
+  const { db, bucket, deviceId } = ctx;
+  const owner = "bucket = ? AND festival_id = ? AND device_id = ?";
+  const binds = [bucket, festivalId, deviceId];
+  const [entries, checkIns, photos, wants] = await db.batch([
+    db
+      .prepare(
+        "SELECT drink_id, is_favourite, star_rating, recommend, note, pours, " +
+          `updated_at FROM reviews WHERE ${owner} AND deleted_at IS NULL ` +
+          "ORDER BY drink_id",
+      )
+      .bind(...binds),
+    db
+      .prepare(
+        "SELECT check_in_id, check_in_time, drink_id, title, note, rating, " +
+          `recommend FROM check_ins WHERE ${owner} AND deleted_at IS NULL ` +
+          "ORDER BY check_in_time, check_in_id",
+      )
+      .bind(...binds),
+    db
+      .prepare(
+        `SELECT check_in_id, photo_id FROM photos WHERE ${owner} ` +
+          "ORDER BY photo_id",
+      )
+      .bind(...binds),
+    db
+      .prepare(
+        "SELECT drink_id, created_at FROM want_to_try " +
+          `WHERE ${owner} AND deleted_at IS NULL ORDER BY drink_id`,
+      )
+      .bind(...binds),
+  ]);
+
+  const drinkOf = await drinkDetails(festivalId, ctx);
+  const photosOf = new Map<string, string[]>();
+  for (const row of photos.results as PhotoRow[]) {
+    const names = photosOf.get(row.check_in_id) ?? [];
+    names.push(
+      `festivals/${festivalId}/checkIns/${row.check_in_id}/photos/${row.photo_id}`,
+    );
+    photosOf.set(row.check_in_id, names);
+  }
+
+  const rows: ExportRow[] = [];
+  for (const row of entries.results as EntryRow[]) {
+    rows.push({
+      festival: festivalId,
+      kind: "entry",
+      time: rfc3339(row.updated_at),
+      ...drinkOf(row.drink_id),
+      ...(row.is_favourite != null && {
+        isFavourite: Boolean(row.is_favourite),
+      }),
+      ...(row.star_rating != null && { starRating: row.star_rating }),
+      ...(row.recommend != null && { wouldRecommend: Boolean(row.recommend) }),
+      ...(row.pours != null && { pours: row.pours }),
+      ...(row.note != null && { note: row.note }),
+    });
+  }
+  for (const row of checkIns.results as CheckInRow[]) {
+    const checkInPhotos = photosOf.get(row.check_in_id);
+    rows.push({
+      festival: festivalId,
+      kind: "checkIn",
+      time: rfc3339(row.check_in_time),
+      ...(row.drink_id != null && drinkOf(row.drink_id)),
+      ...(row.title != null && { title: row.title }),
+      ...(row.rating != null && { starRating: row.rating }),
+      ...(row.recommend != null && { wouldRecommend: Boolean(row.recommend) }),
+      ...(row.note != null && { note: row.note }),
+      ...(checkInPhotos && { photos: checkInPhotos }),
+    });
+  }
+  for (const row of wants.results as WantRow[]) {
+    rows.push({
+      festival: festivalId,
+      kind: "wantToTry",
+      time: rfc3339(row.created_at),
+      ...drinkOf(row.drink_id),
+    });
+  }
+  return rows;
+}
+
+type DrinkFields = Pick<
+  ExportRow,
+  "drinkId" | "drinkName" | "producer" | "style" | "category" | "abv"
+>;
+
+/**
+ * A lookup of the festival's drinks' details, from its catalogue. A festival
+ * no longer in the registry, or whose lists cannot be fetched, has none.
+ */
+async function drinkDetails(
+  festivalId: string,
+  ctx: ExportCtx,
+): Promise<(drinkId: string) => DrinkFields> {
+  const festival: FestivalRecord | undefined = ctx.festivals.festivals.find(
+    (f) => f.id === festivalId,
+  );
+  let catalog: FestivalCatalog | null = null;
+  if (festival) {
+    const loaded = await loadCatalog(festival, ctx.env, ctx.executionCtx, {});
+    if ("catalog" in loaded) catalog = loaded.catalog;
+  }
+  return (drinkId) => {
+    const drink = catalog?.drinks.get(drinkId);
+    if (!drink) return { drinkId };
+    return {
+      drinkId,
+      ...(drink.displayName && { drinkName: drink.displayName }),
+      ...(drink.producer?.displayName && {
+        producer: drink.producer.displayName,
+      }),
+      ...(drink.style && { style: drink.style }),
+      ...(drink.category && { category: drink.category }),
+      ...(drink.abv != null && { abv: drink.abv }),
+    };
+  };
+}
+
+/** A row as a CSV line: RFC 4180 quoting, photo names space-separated. */
+function csvLine(row: ExportRow): string {
+  return CSV_COLUMNS.map((column) => {
+    const value = row[column];
+    if (value === undefined) return "";
+    if (typeof value !== "string" && !Array.isArray(value)) {
+      return String(value);
+    }
+    return csvText(Array.isArray(value) ? value.join(" ") : value);
+  }).join(",");
+}
+
+// Free text a spreadsheet would run as a formula if it led a cell.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * A text cell: quoted when it holds a separator, quote or line break, and
+ * prefixed with an apostrophe when a spreadsheet would read it as a formula —
+ * a note is the caller's own text, but the file may be opened anywhere.
+ */
+function csvText(value: string): string {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,299 @@
+/**
+ * The festival registry (festivals.json) as the /v1alpha API sees it.
+ *
+ * worker.js embeds data/festivals.json and hands it to the handlers, which
+ * check every festival ID in a path against it: an unknown festival is 404
+ * NOT_FOUND, so a typo such as `cbf2062` cannot start an orphan set of rows.
+ *
+ * A festival stops taking new ratings FESTIVAL_GRACE_DAYS (default 14) after
+ * the end of its `end_date`, which leaves room for rating the last pints at
+ * home. Later writes are FAILED_PRECONDITION, reason FESTIVAL_CLOSED. Reads
+ * stay open, and so do deletes: closing a festival freezes it, but a caller
+ * can always withdraw what they wrote.
+ *
+ * With VALIDATE_DRINK_IDS set to "true", writes also check the drink ID
+ * against the festival's beverage lists from the upstream data API (one
+ * `{type}.json` per available beverage type), fetched through the edge cache.
+ * The IDs are cached per isolate for a few minutes. The check fails open:
+ * while the lists cannot be fetched, every drink ID is accepted rather than
+ * every write refused.
+ *
+ * toFestival reshapes a registry entry into the contract's Festival resource
+ * (festival.proto) for CatalogService's festival routes (catalog.ts).
+ */
+
+import type { components } from "./src/api-types";
+import { fetchBeverageListCached } from "./edgecache.js";
+import { type CorsHeaders, type Env, errorResponse } from "./shared.js";
+
+type Festival = components["schemas"]["Festival"];
+
+/** Upstream data API serving each festival's beverage lists. */
+export const UPSTREAM_URL = "https://data.cambridgebeerfestival.com";
+
+const DEFAULT_GRACE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DRINK_IDS_TTL_MS = 10 * 60 * 1000;
+const DRINK_IDS_RETRY_MS = 60 * 1000;
+
+/** One festival in festivals.json. */
+export interface FestivalRecord {
+  id: string;
+  name?: string;
+  hashtag?: string;
+  /** ISO date (YYYY-MM-DD), local to the festival. */
+  start_date?: string;
+  /** ISO date (YYYY-MM-DD): the last day of the festival. */
+  end_date?: string;
+  location?: string;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+  description?: string;
+  website_url?: string;
+  hours?: Record<string, string>;
+  available_beverage_types?: string[];
+  /** Path of the festival's beverage lists on the upstream API. */
+  data_base_url?: string;
+  is_active?: boolean;
+  charity_partner_name?: string;
+  charity_donation_url?: string;
+}
+
+/** The festivals.json document. */
+export interface FestivalRegistry {
+  festivals: FestivalRecord[];
+  default_festival_id?: string;
+  version?: string;
+  last_updated?: string;
+}
+
+// Per-isolate drink IDs by festival; null records a failed fetch, so an
+// unreachable upstream is retried after a minute rather than on every write.
+const drinkIdCache = new Map<
+  string,
+  { ids: Set<string> | null; expires: number }
+>();
+
+/**
+ * Look up a festival for a request. Unknown festivals are NOT_FOUND; with
+ * `write`, a festival past its grace period is FAILED_PRECONDITION.
+ */
+export function resolveFestival(
+  registry: FestivalRegistry,
+  festivalId: string,
+  env: Partial<Env>,
+  corsHeaders: CorsHeaders,
+  { write = false }: { write?: boolean } = {},
+): { festival: FestivalRecord } | { error: Response } {
+  const festival = registry.festivals.find((f) => f.id === festivalId);
+  if (!festival) {
+    return {
+      error: errorResponse(
+        404,
+        "NOT_FOUND",
+        `Festival "${festivalId}" does not exist`,
+        "FESTIVAL_NOT_FOUND",
+        corsHeaders,
+      ),
+    };
+  }
+  const closeTime = writesCloseAt(festival, env);
+  if (write && closeTime !== null && Date.now() >= closeTime) {
+    return {
+      error: errorResponse(
+        400,
+        "FAILED_PRECONDITION",
+        `Festival "${festivalId}" has ended and no longer accepts changes`,
+        "FESTIVAL_CLOSED",
+        corsHeaders,
+        { festival: festivalId, closeTime: new Date(closeTime).toISOString() },
+      ),
+    };
+  }
+  return { festival };
+}
+
+/**
+ * A registry entry as the contract's Festival. Unset fields are omitted, as
+ * proto3 JSON does. `dataOrigin` is the origin serving the beverage lists —
+ * this worker — for dataBaseUri.
+ */
+export function toFestival(
+  festival: FestivalRecord,
+  registry: FestivalRegistry,
+  dataOrigin: string,
+): Festival {
+  const startDate = calendarDate(festival.start_date);
+  const endDate = calendarDate(festival.end_date);
+  const { latitude, longitude } = festival;
+  const updateTime = Date.parse(registry.last_updated ?? "");
+  return {
+    name: `festivals/${festival.id}`,
+    displayName: festival.name ?? "",
+    ...(festival.hashtag && { hashtag: festival.hashtag }),
+    ...(startDate && { startDate }),
+    ...(endDate && { endDate }),
+    ...(festival.location && { location: festival.location }),
+    ...(festival.address && { address: festival.address }),
+    ...(typeof latitude === "number" &&
+      typeof longitude === "number" && {
+        coordinates: { latitude, longitude },
+      }),
+    ...(festival.description && { description: festival.description }),
+    ...(festival.website_url && { websiteUri: festival.website_url }),
+    ...(festival.hours && { hours: festival.hours }),
+    availableBeverageTypes: festival.available_beverage_types ?? [],
+    dataBaseUri: `${dataOrigin}${festival.data_base_url ?? `/${festival.id}`}`,
+    active: festival.is_active === true,
+    ...(festival.charity_partner_name && {
+      charityPartner: festival.charity_partner_name,
+    }),
+    ...(festival.charity_donation_url && {
+      charityDonationUri: festival.charity_donation_url,
+    }),
+    ...(!Number.isNaN(updateTime) && {
+      updateTime: new Date(updateTime).toISOString(),
+    }),
+  };
+}
+
+// A YYYY-MM-DD date as a google.type.Date, or null when malformed.
+function calendarDate(
+  value: string | undefined,
+): { year: number; month: number; day: number } | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value ?? "");
+  if (!match) return null;
+  return {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+  };
+}
+
+/**
+ * When a festival stops accepting writes (epoch millis): the grace period
+ * after the end of its last day, taken in UTC. Null when it has no end date.
+ */
+export function writesCloseAt(
+  festival: FestivalRecord,
+  env: Partial<Env>,
+): number | null {
+  const end = Date.parse(`${festival.end_date}T00:00:00Z`);
+  if (Number.isNaN(end)) return null;
+  const configured = Number(env?.FESTIVAL_GRACE_DAYS);
+  const graceDays =
+    env?.FESTIVAL_GRACE_DAYS && configured >= 0
+      ? configured
+      : DEFAULT_GRACE_DAYS;
+  return end + DAY_MS + graceDays * DAY_MS;
+}
+
+/**
+ * The festival's drink IDs, or null when drink IDs are not checked — the
+ * check is off, or the beverage lists are unavailable.
+ */
+export async function catalogDrinkIds(
+  festival: FestivalRecord,
+  env: Partial<Env>,
+  executionCtx: ExecutionContext,
+): Promise<Set<string> | null> {
+  if (env?.VALIDATE_DRINK_IDS !== "true") return null;
+  const now = Date.now();
+  const cached = drinkIdCache.get(festival.id);
+  if (cached && cached.expires > now) return cached.ids;
+
+  let ids: Set<string> | null = new Set();
+  try {
+    const lists = await Promise.all(
+      (festival.available_beverage_types ?? []).map((type) =>
+        fetchBeverageList(festival, type, env, executionCtx),
+      ),
+    );
+    for (const list of lists) {
+      for (const producer of list.producers ?? []) {
+        for (const product of producer.products ?? []) {
+          if (typeof product.id === "string") ids.add(product.id);
+        }
+      }
+    }
+  } catch (e) {
+    console.error(`Drink ID check unavailable for ${festival.id}: ${e}`);
+    ids = null;
+  }
+  drinkIdCache.set(festival.id, {
+    ids,
+    expires: now + (ids ? DRINK_IDS_TTL_MS : DRINK_IDS_RETRY_MS),
+  });
+  return ids;
+}
+
+/** The 404 for a drink ID that is not in the festival's beverage lists. */
+export function drinkNotFound(
+  festivalId: string,
+  drinkId: string,
+  corsHeaders: CorsHeaders,
+): Response {
+  return errorResponse(
+    404,
+    "NOT_FOUND",
+    `Drink "${drinkId}" is not listed at festival "${festivalId}"`,
+    "DRINK_NOT_FOUND",
+    corsHeaders,
+  );
+}
+
+/**
+ * An upstream `{type}.json` beverage list: producers, each with its products
+ * nested underneath. Fields are loosely typed upstream, so they are unknown
+ * until normalised (catalog.ts).
+ */
+export interface BeverageList {
+  producers?: UpstreamProducer[];
+  /** ISO 8601 time the list was last updated. */
+  timestamp?: unknown;
+}
+
+export interface UpstreamProducer {
+  id?: unknown;
+  name?: unknown;
+  location?: unknown;
+  year_founded?: unknown;
+  notes?: unknown;
+  products?: UpstreamProduct[];
+}
+
+export type UpstreamProduct = Record<string, unknown> & { id?: unknown };
+
+/**
+ * Fetch one of a festival's beverage lists. A beverage type the upstream does
+ * not list (404) contributes no drinks; any other failure throws.
+ *
+ * Given an ExecutionContext, the list comes through the edge cache
+ * (edgecache.ts) the proxy serves it from, so a cached copy outlives an
+ * upstream outage. Without one — the cron's change feed, which wants the
+ * upstream's current list — it is fetched directly.
+ */
+export async function fetchBeverageList(
+  festival: FestivalRecord,
+  type: string,
+  env?: Partial<Env>,
+  executionCtx?: ExecutionContext,
+): Promise<BeverageList> {
+  const base = festival.data_base_url ?? `/${festival.id}`;
+  const upstreamUrl = `${UPSTREAM_URL}${base}/${type}.json`;
+  const response = executionCtx
+    ? await fetchBeverageListCached(
+        new Request(upstreamUrl),
+        upstreamUrl,
+        festival.id,
+        env ?? {},
+        executionCtx,
+      )
+    : await fetch(upstreamUrl, {
+        headers: { "User-Agent": "Cambridge-Beer-Festival-App-Proxy/1.0" },
+      });
+  if (response.status === 404) return {};
+  if (!response.ok) throw new Error(`${type}.json: HTTP ${response.status}`);
+  return response.json();
+}
@@ -0,0 +1,415 @@
+/**
+ * AIP-160 `filter` support for the /v1alpha List methods.
+ *
+ * A deliberately small subset of the grammar: comparisons of a field against a
+ * literal (`=`, `!=`, `<`, `<=`, `>`, `>=`), combined with AND, OR (which binds
+ * tighter than AND, per AIP-160), NOT and parentheses. Adjacent terms with no
+ * operator between them are ANDed. Examples:
+ *
+ *   starRating >= 4
+ *   wouldRecommend = true AND updateTime > "2026-05-20T00:00:00Z"
+ *   ratingCount >= 5 AND (averageRating >= 4 OR recommendRate >= 0.8)
+ *
+ * Each List method declares the fields it supports and the SQL expression each
+ * maps to; the parser compiles the expression to a SQL fragment whose literals
+ * are all bound parameters, so nothing from the request is spliced into SQL.
+ * Lists served from memory rather than D1 (the festivals) match the same
+ * expression as a predicate instead. Field names may use the JSON
+ * (`starRating`) or proto (`star_rating`) spelling.
+ *
+ * A comparison with an unset (NULL) field never matches, so
+ * `starRating != 4` skips entries without a rating. The predicate follows
+ * SQL's three-valued logic, so it agrees with the SQL on unset fields too.
+ */
+
+import { type CorsHeaders, type FieldError, errorResponse } from "./shared.js";
+
+const MAX_FILTER_LENGTH = 1000;
+// Each comparison binds one parameter, and a list's own query binds a few
+// more; D1 refuses a statement with over 100.
+const MAX_FILTER_COMPARISONS = 20;
+
+// Literal types a field can be compared against. Booleans are stored 0/1 and
+// timestamps as epoch millis, so both compile to numbers.
+export type FilterFieldType = "integer" | "number" | "boolean" | "timestamp";
+
+export interface FilterField {
+  /**
+   * SQL expression the field compiles to — a column or an aggregate. Unused
+   * by lists matched in memory.
+   */
+  sql?: string;
+  type: FilterFieldType;
+}
+
+/** Filterable fields of one List method, keyed by JSON field name. */
+export type FilterFields = Record<string, FilterField>;
+
+/**
+ * A resource's field values for an in-memory match, keyed by JSON field name
+ * and encoded as the SQL stores them: booleans 0/1, timestamps epoch millis,
+ * null when unset.
+ */
+export type FilterValues = Record<string, number | null | undefined>;
+
+/**
+ * A compiled filter: a parenthesised SQL condition and its binds, and the
+ * same condition as a predicate over FilterValues.
+ */
+export interface CompiledFilter {
+  sql: string;
+  binds: unknown[];
+  matches(values: FilterValues): boolean;
+}
+
+// A parsed filter expression.
+type FilterNode =
+  | { kind: "and" | "or"; parts: FilterNode[] }
+  | { kind: "not"; operand: FilterNode }
+  | { kind: "compare"; field: string; comparator: string; value: number };
+
+type Token =
+  | { kind: "op"; value: string }
+  | { kind: "paren"; value: "(" | ")" }
+  | { kind: "string"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "word"; value: string };
+
+const COMPARATORS = new Set(["=", "!=", "<", "<=", ">", ">="]);
+const RFC3339 =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+class FilterSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly reason: string = "INVALID_FILTER",
+  ) {
+    super(message);
+  }
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const c = input[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "(" || c === ")") {
+      tokens.push({ kind: "paren", value: c });
+      i++;
+    } else if ("<>!=".includes(c)) {
+      const two = input.slice(i, i + 2);
+      const op = COMPARATORS.has(two) ? two : c;
+      if (!COMPARATORS.has(op)) {
+        throw new FilterSyntaxError(`Unexpected '${c}' at position ${i}`);
+      }
+      tokens.push({ kind: "op", value: op });
+      i += op.length;
+    } else if (c === '"' || c === "'") {
+      let value = "";
+      let j = i + 1;
+      while (j < input.length && input[j] !== c) {
+        if (input[j] === "\\" && j + 1 < input.length) j++;
+        value += input[j++];
+      }
+      if (j >= input.length) {
+        throw new FilterSyntaxError(`Unterminated string at position ${i}`);
+      }
+      tokens.push({ kind: "string", value });
+      i = j + 1;
+    } else {
+      const match = /^-?\d+(\.\d+)?(?![\w.])/.exec(input.slice(i));
+      const word = /^[A-Za-z_][\w.]*/.exec(input.slice(i));
+      if (match) {
+        tokens.push({ kind: "number", value: Number(match[0]) });
+        i += match[0].length;
+      } else if (word) {
+        tokens.push({ kind: "word", value: word[0] });
+        i += word[0].length;
+      } else {
+        throw new FilterSyntaxError(`Unexpected '${c}' at position ${i}`);
+      }
+    }
+  }
+  return tokens;
+}
+
+function snakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+}
+
+/** Recursive-descent parse of the token stream. */
+function parseTokens(tokens: Token[], fields: FilterFields): FilterNode {
+  const aliases = new Map<string, string>();
+  for (const name of Object.keys(fields)) {
+    aliases.set(name, name);
+    aliases.set(snakeCase(name), name);
+  }
+  let pos = 0;
+
+  const peek = (): Token | undefined => tokens[pos];
+  const isWord = (value: string) => {
+    const token = peek();
+    return token?.kind === "word" && token.value === value;
+  };
+  const isClose = () => {
+    const token = peek();
+    return token?.kind === "paren" && token.value === ")";
+  };
+
+  // expression := sequence { "AND" sequence }
+  // A sequence is terms separated only by whitespace, which AIP-160 also
+  // treats as AND.
+  function expression(): FilterNode {
+    const parts = [factor()];
+    while (pos < tokens.length && !isClose()) {
+      if (isWord("AND")) pos++;
+      parts.push(factor());
+    }
+    return parts.length === 1 ? parts[0] : { kind: "and", parts };
+  }
+
+  // factor := term { "OR" term }
+  function factor(): FilterNode {
+    const parts = [term()];
+    while (isWord("OR")) {
+      pos++;
+      parts.push(term());
+    }
+    return parts.length === 1 ? parts[0] : { kind: "or", parts };
+  }
+
+  // term := "NOT" term | "(" expression ")" | comparison
+  function term(): FilterNode {
+    const token = peek();
+    if (!token) throw new FilterSyntaxError("Unexpected end of filter");
+    if (isWord("NOT")) {
+      pos++;
+      return { kind: "not", operand: term() };
+    }
+    if (token.kind === "paren" && token.value === "(") {
+      pos++;
+      const inner = expression();
+      if (!isClose()) throw new FilterSyntaxError("Missing ')'");
+      pos++;
+      return inner;
+    }
+    return comparison();
+  }
+
+  // comparison := field comparator literal
+  function comparison(): FilterNode {
+    const fieldToken = tokens[pos++];
+    if (
+      fieldToken?.kind !== "word" ||
+      fieldToken.value === "AND" ||
+      fieldToken.value === "OR"
+    ) {
+      throw new FilterSyntaxError("Expected a field name");
+    }
+    const name = aliases.get(fieldToken.value);
+    if (!name) {
+      throw new FilterSyntaxError(
+        `Unsupported filter field: ${fieldToken.value} ` +
+          `(supported: ${Object.keys(fields).join(", ")})`,
+        "UNSUPPORTED_FILTER_FIELD",
+      );
+    }
+    const field = fields[name];
+
+    const opToken = tokens[pos++];
+    if (opToken?.kind !== "op") {
+      throw new FilterSyntaxError(`Expected a comparator after ${name}`);
+    }
+    if (
+      field.type === "boolean" &&
+      opToken.value !== "=" &&
+      opToken.value !== "!="
+    ) {
+      throw new FilterSyntaxError(`${name} supports only = and !=`);
+    }
+
+    return {
+      kind: "compare",
+      field: name,
+      comparator: opToken.value,
+      value: literal(name, field.type, tokens[pos++]),
+    };
+  }
+
+  const node = expression();
+  if (pos < tokens.length) throw new FilterSyntaxError("Unexpected ')'");
+  return node;
+}
+
+/** Render a parsed filter as SQL, appending its literals to `binds`. */
+function toSql(
+  node: FilterNode,
+  fields: FilterFields,
+  binds: unknown[],
+): string {
+  switch (node.kind) {
+    case "and":
+    case "or":
+      return `(${node.parts
+        .map((part) => toSql(part, fields, binds))
+        .join(node.kind === "and" ? " AND " : " OR ")})`;
+    case "not":
+      return `(NOT ${toSql(node.operand, fields, binds)})`;
+    case "compare":
+      binds.push(node.value);
+      return `${fields[node.field].sql ?? snakeCase(node.field)} ${node.comparator} ?`;
+  }
+}
+
+/**
+ * Evaluate a parsed filter against a resource's values, in SQL's three-valued
+ * logic: null (unknown) when it compares an unset field.
+ */
+function evaluate(node: FilterNode, values: FilterValues): boolean | null {
+  switch (node.kind) {
+    case "and":
+    case "or": {
+      const decisive = node.kind === "or";
+      let unknown = false;
+      for (const part of node.parts) {
+        const result = evaluate(part, values);
+        if (result === decisive) return decisive;
+        if (result === null) unknown = true;
+      }
+      return unknown ? null : !decisive;
+    }
+    case "not": {
+      const result = evaluate(node.operand, values);
+      return result === null ? null : !result;
+    }
+    case "compare": {
+      const value = values[node.field];
+      if (value == null) return null;
+      switch (node.comparator) {
+        case "=":
+          return value === node.value;
+        case "!=":
+          return value !== node.value;
+        case "<":
+          return value < node.value;
+        case "<=":
+          return value <= node.value;
+        case ">":
+          return value > node.value;
+        default:
+          return value >= node.value;
+      }
+    }
+  }
+}
+
+/** Convert a literal token to the bound value for a field of `type`. */
+function literal(
+  name: string,
+  type: FilterFieldType,
+  token: Token | undefined,
+): number {
+  switch (type) {
+    case "integer":
+      if (token?.kind !== "number" || !Number.isInteger(token.value)) {
+        throw new FilterSyntaxError(`${name} must be compared to an integer`);
+      }
+      return token.value;
+    case "number":
+      if (token?.kind !== "number") {
+        throw new FilterSyntaxError(`${name} must be compared to a number`);
+      }
+      return token.value;
+    case "boolean":
+      if (
+        token?.kind !== "word" ||
+        (token.value !== "true" && token.value !== "false")
+      ) {
+        throw new FilterSyntaxError(
+          `${name} must be compared to true or false`,
+        );
+      }
+      return token.value === "true" ? 1 : 0;
+    case "timestamp":
+      // The pattern checks the shape only: "2025-13-45T00:00:00Z" fits it,
+      // but does not parse.
+      const millis =
+        token?.kind === "string" && RFC3339.test(token.value)
+          ? Date.parse(token.value)
+          : NaN;
+      if (Number.isNaN(millis)) {
+        throw new FilterSyntaxError(
+          `${name} must be compared to a quoted RFC 3339 timestamp`,
+        );
+      }
+      return millis;
+  }
+}
+
+/**
+ * Compile a filter expression against a List method's fields. An empty filter
+ * compiles to null (no condition).
+ */
+export function compileFilter(
+  raw: string,
+  fields: FilterFields,
+): { filter: CompiledFilter | null } | { error: FieldError } {
+  if (raw.trim() === "") return { filter: null };
+  if (raw.length > MAX_FILTER_LENGTH) {
+    return {
+      error: {
+        message: `filter must be at most ${MAX_FILTER_LENGTH} characters`,
+        reason: "INVALID_FILTER",
+      },
+    };
+  }
+  try {
+    const node = parseTokens(tokenize(raw), fields);
+    const binds: unknown[] = [];
+    const sql = toSql(node, fields, binds);
+    if (binds.length > MAX_FILTER_COMPARISONS) {
+      throw new FilterSyntaxError(
+        `filter must have at most ${MAX_FILTER_COMPARISONS} comparisons`,
+      );
+    }
+    return {
+      filter: {
+        sql: `(${sql})`,
+        binds,
+        matches: (values) => evaluate(node, values) === true,
+      },
+    };
+  } catch (e) {
+    if (!(e instanceof FilterSyntaxError)) throw e;
+    return { error: { message: e.message, reason: e.reason } };
+  }
+}
+
+/**
+ * Read and compile a List request's `filter` query parameter, or an
+ * INVALID_ARGUMENT response. `raw` is the filter as sent, for scoping page
+ * tokens to it.
+ */
+export function resolveFilter(
+  url: URL,
+  fields: FilterFields,
+  corsHeaders: CorsHeaders,
+): { filter: CompiledFilter | null; raw: string } | { error: Response } {
+  const raw = url.searchParams.get("filter") ?? "";
+  const result = compileFilter(raw, fields);
+  if ("error" in result) {
+    const { message, reason } = result.error;
+    return {
+      error: errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        message,
+        reason,
+        corsHeaders,
+      ),
+    };
+  }
+  return { filter: result.filter, raw: raw.trim() };
+}
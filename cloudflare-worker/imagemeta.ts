@@ -0,0 +1,196 @@
+/**
+ * Metadata stripping for uploaded photos (photos.ts).
+ *
+ * A phone photo carries EXIF — the camera, the time and, usually, GPS
+ * coordinates of where it was taken — and often XMP or IPTC blocks with the
+ * same. None of it is needed to show the image, and a photo shared with a
+ * drink should not say where its owner lives, so every upload is rewritten
+ * without it before it is stored.
+ *
+ * Each format is walked as its container, segment by segment, keeping the
+ * segments that draw the image and dropping the metadata ones; pixel data is
+ * copied untouched, never re-encoded. Anything after the image's end marker is
+ * dropped too: that is where a JPEG keeps its extra pictures (MPF depth maps
+ * and previews), which carry EXIF of their own. An input that is not a
+ * well-formed image of the declared type yields null.
+ *
+ * EXIF also holds the orientation tag, so a JPEG that relied on it displays
+ * unrotated once stripped: clients rotate the pixels before uploading.
+ */
+
+/** The image types a photo may be, by MIME type. */
+export const PHOTO_CONTENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+] as const;
+
+export type PhotoContentType = (typeof PHOTO_CONTENT_TYPES)[number];
+
+export function isPhotoContentType(value: string): value is PhotoContentType {
+  return (PHOTO_CONTENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * The image rewritten without its metadata, or null when `bytes` is not a
+ * well-formed image of `contentType`.
+ */
+export function stripImageMetadata(
+  bytes: Uint8Array,
+  contentType: PhotoContentType,
+): Uint8Array | null {
+  switch (contentType) {
+    case "image/jpeg":
+      return stripJpeg(bytes);
+    case "image/png":
+      return stripPng(bytes);
+    case "image/webp":
+      return stripWebp(bytes);
+  }
+}
+
+// JPEG markers whose segments are dropped: APP1 (EXIF, XMP), APP3–APP15
+// (vendor blocks, IPTC in APP13) and comments. APP0 (JFIF) and APP2 (the ICC
+// colour profile) stay, as they change how the image looks.
+function isJpegMetadata(marker: number): boolean {
+  return (
+    marker === 0xe1 || (marker >= 0xe3 && marker <= 0xef) || marker === 0xfe
+  );
+}
+
+function stripJpeg(bytes: Uint8Array): Uint8Array | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let i = 2;
+  let inScan = false;
+  while (i < bytes.length) {
+    if (inScan) {
+      // Entropy-coded data runs to the next marker that is neither a stuffed
+      // zero nor a restart marker.
+      let j = i;
+      while (
+        j + 1 < bytes.length &&
+        !(
+          bytes[j] === 0xff &&
+          bytes[j + 1] !== 0x00 &&
+          !(bytes[j + 1] >= 0xd0 && bytes[j + 1] <= 0xd7)
+        )
+      ) {
+        j++;
+      }
+      if (j + 1 >= bytes.length) return null;
+      kept.push(bytes.subarray(i, j));
+      i = j;
+      inScan = false;
+      continue;
+    }
+    if (i + 1 >= bytes.length || bytes[i] !== 0xff) return null;
+    const marker = bytes[i + 1];
+    if (marker === 0xff) {
+      i++; // fill byte
+      continue;
+    }
+    if (marker === 0xd9) {
+      kept.push(bytes.subarray(i, i + 2));
+      return concat(kept);
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      kept.push(bytes.subarray(i, i + 2));
+      i += 2;
+      continue;
+    }
+    if (i + 4 > bytes.length) return null;
+    const length = (bytes[i + 2] << 8) | bytes[i + 3];
+    const end = i + 2 + length;
+    if (length < 2 || end > bytes.length) return null;
+    if (!isJpegMetadata(marker)) kept.push(bytes.subarray(i, end));
+    i = end;
+    inScan = marker === 0xda; // SOS: a scan follows
+  }
+  return null;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// PNG chunks that hold metadata rather than image: EXIF and the text chunks
+// (where XMP lives).
+const PNG_METADATA = new Set(["eXIf", "tEXt", "zTXt", "iTXt"]);
+
+function stripPng(bytes: Uint8Array): Uint8Array | null {
+  if (
+    bytes.length < PNG_SIGNATURE.length ||
+    PNG_SIGNATURE.some((b, i) => bytes[i] !== b)
+  ) {
+    return null;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  let i = PNG_SIGNATURE.length;
+  while (i + 12 <= bytes.length) {
+    const length = view.getUint32(i);
+    const type = fourCC(bytes, i + 4);
+    const end = i + 12 + length;
+    if (end > bytes.length) return null;
+    if (!PNG_METADATA.has(type)) kept.push(bytes.subarray(i, end));
+    i = end;
+    if (type === "IEND") return concat(kept);
+  }
+  return null;
+}
+
+// VP8X feature flags announcing EXIF and XMP chunks.
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+
+function stripWebp(bytes: Uint8Array): Uint8Array | null {
+  if (
+    bytes.length < 12 ||
+    fourCC(bytes, 0) !== "RIFF" ||
+    fourCC(bytes, 8) !== "WEBP"
+  ) {
+    return null;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const riffEnd = 8 + view.getUint32(4, true);
+  if (riffEnd > bytes.length) return null;
+
+  const kept: Uint8Array[] = [];
+  let i = 12;
+  while (i + 8 <= riffEnd) {
+    const type = fourCC(bytes, i);
+    const size = view.getUint32(i + 4, true);
+    // Chunks are padded to an even length.
+    const end = i + 8 + size + (size % 2);
+    if (end > riffEnd) return null;
+    if (type === "VP8X" && size >= 1) {
+      const chunk = bytes.slice(i, end);
+      chunk[8] &= ~(VP8X_EXIF | VP8X_XMP);
+      kept.push(chunk);
+    } else if (type !== "EXIF" && type !== "XMP ") {
+      kept.push(bytes.subarray(i, end));
+    }
+    i = end;
+  }
+  if (i !== riffEnd || kept.length === 0) return null;
+
+  const body = concat(kept);
+  const out = new Uint8Array(12 + body.length);
+  out.set(bytes.subarray(0, 12));
+  new DataView(out.buffer).setUint32(4, 4 + body.length, true);
+  out.set(body, 12);
+  return out;
+}
+
+function fourCC(bytes: Uint8Array, at: number): string {
+  return String.fromCharCode(...bytes.subarray(at, at + 4));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    out.set(part, at);
+    at += part.length;
+  }
+  return out;
+}
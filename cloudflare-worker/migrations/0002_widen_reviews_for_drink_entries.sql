@@ -0,0 +1,24 @@
+-- Widen the review table to hold the full DrinkEntry resource (proto
+-- drink_entry.proto) served by the /v1alpha drink entry routes.
+--
+-- The table keeps its name and primary key: one row per (bucket, festival,
+-- drink, device) is exactly one DrinkEntry, and the legacy review routes stay
+-- a compatibility view over the star_rating/recommend columns of the same rows.
+--
+-- Every new signal is nullable — NULL means "not set", matching the
+-- contract's optional fields. An empty note is stored as NULL.
+--
+-- created_at is backfilled from updated_at for rows written before this
+-- migration; the exact first-write time of those rows was never recorded.
+
+ALTER TABLE reviews ADD COLUMN is_favourite INTEGER CHECK (is_favourite IN (0, 1));
+ALTER TABLE reviews ADD COLUMN note TEXT;
+ALTER TABLE reviews ADD COLUMN pours INTEGER CHECK (pours >= 0);
+ALTER TABLE reviews ADD COLUMN created_at INTEGER;
+
+UPDATE reviews SET created_at = updated_at WHERE created_at IS NULL;
+
+-- ListDrinkEntries and the review list read one caller's rows in drink order;
+-- the primary key leads with drink_id, so it cannot serve that scan.
+CREATE INDEX IF NOT EXISTS idx_reviews_caller
+  ON reviews (bucket, festival_id, device_id, drink_id);
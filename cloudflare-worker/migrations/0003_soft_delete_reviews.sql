@@ -0,0 +1,16 @@
+-- Soft delete for drink entries (AIP-164; DrinkEntry.delete_time in
+-- proto/.../drink_entry.proto).
+--
+-- Deleting an entry sets deleted_at (epoch millis) instead of removing the row,
+-- so the deletion reaches the caller's other devices through delta sync and an
+-- accidental delete can be undone. Soft-deleted rows are excluded from every
+-- aggregate and from normal lists.
+--
+-- The scheduled purge (see the worker's `scheduled` handler) hard-deletes rows
+-- whose deleted_at is older than the retention window; the partial index below
+-- keeps that scan to the tombstones alone.
+
+ALTER TABLE reviews ADD COLUMN deleted_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_deleted
+  ON reviews (deleted_at) WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,50 @@
+-- Pre-computed review summaries (see aggregates.ts).
+--
+-- One row per (bucket, festival, drink) with the counts a ReviewSummary
+-- reports, over the live (not soft-deleted) `reviews` rows. The worker
+-- refreshes a drink's row in the same D1 batch as every write to its reviews,
+-- and drops it when the drink has neither a rating nor a recommendation left,
+-- so the summary routes read this table instead of grouping `reviews`.
+--
+-- rating_sum rather than an average keeps every column an exact integer; the
+-- average is rating_sum / rating_count at read time. stars_1..stars_5 are the
+-- rating histogram and sum to rating_count.
+
+CREATE TABLE IF NOT EXISTS review_aggregates (
+  bucket          TEXT    NOT NULL,
+  festival_id     TEXT    NOT NULL,
+  drink_id        TEXT    NOT NULL,
+  rating_count    INTEGER NOT NULL DEFAULT 0,
+  rating_sum      INTEGER NOT NULL DEFAULT 0,
+  response_count  INTEGER NOT NULL DEFAULT 0,
+  recommend_count INTEGER NOT NULL DEFAULT 0,
+  stars_1         INTEGER NOT NULL DEFAULT 0,
+  stars_2         INTEGER NOT NULL DEFAULT 0,
+  stars_3         INTEGER NOT NULL DEFAULT 0,
+  stars_4         INTEGER NOT NULL DEFAULT 0,
+  stars_5         INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (bucket, festival_id, drink_id)
+);
+
+-- Backfill from the existing reviews, with the same expressions as
+-- refreshAggregate.
+INSERT OR REPLACE INTO review_aggregates
+  (bucket, festival_id, drink_id, rating_count, rating_sum, response_count,
+   recommend_count, stars_1, stars_2, stars_3, stars_4, stars_5)
+SELECT
+  bucket,
+  festival_id,
+  drink_id,
+  COUNT(star_rating),
+  COALESCE(SUM(star_rating), 0),
+  COUNT(recommend),
+  COALESCE(SUM(recommend = 1), 0),
+  COALESCE(SUM(star_rating = 1), 0),
+  COALESCE(SUM(star_rating = 2), 0),
+  COALESCE(SUM(star_rating = 3), 0),
+  COALESCE(SUM(star_rating = 4), 0),
+  COALESCE(SUM(star_rating = 5), 0)
+FROM reviews
+WHERE deleted_at IS NULL
+GROUP BY bucket, festival_id, drink_id
+HAVING COUNT(star_rating) > 0 OR COUNT(recommend) > 0;
@@ -0,0 +1,19 @@
+-- Token buckets for the /v1alpha write rate limits (see ratelimit.ts).
+--
+-- One row per (route class, caller) and per (route class, client IP); `key`
+-- names both, e.g. "write:caller:user:abc" or "write:ip:<sha-256 of the IP>".
+-- `tokens` is the bucket's level at `updated_at` (epoch millis); the level now
+-- is that plus the refill since, capped at the burst size, so a row only
+-- changes when a request spends a token.
+--
+-- A row whose bucket has long since refilled carries no information; the
+-- scheduled housekeeping deletes rows idle for a day.
+
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key        TEXT    PRIMARY KEY,
+  tokens     REAL    NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_updated
+  ON rate_limits (updated_at);
@@ -0,0 +1,39 @@
+-- Drink availability change feed (see changes.ts).
+--
+-- `drink_snapshots` holds the last seen state of every drink in each of a
+-- festival's upstream beverage lists: one row per (festival, list, drink),
+-- with the fields whose changes the feed reports. The scheduled poll diffs
+-- each freshly fetched list against these rows and rewrites them.
+--
+-- `drink_changes` is the feed itself, append-only: one row per drink added to
+-- a list, removed from one, or whose status text changed. `id` orders the
+-- feed, and the page tokens of ListDrinkChanges carry the last id a client
+-- has seen. Times are epoch millis.
+
+CREATE TABLE IF NOT EXISTS drink_snapshots (
+  festival_id   TEXT NOT NULL,
+  beverage_type TEXT NOT NULL,
+  drink_id      TEXT NOT NULL,
+  display_name  TEXT NOT NULL,
+  status_text   TEXT NOT NULL,
+  PRIMARY KEY (festival_id, beverage_type, drink_id)
+);
+
+CREATE TABLE IF NOT EXISTS drink_changes (
+  id                   INTEGER PRIMARY KEY AUTOINCREMENT,
+  festival_id          TEXT    NOT NULL,
+  beverage_type        TEXT    NOT NULL,
+  drink_id             TEXT    NOT NULL,
+  change_type          TEXT    NOT NULL
+    CHECK (change_type IN ('ADDED', 'REMOVED', 'STATUS_CHANGED')),
+  display_name         TEXT    NOT NULL,
+  status_text          TEXT    NOT NULL,
+  previous_status_text TEXT    NOT NULL,
+  change_time          INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_drink_changes_feed
+  ON drink_changes (festival_id, id);
+
+CREATE INDEX IF NOT EXISTS idx_drink_changes_time
+  ON drink_changes (festival_id, change_time);
@@ -0,0 +1,44 @@
+-- Check-ins: the My Festival timeline (proto check_in.proto; ADR 0006).
+--
+-- One row per check-in: a timestamped, festival-scoped entry of one caller's
+-- that may reference a drink. `check_in_id` is the UUID the client assigned
+-- when it created the entry, unique within the caller's rows, so an offline
+-- create can be replayed without duplicating it.
+--
+-- A check-in with a drink_id is a tasting; without one it is a freeform entry
+-- (food, a moment), which carries a title but never a rating or
+-- recommendation — the CHECK below holds the database to that as well.
+-- Per-pour ratings stay on the timeline: review_aggregates counts the
+-- drink-level rating in `reviews`, not these.
+--
+-- check_in_time is when it happened, as the user says: it defaults to the
+-- create time but can be backdated and edited. Times are epoch millis.
+-- Deletion is soft, as for `reviews` (migration 0003), so delta sync carries
+-- it to the caller's other devices; the scheduled purge removes tombstones
+-- after the same retention window.
+
+CREATE TABLE IF NOT EXISTS check_ins (
+  bucket        TEXT    NOT NULL,
+  festival_id   TEXT    NOT NULL,
+  device_id     TEXT    NOT NULL,
+  check_in_id   TEXT    NOT NULL,
+  user_id       TEXT,
+  drink_id      TEXT,
+  title         TEXT,
+  note          TEXT,
+  rating        INTEGER CHECK (rating BETWEEN 1 AND 5),
+  recommend     INTEGER CHECK (recommend IN (0, 1)),
+  check_in_time INTEGER NOT NULL,
+  created_at    INTEGER NOT NULL,
+  updated_at    INTEGER NOT NULL,
+  deleted_at    INTEGER,
+  CHECK (drink_id IS NOT NULL OR (rating IS NULL AND recommend IS NULL)),
+  PRIMARY KEY (bucket, festival_id, device_id, check_in_id)
+);
+
+-- ListCheckIns reads one caller's timeline in time order.
+CREATE INDEX IF NOT EXISTS idx_check_ins_timeline
+  ON check_ins (bucket, festival_id, device_id, check_in_time, check_in_id);
+
+CREATE INDEX IF NOT EXISTS idx_check_ins_deleted
+  ON check_ins (deleted_at) WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,44 @@
+-- Want-to-try storage for the /v1alpha "my festival" API (WantToTry in
+-- proto/.../want_to_try.proto), and the per-drink counts behind the
+-- festival-wide "most wanted" list.
+--
+-- One row per (bucket, festival, drink, device), keyed like `reviews`: a row
+-- means the caller plans to try the drink. Un-marking soft-deletes the row
+-- (deleted_at, as in migration 0003) so the change reaches the caller's other
+-- devices through delta sync; the scheduled purge removes it after the
+-- retention window.
+
+CREATE TABLE IF NOT EXISTS want_to_try (
+  bucket      TEXT    NOT NULL,
+  festival_id TEXT    NOT NULL,
+  drink_id    TEXT    NOT NULL,
+  device_id   TEXT    NOT NULL,
+  user_id     TEXT,
+  created_at  INTEGER NOT NULL,
+  updated_at  INTEGER NOT NULL,
+  deleted_at  INTEGER,
+  PRIMARY KEY (bucket, festival_id, drink_id, device_id)
+);
+
+-- The caller's list reads one device's rows in drink order.
+CREATE INDEX IF NOT EXISTS idx_want_to_try_caller
+  ON want_to_try (bucket, festival_id, device_id, drink_id);
+
+CREATE INDEX IF NOT EXISTS idx_want_to_try_deleted
+  ON want_to_try (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- One row per (bucket, festival, drink) with the number of live want_to_try
+-- rows, refreshed in the same D1 batch as every write to them and dropped at
+-- zero (see aggregates.ts), like review_aggregates.
+
+CREATE TABLE IF NOT EXISTS want_to_try_aggregates (
+  bucket      TEXT    NOT NULL,
+  festival_id TEXT    NOT NULL,
+  drink_id    TEXT    NOT NULL,
+  want_count  INTEGER NOT NULL,
+  PRIMARY KEY (bucket, festival_id, drink_id)
+);
+
+-- The "most wanted" list ranks a festival's drinks by want_count.
+CREATE INDEX IF NOT EXISTS idx_want_to_try_aggregates_rank
+  ON want_to_try_aggregates (bucket, festival_id, want_count, drink_id);
@@ -0,0 +1,33 @@
+-- Photo attachments for check-ins (Photo in proto/.../photo.proto; ADR 0006
+-- gives every timeline entry photos).
+--
+-- The image bytes live in the PHOTOS R2 bucket under `{bucket}/{festival}/
+-- {photo}`; this table holds who owns each one and what it is. photo_id is the
+-- client's UUID and is unique across the bucket, not just per caller, so one
+-- caller can never write over another's object. The owner key (device_id)
+-- stays out of the object key, so a claimed device's photos move to the
+-- account without touching R2.
+--
+-- size_bytes is the stored size, after metadata stripping; the per-caller
+-- quota sums it.
+
+CREATE TABLE IF NOT EXISTS photos (
+  bucket       TEXT    NOT NULL,
+  photo_id     TEXT    NOT NULL,
+  festival_id  TEXT    NOT NULL,
+  device_id    TEXT    NOT NULL,
+  check_in_id  TEXT    NOT NULL,
+  user_id      TEXT,
+  content_type TEXT    NOT NULL,
+  size_bytes   INTEGER NOT NULL CHECK (size_bytes > 0),
+  created_at   INTEGER NOT NULL,
+  PRIMARY KEY (bucket, photo_id)
+);
+
+-- ListPhotos reads one check-in's photos in ID order.
+CREATE INDEX IF NOT EXISTS idx_photos_check_in
+  ON photos (bucket, festival_id, device_id, check_in_id, photo_id);
+
+-- The quota check counts and sums a caller's photos.
+CREATE INDEX IF NOT EXISTS idx_photos_owner
+  ON photos (bucket, device_id);
@@ -0,0 +1,17 @@
+-- Audit trail of caller erasures (DELETE /v1alpha/me, see account.ts).
+--
+-- One row per erasure, written in the batch that deletes the caller's rows,
+-- so the log says an erasure happened and when without holding anything it
+-- erased. `caller_hash` is the SHA-256 (hex) of the caller's owner key (the
+-- device_id column: a device ID, or `user:<uid>`), unsalted. It is a
+-- pseudonym: it does not spell out the ID, but anyone who holds the ID can
+-- recompute it, which is how it answers "was this ID erased?". No festival,
+-- bucket or count is kept. Times are epoch millis.
+
+CREATE TABLE IF NOT EXISTS erasures (
+  caller_hash TEXT    NOT NULL,
+  erased_at   INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_erasures_caller
+  ON erasures (caller_hash);
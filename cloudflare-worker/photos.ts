@@ -0,0 +1,643 @@
+/**
+ * Photo resource handler: images attached to the caller's check-ins.
+ *
+ * Routes (MyFestivalService in proto/.../my_festival_service.proto):
+ *   POST   /v1alpha/festivals/{f}/checkIns/{c}/photos?photoId=  upload a photo
+ *   GET    /v1alpha/festivals/{f}/checkIns/{c}/photos           list a check-in's photos
+ *   GET    /v1alpha/festivals/{f}/checkIns/{c}/photos/{p}       get a photo's metadata
+ *   GET    /v1alpha/festivals/{f}/checkIns/{c}/photos/{p}:download
+ *                                                               the image itself
+ *   DELETE /v1alpha/festivals/{f}/checkIns/{c}/photos/{p}       delete a photo
+ *
+ * An upload is a single direct request: the body is the image, its type in
+ * Content-Type (JPEG, PNG or WebP), and the response the new Photo. As with
+ * check-ins the client assigns the ID, a UUID, so an upload queued offline
+ * can be replayed: a second upload with the same ID is ALREADY_EXISTS. The
+ * image is checked against its declared type, limited to MAX_PHOTO_BYTES,
+ * and stored with its EXIF, XMP and other metadata stripped (imagemeta.ts) —
+ * a phone photo's GPS position never reaches the bucket.
+ *
+ * The bytes go to the PHOTOS R2 bucket and the ownership record to the
+ * `photos` table (migration 0009). The record is written first, in a single
+ * conditional insert that also checks the check-in is the caller's and live
+ * and that the caller is within their quota (PHOTO_QUOTA: a photo count and a
+ * byte total across the bucket), so concurrent uploads cannot overshoot it; a
+ * failed R2 write removes the record again. Every route is scoped to the
+ * owning caller, who is implicit as for check-ins: another caller's photo is
+ * NOT_FOUND.
+ *
+ * Deletes are hard, as photos are too large to keep as tombstones. A
+ * check-in's photos outlive its soft delete and go when it is purged
+ * (purgeOrphanedPhotos, from the worker's scheduled handler). Uploads are
+ * refused once the festival has closed; reads and deletes are always allowed.
+ */
+
+import type { components } from "./src/api-types";
+import {
+  type CorsHeaders,
+  type Env,
+  resolveBucket,
+  rfc3339,
+  isValidId,
+  parseV1alphaPath,
+  jsonResponse,
+  errorResponse,
+  methodNotAllowed,
+  encodePageToken,
+  resolvePageRequest,
+} from "./shared.js";
+import { resolveCaller } from "./auth.js";
+import { resolveFestival, type FestivalRegistry } from "./festivals.js";
+import { UUID_PATTERN } from "./checkins.js";
+import {
+  PHOTO_CONTENT_TYPES,
+  isPhotoContentType,
+  stripImageMetadata,
+} from "./imagemeta.js";
+
+type Photo = components["schemas"]["Photo"];
+type ListPhotosResponse = components["schemas"]["ListPhotosResponse"];
+
+type Resource = Required<Photo>;
+
+/** The largest image accepted, before metadata is stripped. */
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+/** How many photos, and how many bytes of them, one caller may store. */
+export interface PhotoQuota {
+  photos: number;
+  bytes: number;
+}
+
+export const DEFAULT_PHOTO_QUOTA: PhotoQuota = {
+  photos: 200,
+  bytes: 200 * 1024 * 1024,
+};
+
+// A stored photo never changes, so clients may cache the image for good.
+const MEDIA_CACHE_CONTROL = "private, max-age=31536000, immutable";
+
+// D1 row shapes returned by SQL queries.
+interface PhotoRow {
+  photo_id: string;
+  festival_id: string;
+  check_in_id: string;
+  content_type: string;
+  size_bytes: number;
+  created_at: number;
+}
+interface UsageRow {
+  photos: number;
+  bytes: number;
+}
+interface TotalRow {
+  n: number;
+}
+
+const PHOTO_COLUMNS =
+  "photo_id, festival_id, check_in_id, content_type, size_bytes, created_at";
+
+interface PhotoCtx {
+  db: D1Database;
+  photos: R2Bucket;
+  env: Env;
+  bucket: string;
+  festivalId: string;
+  checkInId: string;
+  deviceId: string;
+  userId: string | null;
+  url: URL;
+  corsHeaders: CorsHeaders;
+}
+
+/** Route a request, or return null if the path doesn't match a photo route. */
+export async function handlePhotos(
+  request: Request,
+  url: URL,
+  env: Env,
+  corsHeaders: CorsHeaders,
+  festivals: FestivalRegistry,
+): Promise<Response | null> {
+  const segments = parseV1alphaPath(url.pathname);
+  // /v1alpha/festivals/{f}/checkIns/{c}/photos[/{p}[:download]]
+  if (
+    !segments ||
+    segments[0] !== "festivals" ||
+    segments[2] !== "checkIns" ||
+    segments[4] !== "photos" ||
+    (segments.length !== 5 && segments.length !== 6)
+  ) {
+    return null;
+  }
+
+  if (!env?.RATINGS_DB || !env.PHOTOS) {
+    return errorResponse(
+      503,
+      "UNAVAILABLE",
+      "Storage is not configured",
+      "STORAGE_UNCONFIGURED",
+      corsHeaders,
+    );
+  }
+
+  const festivalId = segments[1];
+  const checkInId = segments[3];
+  let photoId = segments.length === 6 ? segments[5] : null;
+  const download = photoId?.endsWith(":download") ?? false;
+  if (photoId !== null && download) {
+    photoId = photoId.slice(0, -":download".length);
+  }
+  if (
+    !isValidId(festivalId) ||
+    !UUID_PATTERN.test(checkInId) ||
+    (photoId !== null && !UUID_PATTERN.test(photoId))
+  ) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      "Invalid resource name",
+      "INVALID_RESOURCE_NAME",
+      corsHeaders,
+    );
+  }
+  const isUpload = photoId === null && request.method === "POST";
+  const festivalResult = resolveFestival(
+    festivals,
+    festivalId,
+    env,
+    corsHeaders,
+    { write: isUpload },
+  );
+  if ("error" in festivalResult) return festivalResult.error;
+
+  const callerResult = await resolveCaller(request, env, corsHeaders);
+  if ("error" in callerResult) return callerResult.error;
+  const { deviceId, userId } = callerResult.caller;
+
+  const ctx: PhotoCtx = {
+    db: env.RATINGS_DB,
+    photos: env.PHOTOS,
+    env,
+    bucket: resolveBucket(request.headers.get("Origin") ?? "", env),
+    festivalId,
+    // IDs are stored as they were created: lower case.
+    checkInId: checkInId.toLowerCase(),
+    deviceId,
+    userId,
+    url,
+    corsHeaders,
+  };
+  if (photoId === null) {
+    switch (request.method) {
+      case "GET":
+        return listPhotos(ctx);
+      case "POST":
+        return uploadPhoto(request, ctx);
+      default:
+        return methodNotAllowed(corsHeaders);
+    }
+  }
+  const id = photoId.toLowerCase();
+  if (download) {
+    return request.method === "GET"
+      ? downloadPhoto(id, ctx)
+      : methodNotAllowed(corsHeaders);
+  }
+  switch (request.method) {
+    case "GET":
+      return getPhoto(id, ctx);
+    case "DELETE":
+      return deletePhoto(id, ctx);
+    default:
+      return methodNotAllowed(corsHeaders);
+  }
+}
+
+/** The effective quota: the default, with any valid PHOTO_QUOTA overrides. */
+export function resolvePhotoQuota(env: Partial<Env>): PhotoQuota {
+  let overrides: Partial<PhotoQuota> = {};
+  if (env?.PHOTO_QUOTA) {
+    try {
+      overrides = JSON.parse(env.PHOTO_QUOTA) ?? {};
+    } catch {
+      console.error("PHOTO_QUOTA is not valid JSON; using the defaults");
+    }
+  }
+  const positive = (value: unknown, fallback: number) =>
+    typeof value === "number" && value > 0 ? value : fallback;
+  return {
+    photos: positive(overrides.photos, DEFAULT_PHOTO_QUOTA.photos),
+    bytes: positive(overrides.bytes, DEFAULT_PHOTO_QUOTA.bytes),
+  };
+}
+
+function photoName(row: PhotoRow): string {
+  return (
+    `festivals/${row.festival_id}/checkIns/${row.check_in_id}` +
+    `/photos/${row.photo_id}`
+  );
+}
+
+/** The R2 key of a photo's image. */
+function objectKey(bucket: string, festivalId: string, photoId: string) {
+  return `${bucket}/${festivalId}/${photoId}`;
+}
+
+function serializePhoto(row: PhotoRow): Resource {
+  return {
+    name: photoName(row),
+    contentType: row.content_type,
+    sizeBytes: row.size_bytes,
+    createTime: rfc3339(row.created_at),
+  };
+}
+
+function notFound(corsHeaders: CorsHeaders): Response {
+  return errorResponse(
+    404,
+    "NOT_FOUND",
+    "No photo found",
+    "NOT_FOUND",
+    corsHeaders,
+  );
+}
+
+function invalidPhoto(
+  message: string,
+  reason: string,
+  corsHeaders: CorsHeaders,
+): Response {
+  return errorResponse(400, "INVALID_ARGUMENT", message, reason, corsHeaders);
+}
+
+async function readPhotoRow(
+  photoId: string,
+  ctx: PhotoCtx,
+): Promise<PhotoRow | null> {
+  const { db, bucket, festivalId, checkInId, deviceId } = ctx;
+  return db
+    .prepare(
+      `SELECT ${PHOTO_COLUMNS} FROM photos WHERE bucket = ? AND photo_id = ? ` +
+        "AND festival_id = ? AND check_in_id = ? AND device_id = ?",
+    )
+    .bind(bucket, photoId, festivalId, checkInId, deviceId)
+    .first<PhotoRow>();
+}
+
+async function uploadPhoto(request: Request, ctx: PhotoCtx): Promise<Response> {
+  const { db, photos, bucket, festivalId, checkInId, deviceId, userId } = ctx;
+  const { url, corsHeaders } = ctx;
+
+  const photoId = (
+    url.searchParams.get("photoId") ?? url.searchParams.get("photo_id")
+  )?.toLowerCase();
+  if (!photoId || !UUID_PATTERN.test(photoId)) {
+    return invalidPhoto(
+      "photoId is required and must be a UUID",
+      "INVALID_PHOTO_ID",
+      corsHeaders,
+    );
+  }
+
+  const contentType = (request.headers.get("Content-Type") ?? "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+  if (!isPhotoContentType(contentType)) {
+    return invalidPhoto(
+      `Content-Type must be one of ${PHOTO_CONTENT_TYPES.join(", ")}`,
+      "PHOTO_TYPE_UNSUPPORTED",
+      corsHeaders,
+    );
+  }
+
+  // A declared length over the limit is refused before the body is read, and
+  // an undeclared one (a chunked upload) once the bytes read pass it.
+  const tooLarge = () =>
+    invalidPhoto(
+      `A photo may be at most ${MAX_PHOTO_BYTES} bytes`,
+      "PHOTO_TOO_LARGE",
+      corsHeaders,
+    );
+  if (Number(request.headers.get("Content-Length")) > MAX_PHOTO_BYTES) {
+    return tooLarge();
+  }
+  const uploaded = await readBody(request, MAX_PHOTO_BYTES);
+  if (!uploaded) return tooLarge();
+  const image = stripImageMetadata(uploaded, contentType);
+  if (!image) {
+    return invalidPhoto(
+      `The body is not a well-formed ${contentType} image`,
+      "PHOTO_INVALID",
+      corsHeaders,
+    );
+  }
+
+  // The record goes in only when the check-in is the caller's and live, the
+  // ID is free, and the photo fits the quota — all in one statement.
+  const quota = resolvePhotoQuota(ctx.env);
+  const now = Date.now();
+  const reserved = await db
+    .prepare(
+      "INSERT INTO photos (bucket, photo_id, festival_id, device_id, " +
+        "check_in_id, user_id, content_type, size_bytes, created_at) " +
+        "SELECT ?, ?, ?, ?, ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM check_ins " +
+        "WHERE bucket = ? AND festival_id = ? AND device_id = ? " +
+        "AND check_in_id = ? AND deleted_at IS NULL) " +
+        "AND (SELECT COUNT(*) FROM photos WHERE bucket = ? AND device_id = ?) < ? " +
+        "AND (SELECT COALESCE(SUM(size_bytes), 0) FROM photos " +
+        "WHERE bucket = ? AND device_id = ?) + ? <= ? " +
+        "ON CONFLICT DO NOTHING",
+    )
+    .bind(
+      bucket,
+      photoId,
+      festivalId,
+      deviceId,
+      checkInId,
+      userId,
+      contentType,
+      image.length,
+      now,
+      bucket,
+      festivalId,
+      deviceId,
+      checkInId,
+      bucket,
+      deviceId,
+      quota.photos,
+      bucket,
+      deviceId,
+      image.length,
+      quota.bytes,
+    )
+    .run();
+  if (!reserved.meta?.changes) {
+    return uploadRefused(photoId, image.length, quota, ctx);
+  }
+
+  try {
+    await photos.put(objectKey(bucket, festivalId, photoId), image, {
+      httpMetadata: { contentType },
+    });
+  } catch (e) {
+    console.error(`Photos: storing ${photoId} failed: ${e}`);
+    await db
+      .prepare("DELETE FROM photos WHERE bucket = ? AND photo_id = ?")
+      .bind(bucket, photoId)
+      .run();
+    return errorResponse(
+      503,
+      "UNAVAILABLE",
+      "The photo could not be stored; retry the upload",
+      "PHOTO_STORAGE_FAILED",
+      corsHeaders,
+    );
+  }
+
+  return jsonResponse<Resource>(
+    serializePhoto({
+      photo_id: photoId,
+      festival_id: festivalId,
+      check_in_id: checkInId,
+      content_type: contentType,
+      size_bytes: image.length,
+      created_at: now,
+    }),
+    200,
+    corsHeaders,
+  );
+}
+
+/** Explain why the conditional insert of an upload wrote nothing. */
+/**
+ * A request's body, read until it ends or passes `limit` bytes; null past the
+ * limit, which cancels the rest of the upload unread.
+ */
+async function readBody(
+  request: Request,
+  limit: number,
+): Promise<Uint8Array | null> {
+  if (!request.body) return new Uint8Array(0);
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const body = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+async function uploadRefused(
+  photoId: string,
+  size: number,
+  quota: PhotoQuota,
+  ctx: PhotoCtx,
+): Promise<Response> {
+  const { db, bucket, festivalId, checkInId, deviceId, corsHeaders } = ctx;
+  const [taken, checkIn, usage] = await db.batch([
+    db
+      .prepare("SELECT 1 FROM photos WHERE bucket = ? AND photo_id = ?")
+      .bind(bucket, photoId),
+    db
+      .prepare(
+        "SELECT 1 FROM check_ins WHERE bucket = ? AND festival_id = ? " +
+          "AND device_id = ? AND check_in_id = ? AND deleted_at IS NULL",
+      )
+      .bind(bucket, festivalId, deviceId, checkInId),
+    db
+      .prepare(
+        "SELECT COUNT(*) AS photos, COALESCE(SUM(size_bytes), 0) AS bytes " +
+          "FROM photos WHERE bucket = ? AND device_id = ?",
+      )
+      .bind(bucket, deviceId),
+  ]);
+  if (taken.results.length > 0) {
+    return errorResponse(
+      409,
+      "ALREADY_EXISTS",
+      `Photo ${photoId} already exists`,
+      "PHOTO_EXISTS",
+      corsHeaders,
+    );
+  }
+  if (checkIn.results.length === 0) {
+    return errorResponse(
+      404,
+      "NOT_FOUND",
+      "No check-in found",
+      "NOT_FOUND",
+      corsHeaders,
+    );
+  }
+  const used = usage.results[0] as UsageRow;
+  const limit = used.photos >= quota.photos ? "photos" : "bytes";
+  return errorResponse(
+    429,
+    "RESOURCE_EXHAUSTED",
+    limit === "photos"
+      ? `Photo quota reached (${quota.photos} photos)`
+      : `Photo quota reached (${used.bytes} of ${quota.bytes} bytes used, ` +
+          `${size} more requested)`,
+    "PHOTO_QUOTA_EXCEEDED",
+    corsHeaders,
+    { limit },
+  );
+}
+
+async function getPhoto(photoId: string, ctx: PhotoCtx): Promise<Response> {
+  const row = await readPhotoRow(photoId, ctx);
+  if (!row) return notFound(ctx.corsHeaders);
+  return jsonResponse<Resource>(serializePhoto(row), 200, ctx.corsHeaders);
+}
+
+async function downloadPhoto(
+  photoId: string,
+  ctx: PhotoCtx,
+): Promise<Response> {
+  const { photos, bucket, festivalId, corsHeaders } = ctx;
+  // The record, not the object key, says whose the photo is.
+  const row = await readPhotoRow(photoId, ctx);
+  if (!row) return notFound(corsHeaders);
+  const object = await photos.get(objectKey(bucket, festivalId, photoId));
+  if (!object) return notFound(corsHeaders);
+  return new Response(object.body, {
+    status: 200,
+    headers: {
+      "Content-Type": row.content_type,
+      "Content-Length": String(object.size),
+      "Cache-Control": MEDIA_CACHE_CONTROL,
+      "X-Content-Type-Options": "nosniff",
+      ...corsHeaders,
+    },
+  });
+}
+
+async function deletePhoto(photoId: string, ctx: PhotoCtx): Promise<Response> {
+  const { db, photos, bucket, festivalId, checkInId, deviceId, url } = ctx;
+  const { corsHeaders } = ctx;
+  const allowMissing =
+    (url.searchParams.get("allowMissing") ??
+      url.searchParams.get("allow_missing")) === "true";
+
+  const deleted = await db
+    .prepare(
+      "DELETE FROM photos WHERE bucket = ? AND photo_id = ? " +
+        "AND festival_id = ? AND check_in_id = ? AND device_id = ? " +
+        "RETURNING photo_id",
+    )
+    .bind(bucket, photoId, festivalId, checkInId, deviceId)
+    .first<Pick<PhotoRow, "photo_id">>();
+  if (!deleted) {
+    return allowMissing
+      ? jsonResponse({}, 200, corsHeaders)
+      : notFound(corsHeaders);
+  }
+  // The record is gone, so the photo is; an object left behind by a failed
+  // delete is unreachable, and only costs storage.
+  try {
+    await photos.delete(objectKey(bucket, festivalId, photoId));
+  } catch (e) {
+    console.error(`Photos: deleting ${photoId} failed: ${e}`);
+  }
+  return jsonResponse({}, 200, corsHeaders);
+}
+
+async function listPhotos(ctx: PhotoCtx): Promise<Response> {
+  const { db, bucket, festivalId, checkInId, deviceId, url, corsHeaders } = ctx;
+
+  const pageRequest = resolvePageRequest(url, corsHeaders, "");
+  if ("error" in pageRequest) return pageRequest.error;
+  const { pageSize, cursor } = pageRequest;
+
+  const where = [
+    "bucket = ?",
+    "festival_id = ?",
+    "device_id = ?",
+    "check_in_id = ?",
+  ];
+  const binds: unknown[] = [bucket, festivalId, deviceId, checkInId];
+  const totalWhere = where.join(" AND ");
+  const totalBinds = [...binds];
+  if (cursor !== null) {
+    where.push("photo_id > ?");
+    binds.push(cursor);
+  }
+
+  const { results } = await db
+    .prepare(
+      `SELECT ${PHOTO_COLUMNS} FROM photos WHERE ${where.join(" AND ")} ` +
+        "ORDER BY photo_id LIMIT ?",
+    )
+    .bind(...binds, pageSize + 1)
+    .all<PhotoRow>();
+
+  const page = results.slice(0, pageSize);
+  let nextPageToken = "";
+  if (results.length > pageSize) {
+    nextPageToken = encodePageToken(page[page.length - 1].photo_id, "");
+  }
+
+  const totalRow = await db
+    .prepare(`SELECT COUNT(*) AS n FROM photos WHERE ${totalWhere}`)
+    .bind(...totalBinds)
+    .first<TotalRow>();
+
+  return jsonResponse<ListPhotosResponse>(
+    {
+      photos: page.map(serializePhoto),
+      nextPageToken,
+      totalSize: totalRow?.n ?? 0,
+    },
+    200,
+    corsHeaders,
+  );
+}
+
+/**
+ * Delete the photos of check-ins that no longer exist — purged after their
+ * soft delete — from R2 and then from `photos`. Run from the worker's
+ * scheduled handler after purgeDeletedCheckIns; returns the number removed.
+ */
+export async function purgeOrphanedPhotos(env: Partial<Env>): Promise<number> {
+  const db = env?.RATINGS_DB;
+  if (!db || !env.PHOTOS) return 0;
+  const { results } = await db
+    .prepare(
+      "SELECT p.bucket, p.photo_id, p.festival_id FROM photos p " +
+        "WHERE NOT EXISTS (SELECT 1 FROM check_ins c WHERE " +
+        "c.bucket = p.bucket AND c.festival_id = p.festival_id AND " +
+        "c.device_id = p.device_id AND c.check_in_id = p.check_in_id)",
+    )
+    .all<{ bucket: string; photo_id: string; festival_id: string }>();
+  if (results.length === 0) return 0;
+
+  // R2 deletes at most 1000 keys per call.
+  const keys = results.map((row) =>
+    objectKey(row.bucket, row.festival_id, row.photo_id),
+  );
+  for (let i = 0; i < keys.length; i += 1000) {
+    await env.PHOTOS.delete(keys.slice(i, i + 1000));
+  }
+  await db.batch(
+    results.map((row) =>
+      db
+        .prepare("DELETE FROM photos WHERE bucket = ? AND photo_id = ?")
+        .bind(row.bucket, row.photo_id),
+    ),
+  );
+  return results.length;
+}
@@ -0,0 +1,280 @@
+/**
+ * Rate limits for the /v1alpha write routes.
+ *
+ * Every POST, PATCH or DELETE under /v1alpha spends a token from two token
+ * buckets: one for the caller (their owner key, see auth.ts) and one for the
+ * client IP (`CF-Connecting-IP`). The caller bucket stops one client flooding
+ * a drink's summary; the IP bucket stops a script minting fresh device IDs to
+ * dodge it, and is sized generously because a festival hall shares a handful
+ * of IPs. A request that fails to identify its caller still spends from the
+ * IP bucket, and the handler then rejects it as usual.
+ *
+ * Limits are per route class: single writes, and the heavier batch routes
+ * (`:batchUpdate`, `me:claimDevice` and the `me` erasure). The defaults below
+ * can be overridden per class and bucket with a RATE_LIMITS var holding JSON,
+ * e.g. `{"write":{"caller":{"burst":20,"perMinute":10}}}`.
+ *
+ * The buckets live in the `rate_limits` D1 table (migration 0005). Spending a
+ * token is a single conditional upsert, so concurrent requests cannot
+ * overspend a bucket. A throttled request is 429 RESOURCE_EXHAUSTED with a
+ * RetryInfo detail and a Retry-After header. Without a database there is
+ * nothing to protect, and nothing is limited.
+ */
+
+import {
+  type CorsHeaders,
+  type Env,
+  errorResponse,
+  parseV1alphaPath,
+  retryInfo,
+} from "./shared.js";
+import { resolveCaller } from "./auth.js";
+
+/** A token bucket: up to `burst` requests at once, refilled at `perMinute`. */
+export interface BucketLimit {
+  burst: number;
+  perMinute: number;
+}
+
+/** The limits of one route class, per caller and per client IP. */
+export interface RouteLimits {
+  caller: BucketLimit;
+  ip: BucketLimit;
+}
+
+export type RouteClass = "write" | "batch";
+
+export const DEFAULT_RATE_LIMITS: Record<RouteClass, RouteLimits> = {
+  write: {
+    caller: { burst: 60, perMinute: 30 },
+    ip: { burst: 600, perMinute: 300 },
+  },
+  batch: {
+    caller: { burst: 10, perMinute: 5 },
+    ip: { burst: 100, perMinute: 50 },
+  },
+};
+
+// Rows untouched for this long have refilled (at any sane limit) and are
+// purged by the scheduled housekeeping.
+const IDLE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const WRITE_METHODS = new Set(["POST", "PATCH", "DELETE"]);
+
+interface Bucket {
+  kind: keyof RouteLimits;
+  key: string;
+  limit: BucketLimit;
+}
+
+interface BucketRow {
+  tokens: number;
+  updated_at: number;
+}
+
+// Per-isolate parse of RATE_LIMITS, keyed by its text.
+let limitsCache: {
+  source: string;
+  limits: Record<RouteClass, RouteLimits>;
+} | null = null;
+
+/** The route class of a rate-limited request, or null for any other. */
+export function routeClass(request: Request, url: URL): RouteClass | null {
+  if (!WRITE_METHODS.has(request.method)) return null;
+  const segments = parseV1alphaPath(url.pathname);
+  if (!segments || segments.length === 0) return null;
+  const last = segments[segments.length - 1];
+  return last.endsWith(":batchUpdate") ||
+    last === "me:claimDevice" ||
+    (segments.length === 1 && last === "me")
+    ? "batch"
+    : "write";
+}
+
+/**
+ * Spend a token for the request from its caller's and its IP's buckets.
+ * Returns the 429 response when either is empty, or null to proceed.
+ */
+export async function enforceRateLimit(
+  request: Request,
+  url: URL,
+  env: Partial<Env>,
+  corsHeaders: CorsHeaders,
+): Promise<Response | null> {
+  const db = env?.RATINGS_DB;
+  const routeClassName = routeClass(request, url);
+  if (!db || !routeClassName) return null;
+  const limits = resolveLimits(env)[routeClassName];
+
+  const buckets: Bucket[] = [];
+  const callerResult = await resolveCaller(request, env, corsHeaders);
+  if ("caller" in callerResult) {
+    buckets.push({
+      kind: "caller",
+      key: `${routeClassName}:caller:${callerResult.caller.deviceId}`,
+      limit: limits.caller,
+    });
+  }
+  const ip = request.headers.get("CF-Connecting-IP");
+  if (ip) {
+    buckets.push({
+      kind: "ip",
+      key: `${routeClassName}:ip:${await sha256Hex(ip)}`,
+      limit: limits.ip,
+    });
+  }
+  if (buckets.length === 0) return null;
+
+  const now = Date.now();
+  const results = await db.batch([
+    ...buckets.map((bucket) => takeToken(db, bucket, now)),
+    ...buckets.map((bucket) =>
+      db
+        .prepare("SELECT tokens, updated_at FROM rate_limits WHERE key = ?")
+        .bind(bucket.key),
+    ),
+  ]);
+
+  let throttled: { bucket: Bucket; delayMs: number } | null = null;
+  for (const [i, bucket] of buckets.entries()) {
+    if (results[i].results.length > 0) continue;
+    const row = results[buckets.length + i].results[0] as BucketRow;
+    const delayMs = refillDelay(bucket.limit, row, now);
+    if (!throttled || delayMs > throttled.delayMs) {
+      throttled = { bucket, delayMs };
+    }
+  }
+  if (!throttled) return null;
+
+  const { bucket, delayMs } = throttled;
+  return errorResponse(
+    429,
+    "RESOURCE_EXHAUSTED",
+    `Too many requests; retry after ${Math.ceil(delayMs / 1000)}s`,
+    "RATE_LIMITED",
+    {
+      ...corsHeaders,
+      "Retry-After": String(Math.ceil(delayMs / 1000)),
+      "Access-Control-Expose-Headers": "Retry-After",
+    },
+    { routeClass: routeClassName, limit: bucket.kind },
+    [retryInfo(delayMs)],
+  );
+}
+
+/**
+ * Spend one token from a bucket, creating it full. The row changes only when
+ * a token is available, and then RETURNING yields it: no row back means the
+ * bucket is empty. The refill is capped at the burst size, and a clock that
+ * steps backwards between isolates refills nothing.
+ */
+function takeToken(
+  db: D1Database,
+  bucket: Bucket,
+  now: number,
+): D1PreparedStatement {
+  const { burst, perMinute } = bucket.limit;
+  const perMs = perMinute / 60_000;
+  const level = "MIN(?, tokens + MAX(0, excluded.updated_at - updated_at) * ?)";
+  return db
+    .prepare(
+      "INSERT INTO rate_limits (key, tokens, updated_at) VALUES (?, ?, ?) " +
+        `ON CONFLICT (key) DO UPDATE SET tokens = ${level} - 1, ` +
+        "updated_at = MAX(updated_at, excluded.updated_at) " +
+        `WHERE ${level} >= 1 RETURNING tokens`,
+    )
+    .bind(bucket.key, burst - 1, now, burst, perMs, burst, perMs);
+}
+
+/** Milliseconds until an empty bucket holds a whole token again. */
+function refillDelay(limit: BucketLimit, row: BucketRow, now: number): number {
+  const perMs = limit.perMinute / 60_000;
+  const level = Math.min(
+    limit.burst,
+    row.tokens + Math.max(0, now - row.updated_at) * perMs,
+  );
+  return Math.max(1, Math.ceil((1 - level) / perMs));
+}
+
+/**
+ * The effective limits: the defaults, with any valid RATE_LIMITS overrides
+ * applied. A burst below one or a non-positive rate is ignored.
+ */
+export function resolveLimits(
+  env: Partial<Env>,
+): Record<RouteClass, RouteLimits> {
+  const source = env?.RATE_LIMITS ?? "";
+  if (limitsCache?.source === source) return limitsCache.limits;
+
+  let overrides: Record<string, Record<string, Partial<BucketLimit>>> = {};
+  if (source) {
+    try {
+      overrides = JSON.parse(source) ?? {};
+    } catch {
+      console.error("RATE_LIMITS is not valid JSON; using the defaults");
+    }
+  }
+  const limits = {} as Record<RouteClass, RouteLimits>;
+  for (const [name, defaults] of Object.entries(DEFAULT_RATE_LIMITS)) {
+    const override = overrides[name] ?? {};
+    limits[name as RouteClass] = {
+      caller: bucketLimit(defaults.caller, override.caller),
+      ip: bucketLimit(defaults.ip, override.ip),
+    };
+  }
+  limitsCache = { source, limits };
+  return limits;
+}
+
+function bucketLimit(
+  defaults: BucketLimit,
+  override: Partial<BucketLimit> | undefined,
+): BucketLimit {
+  const burst = override?.burst;
+  const perMinute = override?.perMinute;
+  return {
+    burst: typeof burst === "number" && burst >= 1 ? burst : defaults.burst,
+    perMinute:
+      typeof perMinute === "number" && perMinute > 0
+        ? perMinute
+        : defaults.perMinute,
+  };
+}
+
+/**
+ * Delete buckets idle for a day; they have long since refilled. Run from the
+ * worker's scheduled handler; a no-op without a database.
+ */
+export async function purgeRateLimits(
+  env: Partial<Env>,
+  now: number = Date.now(),
+): Promise<number> {
+  const db = env?.RATINGS_DB;
+  if (!db) return 0;
+  const result = await db
+    .prepare("DELETE FROM rate_limits WHERE updated_at < ?")
+    .bind(now - IDLE_RETENTION_MS)
+    .run();
+  return result.meta?.changes ?? 0;
+}
+
+/**
+ * The keys of a caller's buckets, one per route class — which hold their
+ * owner key in the clear, so erasing the caller (account.ts) deletes them.
+ */
+export function callerBucketKeys(ownerKey: string): string[] {
+  return Object.keys(DEFAULT_RATE_LIMITS).map(
+    (routeClassName) => `${routeClassName}:caller:${ownerKey}`,
+  );
+}
+
+/** The SHA-256 of a string, as lower-case hex. */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+}
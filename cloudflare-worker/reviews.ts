@@ -17,11 +17,29 @@
  * serves the older Review/ReviewSummary pair, which the proto contract
  * replaced with the wider DrinkEntry/DrinkSummary resources in PR #429. No
  * `Review` message exists in proto/ any more, so the field-level Pick below is
- * the strongest link to the contract available until the two surfaces are
- * reconciled. Reconciliation is My Festival work, not a typing change here.
+ * the strongest link to the contract available.
  *
- * Caller identity comes from the X-Device-Id request header (anonymous phase).
- * It never appears in resource names, so the sign-in upgrade is transparent.
+ * The contract's DrinkEntry is served by entries.ts over the same `reviews`
+ * rows. The review routes here are a compatibility view for older app builds:
+ * a review is the starRating/wouldRecommend subset of the caller's entry, and
+ * an entry with neither signal set, or a soft-deleted entry, reads as "no
+ * review". Deleting a review soft-deletes the entry when the review is all it
+ * holds — so the entry routes' `:undelete` can bring it back — and otherwise
+ * clears the two signals only, never wiping a favourite, note or pour count
+ * written through the entry routes. Soft-deleted rows never count towards a
+ * summary. A review's etag is its entry's etag
+ * (etag.ts), so conditional writes through either surface see each other.
+ *
+ * Caller identity comes from a Firebase ID token, or the legacy X-Device-Id
+ * header while that is allowed (auth.ts). It never appears in resource
+ * names, so the sign-in upgrade is transparent.
+ *
+ * Festival IDs must name a festival in festivals.json, and a PATCH is refused
+ * once its festival has closed (festivals.ts).
+ *
+ * After a write, the drink's new summary is pushed to the festival's watchers
+ * (publishReviewSummaries, watch.ts); the entry and account routes do the
+ * same for the drinks their writes touch.
  */
 
 import type { components } from "./src/api-types";
@@ -30,12 +48,40 @@ import {
   type Env,
   resolveBucket,
   rfc3339,
+  isValidId,
+  parseV1alphaPath,
+  queryParam,
+  validateStarRating,
+  validateWouldRecommend,
   jsonResponse,
   errorResponse,
+  methodNotAllowed,
   encodePageToken,
-  decodePageToken,
-  resolvePageSize,
+  encodeKeysetToken,
+  resolvePageRequest,
+  resolveKeysetPageRequest,
 } from "./shared.js";
+import { type FilterFields, resolveFilter } from "./filter.js";
+import { refreshAggregate } from "./aggregates.js";
+import { resolveCaller } from "./auth.js";
+import { publishToWatchers } from "./watch.js";
+import {
+  type FestivalRegistry,
+  resolveFestival,
+  catalogDrinkIds,
+  drinkNotFound,
+} from "./festivals.js";
+import {
+  type VersionedRow,
+  ROW_UNCHANGED,
+  rowUnchangedBinds,
+  rowEtag,
+  etagHeaders,
+  etagMatches,
+  writePrecondition,
+  notModified,
+  etagConflict,
+} from "./etag.js";
 
 // Response shapes, pinned field-by-field to the proto contract where the
 // deployed surface and the contract still overlap (see the file header).
@@ -45,8 +91,8 @@ type DrinkSummary = components["schemas"]["DrinkSummary"];
 // The caller's own signals for one drink: the subset of DrinkEntry this
 // worker persists. `starRating`/`wouldRecommend` stay optional — absent means
 // the caller has not answered, matching the contract's semantics.
-type Review = Required<Pick<DrinkEntry, "name" | "updateTime">> &
-  Pick<DrinkEntry, "starRating" | "wouldRecommend">;
+type Review = Required<Pick<DrinkEntry, "name" | "etag" | "updateTime">> &
+  Pick<DrinkEntry, "starRating" | "wouldRecommend" | "deleteTime">;
 
 // The aggregate across all callers: the subset of DrinkSummary computable from
 // the reviews table (no pour data, so no tasterCount/totalPours).
@@ -59,6 +105,8 @@ type ReviewSummary = Required<
     | "responseCount"
     | "recommendCount"
     | "recommendRate"
+    | "ratingDistribution"
+    | "adjustedRating"
   >
 >;
 
@@ -75,34 +123,105 @@ interface ListReviewSummariesResponse {
   totalSize: number;
 }
 
-const MAX_ID_LENGTH = 200;
-
-// D1 row shapes returned by SQL queries.
-interface ReviewRow {
-  star_rating: number | null;
-  recommend: number | null;
-  updated_at: number;
+// SQL predicate for "this row carries a review": an entry with neither signal
+// set is not visible through the review routes.
+const HAS_REVIEW = "(star_rating IS NOT NULL OR recommend IS NOT NULL)";
+
+// SQL predicate for "this row is not soft-deleted".
+const LIVE = "deleted_at IS NULL";
+
+// Summaries read the drink's review_aggregates row (aggregates.ts), selected
+// under the column names SummaryRow expects.
+const AVERAGE_RATING = "CAST(rating_sum AS REAL) / NULLIF(rating_count, 0)";
+const RECOMMEND_RATE =
+  "CAST(recommend_count AS REAL) / NULLIF(response_count, 0)";
+const SUMMARY_COLUMNS =
+  `rating_count, rating_sum, ${AVERAGE_RATING} AS avg_rating, ` +
+  "response_count, recommend_count, " +
+  "stars_1, stars_2, stars_3, stars_4, stars_5";
+
+// Drink IDs per summary read when publishing: D1's 100 bound parameters, less
+// the bucket and festival.
+const SUMMARY_READ_CHUNK = 98;
+
+// adjustedRating is a Bayesian average: the drink's ratings plus
+// RATING_PRIOR_WEIGHT phantom ratings at the festival-wide mean, so a drink
+// with one 5-star rating no longer outranks one with forty 4.5s. Unrated
+// drinks score 0, like averageRating. The SQL form takes the mean as its one
+// bind; summaryFields computes the same value for the response.
+const RATING_PRIOR_WEIGHT = 5;
+const ADJUSTED_RATING =
+  "CASE WHEN rating_count = 0 THEN 0 ELSE " +
+  `CAST(${RATING_PRIOR_WEIGHT} * ? + rating_sum AS REAL) / ` +
+  `(${RATING_PRIOR_WEIGHT} + rating_count) END`;
+
+// Fields each list's AIP-160 filter can name (see filter.ts). A review filter
+// is a condition on the caller's rows; a summary filter, on the aggregates.
+const REVIEW_FILTER_FIELDS: FilterFields = {
+  starRating: { sql: "star_rating", type: "integer" },
+  wouldRecommend: { sql: "recommend", type: "boolean" },
+  updateTime: { sql: "updated_at", type: "timestamp" },
+};
+const SUMMARY_FILTER_FIELDS: FilterFields = {
+  ratingCount: { sql: "rating_count", type: "integer" },
+  averageRating: { sql: AVERAGE_RATING, type: "number" },
+  responseCount: { sql: "response_count", type: "integer" },
+  recommendCount: { sql: "recommend_count", type: "integer" },
+  recommendRate: { sql: RECOMMEND_RATE, type: "number" },
+};
+
+// Fields a summary list can be ordered by (AIP-132). An unset aggregate sorts
+// as the 0 the response reports for it; ties break on drink id, ascending.
+const SUMMARY_ORDER_FIELDS = [
+  "averageRating",
+  "recommendRate",
+  "ratingCount",
+  "adjustedRating",
+];
+
+interface SummaryOrder {
+  field: string;
+  desc: boolean;
 }
+
+// D1 row shapes returned by SQL queries. A review row is the whole entry row:
+// the etag covers every signal, not just the two a review exposes.
+type ReviewRow = VersionedRow;
 interface ReviewListRow extends ReviewRow {
   drink_id: string;
 }
 interface SummaryRow {
   rating_count: number;
+  rating_sum: number;
   avg_rating: number | null;
   response_count: number;
   recommend_count: number | null;
+  stars_1: number | null;
+  stars_2: number | null;
+  stars_3: number | null;
+  stars_4: number | null;
+  stars_5: number | null;
   drink_id?: string;
 }
+interface SummaryListRow extends SummaryRow {
+  drink_id: string;
+  sort_value?: number;
+}
 interface TotalRow {
   n: number;
 }
 
 interface ReviewCtx {
+  env: Env;
+  /** Its waitUntil carries the summary publish past the response. */
+  executionCtx: ExecutionContext;
   db: D1Database;
   bucket: string;
   festivalId: string;
   drinkId: string;
   deviceId: string;
+  userId: string | null;
+  url: URL;
   corsHeaders: CorsHeaders;
 }
 interface SummaryCtx {
@@ -128,48 +247,14 @@ interface ListSummaryCtx {
   corsHeaders: CorsHeaders;
 }
 
-function isValidId(value: string | null): value is string {
-  return (
-    typeof value === "string" &&
-    value.length > 0 &&
-    value.length <= MAX_ID_LENGTH
-  );
-}
-
-function getDeviceId(
-  request: Request,
-  corsHeaders: CorsHeaders,
-): { deviceId: string } | { error: Response } {
-  const deviceId = request.headers.get("X-Device-Id");
-  if (!isValidId(deviceId)) {
-    return {
-      error: errorResponse(
-        400,
-        "INVALID_ARGUMENT",
-        "X-Device-Id header is required (non-empty, max 200 chars)",
-        "MISSING_DEVICE_ID",
-        corsHeaders,
-      ),
-    };
-  }
-  return { deviceId };
-}
-
-function parseV1alphaPath(pathname: string): string[] | null {
-  if (pathname !== "/v1alpha" && !pathname.startsWith("/v1alpha/")) return null;
-  return pathname
-    .slice("/v1alpha/".length)
-    .split("/")
-    .filter((s) => s.length > 0)
-    .map((s) => decodeURIComponent(s));
-}
-
 /** Route a request, or return null if the path doesn't match any review route. */
 export async function handleReviews(
   request: Request,
   url: URL,
   env: Env,
   corsHeaders: CorsHeaders,
+  festivals: FestivalRegistry,
+  executionCtx: ExecutionContext,
 ): Promise<Response | null> {
   const segments = parseV1alphaPath(url.pathname);
   if (!segments || segments[0] !== "festivals" || segments.length < 3) {
@@ -218,35 +303,67 @@ export async function handleReviews(
         corsHeaders,
       );
     }
-    const deviceResult = getDeviceId(request, corsHeaders);
-    if ("error" in deviceResult) return deviceResult.error;
+    const isWrite = request.method === "PATCH";
+    const festivalResult = resolveFestival(
+      festivals,
+      festivalId,
+      env,
+      corsHeaders,
+      { write: isWrite },
+    );
+    if ("error" in festivalResult) return festivalResult.error;
+    const callerResult = await resolveCaller(request, env, corsHeaders);
+    if ("error" in callerResult) return callerResult.error;
+    const { deviceId, userId } = callerResult.caller;
+    if (isWrite) {
+      const drinkIds = await catalogDrinkIds(
+        festivalResult.festival,
+        env,
+        executionCtx,
+      );
+      if (drinkIds && !drinkIds.has(drinkId)) {
+        return drinkNotFound(festivalId, drinkId, corsHeaders);
+      }
+    }
 
     switch (request.method) {
       case "GET":
-        return getReview({
+        return getReview(request, {
+          env,
+          executionCtx,
           db,
           bucket,
           festivalId,
           drinkId,
-          deviceId: deviceResult.deviceId,
+          deviceId,
+          userId,
+          url,
           corsHeaders,
         });
       case "PATCH":
         return upsertReview(request, {
+          env,
+          executionCtx,
           db,
           bucket,
           festivalId,
           drinkId,
-          deviceId: deviceResult.deviceId,
+          deviceId,
+          userId,
+          url,
           corsHeaders,
         });
       case "DELETE":
-        return deleteReview({
+        return deleteReview(request, {
+          env,
+          executionCtx,
           db,
           bucket,
           festivalId,
           drinkId,
-          deviceId: deviceResult.deviceId,
+          deviceId,
+          userId,
+          url,
           corsHeaders,
         });
       default:
@@ -266,15 +383,22 @@ export async function handleReviews(
       corsHeaders,
     );
   }
+  const festivalResult = resolveFestival(
+    festivals,
+    festivalId,
+    env,
+    corsHeaders,
+  );
+  if ("error" in festivalResult) return festivalResult.error;
 
   if (isReviewList) {
-    const deviceResult = getDeviceId(request, corsHeaders);
-    if ("error" in deviceResult) return deviceResult.error;
+    const callerResult = await resolveCaller(request, env, corsHeaders);
+    if ("error" in callerResult) return callerResult.error;
     return listReviews({
       db,
       bucket,
       festivalId,
-      deviceId: deviceResult.deviceId,
+      deviceId: callerResult.caller.deviceId,
       url,
       corsHeaders,
     });
@@ -297,16 +421,6 @@ export async function handleReviews(
   return listReviewSummaries({ db, bucket, festivalId, url, corsHeaders });
 }
 
-function methodNotAllowed(corsHeaders: CorsHeaders): Response {
-  return errorResponse(
-    405,
-    "UNIMPLEMENTED",
-    "Method not allowed for this resource",
-    "METHOD_NOT_ALLOWED",
-    corsHeaders,
-  );
-}
-
 function reviewName(festivalId: string, drinkId: string): string {
   return `festivals/${festivalId}/drinks/${drinkId}/review`;
 }
@@ -315,8 +429,13 @@ function summaryName(festivalId: string, drinkId: string): string {
   return `festivals/${festivalId}/reviewSummaries/${drinkId}`;
 }
 
-function serializeReview(name: string, row: ReviewRow): Review {
-  const resource: Review = { name, updateTime: rfc3339(row.updated_at) };
+async function serializeReview(name: string, row: ReviewRow): Promise<Review> {
+  const resource: Review = {
+    name,
+    etag: await rowEtag(row),
+    updateTime: rfc3339(row.updated_at),
+    ...(row.deleted_at != null && { deleteTime: rfc3339(row.deleted_at) }),
+  };
   if (row.star_rating != null) resource.starRating = row.star_rating;
   if (row.recommend != null) resource.wouldRecommend = Boolean(row.recommend);
   return resource;
@@ -330,7 +449,10 @@ function round2(value: number): number {
   return Math.round(value * 100) / 100;
 }
 
-function summaryFields(row: Partial<SummaryRow>): Omit<ReviewSummary, "name"> {
+function summaryFields(
+  row: Partial<SummaryRow>,
+  festivalMean: number,
+): Omit<ReviewSummary, "name"> {
   const ratingCount = row.rating_count ?? 0;
   const responseCount = row.response_count ?? 0;
   const recommendCount = row.recommend_count ?? 0;
@@ -341,9 +463,49 @@ function summaryFields(row: Partial<SummaryRow>): Omit<ReviewSummary, "name"> {
     responseCount,
     recommendCount,
     recommendRate: responseCount ? round2(recommendCount / responseCount) : 0,
+    ratingDistribution: [
+      row.stars_1,
+      row.stars_2,
+      row.stars_3,
+      row.stars_4,
+      row.stars_5,
+    ].map((n) => n ?? 0),
+    adjustedRating: ratingCount
+      ? round2(
+          (RATING_PRIOR_WEIGHT * festivalMean + (row.rating_sum ?? 0)) /
+            (RATING_PRIOR_WEIGHT + ratingCount),
+        )
+      : 0,
   };
 }
 
+/** The mean of every rating at the festival: adjustedRating's prior. */
+async function festivalMeanRating(
+  db: D1Database,
+  bucket: string,
+  festivalId: string,
+): Promise<number> {
+  const row = await db
+    .prepare(
+      "SELECT CAST(SUM(rating_sum) AS REAL) / SUM(rating_count) AS mean " +
+        "FROM review_aggregates WHERE bucket = ? AND festival_id = ?",
+    )
+    .bind(bucket, festivalId)
+    .first<{ mean: number | null }>();
+  return row?.mean ?? 0;
+}
+
+/** The SQL sort key for an order_by field, never NULL, and its binds. */
+function summarySortKey(
+  field: string,
+  festivalMean: number,
+): { sql: string; binds: unknown[] } {
+  if (field === "adjustedRating") {
+    return { sql: ADJUSTED_RATING, binds: [festivalMean] };
+  }
+  return { sql: `COALESCE(${SUMMARY_FILTER_FIELDS[field].sql}, 0)`, binds: [] };
+}
+
 async function readRow(
   db: D1Database,
   bucket: string,
@@ -353,17 +515,25 @@ async function readRow(
 ): Promise<ReviewRow | null> {
   return db
     .prepare(
-      "SELECT star_rating, recommend, updated_at FROM reviews " +
-        "WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND device_id = ?",
+      "SELECT is_favourite, star_rating, recommend, note, pours, updated_at, " +
+        "deleted_at FROM reviews WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND device_id = ?",
     )
     .bind(bucket, festivalId, drinkId, deviceId)
     .first<ReviewRow>();
 }
 
-async function getReview(ctx: ReviewCtx): Promise<Response> {
+function hasReview(row: ReviewRow | null): row is ReviewRow {
+  return (
+    row != null &&
+    row.deleted_at == null &&
+    (row.star_rating != null || row.recommend != null)
+  );
+}
+
+async function getReview(request: Request, ctx: ReviewCtx): Promise<Response> {
   const { db, bucket, festivalId, drinkId, deviceId, corsHeaders } = ctx;
   const row = await readRow(db, bucket, festivalId, drinkId, deviceId);
-  if (!row) {
+  if (!hasReview(row)) {
     return errorResponse(
       404,
       "NOT_FOUND",
@@ -372,10 +542,15 @@ async function getReview(ctx: ReviewCtx): Promise<Response> {
       corsHeaders,
     );
   }
+  const review = await serializeReview(reviewName(festivalId, drinkId), row);
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  if (ifNoneMatch && etagMatches(ifNoneMatch, review.etag)) {
+    return notModified(review.etag, corsHeaders);
+  }
   return jsonResponse<Review>(
-    serializeReview(reviewName(festivalId, drinkId), row),
+    review,
     200,
-    corsHeaders,
+    etagHeaders(review.etag, corsHeaders),
   );
 }
 
@@ -383,7 +558,8 @@ async function upsertReview(
   request: Request,
   ctx: ReviewCtx,
 ): Promise<Response> {
-  const { db, bucket, festivalId, drinkId, deviceId, corsHeaders } = ctx;
+  const { db, bucket, festivalId, drinkId, deviceId, userId, corsHeaders } =
+    ctx;
 
   let body: unknown;
   try {
@@ -444,104 +620,136 @@ async function upsertReview(
 
   let starRating: number | undefined;
   if (updateStar) {
-    const v = patch.starRating;
-    if (!Number.isInteger(v) || (v as number) < 1 || (v as number) > 5) {
+    const result = validateStarRating(patch.starRating);
+    if ("error" in result) {
+      const { message, reason } = result.error;
       return errorResponse(
         400,
         "INVALID_ARGUMENT",
-        "starRating must be an integer between 1 and 5",
-        "STAR_RATING_OUT_OF_RANGE",
+        message,
+        reason,
         corsHeaders,
       );
     }
-    starRating = v as number;
+    starRating = result.value;
   }
 
   let recommend: number | undefined;
   if (updateRec) {
-    const v = patch.wouldRecommend;
-    if (typeof v !== "boolean") {
+    const result = validateWouldRecommend(patch.wouldRecommend);
+    if ("error" in result) {
+      const { message, reason } = result.error;
       return errorResponse(
         400,
         "INVALID_ARGUMENT",
-        "wouldRecommend must be a boolean",
-        "WOULD_RECOMMEND_INVALID",
+        message,
+        reason,
         corsHeaders,
       );
     }
-    recommend = v ? 1 : 0;
+    recommend = result.value;
   }
 
   const existing = await readRow(db, bucket, festivalId, drinkId, deviceId);
+  const precondition = writePrecondition(request, patch.etag);
+  if (
+    precondition !== null &&
+    (!existing || !etagMatches(precondition, await rowEtag(existing)))
+  ) {
+    return etagConflict(corsHeaders);
+  }
   const now = Date.now();
 
+  // A soft-deleted entry is written over as a fresh one: nothing it held
+  // before deletion carries over.
+  const live = existing?.deleted_at == null ? existing : null;
+
   // Compute the final column values upfront so we can build the response
   // without a second DB read — avoids a round trip and the race where a
   // concurrent DELETE between write and re-read would make row! throw.
-  const finalStarRating = updateStar
-    ? (starRating ?? null)
-    : (existing?.star_rating ?? null);
-  const finalRecommend = updateRec
-    ? (recommend ?? null)
-    : (existing?.recommend ?? null);
+  const row: ReviewRow = {
+    is_favourite: live?.is_favourite ?? null,
+    star_rating: updateStar
+      ? (starRating ?? null)
+      : (live?.star_rating ?? null),
+    recommend: updateRec ? (recommend ?? null) : (live?.recommend ?? null),
+    note: live?.note ?? null,
+    pours: live?.pours ?? null,
+    updated_at: now,
+    deleted_at: null,
+  };
 
+  // Guarded like entries.ts: a write that raced ours since the read above
+  // leaves zero changes, reported as ABORTED rather than overwritten. A
+  // resurrected entry also restarts its create time.
+  let result: D1Result;
   if (existing) {
-    await db
-      .prepare(
-        "UPDATE reviews SET star_rating = ?, recommend = ?, updated_at = ? " +
-          "WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND device_id = ?",
-      )
-      .bind(
-        finalStarRating,
-        finalRecommend,
-        now,
-        bucket,
-        festivalId,
-        drinkId,
-        deviceId,
-      )
-      .run();
+    [result] = await db.batch([
+      db
+        .prepare(
+          "UPDATE reviews SET is_favourite = ?, star_rating = ?, recommend = ?, " +
+            "note = ?, pours = ?, created_at = COALESCE(?, created_at), " +
+            "updated_at = ?, deleted_at = NULL " +
+            "WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND device_id = ? " +
+            `AND ${ROW_UNCHANGED}`,
+        )
+        .bind(
+          row.is_favourite,
+          row.star_rating,
+          row.recommend,
+          row.note,
+          row.pours,
+          live ? null : now,
+          now,
+          bucket,
+          festivalId,
+          drinkId,
+          deviceId,
+          ...rowUnchangedBinds(existing),
+        ),
+      ...refreshAggregate(db, ctx),
+    ]);
   } else {
-    await db
-      .prepare(
-        "INSERT INTO reviews (bucket, festival_id, drink_id, device_id, star_rating, recommend, updated_at) " +
-          "VALUES (?, ?, ?, ?, ?, ?, ?)",
-      )
-      .bind(
-        bucket,
-        festivalId,
-        drinkId,
-        deviceId,
-        finalStarRating,
-        finalRecommend,
-        now,
-      )
-      .run();
+    [result] = await db.batch([
+      db
+        .prepare(
+          "INSERT INTO reviews (bucket, festival_id, drink_id, device_id, user_id, star_rating, recommend, created_at, updated_at) " +
+            "VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT DO NOTHING",
+        )
+        .bind(
+          bucket,
+          festivalId,
+          drinkId,
+          deviceId,
+          userId,
+          row.star_rating,
+          row.recommend,
+          now,
+          now,
+        ),
+      ...refreshAggregate(db, ctx),
+    ]);
   }
+  if (!result.meta?.changes) return etagConflict(corsHeaders);
+  ctx.executionCtx.waitUntil(
+    publishReviewSummaries(ctx.env, bucket, festivalId, [drinkId]),
+  );
 
+  const review = await serializeReview(reviewName(festivalId, drinkId), row);
   return jsonResponse<Review>(
-    serializeReview(reviewName(festivalId, drinkId), {
-      star_rating: finalStarRating,
-      recommend: finalRecommend,
-      updated_at: now,
-    }),
+    review,
     200,
-    corsHeaders,
+    etagHeaders(review.etag, corsHeaders),
   );
 }
 
-async function deleteReview(ctx: ReviewCtx): Promise<Response> {
-  const { db, bucket, festivalId, drinkId, deviceId, corsHeaders } = ctx;
-  const result = await db
-    .prepare(
-      "DELETE FROM reviews " +
-        "WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND device_id = ?",
-    )
-    .bind(bucket, festivalId, drinkId, deviceId)
-    .run();
-
-  const changes = result.meta?.changes ?? 0;
-  if (!changes) {
+async function deleteReview(
+  request: Request,
+  ctx: ReviewCtx,
+): Promise<Response> {
+  const { db, bucket, festivalId, drinkId, deviceId, url, corsHeaders } = ctx;
+  const existing = await readRow(db, bucket, festivalId, drinkId, deviceId);
+  if (!hasReview(existing)) {
     return errorResponse(
       404,
       "NOT_FOUND",
@@ -550,37 +758,69 @@ async function deleteReview(ctx: ReviewCtx): Promise<Response> {
       corsHeaders,
     );
   }
+
+  // A conditional delete carries the etag in the query string or If-Match.
+  const precondition = writePrecondition(request, url.searchParams.get("etag"));
+  if (
+    precondition !== null &&
+    !etagMatches(precondition, await rowEtag(existing))
+  ) {
+    return etagConflict(corsHeaders);
+  }
+
+  // Soft-delete the entry if the review is all it holds; otherwise the entry
+  // stays live for its favourite, note or pours and only loses the review.
+  const reviewOnly =
+    existing.is_favourite == null &&
+    existing.note == null &&
+    existing.pours == null;
+  const now = Date.now();
+  const [result] = await db.batch([
+    db
+      .prepare(
+        (reviewOnly
+          ? "UPDATE reviews SET deleted_at = ?, updated_at = ? "
+          : "UPDATE reviews SET star_rating = NULL, recommend = NULL, updated_at = ? ") +
+          "WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND device_id = ? " +
+          `AND ${ROW_UNCHANGED}`,
+      )
+      .bind(
+        ...(reviewOnly ? [now, now] : [now]),
+        bucket,
+        festivalId,
+        drinkId,
+        deviceId,
+        ...rowUnchangedBinds(existing),
+      ),
+    ...refreshAggregate(db, ctx),
+  ]);
+  if (!result.meta?.changes) return etagConflict(corsHeaders);
+  ctx.executionCtx.waitUntil(
+    publishReviewSummaries(ctx.env, bucket, festivalId, [drinkId]),
+  );
   return jsonResponse({}, 200, corsHeaders);
 }
 
 async function listReviews(ctx: ListCtx): Promise<Response> {
   const { db, bucket, festivalId, deviceId, url, corsHeaders } = ctx;
 
-  const sizeResult = resolvePageSize(url.searchParams.get("page_size"));
-  if ("error" in sizeResult) {
-    return errorResponse(
-      400,
-      "INVALID_ARGUMENT",
-      "page_size must be >= 0",
-      "INVALID_PAGE_SIZE",
-      corsHeaders,
-    );
-  }
-  const pageSize = sizeResult.value;
+  const filterResult = resolveFilter(url, REVIEW_FILTER_FIELDS, corsHeaders);
+  if ("error" in filterResult) return filterResult.error;
+  const { filter, raw } = filterResult;
 
-  const cursor = decodePageToken(url.searchParams.get("page_token"));
-  if (cursor === undefined) {
-    return errorResponse(
-      400,
-      "INVALID_ARGUMENT",
-      "Invalid page_token",
-      "INVALID_PAGE_TOKEN",
-      corsHeaders,
-    );
-  }
+  const showDeleted = queryParam(url, "showDeleted", "show_deleted") === "true";
+  const scope = showDeleted ? `${raw}\nshow_deleted=true` : raw;
+  const pageRequest = resolvePageRequest(url, corsHeaders, scope);
+  if ("error" in pageRequest) return pageRequest.error;
+  const { pageSize, cursor } = pageRequest;
 
-  const where = ["bucket = ?", "festival_id = ?", "device_id = ?"];
+  const where = ["bucket = ?", "festival_id = ?", "device_id = ?", HAS_REVIEW];
   const binds: unknown[] = [bucket, festivalId, deviceId];
+  if (!showDeleted) where.push(LIVE);
+  if (filter) {
+    where.push(filter.sql);
+    binds.push(...filter.binds);
+  }
   if (cursor !== null) {
     where.push("drink_id > ?");
     binds.push(cursor);
@@ -588,20 +828,23 @@ async function listReviews(ctx: ListCtx): Promise<Response> {
 
   const { results } = await db
     .prepare(
-      "SELECT drink_id, star_rating, recommend, updated_at FROM reviews " +
+      "SELECT drink_id, is_favourite, star_rating, recommend, note, pours, " +
+        "updated_at, deleted_at FROM reviews " +
         `WHERE ${where.join(" AND ")} ORDER BY drink_id LIMIT ?`,
     )
     .bind(...binds, pageSize + 1)
     .all<ReviewListRow>();
 
   const page = results.slice(0, pageSize);
-  const reviews: Review[] = page.map((row) =>
-    serializeReview(reviewName(festivalId, row.drink_id), row),
+  const reviews: Review[] = await Promise.all(
+    page.map((row) =>
+      serializeReview(reviewName(festivalId, row.drink_id), row),
+    ),
   );
 
   let nextPageToken = "";
   if (results.length > pageSize) {
-    nextPageToken = encodePageToken(page[page.length - 1].drink_id);
+    nextPageToken = encodePageToken(page[page.length - 1].drink_id, scope);
   }
 
   return jsonResponse<ListReviewsResponse>(
@@ -613,87 +856,231 @@ async function listReviews(ctx: ListCtx): Promise<Response> {
 
 async function getReviewSummary(ctx: SummaryCtx): Promise<Response> {
   const { db, bucket, festivalId, drinkId, corsHeaders } = ctx;
-  const row = await db
-    .prepare(
-      "SELECT " +
-        "COUNT(star_rating) AS rating_count, " +
-        "AVG(star_rating) AS avg_rating, " +
-        "COUNT(recommend) AS response_count, " +
-        "SUM(CASE WHEN recommend = 1 THEN 1 ELSE 0 END) AS recommend_count " +
-        "FROM reviews WHERE bucket = ? AND festival_id = ? AND drink_id = ?",
-    )
-    .bind(bucket, festivalId, drinkId)
-    .first<SummaryRow>();
+  const [row, festivalMean] = await Promise.all([
+    db
+      .prepare(
+        `SELECT ${SUMMARY_COLUMNS} FROM review_aggregates ` +
+          "WHERE bucket = ? AND festival_id = ? AND drink_id = ?",
+      )
+      .bind(bucket, festivalId, drinkId)
+      .first<SummaryRow>(),
+    festivalMeanRating(db, bucket, festivalId),
+  ]);
 
   return jsonResponse<ReviewSummary>(
-    { name: summaryName(festivalId, drinkId), ...summaryFields(row ?? {}) },
+    {
+      name: summaryName(festivalId, drinkId),
+      ...summaryFields(row ?? {}, festivalMean),
+    },
     200,
     corsHeaders,
   );
 }
 
+/**
+ * Push the current summaries of drinks whose reviews a write has changed to
+ * the festival's watchers, as `reviewSummary` events for the bucket. A no-op
+ * without the watch binding, and never throws. The other drinks'
+ * adjustedRating moves with the festival mean too, but is not pushed.
+ *
+ * Write routes hand the returned promise to `ctx.waitUntil`, so the publish
+ * runs after their response has gone.
+ */
+export async function publishReviewSummaries(
+  env: Partial<Env>,
+  bucket: string,
+  festivalId: string,
+  drinkIds: string[],
+): Promise<void> {
+  const db = env?.RATINGS_DB;
+  if (!db || !env.FESTIVAL_WATCH || drinkIds.length === 0) return;
+  let summaries: ReviewSummary[];
+  try {
+    const chunks: string[][] = [];
+    for (let i = 0; i < drinkIds.length; i += SUMMARY_READ_CHUNK) {
+      chunks.push(drinkIds.slice(i, i + SUMMARY_READ_CHUNK));
+    }
+    const [reads, festivalMean] = await Promise.all([
+      db.batch<SummaryListRow>(
+        chunks.map((chunk) =>
+          db
+            .prepare(
+              `SELECT drink_id, ${SUMMARY_COLUMNS} FROM review_aggregates ` +
+                "WHERE bucket = ? AND festival_id = ? " +
+                `AND drink_id IN (${chunk.map(() => "?").join(", ")})`,
+            )
+            .bind(bucket, festivalId, ...chunk),
+        ),
+      ),
+      festivalMeanRating(db, bucket, festivalId),
+    ]);
+    const results = reads.flatMap((read) => read.results);
+    // A drink left without reviews has no aggregate row: its summary is zero.
+    const rows = new Map(results.map((row) => [row.drink_id, row]));
+    summaries = drinkIds.map((drinkId) => ({
+      name: summaryName(festivalId, drinkId),
+      ...summaryFields(rows.get(drinkId) ?? {}, festivalMean),
+    }));
+  } catch (e) {
+    // The write has landed; its watchers only miss the update.
+    console.error(`Watch: reading summaries for ${festivalId} failed: ${e}`);
+    return;
+  }
+  await publishToWatchers(
+    env,
+    festivalId,
+    summaries.map((data) => ({ event: "reviewSummary", bucket, data })),
+  );
+}
+
+/**
+ * Parse a summary list's `order_by`: one field, optionally followed by `asc`
+ * or `desc`. Null when unset — the list is then in drink id order.
+ */
+function resolveSummaryOrder(
+  url: URL,
+  corsHeaders: CorsHeaders,
+): { order: SummaryOrder | null } | { error: Response } {
+  const raw = (url.searchParams.get("order_by") ?? "").trim();
+  if (raw === "") return { order: null };
+
+  const match = /^(\w+)(?:\s+(asc|desc))?$/i.exec(raw);
+  if (!match) {
+    return {
+      error: errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        `Invalid order_by "${raw}"; expected one field, optionally followed by asc or desc`,
+        "INVALID_ORDER_BY",
+        corsHeaders,
+      ),
+    };
+  }
+  const field = match[1].replace(/_([a-z])/g, (_, c: string) =>
+    c.toUpperCase(),
+  );
+  if (!SUMMARY_ORDER_FIELDS.includes(field)) {
+    return {
+      error: errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        `Unsupported order_by field: ${match[1]} ` +
+          `(supported: ${SUMMARY_ORDER_FIELDS.join(", ")})`,
+        "UNSUPPORTED_ORDER_BY_FIELD",
+        corsHeaders,
+      ),
+    };
+  }
+  return {
+    order: {
+      field,
+      desc: match[2]?.toLowerCase() === "desc",
+    },
+  };
+}
+
 async function listReviewSummaries(ctx: ListSummaryCtx): Promise<Response> {
   const { db, bucket, festivalId, url, corsHeaders } = ctx;
 
-  const sizeResult = resolvePageSize(url.searchParams.get("page_size"));
-  if ("error" in sizeResult) {
-    return errorResponse(
-      400,
-      "INVALID_ARGUMENT",
-      "page_size must be >= 0",
-      "INVALID_PAGE_SIZE",
-      corsHeaders,
-    );
-  }
-  const pageSize = sizeResult.value;
+  const filterResult = resolveFilter(url, SUMMARY_FILTER_FIELDS, corsHeaders);
+  if ("error" in filterResult) return filterResult.error;
+  const { filter, raw } = filterResult;
 
-  const cursor = decodePageToken(url.searchParams.get("page_token"));
-  if (cursor === undefined) {
-    return errorResponse(
-      400,
-      "INVALID_ARGUMENT",
-      "Invalid page_token",
-      "INVALID_PAGE_TOKEN",
-      corsHeaders,
-    );
-  }
+  const orderResult = resolveSummaryOrder(url, corsHeaders);
+  if ("error" in orderResult) return orderResult.error;
+  const { order } = orderResult;
+
+  // Tokens are scoped to the ordering as well as the filter: a drink id
+  // cursor means nothing in rating order, nor a descending cursor ascending.
+  const scope = order
+    ? `${raw}\norder_by=${order.field} ${order.desc ? "desc" : "asc"}`
+    : raw;
 
   const where = ["bucket = ?", "festival_id = ?"];
   const binds: unknown[] = [bucket, festivalId];
-  if (cursor !== null) {
-    where.push("drink_id > ?");
-    binds.push(cursor);
+  if (filter) {
+    where.push(filter.sql);
+    binds.push(...filter.binds);
+  }
+  const totalWhere = where.join(" AND ");
+  const totalBinds = [...binds];
+
+  let pageSize: number;
+  let festivalMean: number;
+  let key: { sql: string; binds: unknown[] } | null = null;
+  if (order) {
+    // Keyset on (sort value, drink id): rows past the cursor's value in the
+    // sort direction, or level with it and later by drink id.
+    const pageRequest = resolveKeysetPageRequest(url, corsHeaders, scope);
+    if ("error" in pageRequest) return pageRequest.error;
+    pageSize = pageRequest.pageSize;
+    const { cursor } = pageRequest;
+    // adjustedRating ranks against the festival mean, which any new rating
+    // moves. The first page's mean rides in the token and every later page
+    // ranks against it, so a rating written between pages cannot reshuffle
+    // the rows either side of the cursor.
+    festivalMean =
+      cursor?.mean ?? (await festivalMeanRating(db, bucket, festivalId));
+    key = summarySortKey(order.field, festivalMean);
+    if (cursor !== null) {
+      const past = order.desc ? "<" : ">";
+      where.push(`(${key.sql} ${past} ? OR (${key.sql} = ? AND drink_id > ?))`);
+      binds.push(
+        ...key.binds,
+        cursor.value,
+        ...key.binds,
+        cursor.value,
+        cursor.id,
+      );
+    }
+  } else {
+    const pageRequest = resolvePageRequest(url, corsHeaders, scope);
+    if ("error" in pageRequest) return pageRequest.error;
+    pageSize = pageRequest.pageSize;
+    if (pageRequest.cursor !== null) {
+      where.push("drink_id > ?");
+      binds.push(pageRequest.cursor);
+    }
+    festivalMean = await festivalMeanRating(db, bucket, festivalId);
   }
 
+  const sortColumn = key ? `, ${key.sql} AS sort_value` : "";
+  const orderBy = key
+    ? `${key.sql} ${order?.desc ? "DESC" : "ASC"}, drink_id`
+    : "drink_id";
   const { results } = await db
     .prepare(
-      "SELECT drink_id, " +
-        "COUNT(star_rating) AS rating_count, " +
-        "AVG(star_rating) AS avg_rating, " +
-        "COUNT(recommend) AS response_count, " +
-        "SUM(CASE WHEN recommend = 1 THEN 1 ELSE 0 END) AS recommend_count " +
-        "FROM reviews " +
-        `WHERE ${where.join(" AND ")} GROUP BY drink_id ORDER BY drink_id LIMIT ?`,
+      `SELECT drink_id, ${SUMMARY_COLUMNS}${sortColumn} ` +
+        `FROM review_aggregates WHERE ${where.join(" AND ")} ` +
+        `ORDER BY ${orderBy} LIMIT ?`,
     )
-    .bind(...binds, pageSize + 1)
-    .all<SummaryRow & { drink_id: string }>();
+    .bind(...(key?.binds ?? []), ...binds, ...(key?.binds ?? []), pageSize + 1)
+    .all<SummaryListRow>();
 
   const page = results.slice(0, pageSize);
   const reviewSummaries: ReviewSummary[] = page.map((row) => ({
     name: summaryName(festivalId, row.drink_id),
-    ...summaryFields(row),
+    ...summaryFields(row, festivalMean),
   }));
 
   let nextPageToken = "";
   if (results.length > pageSize) {
-    nextPageToken = encodePageToken(page[page.length - 1].drink_id);
+    const last = page[page.length - 1];
+    nextPageToken = order
+      ? encodeKeysetToken(
+          {
+            value: last.sort_value ?? 0,
+            id: last.drink_id,
+            ...(order.field === "adjustedRating" && { mean: festivalMean }),
+          },
+          scope,
+        )
+      : encodePageToken(last.drink_id, scope);
   }
 
   const totalRow = await db
-    .prepare(
-      "SELECT COUNT(DISTINCT drink_id) AS n FROM reviews WHERE bucket = ? AND festival_id = ?",
-    )
-    .bind(bucket, festivalId)
+    .prepare(`SELECT COUNT(*) AS n FROM review_aggregates WHERE ${totalWhere}`)
+    .bind(...totalBinds)
     .first<TotalRow>();
 
   return jsonResponse<ListReviewSummariesResponse>(
@@ -0,0 +1,163 @@
+/**
+ * Full-text search over a festival's drinks (CatalogService SearchDrinks).
+ *
+ * The index is built once per catalogue (catalog.ts) and kept alongside it in
+ * the isolate. Text is folded before it is tokenised — lowercased, accents
+ * stripped, ligatures such as "æ" spelled out — so "Kölsch" matches "kolsch".
+ * A word with an apostrophe is indexed whole and in parts: "Brasserie
+ * d'Achouffe" matches "achouffe", "dachouffe" and "d'achouffe" alike.
+ *
+ * Every query word must match a word of the drink's name, producer, style or
+ * tasting notes, either exactly or as a prefix (so results appear while the
+ * last word is still being typed). A drink scores the sum, over the query
+ * words, of the best field each matched: a name match outweighs a producer
+ * match, which outweighs style, then notes, and a prefix match counts half.
+ * Results are ranked by score, ties broken by drink ID.
+ */
+
+import type { components } from "./src/api-types";
+
+type Drink = components["schemas"]["Drink"];
+
+/** Weight of a match in each searched field; a prefix match counts half. */
+const FIELD_WEIGHTS = {
+  name: 8,
+  producer: 4,
+  style: 2,
+  notes: 1,
+} as const;
+
+// Letters NFKD does not decompose into a base letter and a mark.
+const FOLDED_LETTERS: Record<string, string> = {
+  æ: "ae",
+  œ: "oe",
+  ø: "o",
+  ß: "ss",
+  ł: "l",
+  đ: "d",
+  ð: "d",
+  þ: "th",
+};
+
+export interface SearchMatch {
+  drinkId: string;
+  score: number;
+}
+
+export interface SearchIndex {
+  /** Every indexed word, sorted, for prefix lookups. */
+  words: string[];
+  /** Per word: the drinks containing it, with their best field weight. */
+  postings: Map<string, Map<string, number>>;
+}
+
+/** Build the index over a catalogue's drinks, keyed by drink ID. */
+export function buildSearchIndex(drinks: Map<string, Drink>): SearchIndex {
+  const postings = new Map<string, Map<string, number>>();
+  const add = (text: string | undefined, weight: number, drinkId: string) => {
+    for (const word of indexWords(text ?? "")) {
+      let drinkWeights = postings.get(word);
+      if (!drinkWeights) {
+        drinkWeights = new Map();
+        postings.set(word, drinkWeights);
+      }
+      drinkWeights.set(
+        drinkId,
+        Math.max(weight, drinkWeights.get(drinkId) ?? 0),
+      );
+    }
+  };
+  for (const [drinkId, drink] of drinks) {
+    add(drink.displayName, FIELD_WEIGHTS.name, drinkId);
+    add(drink.producer?.displayName, FIELD_WEIGHTS.producer, drinkId);
+    add(drink.style, FIELD_WEIGHTS.style, drinkId);
+    add(drink.tastingNotes, FIELD_WEIGHTS.notes, drinkId);
+  }
+  return { words: [...postings.keys()].sort(), postings };
+}
+
+/**
+ * The words of a query, folded as the index is. Apostrophes join rather than
+ * split, so "d'Achouffe" is the single word "dachouffe".
+ */
+export function queryTerms(query: string): string[] {
+  return [...new Set(splitWords(query).map((parts) => parts.join("")))];
+}
+
+/** The drinks matching every term, best first (ties by drink ID). */
+export function searchIndex(
+  index: SearchIndex,
+  terms: string[],
+): SearchMatch[] {
+  let scores: Map<string, number> | null = null;
+  for (const term of terms) {
+    const termScores = new Map<string, number>();
+    for (let i = lowerBound(index.words, term); i < index.words.length; i++) {
+      const word = index.words[i];
+      if (!word.startsWith(term)) break;
+      const factor = word === term ? 1 : 0.5;
+      for (const [drinkId, weight] of index.postings.get(word)!) {
+        const score = weight * factor;
+        if (score > (termScores.get(drinkId) ?? 0)) {
+          termScores.set(drinkId, score);
+        }
+      }
+    }
+    if (scores === null) {
+      scores = termScores;
+      continue;
+    }
+    const previous: Map<string, number> = scores;
+    scores = new Map();
+    for (const [drinkId, score] of termScores) {
+      const earlier = previous.get(drinkId);
+      if (earlier !== undefined) scores.set(drinkId, earlier + score);
+    }
+  }
+  return [...(scores ?? [])]
+    .map(([drinkId, score]) => ({ drinkId, score }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (a.drinkId < b.drinkId ? -1 : a.drinkId > b.drinkId ? 1 : 0),
+    );
+}
+
+// A text's words, each with the whole word and, for a word containing an
+// apostrophe, its parts.
+function indexWords(text: string): string[] {
+  const words: string[] = [];
+  for (const parts of splitWords(text)) {
+    if (parts.length > 1) words.push(parts.join(""));
+    words.push(...parts);
+  }
+  return words;
+}
+
+// Fold a text and split it into words, each as its apostrophe-separated parts.
+function splitWords(text: string): string[][] {
+  return fold(text)
+    .split(/[^\p{L}\p{N}'’]+/u)
+    .map((word) => word.split(/['’]+/).filter((part) => part.length > 0))
+    .filter((parts) => parts.length > 0);
+}
+
+function fold(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/\p{M}+/gu, "")
+    .replace(/[æœøßłđðþ]/g, (letter) => FOLDED_LETTERS[letter]);
+}
+
+// Index of the first word not less than `term`.
+function lowerBound(words: string[], term: string): number {
+  let low = 0;
+  let high = words.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (words[mid] < term) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
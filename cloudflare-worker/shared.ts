@@ -1,12 +1,14 @@
 /**
  * Shared utilities for the /v1alpha "my festival" API.
  *
- * Bucket resolution, structured error responses (AIP-193), and opaque keyset
- * page tokens (AIP-158).
+ * Bucket resolution, caller identity and routing helpers, field validation,
+ * structured error responses (AIP-193), and opaque keyset page tokens
+ * (AIP-158).
  */
 
 const DEFAULT_PAGE_SIZE = 100;
 const MAX_PAGE_SIZE = 1000;
+const MAX_ID_LENGTH = 200;
 const ERROR_DOMAIN = "cambeerfestival.app";
 
 export type CorsHeaders = Record<string, string>;
@@ -14,6 +16,26 @@ export type CorsHeaders = Record<string, string>;
 export interface Env {
   RATINGS_DB: D1Database;
   RATINGS_BUCKET?: string;
+  /** Firebase project whose ID tokens are accepted (auth.ts). */
+  FIREBASE_PROJECT_ID?: string;
+  /** A JWKS document used instead of fetching Google's (tests). */
+  FIREBASE_JWKS?: string;
+  /** "true" to still accept the bare X-Device-Id header. */
+  ALLOW_DEVICE_ID?: string;
+  /** JSON overrides for the write rate limits (ratelimit.ts). */
+  RATE_LIMITS?: string;
+  /** Days after a festival's end that it still takes writes (festivals.ts). */
+  FESTIVAL_GRACE_DAYS?: string;
+  /** "true" to check drink IDs against the festival's beverage lists. */
+  VALIDATE_DRINK_IDS?: string;
+  /** JSON overrides for the beverage-list cache windows (edgecache.ts). */
+  UPSTREAM_CACHE?: string;
+  /** One FestivalWatch object per festival, for live updates (watch.ts). */
+  FESTIVAL_WATCH?: DurableObjectNamespace;
+  /** R2 bucket holding check-in photos (photos.ts). */
+  PHOTOS?: R2Bucket;
+  /** JSON overrides for the per-caller photo quota (photos.ts). */
+  PHOTO_QUOTA?: string;
 }
 
 export function isProductionOrigin(origin: string): boolean {
@@ -31,6 +53,96 @@ export function rfc3339(epochMillis: number): string {
   return new Date(epochMillis).toISOString();
 }
 
+// --- Routing and caller identity -------------------------------------------
+
+export function isValidId(value: string | null): value is string {
+  return (
+    typeof value === "string" &&
+    value.length > 0 &&
+    value.length <= MAX_ID_LENGTH
+  );
+}
+
+/** Split a /v1alpha path into decoded segments, or null for any other path. */
+export function parseV1alphaPath(pathname: string): string[] | null {
+  if (pathname !== "/v1alpha" && !pathname.startsWith("/v1alpha/")) return null;
+  return pathname
+    .slice("/v1alpha/".length)
+    .split("/")
+    .filter((s) => s.length > 0)
+    .map((s) => decodeURIComponent(s));
+}
+
+/** Read a query parameter by its JSON name, falling back to the proto name. */
+export function queryParam(
+  url: URL,
+  jsonName: string,
+  protoName: string,
+): string | null {
+  return url.searchParams.get(jsonName) ?? url.searchParams.get(protoName);
+}
+
+/** Caller identity from the X-Device-Id header (anonymous phase). */
+export function getDeviceId(
+  request: Request,
+  corsHeaders: CorsHeaders,
+): { deviceId: string } | { error: Response } {
+  const deviceId = request.headers.get("X-Device-Id");
+  if (!isValidId(deviceId)) {
+    return {
+      error: errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        "X-Device-Id header is required (non-empty, max 200 chars)",
+        "MISSING_DEVICE_ID",
+        corsHeaders,
+      ),
+    };
+  }
+  return { deviceId };
+}
+
+// --- Field validation ------------------------------------------------------
+
+/** A rejected field value: the message and ErrorInfo reason to report. */
+export interface FieldError {
+  message: string;
+  reason: string;
+}
+
+export function validateStarRating(
+  value: unknown,
+): { value: number } | { error: FieldError } {
+  if (
+    !Number.isInteger(value) ||
+    (value as number) < 1 ||
+    (value as number) > 5
+  ) {
+    return {
+      error: {
+        message: "starRating must be an integer between 1 and 5",
+        reason: "STAR_RATING_OUT_OF_RANGE",
+      },
+    };
+  }
+  return { value: value as number };
+}
+
+/** Validate wouldRecommend, returning the stored 0/1 form. */
+export function validateWouldRecommend(
+  value: unknown,
+): { value: number } | { error: FieldError } {
+  if (typeof value !== "boolean") {
+    return {
+      error: {
+        message: "wouldRecommend must be a boolean",
+        reason: "WOULD_RECOMMEND_INVALID",
+      },
+    };
+  }
+  return { value: value ? 1 : 0 };
+}
+
 // --- Responses (AIP-193) ---------------------------------------------------
 
 export function jsonResponse<T>(
@@ -47,6 +159,16 @@ export function jsonResponse<T>(
   });
 }
 
+// Canonical google.rpc.Code values, for a Status carried inside a response
+// body (per-item batch results) rather than mapped onto the HTTP status.
+const RPC_CODES: Record<string, number> = {
+  OK: 0,
+  INVALID_ARGUMENT: 3,
+  NOT_FOUND: 5,
+  FAILED_PRECONDITION: 9,
+  ABORTED: 10,
+};
+
 interface ErrorInfo {
   "@type": string;
   reason: string;
@@ -54,16 +176,33 @@ interface ErrorInfo {
   metadata?: Record<string, string>;
 }
 
+/** A google.rpc.Status with the ErrorInfo detail errorResponse also uses. */
+export interface RpcStatus {
+  code: number;
+  message: string;
+  details: ErrorInfo[];
+}
+
+/** google.rpc.RetryInfo: how long to wait before retrying. */
+export interface RetryInfo {
+  "@type": string;
+  /** A google.protobuf.Duration in its JSON form, e.g. "1.5s". */
+  retryDelay: string;
+}
+
 interface ErrorBody {
   error: {
     code: number;
     message: string;
     status: string;
-    details: ErrorInfo[];
+    details: (ErrorInfo | RetryInfo)[];
   };
 }
 
-/** Structured error body per AIP-193 (google.rpc.Status + ErrorInfo). */
+/**
+ * Structured error body per AIP-193 (google.rpc.Status + ErrorInfo). Further
+ * details, such as RetryInfo, follow the ErrorInfo.
+ */
 export function errorResponse(
   httpCode: number,
   status: string,
@@ -71,49 +210,248 @@ export function errorResponse(
   reason: string,
   corsHeaders: CorsHeaders,
   metadata?: Record<string, string>,
+  details: RetryInfo[] = [],
 ): Response {
-  const errorInfo: ErrorInfo = {
+  const body: ErrorBody = {
+    error: {
+      code: httpCode,
+      message,
+      status,
+      details: [errorInfo(reason, metadata), ...details],
+    },
+  };
+  return jsonResponse(body, httpCode, corsHeaders);
+}
+
+/** A RetryInfo detail for a delay in milliseconds. */
+export function retryInfo(delayMs: number): RetryInfo {
+  return {
+    "@type": "type.googleapis.com/google.rpc.RetryInfo",
+    retryDelay: `${Math.max(0, delayMs) / 1000}s`,
+  };
+}
+
+function errorInfo(
+  reason: string,
+  metadata?: Record<string, string>,
+): ErrorInfo {
+  const info: ErrorInfo = {
     "@type": "type.googleapis.com/google.rpc.ErrorInfo",
     reason,
     domain: ERROR_DOMAIN,
   };
-  if (metadata) errorInfo.metadata = metadata;
-  const body: ErrorBody = {
-    error: { code: httpCode, message, status, details: [errorInfo] },
+  if (metadata) info.metadata = metadata;
+  return info;
+}
+
+/**
+ * A google.rpc.Status for one item of a batch response. `status` is the
+ * canonical code name (as in errorResponse); OK carries no details.
+ */
+export function rpcStatus(
+  status: string,
+  message = "",
+  reason?: string,
+  metadata?: Record<string, string>,
+): RpcStatus {
+  return {
+    code: RPC_CODES[status],
+    message,
+    details: reason ? [errorInfo(reason, metadata)] : [],
   };
-  return jsonResponse(body, httpCode, corsHeaders);
+}
+
+export function methodNotAllowed(corsHeaders: CorsHeaders): Response {
+  return errorResponse(
+    405,
+    "UNIMPLEMENTED",
+    "Method not allowed for this resource",
+    "METHOD_NOT_ALLOWED",
+    corsHeaders,
+  );
 }
 
 // --- Pagination (AIP-158) --------------------------------------------------
 
-/** Encode a keyset cursor (last drink id) as an opaque URL-safe token. */
-export function encodePageToken(drinkId: string): string {
-  return btoa(unescape(encodeURIComponent(drinkId)))
+/**
+ * Encode a keyset cursor (last drink id) as an opaque URL-safe token.
+ *
+ * `scope` names the query the token continues — its filter and ordering — and
+ * a token only decodes under the same scope (AIP-158: changing any parameter
+ * other than page_size invalidates the token). Only a short fingerprint of the
+ * scope is embedded, so tokens stay small however long the filter is.
+ */
+export function encodePageToken(drinkId: string, scope = ""): string {
+  return btoa(unescape(encodeURIComponent(scopePrefix(scope) + drinkId)))
     .replace(/\+/g, "-")
     .replace(/\//g, "_")
     .replace(/=+$/, "");
 }
 
-/** Decode a page token back to its cursor, or null if absent. */
+/**
+ * Decode a page token back to its cursor, or null if absent. A malformed
+ * token, or one issued for a different scope, is undefined.
+ */
 export function decodePageToken(
   token: string | null,
+  scope = "",
 ): string | null | undefined {
   if (!token) return null;
+  let payload: string;
   try {
     const b64 = token.replace(/-/g, "+").replace(/_/g, "/");
-    return decodeURIComponent(escape(atob(b64)));
+    payload = decodeURIComponent(escape(atob(b64)));
   } catch {
     return undefined; // signal "invalid token"
   }
+  const prefix = scopePrefix(scope);
+  return payload.startsWith(prefix) ? payload.slice(prefix.length) : undefined;
 }
 
-/** Resolve an effective page size, or { error } for a bad value. */
+/**
+ * A composite keyset cursor for lists ordered by something other than their
+ * ids: the last row's sort value, with its id (a drink's, or a check-in's) as
+ * the tie-break.
+ */
+export interface KeysetCursor {
+  value: number;
+  id: string;
+  /**
+   * The festival mean the sort value was computed against, for orderings
+   * that depend on it (adjustedRating); later pages reuse it.
+   */
+  mean?: number;
+}
+
+/** Encode a composite cursor as a page token (see encodePageToken). */
+export function encodeKeysetToken(cursor: KeysetCursor, scope = ""): string {
+  const { value, id, mean } = cursor;
+  return encodePageToken(
+    JSON.stringify(mean === undefined ? [value, id] : [value, id, mean]),
+    scope,
+  );
+}
+
+/** Decode a composite page token; undefined as for decodePageToken. */
+export function decodeKeysetToken(
+  token: string | null,
+  scope = "",
+): KeysetCursor | null | undefined {
+  const payload = decodePageToken(token, scope);
+  if (payload == null) return payload;
+  try {
+    const parsed: unknown = JSON.parse(payload);
+    if (
+      Array.isArray(parsed) &&
+      typeof parsed[0] === "number" &&
+      typeof parsed[1] === "string"
+    ) {
+      if (parsed.length === 2) return { value: parsed[0], id: parsed[1] };
+      if (parsed.length === 3 && typeof parsed[2] === "number") {
+        return { value: parsed[0], id: parsed[1], mean: parsed[2] };
+      }
+    }
+  } catch {
+    // fall through
+  }
+  return undefined;
+}
+
+// FNV-1a fingerprint of a token's scope. It only has to tell scopes apart, not
+// resist forgery: a doctored token can do no more than page the caller's own
+// query from a different position.
+function scopePrefix(scope: string): string {
+  let hash = 0x811c9dc5;
+  for (const byte of new TextEncoder().encode(scope)) {
+    hash = Math.imul(hash ^ byte, 0x01000193) >>> 0;
+  }
+  return `${hash.toString(36)}:`;
+}
+
+/**
+ * Resolve an effective page size, or { error } for a bad value. An unset or
+ * zero page_size takes `defaultSize`.
+ */
 export function resolvePageSize(
   raw: string | null,
+  defaultSize = DEFAULT_PAGE_SIZE,
 ): { value: number } | { error: true } {
-  if (raw == null || raw === "") return { value: DEFAULT_PAGE_SIZE };
+  if (raw == null || raw === "") return { value: defaultSize };
   const n = Number(raw);
   if (!Number.isInteger(n) || n < 0) return { error: true };
-  if (n === 0) return { value: DEFAULT_PAGE_SIZE };
+  if (n === 0) return { value: defaultSize };
   return { value: Math.min(n, MAX_PAGE_SIZE) };
 }
+
+/**
+ * Resolve page_size and page_token from a List request's query string, or an
+ * INVALID_ARGUMENT response for either being malformed. `scope` is the scope
+ * the request's tokens are issued under (see encodePageToken): every parameter
+ * that changes the result set, such as the filter or show_deleted, so a token
+ * from one result set cannot resume a different one.
+ */
+export function resolvePageRequest(
+  url: URL,
+  corsHeaders: CorsHeaders,
+  scope = "",
+  defaultPageSize = DEFAULT_PAGE_SIZE,
+): { pageSize: number; cursor: string | null } | { error: Response } {
+  return resolvePage(
+    url,
+    corsHeaders,
+    decodePageToken(pageToken(url), scope),
+    defaultPageSize,
+  );
+}
+
+/** resolvePageRequest for lists paged with composite keyset tokens. */
+export function resolveKeysetPageRequest(
+  url: URL,
+  corsHeaders: CorsHeaders,
+  scope = "",
+): { pageSize: number; cursor: KeysetCursor | null } | { error: Response } {
+  return resolvePage(
+    url,
+    corsHeaders,
+    decodeKeysetToken(pageToken(url), scope),
+  );
+}
+
+function pageToken(url: URL): string | null {
+  return url.searchParams.get("page_token");
+}
+
+function resolvePage<C>(
+  url: URL,
+  corsHeaders: CorsHeaders,
+  cursor: C | null | undefined,
+  defaultPageSize = DEFAULT_PAGE_SIZE,
+): { pageSize: number; cursor: C | null } | { error: Response } {
+  const sizeResult = resolvePageSize(
+    url.searchParams.get("page_size"),
+    defaultPageSize,
+  );
+  if ("error" in sizeResult) {
+    return {
+      error: errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        "page_size must be >= 0",
+        "INVALID_PAGE_SIZE",
+        corsHeaders,
+      ),
+    };
+  }
+  if (cursor === undefined) {
+    return {
+      error: errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        "Invalid page_token, or one issued for a different query",
+        "INVALID_PAGE_TOKEN",
+        corsHeaders,
+      ),
+    };
+  }
+  return { pageSize: sizeResult.value, cursor };
+}
@@ -0,0 +1,662 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  env,
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../worker.js";
+import { checkReviewAggregates } from "../aggregates.js";
+import signingKeys from "./fixtures/firebase-signing-keys.json";
+
+const TEST_ORIGIN = "http://localhost:8080"; // non-prod → 'test' bucket
+const PROJECT = env.FIREBASE_PROJECT_ID;
+const CLAIM_PATH = "/v1alpha/me:claimDevice";
+
+function base64Url(bytes) {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/** Sign a Firebase-shaped ID token with the fixture key. */
+async function idToken(uid) {
+  const key = signingKeys.trusted;
+  const now = Math.floor(Date.now() / 1000);
+  const text = (value) =>
+    base64Url(new TextEncoder().encode(JSON.stringify(value)));
+  const signed = `${text({ alg: "RS256", kid: key.kid, typ: "JWT" })}.${text({
+    iss: `https://securetoken.google.com/${PROJECT}`,
+    aud: PROJECT,
+    sub: uid,
+    iat: now,
+    exp: now + 3600,
+  })}`;
+  const privateKey = await crypto.subtle.importKey(
+    "jwk",
+    key,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    privateKey,
+    new TextEncoder().encode(signed),
+  );
+  return `${signed}.${base64Url(signature)}`;
+}
+
+async function send(
+  method,
+  path,
+  { body, token, device, origin = TEST_ORIGIN, workerEnv = env } = {},
+) {
+  const init = { method, headers: { Origin: origin } };
+  if (token) init.headers.Authorization = `Bearer ${token}`;
+  if (device) init.headers["X-Device-Id"] = device;
+  if (body !== undefined) {
+    init.headers["Content-Type"] = "application/json";
+    init.body = JSON.stringify(body);
+  }
+  const request = new Request(`https://worker.example.com${path}`, init);
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, workerEnv, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+/** Seed a `reviews` row directly, so tests control updated_at. */
+async function seed(festivalId, drinkId, deviceId, columns) {
+  const row = {
+    star_rating: null,
+    recommend: null,
+    note: null,
+    deleted_at: null,
+    ...columns,
+  };
+  await env.RATINGS_DB.prepare(
+    "INSERT INTO reviews (bucket, festival_id, drink_id, device_id, " +
+      "star_rating, recommend, note, created_at, updated_at, deleted_at) " +
+      "VALUES ('test', ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+  )
+    .bind(
+      festivalId,
+      drinkId,
+      deviceId,
+      row.star_rating,
+      row.recommend,
+      row.note,
+      row.updated_at,
+      row.updated_at,
+      row.deleted_at,
+    )
+    .run();
+}
+
+async function rows() {
+  const { results } = await env.RATINGS_DB.prepare(
+    "SELECT festival_id, drink_id, device_id, user_id, star_rating, note, " +
+      "deleted_at FROM reviews ORDER BY festival_id, drink_id, device_id",
+  ).all();
+  return results;
+}
+
+beforeEach(async () => {
+  await env.RATINGS_DB.prepare("DELETE FROM reviews").run();
+  await env.RATINGS_DB.prepare("DELETE FROM check_ins").run();
+  await env.RATINGS_DB.prepare("DELETE FROM photos").run();
+  await env.RATINGS_DB.prepare("DELETE FROM erasures").run();
+  await env.RATINGS_DB.prepare("DELETE FROM want_to_try").run();
+  await env.RATINGS_DB.prepare("DELETE FROM want_to_try_aggregates").run();
+  await env.RATINGS_DB.prepare("DELETE FROM review_aggregates").run();
+  await env.RATINGS_DB.prepare("DELETE FROM rate_limits").run();
+});
+
+describe("account — claimDevice", () => {
+  it("moves a device's entries across festivals into the account", async () => {
+    await send("PATCH", "/v1alpha/festivals/cbfw2025/drinks/beer-1/review", {
+      device: "dev-1",
+      body: { starRating: 4 },
+    });
+    await send("PATCH", "/v1alpha/festivals/cbf2025/drinks/beer-2/review", {
+      device: "dev-1",
+      body: { starRating: 5 },
+    });
+    const token = await idToken("uid-alice");
+
+    const response = await send("POST", CLAIM_PATH, {
+      token,
+      body: { deviceId: "dev-1" },
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      movedEntries: [
+        "festivals/cbf2025/drinks/beer-2/entry",
+        "festivals/cbfw2025/drinks/beer-1/entry",
+      ],
+      mergedEntries: [],
+    });
+    expect(
+      (await rows()).map((r) => [r.festival_id, r.device_id, r.user_id]),
+    ).toEqual([
+      ["cbf2025", "user:uid-alice", "uid-alice"],
+      ["cbfw2025", "user:uid-alice", "uid-alice"],
+    ]);
+
+    const entry = await send(
+      "GET",
+      "/v1alpha/festivals/cbf2025/drinks/beer-2/entry",
+      { token },
+    );
+    expect((await entry.json()).starRating).toBe(5);
+    const byDevice = await send(
+      "GET",
+      "/v1alpha/festivals/cbf2025/drinks/beer-2/entry",
+      { device: "dev-1" },
+    );
+    expect(byDevice.status).toBe(404);
+  });
+
+  it("keeps the newer copy when both rated a drink", async () => {
+    // beer-1: device newer; beer-2: account newer; beer-3: tie.
+    await seed("cbf2025", "beer-1", "dev-1", {
+      star_rating: 5,
+      note: "device",
+      updated_at: 2000,
+    });
+    await seed("cbf2025", "beer-1", "user:uid-alice", {
+      star_rating: 2,
+      updated_at: 1000,
+    });
+    await seed("cbf2025", "beer-2", "dev-1", {
+      star_rating: 1,
+      updated_at: 1000,
+    });
+    await seed("cbf2025", "beer-2", "user:uid-alice", {
+      star_rating: 4,
+      updated_at: 2000,
+    });
+    await seed("cbf2025", "beer-3", "dev-1", {
+      star_rating: 1,
+      updated_at: 1500,
+    });
+    await seed("cbf2025", "beer-3", "user:uid-alice", {
+      star_rating: 3,
+      updated_at: 1500,
+    });
+    await checkReviewAggregates(env, { repair: true });
+
+    const response = await send("POST", CLAIM_PATH, {
+      token: await idToken("uid-alice"),
+      body: { deviceId: "dev-1" },
+    });
+    expect(response.status).toBe(200);
+    const { movedEntries, mergedEntries } = await response.json();
+    expect(movedEntries).toEqual([]);
+    expect(mergedEntries).toEqual([
+      {
+        name: "festivals/cbf2025/drinks/beer-1/entry",
+        kept: "SOURCE_DEVICE",
+        deviceUpdateTime: "1970-01-01T00:00:02.000Z",
+        accountUpdateTime: "1970-01-01T00:00:01.000Z",
+      },
+      {
+        name: "festivals/cbf2025/drinks/beer-2/entry",
+        kept: "SOURCE_ACCOUNT",
+        deviceUpdateTime: "1970-01-01T00:00:01.000Z",
+        accountUpdateTime: "1970-01-01T00:00:02.000Z",
+      },
+      {
+        name: "festivals/cbf2025/drinks/beer-3/entry",
+        kept: "SOURCE_ACCOUNT",
+        deviceUpdateTime: "1970-01-01T00:00:01.500Z",
+        accountUpdateTime: "1970-01-01T00:00:01.500Z",
+      },
+    ]);
+
+    expect(
+      (await rows()).map((r) => [
+        r.drink_id,
+        r.device_id,
+        r.star_rating,
+        r.note,
+      ]),
+    ).toEqual([
+      ["beer-1", "user:uid-alice", 5, "device"],
+      ["beer-2", "user:uid-alice", 4, null],
+      ["beer-3", "user:uid-alice", 3, null],
+    ]);
+    expect((await checkReviewAggregates(env)).drift).toEqual([]);
+  });
+
+  it("lets a newer tombstone win", async () => {
+    await seed("cbf2025", "beer-1", "dev-1", {
+      star_rating: 5,
+      updated_at: 2000,
+      deleted_at: 2000,
+    });
+    await seed("cbf2025", "beer-1", "user:uid-alice", {
+      star_rating: 2,
+      updated_at: 1000,
+    });
+    await checkReviewAggregates(env, { repair: true });
+
+    await send("POST", CLAIM_PATH, {
+      token: await idToken("uid-alice"),
+      body: { deviceId: "dev-1" },
+    });
+    expect(await rows()).toMatchObject([
+      { device_id: "user:uid-alice", star_rating: 5, deleted_at: 2000 },
+    ]);
+    const summary = await send(
+      "GET",
+      "/v1alpha/festivals/cbf2025/drinkSummaries/beer-1",
+    );
+    expect((await summary.json()).ratingCount ?? 0).toBe(0);
+  });
+
+  it("is safe to repeat", async () => {
+    await seed("cbf2025", "beer-1", "dev-1", {
+      star_rating: 5,
+      updated_at: 2000,
+    });
+    await seed("cbf2025", "beer-1", "user:uid-alice", {
+      star_rating: 2,
+      updated_at: 1000,
+    });
+    await seed("cbf2025", "beer-2", "dev-1", {
+      star_rating: 3,
+      updated_at: 1000,
+    });
+    const token = await idToken("uid-alice");
+
+    await send("POST", CLAIM_PATH, { token, body: { deviceId: "dev-1" } });
+    const before = await rows();
+    const again = await send("POST", CLAIM_PATH, {
+      token,
+      body: { deviceId: "dev-1" },
+    });
+    expect(again.status).toBe(200);
+    expect(await again.json()).toEqual({ movedEntries: [], mergedEntries: [] });
+    expect(await rows()).toEqual(before);
+  });
+
+  it("moves the device's check-ins and their photos, unreported", async () => {
+    const checkIn = "6f1c2a34-0b1d-4c55-9e8a-1a2b3c4d5e01";
+    const path = `/v1alpha/festivals/cbf2025/checkIns/${checkIn}`;
+    const photo = `${path}/photos/0b7d4e1a-9c2f-4a8e-b3d6-5f1e2a3b4c01`;
+    await send(
+      "POST",
+      `/v1alpha/festivals/cbf2025/checkIns?checkInId=${checkIn}`,
+      {
+        device: "dev-1",
+        body: { title: "Arrived" },
+      },
+    );
+    await env.RATINGS_DB.prepare(
+      "INSERT INTO photos (bucket, photo_id, festival_id, device_id, " +
+        "check_in_id, content_type, size_bytes, created_at) VALUES ('test', " +
+        "'0b7d4e1a-9c2f-4a8e-b3d6-5f1e2a3b4c01', 'cbf2025', 'dev-1', ?, " +
+        "'image/jpeg', 100, ?)",
+    )
+      .bind(checkIn, Date.now())
+      .run();
+    const token = await idToken("uid-alice");
+
+    const response = await send("POST", CLAIM_PATH, {
+      token,
+      body: { deviceId: "dev-1" },
+    });
+    expect(await response.json()).toEqual({
+      movedEntries: [],
+      mergedEntries: [],
+    });
+    expect((await send("GET", path, { token })).status).toBe(200);
+    expect((await send("GET", path, { device: "dev-1" })).status).toBe(404);
+    expect((await send("GET", photo, { token })).status).toBe(200);
+    expect((await send("GET", photo, { device: "dev-1" })).status).toBe(404);
+  });
+
+  it("keeps the newer copy of a check-in both have", async () => {
+    const token = await idToken("uid-alice");
+    const checkIn = (id, deviceId, title, updatedAt) =>
+      env.RATINGS_DB.prepare(
+        "INSERT INTO check_ins (bucket, festival_id, device_id, check_in_id, " +
+          "title, check_in_time, created_at, updated_at) " +
+          "VALUES ('test', 'cbf2025', ?, ?, ?, 1000, 1000, ?)",
+      )
+        .bind(deviceId, id, title, updatedAt)
+        .run();
+    // An offline create replayed under both, then edited on one side.
+    const newerOnDevice = "6f1c2a34-0b1d-4c55-9e8a-1a2b3c4d5e01";
+    const newerInAccount = "6f1c2a34-0b1d-4c55-9e8a-1a2b3c4d5e02";
+    await checkIn(newerOnDevice, "user:uid-alice", "Arrived", 1000);
+    await checkIn(newerOnDevice, "dev-1", "Arrived early", 2000);
+    await checkIn(newerInAccount, "user:uid-alice", "Left late", 2000);
+    await checkIn(newerInAccount, "dev-1", "Left", 1000);
+    await env.RATINGS_DB.prepare(
+      "INSERT INTO photos (bucket, photo_id, festival_id, device_id, " +
+        "check_in_id, content_type, size_bytes, created_at) VALUES ('test', " +
+        "'0b7d4e1a-9c2f-4a8e-b3d6-5f1e2a3b4c01', 'cbf2025', 'dev-1', ?, " +
+        "'image/jpeg', 100, 1000)",
+    )
+      .bind(newerInAccount)
+      .run();
+
+    const response = await send("POST", CLAIM_PATH, {
+      token,
+      body: { deviceId: "dev-1" },
+    });
+    expect(response.status).toBe(200);
+    const timeline = await send("GET", "/v1alpha/festivals/cbf2025/checkIns", {
+      token,
+    });
+    expect((await timeline.json()).checkIns.map((c) => c.title)).toEqual([
+      "Arrived early",
+      "Left late",
+    ]);
+    const { results } = await env.RATINGS_DB.prepare(
+      "SELECT device_id FROM check_ins UNION ALL SELECT device_id FROM photos",
+    ).all();
+    expect(results.map((r) => r.device_id)).toEqual([
+      "user:uid-alice",
+      "user:uid-alice",
+      "user:uid-alice",
+    ]);
+    const photos = await send(
+      "GET",
+      `/v1alpha/festivals/cbf2025/checkIns/${newerInAccount}/photos`,
+      { token },
+    );
+    expect((await photos.json()).photos).toHaveLength(1);
+  });
+
+  it("merges the device's want-to-try marks, unreported", async () => {
+    const want = (drink) =>
+      `/v1alpha/festivals/cbf2025/drinks/${drink}/wantToTry`;
+    const token = await idToken("uid-alice");
+    await send("PATCH", want("beer-1"), { token });
+    await send("PATCH", want("beer-1"), { device: "dev-1" });
+    await send("PATCH", want("beer-2"), { device: "dev-1" });
+
+    const response = await send("POST", CLAIM_PATH, {
+      token,
+      body: { deviceId: "dev-1" },
+    });
+    expect(await response.json()).toEqual({
+      movedEntries: [],
+      mergedEntries: [],
+    });
+    const mine = await send("GET", "/v1alpha/festivals/cbf2025/wantToTries", {
+      token,
+    });
+    expect((await mine.json()).wantToTries.map((w) => w.name)).toEqual([
+      "festivals/cbf2025/drinks/beer-1/wantToTry",
+      "festivals/cbf2025/drinks/beer-2/wantToTry",
+    ]);
+    const summary = await send(
+      "GET",
+      "/v1alpha/festivals/cbf2025/wantToTrySummaries/beer-1",
+    );
+    expect((await summary.json()).wantCount).toBe(1);
+  });
+
+  it("leaves other devices and accounts alone", async () => {
+    await seed("cbf2025", "beer-1", "dev-1", {
+      star_rating: 5,
+      updated_at: 2000,
+    });
+    await seed("cbf2025", "beer-1", "dev-2", {
+      star_rating: 1,
+      updated_at: 3000,
+    });
+    await seed("cbf2025", "beer-1", "user:uid-bob", {
+      star_rating: 1,
+      updated_at: 3000,
+    });
+
+    await send("POST", CLAIM_PATH, {
+      token: await idToken("uid-alice"),
+      body: { deviceId: "dev-1" },
+    });
+    expect((await rows()).map((r) => r.device_id)).toEqual([
+      "dev-2",
+      "user:uid-alice",
+      "user:uid-bob",
+    ]);
+  });
+
+  it("requires a signed-in caller", async () => {
+    const response = await send("POST", CLAIM_PATH, {
+      device: "dev-2",
+      body: { deviceId: "dev-1" },
+    });
+    expect(response.status).toBe(403);
+    expect((await response.json()).error.details[0].reason).toBe(
+      "ACCOUNT_REQUIRED",
+    );
+  });
+
+  it("rejects a missing or account-shaped device id", async () => {
+    const token = await idToken("uid-alice");
+    for (const body of [{}, { deviceId: "" }, { deviceId: "user:uid-bob" }]) {
+      const response = await send("POST", CLAIM_PATH, { token, body });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.details[0].reason).toBe(
+        "INVALID_DEVICE_ID",
+      );
+    }
+  });
+
+  it("only accepts POST", async () => {
+    const response = await send("GET", CLAIM_PATH, {
+      token: await idToken("uid-alice"),
+    });
+    expect(response.status).toBe(405);
+  });
+});
+
+describe("account — erase", () => {
+  const FESTIVAL = "/v1alpha/festivals/cbf2025";
+  const CHECK_IN = "6f1c2a34-0b1d-4c55-9e8a-1a2b3c4d5e01";
+  const PHOTO = "0b7d4e1a-9c2f-4a8e-b3d6-5f1e2a3b4c01";
+  const PROD_ORIGIN = "https://cambeerfestival.app";
+
+  async function callerRows(ownerKey) {
+    const counts = {};
+    for (const table of ["reviews", "check_ins", "photos", "want_to_try"]) {
+      const row = await env.RATINGS_DB.prepare(
+        `SELECT COUNT(*) AS n FROM ${table} WHERE device_id = ?`,
+      )
+        .bind(ownerKey)
+        .first();
+      counts[table] = row.n;
+    }
+    return counts;
+  }
+
+  beforeEach(async () => {
+    for (const [device, rating] of [
+      ["dev-1", 5],
+      ["dev-2", 2],
+    ]) {
+      await send("PATCH", `${FESTIVAL}/drinks/beer-1/entry?allowMissing=true`, {
+        device,
+        body: { starRating: rating },
+      });
+      await send("PATCH", `${FESTIVAL}/drinks/beer-2/wantToTry`, { device });
+    }
+    await send("PATCH", `${FESTIVAL}/drinks/beer-3/entry?allowMissing=true`, {
+      device: "dev-1",
+      body: { starRating: 1 },
+    });
+    await send("DELETE", `${FESTIVAL}/drinks/beer-3/entry`, {
+      device: "dev-1",
+    });
+    await send("PATCH", `${FESTIVAL}/drinks/beer-1/entry?allowMissing=true`, {
+      device: "dev-1",
+      origin: PROD_ORIGIN,
+      body: { starRating: 4 },
+    });
+    await send("POST", `${FESTIVAL}/checkIns?checkInId=${CHECK_IN}`, {
+      device: "dev-1",
+      body: { title: "Arrived" },
+    });
+    await env.RATINGS_DB.prepare(
+      "INSERT INTO photos (bucket, photo_id, festival_id, device_id, " +
+        "check_in_id, content_type, size_bytes, created_at) VALUES ('test', " +
+        "?, 'cbf2025', 'dev-1', ?, 'image/jpeg', 3, ?)",
+    )
+      .bind(PHOTO, CHECK_IN, Date.now())
+      .run();
+    await env.PHOTOS.put(`test/cbf2025/${PHOTO}`, new Uint8Array([1, 2, 3]));
+  });
+
+  it("deletes the caller's rows in every bucket, and nobody else's", async () => {
+    const response = await send("DELETE", "/v1alpha/me", { device: "dev-1" });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({});
+
+    expect(await callerRows("dev-1")).toEqual({
+      reviews: 0,
+      check_ins: 0,
+      photos: 0,
+      want_to_try: 0,
+    });
+    expect(await callerRows("dev-2")).toEqual({
+      reviews: 1,
+      check_ins: 0,
+      photos: 0,
+      want_to_try: 1,
+    });
+    expect(await env.PHOTOS.get(`test/cbf2025/${PHOTO}`)).toBeNull();
+    const { results: buckets } = await env.RATINGS_DB.prepare(
+      "SELECT key FROM rate_limits WHERE key LIKE '%dev-1%'",
+    ).all();
+    expect(buckets).toEqual([]);
+  });
+
+  it("recomputes the summaries the caller counted towards", async () => {
+    await send("DELETE", "/v1alpha/me", { device: "dev-1" });
+
+    const summary = await (
+      await send("GET", `${FESTIVAL}/reviewSummaries/beer-1`)
+    ).json();
+    expect(summary.ratingCount).toBe(1);
+    expect(summary.averageRating).toBe(2);
+    const wanted = await (
+      await send("GET", `${FESTIVAL}/wantToTrySummaries/beer-2`)
+    ).json();
+    expect(wanted.wantCount).toBe(1);
+    const prod = await (
+      await send("GET", `${FESTIVAL}/reviewSummaries/beer-1`, {
+        origin: PROD_ORIGIN,
+      })
+    ).json();
+    expect(prod.ratingCount).toBe(0);
+    expect((await checkReviewAggregates(env)).drift).toEqual([]);
+  });
+
+  it("refreshes the summaries in a batch that does not grow with the caller's rows", async () => {
+    const drinks = Array.from({ length: 150 }, (_, i) => `bulk-${i}`);
+    const db = env.RATINGS_DB;
+    await db.batch(
+      drinks.flatMap((drinkId) => [
+        ...["dev-1", "dev-2"].flatMap((device) => [
+          db
+            .prepare(
+              "INSERT INTO reviews (bucket, festival_id, drink_id, " +
+                "device_id, star_rating, updated_at) " +
+                "VALUES ('test', 'cbf2025', ?, ?, 4, 0)",
+            )
+            .bind(drinkId, device),
+          db
+            .prepare(
+              "INSERT INTO want_to_try (bucket, festival_id, drink_id, " +
+                "device_id, created_at, updated_at) " +
+                "VALUES ('test', 'cbf2025', ?, ?, 0, 0)",
+            )
+            .bind(drinkId, device),
+        ]),
+        db
+          .prepare(
+            "INSERT INTO want_to_try_aggregates " +
+              "(bucket, festival_id, drink_id, want_count) " +
+              "VALUES ('test', 'cbf2025', ?, 2)",
+          )
+          .bind(drinkId),
+      ]),
+    );
+    await checkReviewAggregates(env, { repair: true });
+
+    const batchSizes = [];
+    const counted = new Proxy(db, {
+      get(target, prop) {
+        if (prop === "batch") {
+          return (statements) => {
+            batchSizes.push(statements.length);
+            return target.batch(statements);
+          };
+        }
+        const value = Reflect.get(target, prop);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    });
+    const response = await send("DELETE", "/v1alpha/me", {
+      device: "dev-1",
+      workerEnv: { ...env, RATINGS_DB: counted },
+    });
+    expect(response.status).toBe(200);
+    expect(Math.max(...batchSizes)).toBeLessThan(20);
+
+    expect((await checkReviewAggregates(env)).drift).toEqual([]);
+    const wanted = await (
+      await send("GET", `${FESTIVAL}/wantToTrySummaries/bulk-7`)
+    ).json();
+    expect(wanted.wantCount).toBe(1);
+  });
+
+  it("records a hashed, timestamped audit entry", async () => {
+    await send("DELETE", "/v1alpha/me", { device: "dev-1" });
+    await send("DELETE", "/v1alpha/me", { device: "dev-9" }); // nothing held
+
+    const { results } = await env.RATINGS_DB.prepare(
+      "SELECT * FROM erasures ORDER BY rowid",
+    ).all();
+    const digest = async (value) =>
+      Array.from(
+        new Uint8Array(
+          await crypto.subtle.digest(
+            "SHA-256",
+            new TextEncoder().encode(value),
+          ),
+        ),
+        (b) => b.toString(16).padStart(2, "0"),
+      ).join("");
+    expect(results).toEqual([
+      { caller_hash: await digest("dev-1"), erased_at: expect.any(Number) },
+      { caller_hash: await digest("dev-9"), erased_at: expect.any(Number) },
+    ]);
+    expect(Math.abs(results[0].erased_at - Date.now())).toBeLessThan(60_000);
+  });
+
+  it("erases a signed-in caller's account rows", async () => {
+    const token = await idToken("uid-alice");
+    await send("POST", CLAIM_PATH, { token, body: { deviceId: "dev-1" } });
+    expect((await callerRows("user:uid-alice")).reviews).toBe(2);
+
+    await send("DELETE", "/v1alpha/me", { token });
+    expect(await callerRows("user:uid-alice")).toEqual({
+      reviews: 0,
+      check_ins: 0,
+      photos: 0,
+      want_to_try: 0,
+    });
+  });
+
+  it("only accepts DELETE", async () => {
+    const response = await send("GET", "/v1alpha/me", { device: "dev-1" });
+    expect(response.status).toBe(405);
+  });
+});
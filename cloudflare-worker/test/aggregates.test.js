@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  env,
+  createExecutionContext,
+  createScheduledController,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../worker.js";
+import { checkReviewAggregates } from "../aggregates.js";
+
+const TEST_ORIGIN = "http://localhost:8080"; // non-prod → 'test' bucket
+
+async function send(method, path, { body, device = "d1" } = {}) {
+  const init = {
+    method,
+    headers: { Origin: TEST_ORIGIN, "X-Device-Id": device },
+  };
+  if (body !== undefined) {
+    init.headers["Content-Type"] = "application/json";
+    init.body = JSON.stringify(body);
+  }
+  const request = new Request(`https://worker.example.com${path}`, init);
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, env, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+const reviewPath = (d) => `/v1alpha/festivals/cbf2025/drinks/${d}/review`;
+const entryPath = (d) => `/v1alpha/festivals/cbf2025/drinks/${d}/entry`;
+
+async function storedAggregates() {
+  const { results } = await env.RATINGS_DB.prepare(
+    "SELECT drink_id, rating_count, rating_sum, response_count, " +
+      "recommend_count, stars_5 FROM review_aggregates ORDER BY drink_id",
+  ).all();
+  return results;
+}
+
+beforeEach(async () => {
+  await env.RATINGS_DB.prepare("DELETE FROM reviews").run();
+  await env.RATINGS_DB.prepare("DELETE FROM review_aggregates").run();
+  await env.RATINGS_DB.prepare("DELETE FROM rate_limits").run();
+});
+
+describe("review_aggregates — maintained on write", () => {
+  it("tracks review upserts and deletes", async () => {
+    await send("PATCH", reviewPath("beer-1"), {
+      body: { starRating: 5, wouldRecommend: true },
+    });
+    await send("PATCH", reviewPath("beer-1"), {
+      body: { starRating: 3 },
+      device: "d2",
+    });
+    expect(await storedAggregates()).toEqual([
+      {
+        drink_id: "beer-1",
+        rating_count: 2,
+        rating_sum: 8,
+        response_count: 1,
+        recommend_count: 1,
+        stars_5: 1,
+      },
+    ]);
+
+    await send("DELETE", reviewPath("beer-1"));
+    expect(await storedAggregates()).toEqual([
+      {
+        drink_id: "beer-1",
+        rating_count: 1,
+        rating_sum: 3,
+        response_count: 0,
+        recommend_count: 0,
+        stars_5: 0,
+      },
+    ]);
+
+    await send("DELETE", reviewPath("beer-1"), { device: "d2" });
+    expect(await storedAggregates()).toEqual([]);
+  });
+
+  it("tracks entry writes, deletes, undeletes and batches", async () => {
+    await send("PATCH", `${entryPath("beer-1")}?allowMissing=true`, {
+      body: { starRating: 4, note: "hoppy" },
+    });
+    await send("PATCH", `${entryPath("beer-2")}?allowMissing=true`, {
+      body: { isFavourite: true },
+    });
+    // An entry without a rating or recommendation has no aggregate.
+    expect((await storedAggregates()).map((r) => r.drink_id)).toEqual([
+      "beer-1",
+    ]);
+
+    await send("DELETE", entryPath("beer-1"));
+    expect(await storedAggregates()).toEqual([]);
+    await send("POST", `${entryPath("beer-1")}:undelete`, { body: {} });
+    expect(await storedAggregates()).toMatchObject([
+      { drink_id: "beer-1", rating_count: 1, rating_sum: 4 },
+    ]);
+
+    await send("POST", "/v1alpha/festivals/cbf2025/drinkEntries:batchUpdate", {
+      body: {
+        requests: [
+          {
+            drinkEntry: {
+              name: "festivals/cbf2025/drinks/beer-1/entry",
+              starRating: 2,
+            },
+            updateMask: "starRating",
+          },
+          {
+            drinkEntry: {
+              name: "festivals/cbf2025/drinks/beer-3/entry",
+              wouldRecommend: true,
+            },
+            allowMissing: true,
+          },
+        ],
+      },
+    });
+    expect(await storedAggregates()).toMatchObject([
+      { drink_id: "beer-1", rating_count: 1, rating_sum: 2 },
+      { drink_id: "beer-3", response_count: 1, recommend_count: 1 },
+    ]);
+
+    const check = await checkReviewAggregates(env);
+    expect(check).toEqual({ checked: 2, drift: [], repaired: false });
+  });
+});
+
+describe("review_aggregates — consistency check", () => {
+  beforeEach(async () => {
+    await send("PATCH", reviewPath("beer-1"), { body: { starRating: 5 } });
+    await send("PATCH", reviewPath("beer-2"), { body: { starRating: 4 } });
+  });
+
+  it("reports wrong, missing and orphaned rows", async () => {
+    await env.RATINGS_DB.batch([
+      env.RATINGS_DB.prepare(
+        "UPDATE review_aggregates SET rating_count = 7 WHERE drink_id = 'beer-1'",
+      ),
+      env.RATINGS_DB.prepare(
+        "DELETE FROM review_aggregates WHERE drink_id = 'beer-2'",
+      ),
+      env.RATINGS_DB.prepare(
+        "INSERT INTO review_aggregates (bucket, festival_id, drink_id, rating_count) " +
+          "VALUES ('test', 'cbf2025', 'beer-9', 1)",
+      ),
+    ]);
+
+    const check = await checkReviewAggregates(env);
+    expect(check.checked).toBe(3);
+    expect(check.repaired).toBe(false);
+    const byDrink = Object.fromEntries(check.drift.map((d) => [d.drinkId, d]));
+    expect(byDrink["beer-1"]).toMatchObject({
+      bucket: "test",
+      festivalId: "cbf2025",
+      expected: { rating_count: 1 },
+      actual: { rating_count: 7 },
+    });
+    expect(byDrink["beer-2"]).toMatchObject({
+      expected: { rating_count: 1, stars_4: 1 },
+      actual: null,
+    });
+    expect(byDrink["beer-9"]).toMatchObject({ expected: null });
+  });
+
+  it("repairs drift, and the scheduled handler runs the repair", async () => {
+    await env.RATINGS_DB.prepare("DELETE FROM review_aggregates").run();
+
+    const controller = createScheduledController({
+      scheduledTime: Date.now(),
+      cron: "17 4 * * *",
+    });
+    const ctx = createExecutionContext();
+    await worker.scheduled(controller, env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    expect((await storedAggregates()).map((r) => r.drink_id)).toEqual([
+      "beer-1",
+      "beer-2",
+    ]);
+    expect((await checkReviewAggregates(env)).drift).toEqual([]);
+  });
+
+  it("is a no-op without a database", async () => {
+    expect(await checkReviewAggregates({})).toEqual({
+      checked: 0,
+      drift: [],
+      repaired: false,
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  env,
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../worker.js";
+// Test-only RSA keys: `trusted` is the private half of
+// fixtures/firebase-jwks.json (the FIREBASE_JWKS binding in vitest.config.js);
+// `untrusted` claims the same key id but is not in the JWKS.
+import signingKeys from "./fixtures/firebase-signing-keys.json";
+
+const TEST_ORIGIN = "http://localhost:8080"; // non-prod → 'test' bucket
+const PROJECT = env.FIREBASE_PROJECT_ID;
+const reviewPath = (d) => `/v1alpha/festivals/cbf2025/drinks/${d}/review`;
+
+function base64Url(bytes) {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+const text = (value) => base64Url(new TextEncoder().encode(value));
+
+/** Sign a Firebase-shaped ID token; overrides replace header/claim fields. */
+async function idToken(
+  uid,
+  { claims = {}, header = {}, key = signingKeys.trusted } = {},
+) {
+  const now = Math.floor(Date.now() / 1000);
+  const encodedHeader = text(
+    JSON.stringify({ alg: "RS256", kid: key.kid, typ: "JWT", ...header }),
+  );
+  const payload = text(
+    JSON.stringify({
+      iss: `https://securetoken.google.com/${PROJECT}`,
+      aud: PROJECT,
+      auth_time: now,
+      sub: uid,
+      user_id: uid,
+      iat: now,
+      exp: now + 3600,
+      firebase: { sign_in_provider: "anonymous" },
+      ...claims,
+    }),
+  );
+  const privateKey = await crypto.subtle.importKey(
+    "jwk",
+    key,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    privateKey,
+    new TextEncoder().encode(`${encodedHeader}.${payload}`),
+  );
+  return `${encodedHeader}.${payload}.${base64Url(signature)}`;
+}
+
+async function send(
+  method,
+  path,
+  { body, token, device, headers = {}, workerEnv = env } = {},
+) {
+  const init = { method, headers: { Origin: TEST_ORIGIN, ...headers } };
+  if (token) init.headers.Authorization = `Bearer ${token}`;
+  if (device) init.headers["X-Device-Id"] = device;
+  if (body !== undefined) {
+    init.headers["Content-Type"] = "application/json";
+    init.body = JSON.stringify(body);
+  }
+  const request = new Request(`https://worker.example.com${path}`, init);
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, workerEnv, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+async function expectUnauthenticated(response, reason) {
+  expect(response.status).toBe(401);
+  expect(response.headers.get("WWW-Authenticate")).toBe("Bearer");
+  const { error } = await response.json();
+  expect(error.status).toBe("UNAUTHENTICATED");
+  expect(error.details[0].reason).toBe(reason);
+}
+
+beforeEach(async () => {
+  await env.RATINGS_DB.prepare("DELETE FROM reviews").run();
+  await env.RATINGS_DB.prepare("DELETE FROM review_aggregates").run();
+  await env.RATINGS_DB.prepare("DELETE FROM rate_limits").run();
+});
+
+describe("auth — Firebase ID tokens", () => {
+  it("accepts a valid token and records the user id", async () => {
+    const token = await idToken("uid-alice");
+    const response = await send("PATCH", reviewPath("beer-1"), {
+      token,
+      body: { starRating: 4 },
+    });
+    expect(response.status).toBe(200);
+
+    const row = await env.RATINGS_DB.prepare(
+      "SELECT device_id, user_id FROM reviews WHERE drink_id = 'beer-1'",
+    ).first();
+    expect(row).toEqual({ device_id: "user:uid-alice", user_id: "uid-alice" });
+
+    const entry = await send(
+      "GET",
+      "/v1alpha/festivals/cbf2025/drinks/beer-1/entry",
+      { token },
+    );
+    expect((await entry.json()).starRating).toBe(4);
+  });
+
+  it("scopes data to the token's user", async () => {
+    await send("PATCH", reviewPath("beer-1"), {
+      token: await idToken("uid-alice"),
+      body: { starRating: 4 },
+    });
+    const bob = await send("GET", reviewPath("beer-1"), {
+      token: await idToken("uid-bob"),
+    });
+    expect(bob.status).toBe(404);
+  });
+
+  it("prefers the token over an X-Device-Id header", async () => {
+    await send("PATCH", reviewPath("beer-1"), {
+      token: await idToken("uid-alice"),
+      device: "dev-1",
+      body: { starRating: 4 },
+    });
+    const byDevice = await send("GET", reviewPath("beer-1"), {
+      device: "dev-1",
+    });
+    expect(byDevice.status).toBe(404);
+  });
+
+  it("rejects an expired token", async () => {
+    const token = await idToken("uid-alice", {
+      claims: { iat: 1_700_000_000, exp: 1_700_003_600 },
+    });
+    await expectUnauthenticated(
+      await send("GET", reviewPath("beer-1"), { token }),
+      "TOKEN_EXPIRED",
+    );
+  });
+
+  it("rejects tokens for another project or issuer", async () => {
+    for (const claims of [
+      { aud: "some-other-project" },
+      { iss: "https://securetoken.google.com/some-other-project" },
+      { iat: Math.floor(Date.now() / 1000) + 3600 },
+      { sub: "" },
+    ]) {
+      const token = await idToken("uid-alice", { claims });
+      await expectUnauthenticated(
+        await send("GET", reviewPath("beer-1"), { token }),
+        "INVALID_TOKEN",
+      );
+    }
+  });
+
+  it("rejects a bad signature, unknown key or wrong algorithm", async () => {
+    const forged = await idToken("uid-alice", { key: signingKeys.untrusted });
+    const unknownKid = await idToken("uid-alice", {
+      header: { kid: "no-such-key" },
+    });
+    const hs256 = await idToken("uid-alice", { header: { alg: "HS256" } });
+    for (const token of [forged, unknownKid, hs256, "not.a.jwt", "garbage"]) {
+      await expectUnauthenticated(
+        await send("GET", reviewPath("beer-1"), { token }),
+        "INVALID_TOKEN",
+      );
+    }
+  });
+
+  it("rejects a token whose header or claims are not objects", async () => {
+    const [header, payload, signature] = (await idToken("uid-alice")).split(
+      ".",
+    );
+    for (const malformed of [
+      `${text("null")}.${payload}.${signature}`,
+      `${header}.${text("[]")}.${signature}`,
+    ]) {
+      // A write resolves the caller in the rate limiter first.
+      await expectUnauthenticated(
+        await send("PATCH", reviewPath("beer-1") + "?allowMissing=true", {
+          token: malformed,
+          body: { starRating: 4 },
+        }),
+        "INVALID_TOKEN",
+      );
+    }
+  });
+
+  it("rejects a non-Bearer Authorization header", async () => {
+    await expectUnauthenticated(
+      await send("GET", reviewPath("beer-1"), {
+        headers: { Authorization: "Basic dXNlcjpwYXNz" },
+      }),
+      "INVALID_TOKEN",
+    );
+  });
+
+  it("is UNAVAILABLE while the FIREBASE_JWKS override is malformed", async () => {
+    for (const jwks of ["{not json", "null"]) {
+      const response = await send("GET", reviewPath("beer-1"), {
+        token: await idToken("uid-alice"),
+        workerEnv: { ...env, FIREBASE_JWKS: jwks },
+      });
+      expect(response.status).toBe(503);
+      expect((await response.json()).error.details[0].reason).toBe(
+        "JWKS_UNAVAILABLE",
+      );
+    }
+  });
+
+  it("is UNAVAILABLE when no Firebase project is configured", async () => {
+    const { FIREBASE_PROJECT_ID: _unused, ...unconfigured } = env;
+    const response = await send("GET", reviewPath("beer-1"), {
+      token: await idToken("uid-alice"),
+      workerEnv: unconfigured,
+    });
+    expect(response.status).toBe(503);
+    expect((await response.json()).error.details[0].reason).toBe(
+      "AUTH_UNCONFIGURED",
+    );
+  });
+});
+
+describe("auth — X-Device-Id transition switch", () => {
+  it("accepts X-Device-Id while ALLOW_DEVICE_ID is true", async () => {
+    expect(env.ALLOW_DEVICE_ID).toBe("true");
+    const response = await send("PATCH", reviewPath("beer-1"), {
+      device: "dev-1",
+      body: { starRating: 3 },
+    });
+    expect(response.status).toBe(200);
+    const row = await env.RATINGS_DB.prepare(
+      "SELECT device_id, user_id FROM reviews",
+    ).first();
+    expect(row).toEqual({ device_id: "dev-1", user_id: null });
+  });
+
+  it("requires a token once ALLOW_DEVICE_ID is off", async () => {
+    const workerEnv = { ...env, ALLOW_DEVICE_ID: "false" };
+    await expectUnauthenticated(
+      await send("GET", "/v1alpha/festivals/cbf2025/drinkEntries", {
+        device: "dev-1",
+        workerEnv,
+      }),
+      "MISSING_CREDENTIALS",
+    );
+    const withToken = await send(
+      "GET",
+      "/v1alpha/festivals/cbf2025/drinkEntries",
+      { token: await idToken("uid-alice"), workerEnv },
+    );
+    expect(withToken.status).toBe(200);
+  });
+
+  it("refuses device ids that would name an account's rows", async () => {
+    const response = await send("GET", reviewPath("beer-1"), {
+      device: "user:uid-alice",
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.details[0].reason).toBe(
+      "INVALID_DEVICE_ID",
+    );
+  });
+
+  it("leaves the public summaries unauthenticated", async () => {
+    const response = await send(
+      "GET",
+      "/v1alpha/festivals/cbf2025/reviewSummaries",
+      { workerEnv: { ...env, ALLOW_DEVICE_ID: "false" } },
+    );
+    expect(response.status).toBe(200);
+  });
+});
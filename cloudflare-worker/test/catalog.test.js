@@ -0,0 +1,393 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  env,
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../worker.js";
+import registry from "../festivals.json";
+import { pinClock, setClock } from "./pin-clock.js";
+import beerList from "./fixtures/cbf2025-beer.json";
+import internationalList from "./fixtures/cbf2025-international-beer.json";
+
+const TEST_ORIGIN = "http://localhost:8080";
+const UPSTREAM = "https://data.cambridgebeerfestival.com";
+const CATALOG = "/v1alpha/festivals/cbf2025";
+const searchPath = (festivalId, query) =>
+  `/v1alpha/festivals/${festivalId}/drinks:search?${new URLSearchParams(query)}`;
+
+// The upstream beverage lists served to the worker; any other list is 404.
+const UPSTREAM_LISTS = {
+  [`${UPSTREAM}/cbf2025/beer.json`]: beerList,
+  [`${UPSTREAM}/cbf2025/international-beer.json`]: internationalList,
+  [`${UPSTREAM}/cbfw2025/beer.json`]: beerList,
+};
+
+// Every list the registry names, as the edge cache keys them.
+const REGISTRY_LISTS = registry.festivals.flatMap((f) =>
+  (f.available_beverage_types ?? []).map(
+    (type) => `${UPSTREAM}/${f.id}/${type}.json`,
+  ),
+);
+
+async function send(path, { method = "GET" } = {}) {
+  const request = new Request(`https://worker.example.com${path}`, {
+    method,
+    headers: { Origin: TEST_ORIGIN },
+  });
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, env, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+async function search(query, festivalId = "cbf2025") {
+  const response = await send(searchPath(festivalId, query));
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+const ids = (drinks) => drinks.map((d) => d.name.split("/").pop());
+
+async function expectError(response, status, reason) {
+  expect(response.status).toBe(status);
+  const { error } = await response.json();
+  expect(error.details[0].reason).toBe(reason);
+}
+
+let mockFetch;
+
+beforeEach(async () => {
+  mockFetch = vi.fn(async (url) =>
+    UPSTREAM_LISTS[url]
+      ? Response.json(UPSTREAM_LISTS[url])
+      : new Response("Not found", { status: 404 }),
+  );
+  vi.stubGlobal("fetch", mockFetch);
+  // The lists come through the edge cache, which outlives a test.
+  for (const url of REGISTRY_LISTS) {
+    await caches.default.delete(url);
+  }
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  pinClock();
+});
+
+describe("catalog — drinks:search", () => {
+  it("returns matching drinks as Drink resources", async () => {
+    const { drinks, nextPageToken, totalSize } = await search({
+      q: "pegasus",
+    });
+    expect(drinks).toEqual([
+      {
+        name: "festivals/cbf2025/drinks/beer-pegasus",
+        displayName: "Pegasus",
+        category: "beer",
+        style: "Best Bitter",
+        dispense: "cask",
+        abv: 4.1,
+        tastingNotes: "Malty bitter with a long, dry hop finish.",
+        statusText: "Plenty left",
+        availability: "AVAILABILITY_PLENTY",
+        bar: "Main Bar",
+        allergens: ["gluten"],
+        vegan: true,
+        producer: {
+          producer: "festivals/cbf2025/producers/p-milton",
+          displayName: "Milton Brewery",
+        },
+        updateTime: "2025-05-21T18:30:00.000Z",
+      },
+    ]);
+    expect(nextPageToken).toBe("");
+    expect(totalSize).toBe(1);
+  });
+
+  it("normalises the upstream's loose fields", async () => {
+    const [minotaur] = (await search({ q: "minotaur" })).drinks;
+    expect(minotaur).toMatchObject({ abv: 3.3, allergens: [] });
+    expect(minotaur).not.toHaveProperty("bar");
+    expect(minotaur).not.toHaveProperty("availability");
+    expect(minotaur).not.toHaveProperty("vegan");
+
+    const [devil] = (await search({ q: "green devil" })).drinks;
+    expect(devil).toMatchObject({
+      statusText: "Back tomorrow",
+      availability: "AVAILABILITY_UNKNOWN",
+      vegan: false,
+    });
+
+    // "foreign beer" products are listed in international-beer.json.
+    const [chouffe] = (await search({ q: "chouffe" })).drinks;
+    expect(chouffe).toMatchObject({
+      category: "international-beer",
+      availability: "AVAILABILITY_OUT",
+      updateTime: "2025-05-22T09:00:00.000Z",
+    });
+  });
+
+  it("ranks name matches above style and notes", async () => {
+    const { drinks, totalSize } = await search({ q: "citra" });
+    expect(ids(drinks)).toEqual([
+      "beer-citra", // name
+      "beer-green-devil", // style
+      "beer-minotaur", // tasting notes
+    ]);
+    expect(totalSize).toBe(3);
+  });
+
+  it("matches producers, and every word of the query", async () => {
+    expect(ids((await search({ q: "milton" })).drinks)).toEqual([
+      "beer-minotaur",
+      "beer-pegasus",
+    ]);
+    expect(ids((await search({ q: "milton pegasus" })).drinks)).toEqual([
+      "beer-pegasus",
+    ]);
+    expect((await search({ q: "oakham pegasus" })).totalSize).toBe(0);
+  });
+
+  it("matches word prefixes", async () => {
+    expect(ids((await search({ q: "Pega" })).drinks)).toEqual(["beer-pegasus"]);
+    // Search-as-you-type: the last word is still being typed.
+    expect(ids((await search({ q: "green dev" })).drinks)).toEqual([
+      "beer-green-devil",
+    ]);
+  });
+
+  it("ignores accents, case and apostrophes", async () => {
+    for (const q of ["achouffe", "d'Achouffe", "DACHOUFFE", "d’achouffe"]) {
+      expect(ids((await search({ q })).drinks)).toEqual(["intl-la-chouffe"]);
+    }
+    for (const q of ["kolsch", "Kölsch", "fruh", "cölner"]) {
+      expect(ids((await search({ q })).drinks)).toEqual(["intl-fruh-kolsch"]);
+    }
+  });
+
+  it("pages through the ranked results", async () => {
+    const seen = [];
+    let pageToken = "";
+    do {
+      const query = { q: "citra", page_size: "1" };
+      if (pageToken) query.page_token = pageToken;
+      const page = await search(query);
+      expect(page.drinks).toHaveLength(1);
+      expect(page.totalSize).toBe(3);
+      seen.push(...ids(page.drinks));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+    expect(seen).toEqual(["beer-citra", "beer-green-devil", "beer-minotaur"]);
+  });
+
+  it("only accepts a page token with the query it was issued for", async () => {
+    const { nextPageToken } = await search({ q: "citra", page_size: "1" });
+    // The folded query is the same, so the token still applies.
+    const same = await search({
+      q: "CITRA",
+      page_size: "1",
+      page_token: nextPageToken,
+    });
+    expect(ids(same.drinks)).toEqual(["beer-green-devil"]);
+
+    await expectError(
+      await send(
+        searchPath("cbf2025", { q: "milton", page_token: nextPageToken }),
+      ),
+      400,
+      "INVALID_PAGE_TOKEN",
+    );
+  });
+
+  it("caches the beverage lists per isolate", async () => {
+    await search({ q: "pegasus" });
+    mockFetch.mockClear();
+    await search({ q: "citra" });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("rejects an empty query", async () => {
+    for (const q of ["", "  ", "'!"]) {
+      await expectError(
+        await send(searchPath("cbf2025", { q })),
+        400,
+        "INVALID_QUERY",
+      );
+    }
+    await expectError(
+      await send("/v1alpha/festivals/cbf2025/drinks:search"),
+      400,
+      "INVALID_QUERY",
+    );
+  });
+
+  it("rejects unknown festivals and other methods", async () => {
+    await expectError(
+      await send(searchPath("cbf2062", { q: "citra" })),
+      404,
+      "FESTIVAL_NOT_FOUND",
+    );
+    const response = await send(searchPath("cbf2025", { q: "citra" }), {
+      method: "POST",
+    });
+    expect(response.status).toBe(405);
+  });
+
+  it("is UNAVAILABLE while the upstream is down, and recovers", async () => {
+    mockFetch.mockImplementation(async () => {
+      throw new Error("upstream down");
+    });
+    await expectError(
+      await send(searchPath("cbfw2025", { q: "citra" })),
+      503,
+      "CATALOG_UNAVAILABLE",
+    );
+
+    mockFetch.mockImplementation(async (url) =>
+      UPSTREAM_LISTS[url]
+        ? Response.json(UPSTREAM_LISTS[url])
+        : new Response("Not found", { status: 404 }),
+    );
+    const { drinks } = await search({ q: "citra" }, "cbfw2025");
+    expect(drinks[0].name).toBe("festivals/cbfw2025/drinks/beer-citra");
+  });
+
+  it("serves the edge-cached lists while the upstream is down", async () => {
+    // Past the isolate's catalogue, so the lists are fetched into the cache;
+    // every listed type exists, as it would upstream.
+    setClock("2025-05-23T12:00:00Z");
+    mockFetch.mockImplementation(async (url) =>
+      Response.json(UPSTREAM_LISTS[url] ?? { producers: [] }),
+    );
+    await search({ q: "citra" });
+
+    // A day on, both caches are stale and every refresh fails.
+    setClock("2025-05-24T12:00:00Z");
+    mockFetch.mockImplementation(async () => {
+      throw new Error("upstream down");
+    });
+    const { drinks } = await search({ q: "citra" });
+    expect(drinks[0].name).toBe("festivals/cbf2025/drinks/beer-citra");
+    expect(mockFetch).toHaveBeenCalledWith(
+      `${UPSTREAM}/cbf2025/beer.json`,
+      expect.anything(),
+    );
+  });
+});
+
+describe("catalog — drinks and producers", () => {
+  async function get(path) {
+    const response = await send(path);
+    expect(response.status).toBe(200);
+    return response.json();
+  }
+
+  it("lists every drink in one page by default, ordered by ID", async () => {
+    const { drinks, nextPageToken, totalSize } = await get(`${CATALOG}/drinks`);
+    expect(ids(drinks)).toEqual([
+      "beer-citra",
+      "beer-green-devil",
+      "beer-minotaur",
+      "beer-pegasus",
+      "intl-fruh-kolsch",
+      "intl-la-chouffe",
+      "intl-oakham-inferno",
+    ]);
+    expect(nextPageToken).toBe("");
+    expect(totalSize).toBe(7);
+  });
+
+  it("pages the drinks with page_size", async () => {
+    const seen = [];
+    let pageToken = "";
+    do {
+      const query = new URLSearchParams({ page_size: "3" });
+      if (pageToken) query.set("page_token", pageToken);
+      const page = await get(`${CATALOG}/drinks?${query}`);
+      expect(page.drinks.length).toBeLessThanOrEqual(3);
+      expect(page.totalSize).toBe(7);
+      seen.push(...ids(page.drinks));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+    expect(seen).toHaveLength(7);
+    expect(seen).toEqual([...seen].sort());
+
+    await expectError(
+      await send(`${CATALOG}/drinks?page_token=garbage`),
+      400,
+      "INVALID_PAGE_TOKEN",
+    );
+  });
+
+  it("gets a drink, or NOT_FOUND", async () => {
+    const drink = await get(`${CATALOG}/drinks/intl-oakham-inferno`);
+    expect(drink).toEqual({
+      name: "festivals/cbf2025/drinks/intl-oakham-inferno",
+      displayName: "Inferno",
+      category: "international-beer",
+      style: "Golden Ale",
+      dispense: "bottle",
+      abv: 4.4,
+      tastingNotes: "Brewed for export.",
+      allergens: [],
+      producer: {
+        producer: "festivals/cbf2025/producers/p-oakham",
+        displayName: "Oakham Ales",
+      },
+      updateTime: "2025-05-22T09:00:00.000Z",
+    });
+    await expectError(
+      await send(`${CATALOG}/drinks/beer-99`),
+      404,
+      "DRINK_NOT_FOUND",
+    );
+  });
+
+  it("lists each producer once, ordered by ID", async () => {
+    const { producers, nextPageToken, totalSize } = await get(
+      `${CATALOG}/producers`,
+    );
+    expect(producers.map((p) => p.name)).toEqual([
+      "festivals/cbf2025/producers/p-achouffe",
+      "festivals/cbf2025/producers/p-fruh",
+      "festivals/cbf2025/producers/p-milton",
+      "festivals/cbf2025/producers/p-oakham",
+    ]);
+    expect(nextPageToken).toBe("");
+    expect(totalSize).toBe(4);
+    expect(producers[2]).toEqual({
+      name: "festivals/cbf2025/producers/p-milton",
+      displayName: "Milton Brewery",
+      location: "Cambridge",
+      foundingYear: 1999,
+      notes: "Classical names, modern beers.",
+      updateTime: "2025-05-21T18:30:00.000Z",
+    });
+  });
+
+  it("gets a producer listed in two beverage lists, or NOT_FOUND", async () => {
+    // The first listing's fields, and the later list's update time.
+    expect(await get(`${CATALOG}/producers/p-oakham`)).toEqual({
+      name: "festivals/cbf2025/producers/p-oakham",
+      displayName: "Oakham Ales",
+      location: "Peterborough",
+      updateTime: "2025-05-22T09:00:00.000Z",
+    });
+    await expectError(
+      await send(`${CATALOG}/producers/p-nobody`),
+      404,
+      "PRODUCER_NOT_FOUND",
+    );
+  });
+
+  it("rejects unknown festivals and other methods", async () => {
+    await expectError(
+      await send("/v1alpha/festivals/cbf2062/drinks"),
+      404,
+      "FESTIVAL_NOT_FOUND",
+    );
+    const response = await send(`${CATALOG}/producers`, { method: "DELETE" });
+    expect(response.status).toBe(405);
+  });
+});
@@ -0,0 +1,280 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  env,
+  createExecutionContext,
+  createScheduledController,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../worker.js";
+import { recordDrinkChanges } from "../changes.js";
+import beerList from "./fixtures/cbf2025-beer.json";
+import registry from "../festivals.json";
+import { pinClock, setClock } from "./pin-clock.js";
+
+const TEST_ORIGIN = "http://localhost:8080";
+const UPSTREAM = "https://data.cambridgebeerfestival.com";
+const FEED = "/v1alpha/festivals/cbf2025/drinkChanges";
+
+// cbf2025 polled as if it were on, with just its beer list.
+const ACTIVE = {
+  festivals: [
+    {
+      ...registry.festivals.find((f) => f.id === "cbf2025"),
+      is_active: true,
+      available_beverage_types: ["beer"],
+    },
+  ],
+};
+
+const T0 = Date.parse("2025-05-22T12:00:00Z");
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+async function send(path, { method = "GET", workerEnv = env } = {}) {
+  const request = new Request(`https://worker.example.com${path}`, {
+    method,
+    headers: { Origin: TEST_ORIGIN },
+  });
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, workerEnv, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+async function feed(query = {}) {
+  const response = await send(`${FEED}?${new URLSearchParams(query)}`);
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+/** The beer list with `edit` applied to a copy of it. */
+function editedList(edit) {
+  const list = structuredClone(beerList);
+  edit(list.producers.find((p) => p.id === "p-milton").products);
+  return list;
+}
+
+/** Serve `list` as cbf2025's beer.json and poll at `now`. */
+async function poll(list, now) {
+  mockFetch.mockImplementation(async (url) =>
+    url === `${UPSTREAM}/cbf2025/beer.json`
+      ? Response.json(list)
+      : new Response("Not found", { status: 404 }),
+  );
+  return recordDrinkChanges(env, ACTIVE, now);
+}
+
+// Sold out Pegasus, drop Minotaur, add Nectar.
+const changedList = editedList((products) => {
+  products.find((p) => p.id === "beer-pegasus").status_text = "Sold out";
+  products.splice(
+    products.findIndex((p) => p.id === "beer-minotaur"),
+    1,
+  );
+  products.push({ id: "beer-nectar", name: "Nectar", status_text: "Arrived" });
+});
+
+let mockFetch;
+
+beforeEach(async () => {
+  mockFetch = vi.fn();
+  vi.stubGlobal("fetch", mockFetch);
+  await env.RATINGS_DB.prepare("DELETE FROM drink_changes").run();
+  await env.RATINGS_DB.prepare("DELETE FROM drink_snapshots").run();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("drink changes — recording", () => {
+  it("takes the first snapshot as a baseline", async () => {
+    expect(await poll(beerList, T0)).toBe(0);
+    expect(await poll(beerList, T0 + 5 * MINUTE)).toBe(0);
+    const { drinkChanges } = await feed();
+    expect(drinkChanges).toEqual([]);
+  });
+
+  it("records added, removed and status-changed drinks", async () => {
+    await poll(beerList, T0);
+    expect(await poll(changedList, T0 + 5 * MINUTE)).toBe(3);
+
+    const { drinkChanges } = await feed();
+    const byDrink = Object.fromEntries(
+      drinkChanges.map((c) => [c.drink.split("/").pop(), c]),
+    );
+    expect(byDrink["beer-pegasus"]).toEqual({
+      drink: "festivals/cbf2025/drinks/beer-pegasus",
+      changeType: "CHANGE_TYPE_STATUS_CHANGED",
+      displayName: "Pegasus",
+      category: "beer",
+      statusText: "Sold out",
+      availability: "AVAILABILITY_OUT",
+      previousStatusText: "Plenty left",
+      previousAvailability: "AVAILABILITY_PLENTY",
+      changeTime: "2025-05-22T12:05:00.000Z",
+    });
+    expect(byDrink["beer-minotaur"]).toEqual({
+      drink: "festivals/cbf2025/drinks/beer-minotaur",
+      changeType: "CHANGE_TYPE_REMOVED",
+      displayName: "Minotaur",
+      category: "beer",
+      changeTime: "2025-05-22T12:05:00.000Z",
+    });
+    expect(byDrink["beer-nectar"]).toMatchObject({
+      changeType: "CHANGE_TYPE_ADDED",
+      statusText: "Arrived",
+      availability: "AVAILABILITY_PLENTY",
+    });
+    expect(byDrink["beer-nectar"]).not.toHaveProperty("previousStatusText");
+
+    // Nothing changed since: nothing new.
+    expect(await poll(changedList, T0 + 10 * MINUTE)).toBe(0);
+  });
+
+  it("skips a list the upstream does not serve or cannot fetch", async () => {
+    await poll(beerList, T0);
+    mockFetch.mockImplementation(
+      async () => new Response("Not found", { status: 404 }),
+    );
+    expect(await recordDrinkChanges(env, ACTIVE, T0 + MINUTE)).toBe(0);
+    mockFetch.mockRejectedValue(new Error("Connection refused"));
+    expect(await recordDrinkChanges(env, ACTIVE, T0 + 2 * MINUTE)).toBe(0);
+
+    // The snapshot survives: the next good poll diffs against it.
+    expect(await poll(changedList, T0 + 3 * MINUTE)).toBe(3);
+  });
+
+  it("skips a list served with no drinks, keeping its snapshot", async () => {
+    await poll(beerList, T0);
+    expect(await poll({ ...beerList, producers: [] }, T0 + MINUTE)).toBe(0);
+    expect(await poll({ producers: [{ id: "p-milton" }] }, T0 + MINUTE)).toBe(
+      0,
+    );
+
+    // The snapshot survives: drinks that come back are not new, and real
+    // changes are still recorded against it.
+    expect(await poll(beerList, T0 + 2 * MINUTE)).toBe(0);
+    expect(await poll(changedList, T0 + 3 * MINUTE)).toBe(3);
+  });
+
+  it("only polls active festivals, from the cron trigger", async () => {
+    mockFetch.mockResolvedValue(new Response("Not found", { status: 404 }));
+    const controller = createScheduledController({
+      scheduledTime: T0,
+      cron: "*/5 * * * *",
+    });
+    const ctx = createExecutionContext();
+    await worker.scheduled(controller, env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    const active = registry.festivals.filter((f) => f.is_active === true);
+    const polled = new Set(
+      mockFetch.mock.calls.map(([url]) => url.split("/")[3]),
+    );
+    expect([...polled]).toEqual(active.map((f) => f.id));
+  });
+});
+
+describe("drink changes — the feed", () => {
+  afterEach(() => pinClock());
+
+  beforeEach(async () => {
+    await poll(beerList, T0);
+    await poll(changedList, T0 + 5 * MINUTE);
+    await poll(beerList, T0 + 10 * MINUTE); // and back again
+  });
+
+  it("pages oldest first, and resumes from the last token", async () => {
+    const seen = [];
+    let token = "";
+    let page;
+    do {
+      const query = { page_size: "2" };
+      if (token) query.page_token = token;
+      page = await feed(query);
+      seen.push(...page.drinkChanges.map((c) => c.changeTime));
+      token = page.nextPageToken;
+      expect(token).not.toBe("");
+    } while (page.drinkChanges.length === 2);
+    expect(seen).toHaveLength(6);
+    expect(seen).toEqual([...seen].sort());
+
+    // Up to date: the token keeps working as the feed grows.
+    expect((await feed({ page_token: token })).drinkChanges).toEqual([]);
+    await poll(changedList, T0 + 15 * MINUTE);
+    const next = await feed({ page_token: token });
+    expect(next.drinkChanges).toHaveLength(3);
+    expect(next.drinkChanges[0].changeTime).toBe("2025-05-22T12:15:00.000Z");
+  });
+
+  it("starts after `since`", async () => {
+    const { drinkChanges } = await feed({
+      since: "2025-05-22T12:05:00Z",
+    });
+    expect(drinkChanges.map((c) => c.changeTime)).toEqual(
+      Array(3).fill("2025-05-22T12:10:00.000Z"),
+    );
+
+    const later = await feed({ since: "2025-05-22T13:00:00Z" });
+    expect(later.drinkChanges).toEqual([]);
+    await poll(changedList, T0 + 65 * MINUTE);
+    const resumed = await feed({ page_token: later.nextPageToken });
+    expect(resumed.drinkChanges).toHaveLength(3);
+  });
+
+  it("rejects a bad since or token, and other festivals' tokens", async () => {
+    const bad = await send(`${FEED}?since=yesterday`);
+    expect(bad.status).toBe(400);
+    expect((await bad.json()).error.details[0].reason).toBe("INVALID_SINCE");
+
+    const { nextPageToken } = await feed();
+    const other = await send(
+      `/v1alpha/festivals/cbfw2025/drinkChanges?page_token=${nextPageToken}`,
+    );
+    expect(other.status).toBe(400);
+    expect((await other.json()).error.details[0].reason).toBe(
+      "INVALID_PAGE_TOKEN",
+    );
+  });
+
+  it("purges changes past the retention window, expiring their tokens", async () => {
+    const { nextPageToken } = await feed({ page_size: "1" });
+    const later = T0 + 31 * DAY;
+    await poll(changedList, later);
+    const controller = createScheduledController({
+      scheduledTime: later,
+      cron: "17 4 * * *",
+    });
+    const ctx = createExecutionContext();
+    await worker.scheduled(controller, env, ctx);
+    await waitOnExecutionContext(ctx);
+    setClock(new Date(later).toISOString());
+
+    const { drinkChanges } = await feed();
+    expect(drinkChanges.map((c) => c.changeTime)).toEqual(
+      Array(3).fill(new Date(later).toISOString()),
+    );
+    const expired = await send(`${FEED}?page_token=${nextPageToken}`);
+    expect(expired.status).toBe(400);
+    expect((await expired.json()).error.details[0].reason).toBe(
+      "PAGE_TOKEN_EXPIRED",
+    );
+  });
+
+  it("rejects unknown festivals and other methods", async () => {
+    const unknown = await send("/v1alpha/festivals/cbf2062/drinkChanges");
+    expect(unknown.status).toBe(404);
+    expect((await send(FEED, { method: "POST" })).status).toBe(405);
+  });
+
+  it("is UNAVAILABLE without storage", async () => {
+    const response = await send(FEED, {
+      workerEnv: { ...env, RATINGS_DB: undefined },
+    });
+    expect(response.status).toBe(503);
+    expect((await response.json()).error.details[0].reason).toBe(
+      "STORAGE_UNCONFIGURED",
+    );
+  });
+});
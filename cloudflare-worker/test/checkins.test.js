@@ -0,0 +1,415 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  env,
+  createExecutionContext,
+  createScheduledController,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../worker.js";
+
+const TEST_ORIGIN = "http://localhost:8080"; // non-prod → 'test' bucket
+const DEVICE = "dev-1";
+const TIMELINE = "/v1alpha/festivals/cbf2025/checkIns";
+
+// Client-assigned IDs (any UUIDs will do).
+const PINT = "6f1c2a34-0b1d-4c55-9e8a-1a2b3c4d5e01";
+const SCOTCH_EGG = "6f1c2a34-0b1d-4c55-9e8a-1a2b3c4d5e02";
+const SECOND_PINT = "6f1c2a34-0b1d-4c55-9e8a-1a2b3c4d5e03";
+
+async function send(
+  method,
+  path,
+  { body, origin = TEST_ORIGIN, device = DEVICE, workerEnv = env } = {},
+) {
+  const init = {
+    method,
+    headers: { Origin: origin, "X-Device-Id": device },
+  };
+  if (body !== undefined) {
+    init.headers["Content-Type"] = "application/json";
+    init.body = typeof body === "string" ? body : JSON.stringify(body);
+  }
+  const request = new Request(`https://worker.example.com${path}`, init);
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, workerEnv, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+const create = (checkInId, body, opts) =>
+  send("POST", `${TIMELINE}?checkInId=${checkInId}`, { body, ...opts });
+
+async function expectError(response, httpStatus, reason) {
+  expect(response.status).toBe(httpStatus);
+  const { error } = await response.json();
+  expect(error.details[0].reason).toBe(reason);
+  return error;
+}
+
+async function timeline(query = "") {
+  const response = await send("GET", `${TIMELINE}${query}`);
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+beforeEach(async () => {
+  await env.RATINGS_DB.prepare("DELETE FROM check_ins").run();
+  await env.RATINGS_DB.prepare("DELETE FROM rate_limits").run();
+});
+
+describe("check-ins — create", () => {
+  it("creates a tasting at the current time", async () => {
+    const response = await create(PINT, {
+      drinkId: "beer-1",
+      rating: 4,
+      wouldRecommend: true,
+      note: "Hoppy",
+    });
+    expect(response.status).toBe(200);
+    const checkIn = await response.json();
+    expect(checkIn).toEqual({
+      name: `festivals/cbf2025/checkIns/${PINT}`,
+      checkInTime: checkIn.createTime,
+      createTime: checkIn.updateTime,
+      updateTime: expect.stringMatching(/^2025-05-22T12:00/),
+      drinkId: "beer-1",
+      note: "Hoppy",
+      rating: 4,
+      wouldRecommend: true,
+    });
+  });
+
+  it("creates a backdated freeform entry", async () => {
+    const response = await create(SCOTCH_EGG, {
+      title: "Scotch egg from the pie stall",
+      checkInTime: "2025-05-22T11:15:00+01:00",
+    });
+    expect(response.status).toBe(200);
+    const checkIn = await response.json();
+    expect(checkIn.checkInTime).toBe("2025-05-22T10:15:00.000Z");
+    expect(checkIn.title).toBe("Scotch egg from the pie stall");
+    expect(checkIn).not.toHaveProperty("drinkId");
+  });
+
+  it("rejects a rating or recommendation on a freeform entry", async () => {
+    await expectError(
+      await create(SCOTCH_EGG, { title: "Scotch egg", rating: 5 }),
+      400,
+      "RATING_WITHOUT_DRINK",
+    );
+    await expectError(
+      await create(SCOTCH_EGG, { title: "Scotch egg", wouldRecommend: true }),
+      400,
+      "RATING_WITHOUT_DRINK",
+    );
+  });
+
+  it("validates the ID and each field", async () => {
+    await expectError(
+      await create("not-a-uuid", { drinkId: "beer-1" }),
+      400,
+      "INVALID_CHECK_IN_ID",
+    );
+    await expectError(
+      await send("POST", TIMELINE, { body: { drinkId: "beer-1" } }),
+      400,
+      "INVALID_CHECK_IN_ID",
+    );
+    const cases = [
+      [{ drinkId: "beer-1", rating: 6 }, "RATING_OUT_OF_RANGE"],
+      [{ drinkId: "beer-1", wouldRecommend: "yes" }, "WOULD_RECOMMEND_INVALID"],
+      [{ drinkId: 7 }, "DRINK_ID_INVALID"],
+      [{ title: "x".repeat(201) }, "TITLE_INVALID"],
+      [{ note: "x".repeat(2001) }, "NOTE_INVALID"],
+      [{ checkInTime: "after lunch" }, "CHECK_IN_TIME_INVALID"],
+      // Later than the pinned clock allows for drift.
+      [{ checkInTime: "2025-05-22T12:10:00Z" }, "CHECK_IN_TIME_INVALID"],
+    ];
+    for (const [body, reason] of cases) {
+      await expectError(await create(PINT, body), 400, reason);
+    }
+    expect((await timeline()).checkIns).toEqual([]);
+  });
+
+  it("refuses a second create with the same ID", async () => {
+    await create(PINT, { drinkId: "beer-1", rating: 4 });
+    const error = await expectError(
+      await create(PINT.toUpperCase(), { drinkId: "beer-2" }),
+      409,
+      "CHECK_IN_EXISTS",
+    );
+    expect(error.status).toBe("ALREADY_EXISTS");
+    const stored = await send("GET", `${TIMELINE}/${PINT}`);
+    expect((await stored.json()).drinkId).toBe("beer-1");
+  });
+
+  it("keeps each caller's check-ins apart", async () => {
+    await create(PINT, { drinkId: "beer-1" });
+    const other = await create(
+      PINT,
+      { drinkId: "beer-2" },
+      { device: "dev-2" },
+    );
+    expect(other.status).toBe(200);
+    expect((await send("GET", `${TIMELINE}/${PINT}`)).status).toBe(200);
+    expect((await timeline()).checkIns.map((c) => c.drinkId)).toEqual([
+      "beer-1",
+    ]);
+  });
+});
+
+describe("check-ins — update and delete", () => {
+  beforeEach(async () => {
+    await create(PINT, { drinkId: "beer-1", rating: 3, note: "Fine" });
+  });
+
+  it("edits the time and other fields under an update mask", async () => {
+    const response = await send(
+      "PATCH",
+      `${TIMELINE}/${PINT}?updateMask=checkInTime,rating`,
+      { body: { checkInTime: "2025-05-22T09:30:00Z", rating: 5 } },
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      checkInTime: "2025-05-22T09:30:00.000Z",
+      drinkId: "beer-1",
+      rating: 5,
+      note: "Fine",
+    });
+  });
+
+  it("replaces every field without a mask, keeping the time", async () => {
+    await send("PATCH", `${TIMELINE}/${PINT}?updateMask=check_in_time`, {
+      body: { checkInTime: "2025-05-22T09:30:00Z" },
+    });
+    const response = await send("PATCH", `${TIMELINE}/${PINT}`, {
+      body: { drinkId: "beer-2" },
+    });
+    const checkIn = await response.json();
+    expect(checkIn.checkInTime).toBe("2025-05-22T09:30:00.000Z");
+    expect(checkIn.drinkId).toBe("beer-2");
+    expect(checkIn).not.toHaveProperty("rating");
+    expect(checkIn).not.toHaveProperty("note");
+  });
+
+  it("will not leave a rating on an entry whose drink is cleared", async () => {
+    await expectError(
+      await send("PATCH", `${TIMELINE}/${PINT}?updateMask=drinkId,title`, {
+        body: { title: "Something else" },
+      }),
+      400,
+      "RATING_WITHOUT_DRINK",
+    );
+    const response = await send(
+      "PATCH",
+      `${TIMELINE}/${PINT}?updateMask=drinkId,rating,title`,
+      { body: { title: "Something else" } },
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).not.toHaveProperty("drinkId");
+  });
+
+  it("rejects unknown mask fields and missing check-ins", async () => {
+    await expectError(
+      await send("PATCH", `${TIMELINE}/${PINT}?updateMask=pours`, {
+        body: {},
+      }),
+      400,
+      "UNKNOWN_FIELD_MASK",
+    );
+    await expectError(
+      await send("PATCH", `${TIMELINE}/${SECOND_PINT}`, {
+        body: { drinkId: "beer-1" },
+      }),
+      404,
+      "NOT_FOUND",
+    );
+  });
+
+  it("soft-deletes, serving the tombstone and replaying with allowMissing", async () => {
+    const deleted = await send("DELETE", `${TIMELINE}/${PINT}`);
+    expect(deleted.status).toBe(200);
+    const deletedCheckIn = await deleted.json();
+    expect(deletedCheckIn.deleteTime).toBe(deletedCheckIn.updateTime);
+
+    const tombstone = await send("GET", `${TIMELINE}/${PINT}`);
+    expect((await tombstone.json()).deleteTime).toBeDefined();
+    await expectError(
+      await send("DELETE", `${TIMELINE}/${PINT}`),
+      404,
+      "NOT_FOUND",
+    );
+    const replay = await send(
+      "DELETE",
+      `${TIMELINE}/${PINT}?allowMissing=true`,
+    );
+    expect((await replay.json()).deleteTime).toBeDefined();
+    const missing = await send(
+      "DELETE",
+      `${TIMELINE}/${SECOND_PINT}?allowMissing=true`,
+    );
+    expect(await missing.json()).toEqual({});
+
+    await expectError(
+      await send("PATCH", `${TIMELINE}/${PINT}`, { body: { rating: 4 } }),
+      404,
+      "NOT_FOUND",
+    );
+    expect((await timeline()).checkIns).toEqual([]);
+    const withDeleted = await timeline("?show_deleted=true");
+    expect(withDeleted.checkIns).toHaveLength(1);
+  });
+
+  it("the scheduled purge removes tombstones past the retention window", async () => {
+    const day = 24 * 60 * 60 * 1000;
+    await send("DELETE", `${TIMELINE}/${PINT}`);
+    const controller = createScheduledController({
+      scheduledTime: Date.now() + 31 * day,
+      cron: "17 4 * * *",
+    });
+    const ctx = createExecutionContext();
+    await worker.scheduled(controller, env, ctx);
+    await waitOnExecutionContext(ctx);
+    expect((await send("GET", `${TIMELINE}/${PINT}`)).status).toBe(404);
+  });
+});
+
+describe("check-ins — the timeline", () => {
+  beforeEach(async () => {
+    await create(PINT, {
+      drinkId: "beer-1",
+      checkInTime: "2025-05-22T11:00:00Z",
+    });
+    await create(SCOTCH_EGG, {
+      title: "Scotch egg",
+      checkInTime: "2025-05-22T10:00:00Z",
+    });
+    await create(SECOND_PINT, {
+      drinkId: "beer-2",
+      rating: 5,
+      checkInTime: "2025-05-22T11:30:00Z",
+    });
+  });
+
+  it("lists by check-in time, oldest or newest first", async () => {
+    const oldest = await timeline();
+    expect(oldest.checkIns.map((c) => c.checkInTime)).toEqual([
+      "2025-05-22T10:00:00.000Z",
+      "2025-05-22T11:00:00.000Z",
+      "2025-05-22T11:30:00.000Z",
+    ]);
+    expect(oldest.totalSize).toBe(3);
+
+    const newest = await timeline("?order_by=checkInTime%20desc");
+    expect(newest.checkIns.map((c) => c.name.split("/").pop())).toEqual([
+      SECOND_PINT,
+      PINT,
+      SCOTCH_EGG,
+    ]);
+  });
+
+  it("follows a backdated edit", async () => {
+    await send("PATCH", `${TIMELINE}/${SECOND_PINT}?updateMask=checkInTime`, {
+      body: { checkInTime: "2025-05-22T09:00:00Z" },
+    });
+    const { checkIns } = await timeline();
+    expect(checkIns[0].name.split("/").pop()).toBe(SECOND_PINT);
+  });
+
+  it("pages in either direction", async () => {
+    for (const order of ["", "&order_by=checkInTime%20desc"]) {
+      const all = (await timeline(`?${order}`)).checkIns;
+      const seen = [];
+      let token = "";
+      do {
+        const page = await timeline(
+          `?page_size=2${order}${token && `&page_token=${token}`}`,
+        );
+        seen.push(...page.checkIns);
+        token = page.nextPageToken;
+      } while (token);
+      expect(seen).toEqual(all);
+    }
+  });
+
+  it("filters, and scopes page tokens to the filter and order", async () => {
+    const rated = await timeline("?filter=rating%20%3E%3D%204");
+    expect(rated.checkIns.map((c) => c.drinkId)).toEqual(["beer-2"]);
+
+    const { nextPageToken } = await timeline("?page_size=1");
+    await expectError(
+      await send(
+        "GET",
+        `${TIMELINE}?page_size=1&order_by=checkInTime%20desc&page_token=${nextPageToken}`,
+      ),
+      400,
+      "INVALID_PAGE_TOKEN",
+    );
+    await expectError(
+      await send("GET", `${TIMELINE}?order_by=rating`),
+      400,
+      "UNSUPPORTED_ORDER_BY_FIELD",
+    );
+    await expectError(
+      await send("GET", `${TIMELINE}?filter=title%20%3D%201`),
+      400,
+      "UNSUPPORTED_FILTER_FIELD",
+    );
+  });
+
+  it("accepts a page token only with the show_deleted it was issued for", async () => {
+    await send("DELETE", `${TIMELINE}/${PINT}`);
+    const { nextPageToken } = await timeline("?showDeleted=true&page_size=1");
+    expect(nextPageToken).not.toBe("");
+
+    const page = `page_size=1&page_token=${nextPageToken}`;
+    const same = await timeline(`?show_deleted=true&${page}`);
+    expect(same.checkIns[0].name.split("/").pop()).toBe(PINT);
+    await expectError(
+      await send("GET", `${TIMELINE}?${page}`),
+      400,
+      "INVALID_PAGE_TOKEN",
+    );
+  });
+});
+
+describe("check-ins — errors", () => {
+  it("rejects malformed names, unknown festivals and other methods", async () => {
+    await expectError(
+      await send("GET", `${TIMELINE}/not-a-uuid`),
+      400,
+      "INVALID_RESOURCE_NAME",
+    );
+    await expectError(
+      await send("GET", "/v1alpha/festivals/cbf2062/checkIns"),
+      404,
+      "FESTIVAL_NOT_FOUND",
+    );
+    expect((await send("PUT", TIMELINE)).status).toBe(405);
+    expect((await send("POST", `${TIMELINE}/${PINT}`)).status).toBe(405);
+  });
+
+  it("refuses creates once the festival has closed", async () => {
+    await expectError(
+      await send(
+        "POST",
+        `/v1alpha/festivals/cbf2024/checkIns?checkInId=${PINT}`,
+        {
+          body: { title: "Too late" },
+        },
+      ),
+      400,
+      "FESTIVAL_CLOSED",
+    );
+  });
+
+  it("is UNAVAILABLE without storage", async () => {
+    await expectError(
+      await send("GET", TIMELINE, {
+        workerEnv: { ...env, RATINGS_DB: undefined },
+      }),
+      503,
+      "STORAGE_UNCONFIGURED",
+    );
+  });
+});
@@ -160,10 +160,11 @@ describe("CORS preflight (OPTIONS)", () => {
       "OPTIONS",
     );
     expect(response.headers.get("Access-Control-Allow-Methods")).toBe(
-      "GET, PATCH, DELETE, OPTIONS",
+      "GET, POST, PATCH, DELETE, OPTIONS",
     );
     expect(response.headers.get("Access-Control-Allow-Headers")).toBe(
-      "Content-Type, X-Device-Id",
+      "Content-Type, Authorization, X-Device-Id, If-Match, If-None-Match, " +
+        "If-Modified-Since",
     );
   });
 
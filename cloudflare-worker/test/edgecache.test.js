@@ -0,0 +1,259 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  env,
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../worker.js";
+import { resolveCacheWindows } from "../edgecache.js";
+import { pinClock } from "./pin-clock.js";
+
+const UPSTREAM = "https://data.cambridgebeerfestival.com";
+const PINNED = Date.parse("2025-05-22T12:00:00Z");
+const LISTS = [
+  "/cbf2025/beer.json",
+  "/cbf2025/cider.json",
+  "/cbf2024/beer.json",
+];
+
+async function fetchWorker(path, workerEnv = env, headers = {}) {
+  const request = new Request(`https://worker.example.com${path}`, {
+    headers: { Origin: "https://cambeerfestival.app", ...headers },
+  });
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, workerEnv, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+/** Stop the clock `seconds` past the pinned time, so ages are exact. */
+function advance(seconds) {
+  vi.spyOn(Date, "now").mockReturnValue(PINNED + seconds * 1000);
+}
+
+const list = (name, headers = {}) =>
+  Response.json({ producers: [{ id: name, products: [] }] }, { headers });
+
+let mockFetch;
+
+beforeEach(async () => {
+  mockFetch = vi.fn();
+  vi.stubGlobal("fetch", mockFetch);
+  advance(0);
+  for (const path of LISTS) {
+    await caches.default.delete(`${UPSTREAM}${path}`);
+  }
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  pinClock();
+});
+
+describe("edge cache — beverage lists", () => {
+  it("serves a fresh list from the cache", async () => {
+    mockFetch.mockResolvedValueOnce(list("v1"));
+    const first = await fetchWorker("/cbf2025/beer.json");
+    expect(first.status).toBe(200);
+    expect(first.headers.get("X-Cache")).toBe("MISS");
+    expect(first.headers.get("ETag")).toMatch(/^"[\w-]+"$/);
+    expect(first.headers.get("Last-Modified")).toBe(
+      new Date(PINNED).toUTCString(),
+    );
+    expect(first.headers.get("Access-Control-Expose-Headers")).toBe(
+      "ETag, Last-Modified, X-Cache",
+    );
+    expect(first.headers.get("X-Upstream-Fetched-At")).toBeNull();
+
+    advance(30);
+    const second = await fetchWorker("/cbf2025/beer.json");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(second.headers.get("X-Cache")).toBe("HIT");
+    expect(second.headers.get("ETag")).toBe(first.headers.get("ETag"));
+    expect(second.headers.get("Age")).toBe("30");
+    expect(second.headers.get("Cache-Control")).toBe("public, max-age=30");
+    expect(second.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://cambeerfestival.app",
+    );
+    expect((await second.json()).producers[0].id).toBe("v1");
+  });
+
+  it("serves a stale list while refreshing it in the background", async () => {
+    mockFetch.mockResolvedValueOnce(list("v1"));
+    await fetchWorker("/cbf2025/beer.json");
+
+    advance(120);
+    mockFetch.mockResolvedValueOnce(list("v2"));
+    const stale = await fetchWorker("/cbf2025/beer.json");
+    expect(stale.headers.get("X-Cache")).toBe("STALE");
+    expect((await stale.json()).producers[0].id).toBe("v1");
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    const refreshed = await fetchWorker("/cbf2025/beer.json");
+    expect(refreshed.headers.get("X-Cache")).toBe("HIT");
+    expect((await refreshed.json()).producers[0].id).toBe("v2");
+  });
+
+  it("refreshes before responding once past the stale window", async () => {
+    mockFetch.mockResolvedValueOnce(list("v1"));
+    await fetchWorker("/cbf2025/beer.json");
+
+    advance(3600);
+    mockFetch.mockResolvedValueOnce(list("v2"));
+    const response = await fetchWorker("/cbf2025/beer.json");
+    expect(response.headers.get("X-Cache")).toBe("MISS");
+    expect((await response.json()).producers[0].id).toBe("v2");
+  });
+
+  it("serves the cached list, marked, while the upstream errors", async () => {
+    mockFetch.mockResolvedValueOnce(list("v1"));
+    await fetchWorker("/cbf2025/beer.json");
+
+    advance(3600);
+    mockFetch.mockRejectedValueOnce(new Error("Connection refused"));
+    const unreachable = await fetchWorker("/cbf2025/beer.json");
+    expect(unreachable.status).toBe(200);
+    expect(unreachable.headers.get("X-Cache")).toBe("STALE-IF-ERROR");
+    expect(unreachable.headers.get("Cache-Control")).toBe("public, max-age=0");
+    expect((await unreachable.json()).producers[0].id).toBe("v1");
+
+    mockFetch.mockResolvedValueOnce(
+      new Response("Bad gateway", { status: 502 }),
+    );
+    const failing = await fetchWorker("/cbf2025/beer.json");
+    expect(failing.status).toBe(200);
+    expect(failing.headers.get("X-Cache")).toBe("STALE-IF-ERROR");
+  });
+
+  it("keeps the validators while the body is unchanged", async () => {
+    mockFetch.mockResolvedValueOnce(list("v1"));
+    const first = await fetchWorker("/cbf2025/beer.json");
+
+    advance(3600);
+    mockFetch.mockResolvedValueOnce(list("v1"));
+    const same = await fetchWorker("/cbf2025/beer.json");
+    expect(same.headers.get("X-Cache")).toBe("MISS");
+    expect(same.headers.get("ETag")).toBe(first.headers.get("ETag"));
+    expect(same.headers.get("Last-Modified")).toBe(
+      first.headers.get("Last-Modified"),
+    );
+
+    advance(7200);
+    mockFetch.mockResolvedValueOnce(list("v2"));
+    const changed = await fetchWorker("/cbf2025/beer.json");
+    expect(changed.headers.get("ETag")).not.toBe(first.headers.get("ETag"));
+  });
+
+  it("uses the upstream's Last-Modified when it sends one", async () => {
+    const modified = "Wed, 21 May 2025 18:30:00 GMT";
+    mockFetch.mockResolvedValueOnce(list("v1", { "Last-Modified": modified }));
+    const response = await fetchWorker("/cbf2025/cider.json");
+    expect(response.headers.get("Last-Modified")).toBe(modified);
+  });
+
+  it("answers the client's validators with 304", async () => {
+    mockFetch.mockResolvedValueOnce(list("v1"));
+    const first = await fetchWorker("/cbf2025/beer.json");
+    const etag = first.headers.get("ETag");
+    const lastModified = first.headers.get("Last-Modified");
+
+    const byEtag = await fetchWorker("/cbf2025/beer.json", env, {
+      "If-None-Match": etag,
+    });
+    expect(byEtag.status).toBe(304);
+    expect(await byEtag.text()).toBe("");
+    expect(byEtag.headers.get("ETag")).toBe(etag);
+    expect(byEtag.headers.get("X-Cache")).toBe("HIT");
+    expect(byEtag.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://cambeerfestival.app",
+    );
+
+    const byDate = await fetchWorker("/cbf2025/beer.json", env, {
+      "If-Modified-Since": lastModified,
+    });
+    expect(byDate.status).toBe(304);
+
+    // If-None-Match wins over If-Modified-Since.
+    const stale = await fetchWorker("/cbf2025/beer.json", env, {
+      "If-None-Match": '"stale"',
+      "If-Modified-Since": lastModified,
+    });
+    expect(stale.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("revalidates with the upstream's validators", async () => {
+    const modified = "Wed, 21 May 2025 18:30:00 GMT";
+    mockFetch.mockResolvedValueOnce(
+      list("v1", { ETag: '"up-1"', "Last-Modified": modified }),
+    );
+    const first = await fetchWorker("/cbf2025/cider.json");
+
+    advance(3600);
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const revalidated = await fetchWorker("/cbf2025/cider.json");
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      `${UPSTREAM}/cbf2025/cider.json`,
+      {
+        method: "GET",
+        headers: {
+          "User-Agent": "Cambridge-Beer-Festival-App-Proxy/1.0",
+          "If-None-Match": '"up-1"',
+          "If-Modified-Since": modified,
+        },
+      },
+    );
+    expect(revalidated.status).toBe(200);
+    expect(revalidated.headers.get("X-Cache")).toBe("MISS");
+    expect(revalidated.headers.get("ETag")).toBe(first.headers.get("ETag"));
+    expect(revalidated.headers.get("X-Upstream-ETag")).toBeNull();
+    expect((await revalidated.json()).producers[0].id).toBe("v1");
+
+    // Re-stamped fresh: served from the cache again.
+    advance(3630);
+    const hit = await fetchWorker("/cbf2025/cider.json");
+    expect(hit.headers.get("X-Cache")).toBe("HIT");
+    expect(hit.headers.get("Age")).toBe("30");
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("passes other upstream errors through uncached", async () => {
+    mockFetch.mockResolvedValue(new Response("Not Found", { status: 404 }));
+    expect((await fetchWorker("/cbf2025/cider.json")).status).toBe(404);
+    expect((await fetchWorker("/cbf2025/cider.json")).status).toBe(404);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("takes per-festival windows from UPSTREAM_CACHE", async () => {
+    const workerEnv = {
+      ...env,
+      UPSTREAM_CACHE: JSON.stringify({
+        default: { fresh: 10 },
+        cbf2024: { fresh: 86400 },
+      }),
+    };
+    mockFetch.mockImplementation(async () => list("v1"));
+    await fetchWorker("/cbf2025/beer.json", workerEnv);
+    await fetchWorker("/cbf2024/beer.json", workerEnv);
+
+    advance(3600);
+    const past = await fetchWorker("/cbf2024/beer.json", workerEnv);
+    expect(past.headers.get("X-Cache")).toBe("HIT");
+    advance(30);
+    const current = await fetchWorker("/cbf2025/beer.json", workerEnv);
+    expect(current.headers.get("X-Cache")).toBe("STALE");
+  });
+
+  it("ignores invalid overrides", () => {
+    expect(
+      resolveCacheWindows(
+        { UPSTREAM_CACHE: '{"cbf2025":{"fresh":-1,"staleWhileRevalidate":5}}' },
+        "cbf2025",
+      ),
+    ).toEqual({ fresh: 60, staleWhileRevalidate: 5 });
+    expect(resolveCacheWindows({ UPSTREAM_CACHE: "{" }, "cbf2025")).toEqual({
+      fresh: 60,
+      staleWhileRevalidate: 600,
+    });
+  });
+});
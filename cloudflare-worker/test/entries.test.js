@@ -0,0 +1,1009 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  env,
+  createExecutionContext,
+  createScheduledController,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../worker.js";
+import { racingEnv } from "./racing-db.js";
+
+const TEST_ORIGIN = "http://localhost:8080"; // non-prod → 'test' bucket
+const DEVICE = "dev-1";
+
+async function send(
+  method,
+  path,
+  {
+    body,
+    origin = TEST_ORIGIN,
+    device = DEVICE,
+    headers = {},
+    workerEnv = env,
+  } = {},
+) {
+  const init = {
+    method,
+    headers: { Origin: origin, "X-Device-Id": device, ...headers },
+  };
+  if (body !== undefined) {
+    init.headers["Content-Type"] = "application/json";
+    init.body = typeof body === "string" ? body : JSON.stringify(body);
+  }
+  const request = new Request(`https://worker.example.com${path}`, init);
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, workerEnv, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+const entryPath = (f, d) => `/v1alpha/festivals/${f}/drinks/${d}/entry`;
+const reviewPath = (f, d) => `/v1alpha/festivals/${f}/drinks/${d}/review`;
+// First writes need allowMissing (AIP-134 upsert); most tests want that.
+const upsert = (f, d, body, { query = "", ...opts } = {}) =>
+  send("PATCH", `${entryPath(f, d)}?allowMissing=true${query}`, {
+    body,
+    ...opts,
+  });
+
+beforeEach(async () => {
+  await env.RATINGS_DB.prepare("DELETE FROM reviews").run();
+  await env.RATINGS_DB.prepare("DELETE FROM review_aggregates").run();
+  await env.RATINGS_DB.prepare("DELETE FROM rate_limits").run();
+});
+
+// ---------------------------------------------------------------------------
+// UpdateDrinkEntry
+// ---------------------------------------------------------------------------
+
+describe("entries — PATCH (UpdateDrinkEntry)", () => {
+  it("creates an entry with every signal and returns the resource", async () => {
+    const response = await upsert("cbf2025", "beer-1", {
+      isFavourite: true,
+      starRating: 4,
+      wouldRecommend: false,
+      note: "Hoppy, a touch of pine",
+      pours: 2,
+    });
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data).toMatchObject({
+      name: "festivals/cbf2025/drinks/beer-1/entry",
+      isFavourite: true,
+      starRating: 4,
+      wouldRecommend: false,
+      note: "Hoppy, a touch of pine",
+      pours: 2,
+    });
+    expect(data.createTime).toBe(data.updateTime);
+    expect(Number.isNaN(Date.parse(data.updateTime))).toBe(false);
+  });
+
+  it("is NOT_FOUND for a missing entry without allowMissing", async () => {
+    const response = await send("PATCH", entryPath("cbf2025", "beer-1"), {
+      body: { starRating: 3 },
+    });
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.status).toBe("NOT_FOUND");
+  });
+
+  it("without updateMask replaces every writable field", async () => {
+    await upsert("cbf2025", "beer-1", { starRating: 2, note: "meh", pours: 1 });
+    const data = await (
+      await send("PATCH", entryPath("cbf2025", "beer-1"), {
+        body: { isFavourite: true },
+      })
+    ).json();
+    expect(data.isFavourite).toBe(true);
+    expect(data.starRating).toBeUndefined();
+    expect(data.note).toBeUndefined();
+    expect(data.pours).toBeUndefined();
+  });
+
+  it("updateMask writes only the named fields, in either spelling", async () => {
+    await upsert("cbf2025", "beer-1", { starRating: 2, pours: 1 });
+    const data = await (
+      await send(
+        "PATCH",
+        `${entryPath("cbf2025", "beer-1")}?update_mask=pours,is_favourite`,
+        { body: { pours: 2, isFavourite: true, starRating: 5 } },
+      )
+    ).json();
+    expect(data.pours).toBe(2);
+    expect(data.isFavourite).toBe(true);
+    expect(data.starRating).toBe(2); // not in the mask
+  });
+
+  it("clears a masked field sent absent, and a note sent empty", async () => {
+    await upsert("cbf2025", "beer-1", { starRating: 4, note: "lovely" });
+    const data = await (
+      await send(
+        "PATCH",
+        `${entryPath("cbf2025", "beer-1")}?updateMask=starRating,note`,
+        { body: { note: "" } },
+      )
+    ).json();
+    expect(data.starRating).toBeUndefined();
+    expect(data.note).toBeUndefined();
+  });
+
+  it("keeps createTime across updates", async () => {
+    const first = await (
+      await upsert("cbf2025", "beer-1", { pours: 1 })
+    ).json();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await (
+      await upsert("cbf2025", "beer-1", { pours: 2 })
+    ).json();
+    expect(second.createTime).toBe(first.createTime);
+    expect(Date.parse(second.updateTime)).toBeGreaterThan(
+      Date.parse(first.updateTime),
+    );
+  });
+
+  it("ignores output-only fields in the body", async () => {
+    const data = await (
+      await upsert("cbf2025", "beer-1", {
+        starRating: 3,
+        updateTime: "2000-01-01T00:00:00Z",
+      })
+    ).json();
+    expect(data.updateTime).not.toBe("2000-01-01T00:00:00.000Z");
+  });
+
+  it.each([
+    [{ starRating: 6 }, "STAR_RATING_OUT_OF_RANGE"],
+    [{ wouldRecommend: "yes" }, "WOULD_RECOMMEND_INVALID"],
+    [{ isFavourite: 1 }, "IS_FAVOURITE_INVALID"],
+    [{ pours: -1 }, "POURS_OUT_OF_RANGE"],
+    [{ pours: 1.5 }, "POURS_OUT_OF_RANGE"],
+    [{ note: "x".repeat(2001) }, "NOTE_INVALID"],
+  ])("rejects %j with %s", async (body, reason) => {
+    const response = await upsert("cbf2025", "beer-1", body);
+    expect(response.status).toBe(400);
+    const { error } = await response.json();
+    expect(error.status).toBe("INVALID_ARGUMENT");
+    expect(error.details[0].reason).toBe(reason);
+  });
+
+  it("counts note length in characters, not UTF-16 units", async () => {
+    const response = await upsert("cbf2025", "beer-1", {
+      note: "🍺".repeat(2000),
+    });
+    expect(response.status).toBe(200);
+  });
+
+  it("rejects an unknown updateMask field", async () => {
+    const response = await upsert(
+      "cbf2025",
+      "beer-1",
+      { pours: 1 },
+      { query: "&updateMask=pours,bogus" },
+    );
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.details[0].reason).toBe(
+      "UNKNOWN_FIELD_MASK",
+    );
+  });
+
+  it("rejects a non-object body", async () => {
+    const response = await upsert("cbf2025", "beer-1", "[1,2]");
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.details[0].reason).toBe(
+      "INVALID_BODY",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GetDrinkEntry / DeleteDrinkEntry
+// ---------------------------------------------------------------------------
+
+describe("entries — GET and DELETE", () => {
+  it("gets an entry back after writing it", async () => {
+    await upsert("cbf2025", "beer-1", { isFavourite: true, pours: 1 });
+    const response = await send("GET", entryPath("cbf2025", "beer-1"));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      isFavourite: true,
+      pours: 1,
+    });
+  });
+
+  it("returns 404 for a missing entry", async () => {
+    const response = await send("GET", entryPath("cbf2025", "beer-ghost"));
+    expect(response.status).toBe(404);
+  });
+
+  it("soft-deletes an entry and returns the tombstone", async () => {
+    await upsert("cbf2025", "beer-1", { pours: 1 });
+    const del = await send("DELETE", entryPath("cbf2025", "beer-1"));
+    expect(del.status).toBe(200);
+    const tombstone = await del.json();
+    expect(tombstone).toMatchObject({
+      name: "festivals/cbf2025/drinks/beer-1/entry",
+      pours: 1,
+    });
+    expect(tombstone.deleteTime).toBe(tombstone.updateTime);
+
+    // GET still serves the tombstone (AIP-164).
+    const after = await send("GET", entryPath("cbf2025", "beer-1"));
+    expect(after.status).toBe(200);
+    expect((await after.json()).deleteTime).toBe(tombstone.deleteTime);
+  });
+
+  it("deleting a missing entry is 404 unless allowMissing is set", async () => {
+    const strict = await send("DELETE", entryPath("cbf2025", "beer-ghost"));
+    expect(strict.status).toBe(404);
+    const lenient = await send(
+      "DELETE",
+      `${entryPath("cbf2025", "beer-ghost")}?allow_missing=true`,
+    );
+    expect(lenient.status).toBe(200);
+  });
+
+  it("returns 405 for an unsupported method", async () => {
+    const response = await send("POST", entryPath("cbf2025", "beer-1"), {
+      body: {},
+    });
+    expect(response.status).toBe(405);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// ListDrinkEntries
+// ---------------------------------------------------------------------------
+
+describe("entries — ListDrinkEntries", () => {
+  it("lists the caller's entries with total size", async () => {
+    await upsert("cbf2025", "beer-1", { isFavourite: true });
+    await upsert("cbf2025", "beer-2", { starRating: 5 });
+    await upsert("cbf2025", "beer-3", { pours: 1 }, { device: "dev-other" });
+
+    const data = await (
+      await send("GET", "/v1alpha/festivals/cbf2025/drinkEntries")
+    ).json();
+    expect(data.totalSize).toBe(2);
+    expect(data.nextPageToken).toBe("");
+    expect(data.drinkEntries.map((e) => e.name)).toEqual([
+      "festivals/cbf2025/drinks/beer-1/entry",
+      "festivals/cbf2025/drinks/beer-2/entry",
+    ]);
+  });
+
+  it("paginates with opaque tokens", async () => {
+    for (const d of ["beer-1", "beer-2", "beer-3"]) {
+      await upsert("cbf2025", d, { pours: 1 });
+    }
+    const first = await (
+      await send("GET", "/v1alpha/festivals/cbf2025/drinkEntries?page_size=2")
+    ).json();
+    expect(first.drinkEntries).toHaveLength(2);
+    expect(first.totalSize).toBe(3);
+
+    const second = await (
+      await send(
+        "GET",
+        `/v1alpha/festivals/cbf2025/drinkEntries?page_size=2&page_token=${first.nextPageToken}`,
+      )
+    ).json();
+    expect(second.drinkEntries.map((e) => e.name)).toEqual([
+      "festivals/cbf2025/drinks/beer-3/entry",
+    ]);
+    expect(second.nextPageToken).toBe("");
+  });
+
+  it("filters entries (AIP-160), with a matching totalSize", async () => {
+    await upsert("cbf2025", "beer-1", { isFavourite: true, pours: 2 });
+    await upsert("cbf2025", "beer-2", { starRating: 5 });
+    await upsert("cbf2025", "beer-3", { isFavourite: true });
+
+    const filter = encodeURIComponent("isFavourite = true AND pours >= 1");
+    const data = await (
+      await send(
+        "GET",
+        `/v1alpha/festivals/cbf2025/drinkEntries?filter=${filter}`,
+      )
+    ).json();
+    expect(data.drinkEntries.map((e) => e.name)).toEqual([
+      "festivals/cbf2025/drinks/beer-1/entry",
+    ]);
+    expect(data.totalSize).toBe(1);
+
+    const unsupported = await send(
+      "GET",
+      `/v1alpha/festivals/cbf2025/drinkEntries?filter=${encodeURIComponent("note = 1")}`,
+    );
+    expect(unsupported.status).toBe(400);
+    expect((await unsupported.json()).error.details[0].reason).toBe(
+      "UNSUPPORTED_FILTER_FIELD",
+    );
+  });
+
+  it("rejects a garbage page_token", async () => {
+    const response = await send(
+      "GET",
+      "/v1alpha/festivals/cbf2025/drinkEntries?page_token=!!!",
+    );
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.details[0].reason).toBe(
+      "INVALID_PAGE_TOKEN",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// BatchUpdateDrinkEntries
+// ---------------------------------------------------------------------------
+
+const batchPath = (f) => `/v1alpha/festivals/${f}/drinkEntries:batchUpdate`;
+const item = (d, drinkEntry, extra = {}) => ({
+  drinkEntry: { name: `festivals/cbf2025/drinks/${d}/entry`, ...drinkEntry },
+  allowMissing: true,
+  ...extra,
+});
+
+describe("entries — BatchUpdateDrinkEntries", () => {
+  it("writes every item and returns entries and OK statuses in order", async () => {
+    const response = await send("POST", batchPath("cbf2025"), {
+      body: {
+        parent: "festivals/cbf2025",
+        requests: [
+          item("beer-1", { starRating: 4 }),
+          item("beer-2", { wouldRecommend: true, pours: 1 }),
+        ],
+      },
+    });
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.statuses.map((s) => s.code)).toEqual([0, 0]);
+    expect(data.drinkEntries[0]).toMatchObject({
+      name: "festivals/cbf2025/drinks/beer-1/entry",
+      starRating: 4,
+    });
+    expect(data.drinkEntries[1].pours).toBe(1);
+
+    const stored = await (
+      await send("GET", entryPath("cbf2025", "beer-2"))
+    ).json();
+    expect(stored.wouldRecommend).toBe(true);
+  });
+
+  it("reports per-item errors without failing the valid items", async () => {
+    await upsert("cbf2025", "beer-3", { pours: 1 });
+    const data = await (
+      await send("POST", batchPath("cbf2025"), {
+        body: {
+          requests: [
+            item("beer-1", { starRating: 9 }),
+            item("beer-2", { starRating: 5 }),
+            item("beer-3", { pours: 2 }, { allowMissing: false }),
+            item("beer-4", { pours: 2 }, { allowMissing: false }),
+            {
+              drinkEntry: { name: "festivals/other/drinks/beer-5/entry" },
+              allowMissing: true,
+            },
+            { drinkEntry: { name: "beer-6" }, allowMissing: true },
+          ],
+        },
+      })
+    ).json();
+
+    expect(data.statuses).toHaveLength(6);
+    expect(data.drinkEntries).toHaveLength(6);
+    const [bad, ok, update, missing, otherFestival, badName] = data.statuses;
+
+    expect(bad.code).toBe(3); // INVALID_ARGUMENT
+    expect(bad.details[0]).toMatchObject({
+      "@type": "type.googleapis.com/google.rpc.ErrorInfo",
+      reason: "STAR_RATING_OUT_OF_RANGE",
+      domain: "cambeerfestival.app",
+    });
+    expect(data.drinkEntries[0]).toEqual({});
+
+    expect(ok.code).toBe(0);
+    expect(update.code).toBe(0);
+    expect(data.drinkEntries[2].pours).toBe(2);
+
+    expect(missing.code).toBe(5); // NOT_FOUND
+    expect(otherFestival.details[0].reason).toBe("PARENT_MISMATCH");
+    expect(badName.details[0].reason).toBe("INVALID_RESOURCE_NAME");
+
+    const list = await (
+      await send("GET", "/v1alpha/festivals/cbf2025/drinkEntries")
+    ).json();
+    expect(list.drinkEntries.map((e) => e.name)).toEqual([
+      "festivals/cbf2025/drinks/beer-2/entry",
+      "festivals/cbf2025/drinks/beer-3/entry",
+    ]);
+  });
+
+  it("applies repeated items for one drink in order", async () => {
+    const data = await (
+      await send("POST", batchPath("cbf2025"), {
+        body: {
+          requests: [
+            item("beer-1", { starRating: 2, note: "first go" }),
+            item("beer-1", { pours: 2 }, { updateMask: "pours" }),
+            item("beer-1", { starRating: 4 }, { update_mask: "star_rating" }),
+          ],
+        },
+      })
+    ).json();
+    expect(data.statuses.map((s) => s.code)).toEqual([0, 0, 0]);
+    const stored = await (
+      await send("GET", entryPath("cbf2025", "beer-1"))
+    ).json();
+    expect(stored).toMatchObject({ starRating: 4, note: "first go", pours: 2 });
+  });
+
+  it("rejects a parent that does not match the path", async () => {
+    const response = await send("POST", batchPath("cbf2025"), {
+      body: { parent: "festivals/cbf2024", requests: [] },
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.details[0].reason).toBe(
+      "PARENT_MISMATCH",
+    );
+  });
+
+  it("rejects a body without a requests array", async () => {
+    const response = await send("POST", batchPath("cbf2025"), {
+      body: { requests: "nope" },
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.details[0].reason).toBe(
+      "INVALID_BODY",
+    );
+  });
+
+  it("rejects an oversized batch as a whole", async () => {
+    const requests = Array.from({ length: 101 }, (_, i) =>
+      item(`beer-${i}`, { pours: 1 }),
+    );
+    const response = await send("POST", batchPath("cbf2025"), {
+      body: { requests },
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.details[0].reason).toBe(
+      "BATCH_TOO_LARGE",
+    );
+  });
+
+  it("returns 405 for a non-POST method", async () => {
+    const response = await send("GET", batchPath("cbf2025"));
+    expect(response.status).toBe(405);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Compatibility with the legacy review routes (same rows)
+// ---------------------------------------------------------------------------
+
+describe("entries — soft delete (AIP-164)", () => {
+  const listPath = "/v1alpha/festivals/cbf2025/drinkEntries";
+
+  it("hides tombstones from lists unless show_deleted is set", async () => {
+    await upsert("cbf2025", "beer-1", { pours: 1 });
+    await upsert("cbf2025", "beer-2", { pours: 2 });
+    await send("DELETE", entryPath("cbf2025", "beer-1"));
+
+    const live = await (await send("GET", listPath)).json();
+    expect(live.drinkEntries.map((e) => e.name)).toEqual([
+      "festivals/cbf2025/drinks/beer-2/entry",
+    ]);
+    expect(live.totalSize).toBe(1);
+
+    for (const query of ["?show_deleted=true", "?showDeleted=true"]) {
+      const all = await (await send("GET", `${listPath}${query}`)).json();
+      expect(all.totalSize, query).toBe(2);
+      expect(all.drinkEntries[0].deleteTime, query).toEqual(expect.any(String));
+      expect(all.drinkEntries[1].deleteTime, query).toBeUndefined();
+    }
+  });
+
+  it("accepts a page token only with the show_deleted it was issued for", async () => {
+    for (const d of ["beer-1", "beer-2", "beer-3"]) {
+      await upsert("cbf2025", d, { pours: 1 });
+    }
+    await send("DELETE", entryPath("cbf2025", "beer-1"));
+    const { nextPageToken } = await (
+      await send("GET", `${listPath}?showDeleted=true&page_size=1`)
+    ).json();
+    expect(nextPageToken).not.toBe("");
+
+    const page = `page_size=1&page_token=${nextPageToken}`;
+    const same = await send("GET", `${listPath}?show_deleted=true&${page}`);
+    expect((await same.json()).drinkEntries[0].name).toBe(
+      "festivals/cbf2025/drinks/beer-2/entry",
+    );
+    const live = await send("GET", `${listPath}?${page}`);
+    expect(live.status).toBe(400);
+    expect((await live.json()).error.details[0].reason).toBe(
+      "INVALID_PAGE_TOKEN",
+    );
+  });
+
+  it("deleting a tombstone again is 404; a replay with allowMissing returns it", async () => {
+    await upsert("cbf2025", "beer-1", { pours: 1 });
+    const first = await (
+      await send("DELETE", entryPath("cbf2025", "beer-1"))
+    ).json();
+
+    const again = await send("DELETE", entryPath("cbf2025", "beer-1"));
+    expect(again.status).toBe(404);
+    const replay = await send(
+      "DELETE",
+      `${entryPath("cbf2025", "beer-1")}?allowMissing=true`,
+    );
+    expect(replay.status).toBe(200);
+    expect(await replay.json()).toEqual(first);
+  });
+
+  it("undelete restores the entry as it was", async () => {
+    await upsert("cbf2025", "beer-1", { starRating: 4, note: "Oops" });
+    const { createTime } = await (
+      await send("DELETE", entryPath("cbf2025", "beer-1"))
+    ).json();
+
+    const response = await send(
+      "POST",
+      `${entryPath("cbf2025", "beer-1")}:undelete`,
+      { body: { name: "festivals/cbf2025/drinks/beer-1/entry" } },
+    );
+    expect(response.status).toBe(200);
+    const entry = await response.json();
+    expect(entry).toMatchObject({ starRating: 4, note: "Oops", createTime });
+    expect(entry.deleteTime).toBeUndefined();
+    expect(response.headers.get("ETag")).toBe(`"${entry.etag}"`);
+
+    const list = await (await send("GET", listPath)).json();
+    expect(list.totalSize).toBe(1);
+  });
+
+  it("undelete honours the etag of the tombstone", async () => {
+    await upsert("cbf2025", "beer-1", { pours: 1 });
+    const { etag } = await (
+      await send("DELETE", entryPath("cbf2025", "beer-1"))
+    ).json();
+    const stale = await send(
+      "POST",
+      `${entryPath("cbf2025", "beer-1")}:undelete`,
+      { body: { etag: "not-the-etag" } },
+    );
+    expect(stale.status).toBe(409);
+    expect((await stale.json()).error.status).toBe("ABORTED");
+    const current = await send(
+      "POST",
+      `${entryPath("cbf2025", "beer-1")}:undelete`,
+      { headers: { "If-Match": `"${etag}"` } },
+    );
+    expect(current.status).toBe(200);
+  });
+
+  it("undelete is ALREADY_EXISTS for a live entry and NOT_FOUND for a missing one", async () => {
+    await upsert("cbf2025", "beer-1", { pours: 1 });
+    const live = await send(
+      "POST",
+      `${entryPath("cbf2025", "beer-1")}:undelete`,
+    );
+    expect(live.status).toBe(409);
+    const { error } = await live.json();
+    expect(error.status).toBe("ALREADY_EXISTS");
+    expect(error.details[0].reason).toBe("NOT_DELETED");
+
+    const missing = await send(
+      "POST",
+      `${entryPath("cbf2025", "beer-ghost")}:undelete`,
+    );
+    expect(missing.status).toBe(404);
+
+    const wrongMethod = await send(
+      "GET",
+      `${entryPath("cbf2025", "beer-1")}:undelete`,
+    );
+    expect(wrongMethod.status).toBe(405);
+  });
+
+  it("an update needs allowMissing on a tombstone, which then starts afresh", async () => {
+    await upsert("cbf2025", "beer-1", { starRating: 2, note: "Meh" });
+    await send("DELETE", entryPath("cbf2025", "beer-1"));
+
+    const strict = await send(
+      "PATCH",
+      `${entryPath("cbf2025", "beer-1")}?updateMask=pours`,
+      { body: { pours: 1 } },
+    );
+    expect(strict.status).toBe(404);
+
+    const response = await send(
+      "PATCH",
+      `${entryPath("cbf2025", "beer-1")}?updateMask=pours&allowMissing=true`,
+      { body: { pours: 1 } },
+    );
+    expect(response.status).toBe(200);
+    const entry = await response.json();
+    expect(entry.pours).toBe(1);
+    expect(entry.starRating).toBeUndefined();
+    expect(entry.note).toBeUndefined();
+    expect(entry.deleteTime).toBeUndefined();
+    expect(entry.createTime).toBe(entry.updateTime);
+  });
+
+  it("the scheduled purge removes tombstones past the retention window", async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    const insert = env.RATINGS_DB.prepare(
+      "INSERT INTO reviews (bucket, festival_id, drink_id, device_id, pours, " +
+        "created_at, updated_at, deleted_at) VALUES ('test', 'cbf2025', ?, ?, 1, ?, ?, ?)",
+    );
+    await env.RATINGS_DB.batch([
+      insert.bind(
+        "beer-old",
+        DEVICE,
+        now - 40 * day,
+        now - 31 * day,
+        now - 31 * day,
+      ),
+      insert.bind("beer-recent", DEVICE, now - 2 * day, now - day, now - day),
+      insert.bind("beer-live", DEVICE, now - 40 * day, now - 40 * day, null),
+    ]);
+
+    const controller = createScheduledController({
+      scheduledTime: now,
+      cron: "17 4 * * *",
+    });
+    const ctx = createExecutionContext();
+    await worker.scheduled(controller, env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    const { results } = await env.RATINGS_DB.prepare(
+      "SELECT drink_id FROM reviews ORDER BY drink_id",
+    ).all();
+    expect(results.map((r) => r.drink_id)).toEqual([
+      "beer-live",
+      "beer-recent",
+    ]);
+  });
+});
+
+describe("entries — etags (AIP-154)", () => {
+  it("returns the etag in the body and the ETag header", async () => {
+    const response = await upsert("cbf2025", "beer-1", { pours: 1 });
+    const data = await response.json();
+    expect(data.etag).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(response.headers.get("ETag")).toBe(`"${data.etag}"`);
+
+    const get = await send("GET", entryPath("cbf2025", "beer-1"));
+    expect((await get.json()).etag).toBe(data.etag);
+    expect(get.headers.get("ETag")).toBe(`"${data.etag}"`);
+  });
+
+  it("changes the etag on every write", async () => {
+    const first = await (
+      await upsert("cbf2025", "beer-1", { pours: 1 })
+    ).json();
+    const second = await (
+      await upsert("cbf2025", "beer-1", { pours: 2 })
+    ).json();
+    expect(second.etag).not.toBe(first.etag);
+  });
+
+  it("GET is 304 when If-None-Match names the current etag", async () => {
+    const { etag } = await (
+      await upsert("cbf2025", "beer-1", { starRating: 4 })
+    ).json();
+    const response = await send("GET", entryPath("cbf2025", "beer-1"), {
+      headers: { "If-None-Match": `W/"stale", "${etag}"` },
+    });
+    expect(response.status).toBe(304);
+    expect(response.headers.get("ETag")).toBe(`"${etag}"`);
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+      TEST_ORIGIN,
+    );
+    expect(await response.text()).toBe("");
+
+    const stale = await send("GET", entryPath("cbf2025", "beer-1"), {
+      headers: { "If-None-Match": '"stale"' },
+    });
+    expect(stale.status).toBe(200);
+  });
+
+  it("applies an update whose body etag is current (pour increment)", async () => {
+    const { etag } = await (
+      await upsert("cbf2025", "beer-1", { pours: 1 })
+    ).json();
+    const response = await send(
+      "PATCH",
+      `${entryPath("cbf2025", "beer-1")}?updateMask=pours`,
+      { body: { pours: 2, etag } },
+    );
+    expect(response.status).toBe(200);
+    expect((await response.json()).pours).toBe(2);
+  });
+
+  it("rejects a stale body etag with 409 ABORTED", async () => {
+    const { etag } = await (
+      await upsert("cbf2025", "beer-1", { pours: 1 })
+    ).json();
+    await upsert("cbf2025", "beer-1", { pours: 2 });
+
+    const response = await send(
+      "PATCH",
+      `${entryPath("cbf2025", "beer-1")}?updateMask=pours`,
+      { body: { pours: 2, etag } },
+    );
+    expect(response.status).toBe(409);
+    const { error } = await response.json();
+    expect(error.status).toBe("ABORTED");
+    expect(error.details[0].reason).toBe("ETAG_MISMATCH");
+    const get = await send("GET", entryPath("cbf2025", "beer-1"));
+    expect((await get.json()).pours).toBe(2);
+  });
+
+  it("is ABORTED when a concurrent write creates the entry first", async () => {
+    const workerEnv = racingEnv(() =>
+      upsert("cbf2025", "beer-1", { pours: 3 }),
+    );
+    const response = await upsert(
+      "cbf2025",
+      "beer-1",
+      { pours: 1 },
+      { workerEnv },
+    );
+    expect(response.status).toBe(409);
+    expect((await response.json()).error.status).toBe("ABORTED");
+    const get = await send("GET", entryPath("cbf2025", "beer-1"));
+    expect((await get.json()).pours).toBe(3);
+  });
+
+  it("honours If-Match on PATCH", async () => {
+    const { etag } = await (
+      await upsert("cbf2025", "beer-1", { pours: 1 })
+    ).json();
+    const stale = await send("PATCH", entryPath("cbf2025", "beer-1"), {
+      body: { pours: 3 },
+      headers: { "If-Match": '"not-the-etag"' },
+    });
+    expect(stale.status).toBe(409);
+    const current = await send("PATCH", entryPath("cbf2025", "beer-1"), {
+      body: { pours: 3 },
+      headers: { "If-Match": `"${etag}"` },
+    });
+    expect(current.status).toBe(200);
+  });
+
+  it("rejects an etag for an entry that does not exist, even with allowMissing", async () => {
+    const response = await upsert("cbf2025", "beer-1", {
+      pours: 1,
+      etag: "made-up",
+    });
+    expect(response.status).toBe(409);
+  });
+
+  it("rejects a stale etag on DELETE and keeps the entry", async () => {
+    const { etag } = await (
+      await upsert("cbf2025", "beer-1", { pours: 1 })
+    ).json();
+    await upsert("cbf2025", "beer-1", { pours: 2 });
+
+    const byQuery = await send(
+      "DELETE",
+      `${entryPath("cbf2025", "beer-1")}?etag=${etag}`,
+    );
+    expect(byQuery.status).toBe(409);
+    const byHeader = await send("DELETE", entryPath("cbf2025", "beer-1"), {
+      headers: { "If-Match": `"${etag}"` },
+    });
+    expect(byHeader.status).toBe(409);
+    const get = await send("GET", entryPath("cbf2025", "beer-1"));
+    expect(get.status).toBe(200);
+  });
+
+  it("deletes with a current etag, and replays idempotently with allowMissing", async () => {
+    const { etag } = await (
+      await upsert("cbf2025", "beer-1", { pours: 1 })
+    ).json();
+    const path = `${entryPath("cbf2025", "beer-1")}?etag=${etag}&allowMissing=true`;
+    expect((await send("DELETE", path)).status).toBe(200);
+    expect((await send("DELETE", path)).status).toBe(200);
+  });
+
+  it("lists each entry with its etag", async () => {
+    const { etag } = await (
+      await upsert("cbf2025", "beer-1", { pours: 1 })
+    ).json();
+    const response = await send(
+      "GET",
+      "/v1alpha/festivals/cbf2025/drinkEntries",
+    );
+    expect((await response.json()).drinkEntries[0].etag).toBe(etag);
+  });
+
+  it("aborts only the batch items whose etag is stale", async () => {
+    const { etag: stale } = await (
+      await upsert("cbf2025", "beer-1", { pours: 1 })
+    ).json();
+    const { etag: current } = await (
+      await upsert("cbf2025", "beer-1", { pours: 2 })
+    ).json();
+    const { etag: other } = await (
+      await upsert("cbf2025", "beer-2", { pours: 1 })
+    ).json();
+
+    const response = await send(
+      "POST",
+      "/v1alpha/festivals/cbf2025/drinkEntries:batchUpdate",
+      {
+        body: {
+          requests: [
+            {
+              drinkEntry: {
+                name: "festivals/cbf2025/drinks/beer-1/entry",
+                pours: 5,
+                etag: stale,
+              },
+              updateMask: "pours",
+            },
+            {
+              drinkEntry: {
+                name: "festivals/cbf2025/drinks/beer-2/entry",
+                pours: 5,
+                etag: other,
+              },
+              updateMask: "pours",
+            },
+          ],
+        },
+      },
+    );
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.statuses.map((s) => s.code)).toEqual([10, 0]);
+    expect(data.statuses[0].details[0].reason).toBe("ETAG_MISMATCH");
+    expect(data.drinkEntries[0]).toEqual({});
+    expect(data.drinkEntries[1].pours).toBe(5);
+
+    const get = await send("GET", entryPath("cbf2025", "beer-1"));
+    const entry = await get.json();
+    expect(entry).toMatchObject({ pours: 2, etag: current });
+  });
+
+  it("aborts the items whose create lost a race to another write", async () => {
+    // Another request creates beer-1 between the batch's read and its write.
+    const workerEnv = racingEnv(() =>
+      env.RATINGS_DB.prepare(
+        "INSERT INTO reviews (bucket, festival_id, drink_id, device_id, " +
+          "star_rating, created_at, updated_at) " +
+          "VALUES ('test', 'cbf2025', 'beer-1', ?, 2, 1, 1)",
+      )
+        .bind(DEVICE)
+        .run(),
+    );
+    const response = await send("POST", batchPath("cbf2025"), {
+      body: {
+        requests: [
+          item("beer-1", { starRating: 5 }),
+          item("beer-1", { pours: 1 }),
+          item("beer-2", { starRating: 4 }),
+        ],
+      },
+      workerEnv,
+    });
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.statuses.map((s) => s.code)).toEqual([10, 10, 0]);
+    expect(data.statuses[0].details[0].reason).toBe("ETAG_MISMATCH");
+    expect(data.drinkEntries[0]).toEqual({});
+
+    const entry = await (
+      await send("GET", entryPath("cbf2025", "beer-1"))
+    ).json();
+    expect(entry.starRating).toBe(2);
+    expect(entry.pours).toBeUndefined();
+  });
+
+  it("shares the etag with the review view of the same row", async () => {
+    const { etag } = await (
+      await upsert("cbf2025", "beer-1", { starRating: 4, note: "Nice" })
+    ).json();
+    const review = await send("GET", reviewPath("cbf2025", "beer-1"));
+    expect((await review.json()).etag).toBe(etag);
+  });
+});
+
+describe("entries — review route compatibility", () => {
+  it("a review written by an old client reads back as an entry", async () => {
+    await send("PATCH", reviewPath("cbf2025", "beer-1"), {
+      body: { starRating: 4, wouldRecommend: true },
+    });
+    const data = await (
+      await send("GET", entryPath("cbf2025", "beer-1"))
+    ).json();
+    expect(data.starRating).toBe(4);
+    expect(data.wouldRecommend).toBe(true);
+    expect(data.createTime).toBe(data.updateTime);
+  });
+
+  it("a review PATCH leaves the entry's other signals alone", async () => {
+    await upsert("cbf2025", "beer-1", { isFavourite: true, note: "nice" });
+    await send("PATCH", reviewPath("cbf2025", "beer-1"), {
+      body: { starRating: 5 },
+    });
+    const data = await (
+      await send("GET", entryPath("cbf2025", "beer-1"))
+    ).json();
+    expect(data).toMatchObject({
+      isFavourite: true,
+      note: "nice",
+      starRating: 5,
+    });
+  });
+
+  it("an entry without review signals is not a review", async () => {
+    await upsert("cbf2025", "beer-1", { isFavourite: true });
+    const get = await send("GET", reviewPath("cbf2025", "beer-1"));
+    expect(get.status).toBe(404);
+    const list = await (
+      await send("GET", "/v1alpha/festivals/cbf2025/reviews")
+    ).json();
+    expect(list.reviews).toHaveLength(0);
+    const summaries = await (
+      await send("GET", "/v1alpha/festivals/cbf2025/reviewSummaries")
+    ).json();
+    expect(summaries.totalSize).toBe(0);
+    expect(summaries.reviewSummaries).toHaveLength(0);
+  });
+
+  it("deleting a review clears only the review signals", async () => {
+    await upsert("cbf2025", "beer-1", { starRating: 3, pours: 2 });
+    const del = await send("DELETE", reviewPath("cbf2025", "beer-1"));
+    expect(del.status).toBe(200);
+    const data = await (
+      await send("GET", entryPath("cbf2025", "beer-1"))
+    ).json();
+    expect(data.starRating).toBeUndefined();
+    expect(data.pours).toBe(2);
+    // The review is gone, so deleting it again is NOT_FOUND.
+    const again = await send("DELETE", reviewPath("cbf2025", "beer-1"));
+    expect(again.status).toBe(404);
+  });
+
+  it("deleting a review-only entry soft-deletes it, and undelete restores the review", async () => {
+    await send("PATCH", reviewPath("cbf2025", "beer-1"), {
+      body: { starRating: 3 },
+    });
+    await send("DELETE", reviewPath("cbf2025", "beer-1"));
+    const get = await send("GET", entryPath("cbf2025", "beer-1"));
+    expect(await get.json()).toMatchObject({
+      starRating: 3,
+      deleteTime: expect.any(String),
+    });
+
+    await send("POST", `${entryPath("cbf2025", "beer-1")}:undelete`);
+    const review = await send("GET", reviewPath("cbf2025", "beer-1"));
+    expect(review.status).toBe(200);
+    expect((await review.json()).starRating).toBe(3);
+  });
+});
+
+describe("entries — no D1 binding", () => {
+  it("answers entry routes with 503 STORAGE_UNCONFIGURED", async () => {
+    const { RATINGS_DB: _unused, ...envWithoutDb } = env;
+    for (const path of [
+      entryPath("cbf2025", "beer-1"),
+      "/v1alpha/festivals/cbf2025/drinkEntries",
+    ]) {
+      const request = new Request(`https://worker.example.com${path}`, {
+        headers: { Origin: TEST_ORIGIN, "X-Device-Id": DEVICE },
+      });
+      const ctx = createExecutionContext();
+      const response = await worker.fetch(request, envWithoutDb, ctx);
+      await waitOnExecutionContext(ctx);
+      expect(response.status, path).toBe(503);
+      expect((await response.json()).error.details[0].reason).toBe(
+        "STORAGE_UNCONFIGURED",
+      );
+    }
+  });
+});
@@ -0,0 +1,265 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  env,
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../worker.js";
+import beerList from "./fixtures/cbf2025-beer.json";
+
+const TEST_ORIGIN = "http://localhost:8080"; // non-prod → 'test' bucket
+const UPSTREAM = "https://data.cambridgebeerfestival.com";
+const DEVICE = "dev-1";
+const CHECK_IN = "6f1c2a34-0b1d-4c55-9e8a-1a2b3c4d5e01";
+const PHOTO = "0b7d4e1a-9c2f-4a8e-b3d6-5f1e2a3b4c01";
+
+const exportPath = (festivalId, format) =>
+  `/v1alpha/festivals/${festivalId}/reviews:export` +
+  (format ? `?format=${format}` : "");
+
+async function send(
+  method,
+  path,
+  { body, device = DEVICE, workerEnv = env } = {},
+) {
+  const init = {
+    method,
+    headers: { Origin: TEST_ORIGIN, "X-Device-Id": device },
+  };
+  if (body !== undefined) {
+    init.headers["Content-Type"] = "application/json";
+    init.body = JSON.stringify(body);
+  }
+  const request = new Request(`https://worker.example.com${path}`, init);
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, workerEnv, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+async function expectError(response, httpStatus, reason) {
+  expect(response.status).toBe(httpStatus);
+  const { error } = await response.json();
+  expect(error.details[0].reason).toBe(reason);
+}
+
+const upsert = (festivalId, drinkId, body, opts) =>
+  send(
+    "PATCH",
+    `/v1alpha/festivals/${festivalId}/drinks/${drinkId}/entry?allowMissing=true`,
+    { body, ...opts },
+  );
+
+beforeEach(async () => {
+  for (const table of [
+    "reviews",
+    "review_aggregates",
+    "check_ins",
+    "photos",
+    "want_to_try",
+    "want_to_try_aggregates",
+    "rate_limits",
+  ]) {
+    await env.RATINGS_DB.prepare(`DELETE FROM ${table}`).run();
+  }
+  // Only cbf2025's beer list is served; every other list is 404.
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url) =>
+      url === `${UPSTREAM}/cbf2025/beer.json`
+        ? Response.json(beerList)
+        : new Response("Not found", { status: 404 }),
+    ),
+  );
+
+  await upsert("cbf2025", "beer-pegasus", {
+    starRating: 4,
+    wouldRecommend: true,
+    note: 'Malty, "very" good',
+    pours: 2,
+  });
+  await upsert("cbf2025", "beer-gone", { isFavourite: true });
+  await upsert("cbf2025", "beer-deleted", { starRating: 1 });
+  await send("DELETE", "/v1alpha/festivals/cbf2025/drinks/beer-deleted/entry");
+  await send(
+    "POST",
+    `/v1alpha/festivals/cbf2025/checkIns?checkInId=${CHECK_IN}`,
+    {
+      body: {
+        title: "Scotch egg",
+        note: '=HYPERLINK("x")',
+        checkInTime: "2025-05-22T11:00:00Z",
+      },
+    },
+  );
+  await env.RATINGS_DB.prepare(
+    "INSERT INTO photos (bucket, photo_id, festival_id, device_id, " +
+      "check_in_id, content_type, size_bytes, created_at) VALUES ('test', ?, " +
+      "'cbf2025', ?, ?, 'image/jpeg', 100, ?)",
+  )
+    .bind(PHOTO, DEVICE, CHECK_IN, Date.now())
+    .run();
+  await send("PATCH", "/v1alpha/festivals/cbf2025/drinks/beer-citra/wantToTry");
+  await upsert("cbfw2025", "beer-1", { starRating: 5 });
+  // Another caller's data never appears.
+  await upsert(
+    "cbf2025",
+    "beer-minotaur",
+    { starRating: 2 },
+    {
+      device: "dev-2",
+    },
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("export — JSON", () => {
+  it("exports a festival's records, joined with the catalogue", async () => {
+    const response = await send("GET", exportPath("cbf2025"));
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/json; charset=utf-8",
+    );
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="my-festival-cbf2025.json"',
+    );
+    expect(response.headers.get("Cache-Control")).toBe("private, no-store");
+
+    const { exportTime, records } = await response.json();
+    expect(exportTime).toMatch(/^2025-05-22T12:00/);
+    expect(records).toEqual([
+      {
+        festival: "cbf2025",
+        kind: "entry",
+        time: expect.any(String),
+        drinkId: "beer-gone",
+        isFavourite: true,
+      },
+      {
+        festival: "cbf2025",
+        kind: "entry",
+        time: expect.any(String),
+        drinkId: "beer-pegasus",
+        drinkName: "Pegasus",
+        producer: "Milton Brewery",
+        style: "Best Bitter",
+        category: "beer",
+        abv: 4.1,
+        starRating: 4,
+        wouldRecommend: true,
+        pours: 2,
+        note: 'Malty, "very" good',
+      },
+      {
+        festival: "cbf2025",
+        kind: "checkIn",
+        time: "2025-05-22T11:00:00.000Z",
+        title: "Scotch egg",
+        note: '=HYPERLINK("x")',
+        photos: [`festivals/cbf2025/checkIns/${CHECK_IN}/photos/${PHOTO}`],
+      },
+      {
+        festival: "cbf2025",
+        kind: "wantToTry",
+        time: expect.any(String),
+        drinkId: "beer-citra",
+        drinkName: "Citra",
+        producer: "Oakham Ales",
+        style: "Pale Ale",
+        category: "beer",
+        abv: 4.2,
+      },
+    ]);
+  });
+
+  it("exports every festival with `-`", async () => {
+    const response = await send("GET", exportPath("-"));
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="my-festival.json"',
+    );
+    const { records } = await response.json();
+    expect(records.map((r) => [r.festival, r.kind, r.drinkId])).toEqual([
+      ["cbf2025", "entry", "beer-gone"],
+      ["cbf2025", "entry", "beer-pegasus"],
+      ["cbf2025", "checkIn", undefined],
+      ["cbf2025", "wantToTry", "beer-citra"],
+      ["cbfw2025", "entry", "beer-1"],
+    ]);
+  });
+
+  it("is an empty export for a caller with nothing stored", async () => {
+    const response = await send("GET", exportPath("-"), { device: "dev-3" });
+    expect((await response.json()).records).toEqual([]);
+  });
+
+  it("still exports while the catalogue cannot be fetched", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("Down", { status: 503 })),
+    );
+    const response = await send("GET", exportPath("cbfw2025"));
+    expect((await response.json()).records).toEqual([
+      {
+        festival: "cbfw2025",
+        kind: "entry",
+        time: expect.any(String),
+        drinkId: "beer-1",
+        starRating: 5,
+      },
+    ]);
+  });
+});
+
+describe("export — CSV", () => {
+  it("writes a header and a quoted line per record", async () => {
+    const response = await send("GET", exportPath("cbf2025", "csv"));
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(
+      "text/csv; charset=utf-8",
+    );
+    const lines = (await response.text()).split("\r\n");
+    expect(lines[0]).toBe(
+      "festival,kind,time,drinkId,drinkName,producer,style,category,abv," +
+        "title,isFavourite,starRating,wouldRecommend,pours,note,photos",
+    );
+    expect(lines[2]).toMatch(
+      /^cbf2025,entry,[^,]+,beer-pegasus,Pegasus,Milton Brewery,Best Bitter,beer,4\.1,,,4,true,2,"Malty, ""very"" good",$/,
+    );
+    // A note that a spreadsheet would run as a formula is defused.
+    expect(lines[3]).toBe(
+      "cbf2025,checkIn,2025-05-22T11:00:00.000Z,,,,,,,Scotch egg,,,,," +
+        `"'=HYPERLINK(""x"")",festivals/cbf2025/checkIns/${CHECK_IN}/photos/${PHOTO}`,
+    );
+    expect(lines).toHaveLength(6); // four records and the final line break
+    expect(lines[5]).toBe("");
+  });
+});
+
+describe("export — errors", () => {
+  it("rejects unknown formats, festivals and other methods", async () => {
+    await expectError(
+      await send("GET", exportPath("cbf2025", "xml")),
+      400,
+      "INVALID_EXPORT_FORMAT",
+    );
+    await expectError(
+      await send("GET", exportPath("cbf2062")),
+      404,
+      "FESTIVAL_NOT_FOUND",
+    );
+    expect((await send("POST", exportPath("cbf2025"))).status).toBe(405);
+  });
+
+  it("is UNAVAILABLE without storage", async () => {
+    await expectError(
+      await send("GET", exportPath("-"), {
+        workerEnv: { ...env, RATINGS_DB: undefined },
+      }),
+      503,
+      "STORAGE_UNCONFIGURED",
+    );
+  });
+});
@@ -1,17 +1,25 @@
-import { describe, it, expect } from "vitest";
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
 import {
   env,
   createExecutionContext,
   waitOnExecutionContext,
 } from "cloudflare:test";
 import worker from "../worker.js";
+import { pinClock, setClock } from "./pin-clock.js";
+import registry from "../festivals.json";
+
+const TEST_ORIGIN = "http://localhost:8080"; // non-prod → 'test' bucket
 
 /**
  * Helper to make a request to the worker.
  */
-async function fetchWorker(path, origin = "https://cambeerfestival.app") {
+async function fetchWorker(
+  path,
+  origin = "https://cambeerfestival.app",
+  headers = {},
+) {
   const request = new Request(`https://worker.example.com${path}`, {
-    headers: { Origin: origin },
+    headers: { Origin: origin, ...headers },
   });
   const ctx = createExecutionContext();
   const response = await worker.fetch(request, env, ctx);
@@ -92,4 +100,387 @@ describe("festivals.json endpoint", () => {
     const data2 = await response2.json();
     expect(data1).toEqual(data2);
   });
+
+  it("sets a strong ETag, readable cross-origin", async () => {
+    const response = await fetchWorker("/festivals.json");
+    expect(response.headers.get("ETag")).toMatch(/^"[\w-]+"$/);
+    expect(response.headers.get("Access-Control-Expose-Headers")).toBe("ETag");
+    const again = await fetchWorker("/festivals");
+    expect(again.headers.get("ETag")).toBe(response.headers.get("ETag"));
+  });
+
+  it("answers a matching If-None-Match with 304", async () => {
+    const etag = (await fetchWorker("/festivals.json")).headers.get("ETag");
+    const response = await fetchWorker(
+      "/festivals.json",
+      "https://cambeerfestival.app",
+      { "If-None-Match": `"stale", W/${etag}` },
+    );
+    expect(response.status).toBe(304);
+    expect(await response.text()).toBe("");
+    expect(response.headers.get("ETag")).toBe(etag);
+    expect(response.headers.get("Cache-Control")).toBe(
+      "no-cache, must-revalidate",
+    );
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://cambeerfestival.app",
+    );
+    expect(response.headers.get("Vary")).toBe("Origin");
+
+    const changed = await fetchWorker(
+      "/festivals.json",
+      "https://cambeerfestival.app",
+      { "If-None-Match": '"stale"' },
+    );
+    expect(changed.status).toBe(200);
+    expect((await changed.json()).festivals).toEqual(registry.festivals);
+  });
+});
+
+/** Send a /v1alpha request as device d1. */
+async function send(method, path, { body, workerEnv = env, headers } = {}) {
+  const init = {
+    method,
+    headers: { Origin: TEST_ORIGIN, "X-Device-Id": "d1", ...headers },
+  };
+  if (body !== undefined) {
+    init.headers["Content-Type"] = "application/json";
+    init.body = JSON.stringify(body);
+  }
+  const request = new Request(`https://worker.example.com${path}`, init);
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, workerEnv, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+async function expectError(response, status, reason) {
+  expect(response.status).toBe(status);
+  const { error } = await response.json();
+  expect(error.details[0].reason).toBe(reason);
+  return error;
+}
+
+const reviewPath = (f, d) => `/v1alpha/festivals/${f}/drinks/${d}/review`;
+const entryPath = (f, d) => `/v1alpha/festivals/${f}/drinks/${d}/entry`;
+const batchPath = (f) => `/v1alpha/festivals/${f}/drinkEntries:batchUpdate`;
+const batchBody = (f, ...drinkIds) => ({
+  requests: drinkIds.map((d) => ({
+    drinkEntry: { name: `festivals/${f}/drinks/${d}/entry`, starRating: 4 },
+    allowMissing: true,
+  })),
+});
+
+describe("/v1alpha festival checks", () => {
+  beforeEach(async () => {
+    await env.RATINGS_DB.prepare("DELETE FROM reviews").run();
+    await env.RATINGS_DB.prepare("DELETE FROM review_aggregates").run();
+    await env.RATINGS_DB.prepare("DELETE FROM rate_limits").run();
+  });
+
+  afterEach(() => pinClock());
+
+  it("rejects festivals missing from festivals.json", async () => {
+    for (const [method, path] of [
+      ["PATCH", reviewPath("cbf2062", "beer-1")],
+      ["GET", entryPath("cbf2062", "beer-1")],
+      ["GET", "/v1alpha/festivals/cbf2062/reviewSummaries"],
+      ["GET", "/v1alpha/festivals/cbf2062/drinkEntries"],
+    ]) {
+      const body = method === "PATCH" ? { starRating: 4 } : undefined;
+      await expectError(
+        await send(method, path, { body }),
+        404,
+        "FESTIVAL_NOT_FOUND",
+      );
+    }
+    const { n } = await env.RATINGS_DB.prepare(
+      "SELECT COUNT(*) AS n FROM reviews",
+    ).first();
+    expect(n).toBe(0);
+  });
+
+  it("takes writes until the grace period after the festival ends", async () => {
+    // cbf2025 ends 2025-05-24: writes close 14 days after that day.
+    setClock("2025-06-07T23:59:00Z");
+    const late = await send("PATCH", reviewPath("cbf2025", "beer-1"), {
+      body: { starRating: 4 },
+    });
+    expect(late.status).toBe(200);
+
+    setClock("2025-06-08T00:00:00Z");
+    const closed = await expectError(
+      await send("PATCH", reviewPath("cbf2025", "beer-2"), {
+        body: { starRating: 4 },
+      }),
+      400,
+      "FESTIVAL_CLOSED",
+    );
+    expect(closed.status).toBe("FAILED_PRECONDITION");
+    expect(closed.details[0].metadata).toEqual({
+      festival: "cbf2025",
+      closeTime: "2025-06-08T00:00:00.000Z",
+    });
+    await expectError(
+      await send(
+        "PATCH",
+        `${entryPath("cbf2025", "beer-1")}?allowMissing=true`,
+        {
+          body: { note: "too late" },
+        },
+      ),
+      400,
+      "FESTIVAL_CLOSED",
+    );
+    await expectError(
+      await send("POST", batchPath("cbf2025"), {
+        body: batchBody("cbf2025", "beer-3"),
+      }),
+      400,
+      "FESTIVAL_CLOSED",
+    );
+  });
+
+  it("keeps reads and deletes open after closing", async () => {
+    await send("PATCH", reviewPath("cbf2025", "beer-1"), {
+      body: { starRating: 4 },
+    });
+    setClock("2026-01-01T00:00:00Z");
+    expect((await send("GET", reviewPath("cbf2025", "beer-1"))).status).toBe(
+      200,
+    );
+    expect(
+      (await send("GET", "/v1alpha/festivals/cbf2025/reviewSummaries")).status,
+    ).toBe(200);
+    expect((await send("DELETE", entryPath("cbf2025", "beer-1"))).status).toBe(
+      200,
+    );
+    await expectError(
+      await send("POST", `${entryPath("cbf2025", "beer-1")}:undelete`, {
+        body: {},
+      }),
+      400,
+      "FESTIVAL_CLOSED",
+    );
+  });
+
+  it("honours FESTIVAL_GRACE_DAYS", async () => {
+    setClock("2025-05-25T00:00:00Z");
+    const workerEnv = { ...env, FESTIVAL_GRACE_DAYS: "0" };
+    await expectError(
+      await send("PATCH", reviewPath("cbf2025", "beer-1"), {
+        body: { starRating: 4 },
+        workerEnv,
+      }),
+      400,
+      "FESTIVAL_CLOSED",
+    );
+  });
+});
+
+describe("/v1alpha drink ID checks (VALIDATE_DRINK_IDS)", () => {
+  const workerEnv = { ...env, VALIDATE_DRINK_IDS: "true" };
+  let mockFetch;
+
+  beforeEach(async () => {
+    await env.RATINGS_DB.prepare("DELETE FROM reviews").run();
+    await env.RATINGS_DB.prepare("DELETE FROM review_aggregates").run();
+    await env.RATINGS_DB.prepare("DELETE FROM rate_limits").run();
+    mockFetch = vi.fn(async (url) =>
+      url.endsWith("/cbf2025/beer.json")
+        ? Response.json({
+            producers: [
+              { id: "p1", products: [{ id: "beer-1" }, { id: "beer-2" }] },
+            ],
+          })
+        : new Response("Not found", { status: 404 }),
+    );
+    vi.stubGlobal("fetch", mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("accepts listed drinks and rejects others", async () => {
+    const listed = await send("PATCH", reviewPath("cbf2025", "beer-1"), {
+      body: { starRating: 4 },
+      workerEnv,
+    });
+    expect(listed.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledWith(
+      "https://data.cambridgebeerfestival.com/cbf2025/beer.json",
+      expect.anything(),
+    );
+
+    await expectError(
+      await send("PATCH", reviewPath("cbf2025", "beer-99"), {
+        body: { starRating: 4 },
+        workerEnv,
+      }),
+      404,
+      "DRINK_NOT_FOUND",
+    );
+    await expectError(
+      await send(
+        "PATCH",
+        `${entryPath("cbf2025", "beer-99")}?allowMissing=true`,
+        { body: { isFavourite: true }, workerEnv },
+      ),
+      404,
+      "DRINK_NOT_FOUND",
+    );
+
+    const batch = await send("POST", batchPath("cbf2025"), {
+      body: batchBody("cbf2025", "beer-2", "beer-99"),
+      workerEnv,
+    });
+    const { statuses } = await batch.json();
+    expect(statuses.map((s) => s.code)).toEqual([0, 5]);
+    expect(statuses[1].details[0].reason).toBe("DRINK_NOT_FOUND");
+  });
+
+  it("authenticates the caller before checking the drink", async () => {
+    const headers = { Authorization: "Basic d1" };
+    const drink = "/v1alpha/festivals/cbf2025/drinks/beer-99";
+    for (const [method, path, body] of [
+      ["PATCH", reviewPath("cbf2025", "beer-99"), { starRating: 4 }],
+      ["PATCH", entryPath("cbf2025", "beer-99"), { isFavourite: true }],
+      ["PATCH", `${drink}/wantToTry`, {}],
+      [
+        "POST",
+        "/v1alpha/festivals/cbf2025/checkIns",
+        { drinkId: "beer-99", checkInTime: "2025-05-22T11:00:00Z" },
+      ],
+    ]) {
+      await expectError(
+        await send(method, path, { body, workerEnv, headers }),
+        401,
+        "INVALID_TOKEN",
+      );
+    }
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("accepts every drink while the beverage lists are unavailable", async () => {
+    mockFetch.mockImplementation(async () => {
+      throw new Error("upstream down");
+    });
+    const response = await send("PATCH", reviewPath("cbfw2025", "beer-99"), {
+      body: { starRating: 4 },
+      workerEnv,
+    });
+    expect(response.status).toBe(200);
+  });
+
+  it("is off by default", async () => {
+    const response = await send("PATCH", reviewPath("cbf2025", "beer-99"), {
+      body: { starRating: 4 },
+    });
+    expect(response.status).toBe(200);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("/v1alpha festivals (CatalogService)", () => {
+  const get = async (path) => {
+    const response = await send("GET", path);
+    expect(response.status).toBe(200);
+    return response.json();
+  };
+  const festivalIds = (festivals) =>
+    festivals.map((f) => f.name.replace("festivals/", ""));
+
+  it("lists every festival in one page, ordered by ID", async () => {
+    const { festivals, nextPageToken, totalSize } =
+      await get("/v1alpha/festivals");
+    expect(festivalIds(festivals)).toEqual(
+      registry.festivals.map((f) => f.id).sort(),
+    );
+    expect(nextPageToken).toBe("");
+    expect(totalSize).toBe(registry.festivals.length);
+  });
+
+  it("converts a registry entry into the contract's Festival", async () => {
+    const festival = await get("/v1alpha/festivals/cbf2025");
+    expect(festival).toMatchObject({
+      name: "festivals/cbf2025",
+      displayName: "Cambridge Beer Festival 2025",
+      hashtag: "#cbf2025",
+      startDate: { year: 2025, month: 5, day: 19 },
+      endDate: { year: 2025, month: 5, day: 24 },
+      location: "Jesus Green, Cambridge",
+      coordinates: { latitude: 52.2119, longitude: 0.122 },
+      websiteUri: "https://www.cambridgebeerfestival.com",
+      dataBaseUri: "https://worker.example.com/cbf2025",
+      active: false,
+      updateTime: new Date(registry.last_updated).toISOString(),
+    });
+    expect(festival.availableBeverageTypes).toContain("international-beer");
+    expect(festival.hours.Monday).toBeDefined();
+    for (const key of ["id", "start_date", "website_url", "is_active"]) {
+      expect(festival).not.toHaveProperty(key);
+    }
+
+    const listed = await get("/v1alpha/festivals");
+    expect(listed.festivals.find((f) => f.name === festival.name)).toEqual(
+      festival,
+    );
+  });
+
+  it("filters on active", async () => {
+    const active = registry.festivals.filter((f) => f.is_active);
+    expect(active.length).toBeGreaterThan(0);
+
+    const { festivals, totalSize } = await get(
+      `/v1alpha/festivals?filter=${encodeURIComponent("active = true")}`,
+    );
+    expect(festivalIds(festivals)).toEqual(active.map((f) => f.id).sort());
+    expect(totalSize).toBe(active.length);
+    expect(festivals.every((f) => f.active)).toBe(true);
+
+    const inactive = await get(
+      `/v1alpha/festivals?filter=${encodeURIComponent("NOT active = true")}`,
+    );
+    expect(inactive.totalSize).toBe(registry.festivals.length - active.length);
+
+    await expectError(
+      await send("GET", "/v1alpha/festivals?filter=hashtag%20%3D%201"),
+      400,
+      "UNSUPPORTED_FILTER_FIELD",
+    );
+  });
+
+  it("pages with page_size, tokens tied to the filter", async () => {
+    const seen = [];
+    let pageToken = "";
+    do {
+      const query = new URLSearchParams({ page_size: "2" });
+      if (pageToken) query.set("page_token", pageToken);
+      const page = await get(`/v1alpha/festivals?${query}`);
+      expect(page.festivals.length).toBeLessThanOrEqual(2);
+      seen.push(...festivalIds(page.festivals));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+    expect(seen).toEqual(registry.festivals.map((f) => f.id).sort());
+
+    const { nextPageToken } = await get("/v1alpha/festivals?page_size=1");
+    await expectError(
+      await send(
+        "GET",
+        `/v1alpha/festivals?filter=active%20%3D%20true&page_token=${nextPageToken}`,
+      ),
+      400,
+      "INVALID_PAGE_TOKEN",
+    );
+  });
+
+  it("rejects unknown festivals and other methods", async () => {
+    await expectError(
+      await send("GET", "/v1alpha/festivals/cbf2062"),
+      404,
+      "FESTIVAL_NOT_FOUND",
+    );
+    expect((await send("POST", "/v1alpha/festivals")).status).toBe(405);
+  });
 });
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { stripImageMetadata } from "../imagemeta.js";
+import {
+  containsText,
+  jpegStripped,
+  jpegWithMetadata,
+  pngStripped,
+  pngWithMetadata,
+  webpStripped,
+  webpWithMetadata,
+} from "./images.js";
+
+describe("stripImageMetadata", () => {
+  it("drops a JPEG's EXIF and comments, keeping JFIF, ICC and the scan", () => {
+    const stripped = stripImageMetadata(jpegWithMetadata(), "image/jpeg");
+    expect(stripped).toEqual(jpegStripped());
+    expect(containsText(stripped, "GPS")).toBe(false);
+  });
+
+  it("drops a PNG's eXIf and text chunks", () => {
+    const stripped = stripImageMetadata(pngWithMetadata(), "image/png");
+    expect(stripped).toEqual(pngStripped());
+  });
+
+  it("drops a WebP's EXIF and XMP chunks and their VP8X flags", () => {
+    const stripped = stripImageMetadata(webpWithMetadata(), "image/webp");
+    expect(stripped).toEqual(webpStripped());
+  });
+
+  it("leaves an image without metadata as it was", () => {
+    for (const [image, type] of [
+      [jpegStripped(), "image/jpeg"],
+      [pngStripped(), "image/png"],
+      [webpStripped(), "image/webp"],
+    ]) {
+      expect(stripImageMetadata(image, type)).toEqual(image);
+    }
+  });
+
+  it("rejects bytes that are not the declared type, or are cut short", () => {
+    expect(stripImageMetadata(pngStripped(), "image/jpeg")).toBeNull();
+    expect(stripImageMetadata(jpegStripped(), "image/webp")).toBeNull();
+    const gif = new TextEncoder().encode("GIF89a");
+    expect(stripImageMetadata(gif, "image/png")).toBeNull();
+    const jpeg = jpegStripped();
+    expect(
+      stripImageMetadata(jpeg.subarray(0, jpeg.length - 2), "image/jpeg"),
+    ).toBeNull();
+    const png = pngStripped();
+    expect(
+      stripImageMetadata(png.subarray(0, png.length - 12), "image/png"),
+    ).toBeNull();
+  });
+});
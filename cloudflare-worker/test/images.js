@@ -0,0 +1,134 @@
+// Tiny synthetic images for the photo tests: structurally valid containers
+// (the metadata stripper never decodes pixels) carrying EXIF and XMP blocks
+// that mention "GPS", so a test can check none of it survives.
+
+const text = (s) => [...new TextEncoder().encode(s)];
+
+function u16be(n) {
+  return [(n >> 8) & 0xff, n & 0xff];
+}
+function u32be(n) {
+  return [(n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+}
+function u32le(n) {
+  return u32be(n).reverse();
+}
+
+function jpegSegment(marker, payload) {
+  return [0xff, marker, ...u16be(payload.length + 2), ...payload];
+}
+
+/** A JPEG with JFIF, EXIF, an ICC profile, a comment and a trailing preview. */
+export function jpegWithMetadata() {
+  return new Uint8Array([
+    0xff,
+    0xd8,
+    ...jpegSegment(0xe0, text("JFIF\0\x01\x01")),
+    ...jpegSegment(0xe1, text("Exif\0\0GPS 52.2053N 0.1218E")),
+    ...jpegSegment(0xe2, text("ICC_PROFILE\0")),
+    ...jpegSegment(0xfe, text("GPS in a comment")),
+    ...jpegSegment(0xdb, [0, ...new Array(64).fill(1)]),
+    ...jpegSegment(0xc0, [8, 0, 1, 0, 1, 1, 1, 0x11, 0]),
+    ...jpegSegment(0xda, [1, 1, 0, 0, 0x3f, 0]),
+    // Scan data, with a stuffed 0xFF and a restart marker in it.
+    0x12,
+    0xff,
+    0x00,
+    0x34,
+    0xff,
+    0xd0,
+    0x56,
+    0xff,
+    0xd9,
+    // A second image after the end marker, as MPF previews are stored.
+    0xff,
+    0xd8,
+    ...jpegSegment(0xe1, text("Exif\0\0GPS again")),
+    0xff,
+    0xd9,
+  ]);
+}
+
+/** jpegWithMetadata as it should be stored. */
+export function jpegStripped() {
+  return new Uint8Array([
+    0xff,
+    0xd8,
+    ...jpegSegment(0xe0, text("JFIF\0\x01\x01")),
+    ...jpegSegment(0xe2, text("ICC_PROFILE\0")),
+    ...jpegSegment(0xdb, [0, ...new Array(64).fill(1)]),
+    ...jpegSegment(0xc0, [8, 0, 1, 0, 1, 1, 1, 0x11, 0]),
+    ...jpegSegment(0xda, [1, 1, 0, 0, 0x3f, 0]),
+    0x12,
+    0xff,
+    0x00,
+    0x34,
+    0xff,
+    0xd0,
+    0x56,
+    0xff,
+    0xd9,
+  ]);
+}
+
+// CRCs are not checked by the stripper, so they are left zero.
+function pngChunk(type, data) {
+  return [...u32be(data.length), ...text(type), ...data, 0, 0, 0, 0];
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const IHDR = pngChunk("IHDR", [...u32be(1), ...u32be(1), 8, 2, 0, 0, 0]);
+const IDAT = pngChunk("IDAT", [0x78, 0x9c, 0x63, 0, 0, 0, 1, 0, 1]);
+
+/** A PNG with eXIf and text chunks. */
+export function pngWithMetadata() {
+  return new Uint8Array([
+    ...PNG_SIGNATURE,
+    ...IHDR,
+    ...pngChunk("eXIf", text("MM\0*GPS")),
+    ...pngChunk("tEXt", text("Comment\0GPS")),
+    ...pngChunk("iTXt", text("XML:com.adobe.xmp\0\0\0\0\0<GPS/>")),
+    ...IDAT,
+    ...pngChunk("IEND", []),
+  ]);
+}
+
+export function pngStripped() {
+  return new Uint8Array([
+    ...PNG_SIGNATURE,
+    ...IHDR,
+    ...IDAT,
+    ...pngChunk("IEND", []),
+  ]);
+}
+
+function riffChunk(type, data) {
+  const padding = data.length % 2 ? [0] : [];
+  return [...text(type), ...u32le(data.length), ...data, ...padding];
+}
+
+function webp(chunks) {
+  const body = [...text("WEBP"), ...chunks.flat()];
+  return new Uint8Array([...text("RIFF"), ...u32le(body.length), ...body]);
+}
+
+const VP8 = riffChunk("VP8 ", [0x30, 0x01, 0, 0x9d, 0x01, 0x2a, 1, 0, 1, 0, 7]);
+
+/** An extended WebP whose VP8X header announces EXIF and XMP chunks. */
+export function webpWithMetadata() {
+  return webp([
+    riffChunk("VP8X", [0x0c, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+    VP8,
+    riffChunk("EXIF", text("MM\0*GPS")),
+    riffChunk("XMP ", text("<GPS/>")),
+  ]);
+}
+
+export function webpStripped() {
+  return webp([riffChunk("VP8X", new Array(10).fill(0)), VP8]);
+}
+
+/** Whether `bytes` contains the ASCII text `needle`. */
+export function containsText(bytes, needle) {
+  return new TextDecoder("latin1").decode(bytes).includes(needle);
+}
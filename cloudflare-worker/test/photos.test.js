@@ -0,0 +1,403 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  env,
+  createExecutionContext,
+  createScheduledController,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../worker.js";
+import {
+  containsText,
+  jpegStripped,
+  jpegWithMetadata,
+  pngWithMetadata,
+  webpWithMetadata,
+} from "./images.js";
+
+const TEST_ORIGIN = "http://localhost:8080"; // non-prod → 'test' bucket
+const DEVICE = "dev-1";
+const TIMELINE = "/v1alpha/festivals/cbf2025/checkIns";
+
+// Client-assigned IDs (any UUIDs will do).
+const PINT = "6f1c2a34-0b1d-4c55-9e8a-1a2b3c4d5e01";
+const SECOND_PINT = "6f1c2a34-0b1d-4c55-9e8a-1a2b3c4d5e02";
+const PHOTO = "0b7d4e1a-9c2f-4a8e-b3d6-5f1e2a3b4c01";
+const SECOND_PHOTO = "0b7d4e1a-9c2f-4a8e-b3d6-5f1e2a3b4c02";
+const THIRD_PHOTO = "0b7d4e1a-9c2f-4a8e-b3d6-5f1e2a3b4c03";
+
+const photos = (checkIn = PINT) => `${TIMELINE}/${checkIn}/photos`;
+
+async function send(
+  method,
+  path,
+  {
+    body,
+    contentType,
+    origin = TEST_ORIGIN,
+    device = DEVICE,
+    workerEnv = env,
+  } = {},
+) {
+  const init = {
+    method,
+    headers: { Origin: origin, "X-Device-Id": device },
+  };
+  if (body !== undefined) {
+    init.body = body;
+    if (contentType) init.headers["Content-Type"] = contentType;
+  }
+  const request = new Request(`https://worker.example.com${path}`, init);
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, workerEnv, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+const upload = (photoId, body, contentType = "image/jpeg", opts = {}) =>
+  send("POST", `${photos(opts.checkIn)}?photoId=${photoId}`, {
+    body,
+    contentType,
+    ...opts,
+  });
+
+async function expectError(response, httpStatus, reason) {
+  expect(response.status).toBe(httpStatus);
+  const { error } = await response.json();
+  expect(error.details[0].reason).toBe(reason);
+  return error;
+}
+
+async function storedKeys() {
+  const listed = await env.PHOTOS.list();
+  return listed.objects.map((object) => object.key).sort();
+}
+
+beforeEach(async () => {
+  await env.RATINGS_DB.prepare("DELETE FROM photos").run();
+  await env.RATINGS_DB.prepare("DELETE FROM check_ins").run();
+  await env.RATINGS_DB.prepare("DELETE FROM rate_limits").run();
+  const keys = await storedKeys();
+  if (keys.length > 0) await env.PHOTOS.delete(keys);
+  for (const checkIn of [PINT, SECOND_PINT]) {
+    await send("POST", `${TIMELINE}?checkInId=${checkIn}`, {
+      body: JSON.stringify({ drinkId: "beer-1" }),
+      contentType: "application/json",
+    });
+  }
+});
+
+describe("photos — upload", () => {
+  it("stores a JPEG without its metadata", async () => {
+    const response = await upload(PHOTO, jpegWithMetadata());
+    expect(response.status).toBe(200);
+    const photo = await response.json();
+    expect(photo).toEqual({
+      name: `festivals/cbf2025/checkIns/${PINT}/photos/${PHOTO}`,
+      contentType: "image/jpeg",
+      sizeBytes: jpegStripped().length,
+      createTime: expect.stringMatching(/^2025-05-22T12:00/),
+    });
+
+    const stored = await env.PHOTOS.get(`test/cbf2025/${PHOTO}`);
+    const bytes = new Uint8Array(await stored.arrayBuffer());
+    expect(bytes).toEqual(jpegStripped());
+    expect(containsText(bytes, "GPS")).toBe(false);
+    expect(stored.httpMetadata.contentType).toBe("image/jpeg");
+  });
+
+  it("strips PNG and WebP uploads too", async () => {
+    for (const [id, image, type] of [
+      [PHOTO, pngWithMetadata(), "image/png"],
+      [SECOND_PHOTO, webpWithMetadata(), "image/webp; charset=binary"],
+    ]) {
+      const response = await upload(id, image, type);
+      expect(response.status).toBe(200);
+      const stored = await env.PHOTOS.get(`test/cbf2025/${id}`);
+      const bytes = new Uint8Array(await stored.arrayBuffer());
+      expect(containsText(bytes, "GPS")).toBe(false);
+      expect((await response.json()).sizeBytes).toBe(bytes.length);
+    }
+  });
+
+  it("refuses a second upload with the same ID", async () => {
+    await upload(PHOTO, jpegWithMetadata());
+    await expectError(
+      await upload(PHOTO, pngWithMetadata(), "image/png"),
+      409,
+      "PHOTO_EXISTS",
+    );
+    // Even for another caller: photo IDs are unique across the bucket.
+    await send("POST", `${TIMELINE}?checkInId=${SECOND_PINT}`, {
+      body: JSON.stringify({ drinkId: "beer-2" }),
+      contentType: "application/json",
+      device: "dev-2",
+    });
+    await expectError(
+      await upload(PHOTO, jpegWithMetadata(), "image/jpeg", {
+        device: "dev-2",
+        checkIn: SECOND_PINT,
+      }),
+      409,
+      "PHOTO_EXISTS",
+    );
+  });
+
+  it("validates the ID, type, size and image", async () => {
+    await expectError(
+      await send("POST", photos(), {
+        body: jpegWithMetadata(),
+        contentType: "image/jpeg",
+      }),
+      400,
+      "INVALID_PHOTO_ID",
+    );
+    await expectError(
+      await upload(PHOTO, jpegWithMetadata(), "image/gif"),
+      400,
+      "PHOTO_TYPE_UNSUPPORTED",
+    );
+    await expectError(
+      await upload(PHOTO, pngWithMetadata(), "image/jpeg"),
+      400,
+      "PHOTO_INVALID",
+    );
+    await expectError(
+      await upload(PHOTO, new Uint8Array(0)),
+      400,
+      "PHOTO_INVALID",
+    );
+    const huge = new Uint8Array(5 * 1024 * 1024 + 1);
+    huge.set(jpegStripped());
+    await expectError(await upload(PHOTO, huge), 400, "PHOTO_TOO_LARGE");
+    expect(await storedKeys()).toEqual([]);
+  });
+
+  it("stops reading a chunked upload once it passes the limit", async () => {
+    // No Content-Length: ten 1 MiB chunks, pulled as the worker reads.
+    let pulled = 0;
+    const body = new ReadableStream({
+      pull(controller) {
+        if (pulled === 10) return controller.close();
+        pulled++;
+        controller.enqueue(new Uint8Array(1024 * 1024));
+      },
+    });
+    await expectError(await upload(PHOTO, body), 400, "PHOTO_TOO_LARGE");
+    expect(pulled).toBeLessThan(10);
+    expect(await storedKeys()).toEqual([]);
+  });
+
+  it("needs a live check-in of the caller's", async () => {
+    await expectError(
+      await upload(PHOTO, jpegWithMetadata(), "image/jpeg", {
+        device: "dev-2",
+      }),
+      404,
+      "NOT_FOUND",
+    );
+    await send("DELETE", `${TIMELINE}/${PINT}`);
+    await expectError(
+      await upload(PHOTO, jpegWithMetadata()),
+      404,
+      "NOT_FOUND",
+    );
+  });
+
+  it("enforces the per-caller quota across check-ins", async () => {
+    const size = jpegStripped().length;
+    const byCount = { ...env, PHOTO_QUOTA: '{"photos": 2}' };
+    await upload(PHOTO, jpegWithMetadata(), "image/jpeg", {
+      workerEnv: byCount,
+    });
+    await upload(SECOND_PHOTO, jpegWithMetadata(), "image/jpeg", {
+      workerEnv: byCount,
+      checkIn: SECOND_PINT,
+    });
+    const error = await expectError(
+      await upload(THIRD_PHOTO, jpegWithMetadata(), "image/jpeg", {
+        workerEnv: byCount,
+      }),
+      429,
+      "PHOTO_QUOTA_EXCEEDED",
+    );
+    expect(error.details[0].metadata).toEqual({ limit: "photos" });
+
+    const byBytes = { ...env, PHOTO_QUOTA: `{"bytes": ${size * 2 + 1}}` };
+    const bytesError = await expectError(
+      await upload(THIRD_PHOTO, jpegWithMetadata(), "image/jpeg", {
+        workerEnv: byBytes,
+      }),
+      429,
+      "PHOTO_QUOTA_EXCEEDED",
+    );
+    expect(bytesError.details[0].metadata).toEqual({ limit: "bytes" });
+
+    // Another caller has a quota of their own.
+    await send("POST", `${TIMELINE}?checkInId=${SECOND_PINT}`, {
+      body: JSON.stringify({ drinkId: "beer-2" }),
+      contentType: "application/json",
+      device: "dev-2",
+    });
+    const other = await upload(THIRD_PHOTO, jpegWithMetadata(), "image/jpeg", {
+      workerEnv: byCount,
+      device: "dev-2",
+      checkIn: SECOND_PINT,
+    });
+    expect(other.status).toBe(200);
+  });
+
+  it("refuses uploads once the festival has closed", async () => {
+    await expectError(
+      await send(
+        "POST",
+        `/v1alpha/festivals/cbf2024/checkIns/${PINT}/photos?photoId=${PHOTO}`,
+        { body: jpegWithMetadata(), contentType: "image/jpeg" },
+      ),
+      400,
+      "FESTIVAL_CLOSED",
+    );
+  });
+});
+
+describe("photos — read and delete", () => {
+  beforeEach(async () => {
+    await upload(SECOND_PHOTO, jpegWithMetadata());
+    await upload(PHOTO, pngWithMetadata(), "image/png");
+    await upload(THIRD_PHOTO, jpegWithMetadata(), "image/jpeg", {
+      checkIn: SECOND_PINT,
+    });
+  });
+
+  it("lists a check-in's photos in ID order", async () => {
+    const response = await send("GET", photos());
+    expect(response.status).toBe(200);
+    const listed = await response.json();
+    expect(listed.photos.map((p) => p.name.split("/").pop())).toEqual([
+      PHOTO,
+      SECOND_PHOTO,
+    ]);
+    expect(listed.totalSize).toBe(2);
+
+    const first = await (await send("GET", `${photos()}?page_size=1`)).json();
+    expect(first.photos).toEqual([listed.photos[0]]);
+    const second = await (
+      await send(
+        "GET",
+        `${photos()}?page_size=1&page_token=${first.nextPageToken}`,
+      )
+    ).json();
+    expect(second.photos).toEqual([listed.photos[1]]);
+    expect(second.nextPageToken).toBe("");
+  });
+
+  it("gets a photo's metadata, and downloads it", async () => {
+    const metadata = await send("GET", `${photos()}/${SECOND_PHOTO}`);
+    expect((await metadata.json()).contentType).toBe("image/jpeg");
+
+    const media = await send("GET", `${photos()}/${SECOND_PHOTO}:download`);
+    expect(media.status).toBe(200);
+    expect(media.headers.get("Content-Type")).toBe("image/jpeg");
+    expect(media.headers.get("X-Content-Type-Options")).toBe("nosniff");
+    expect(media.headers.get("Cache-Control")).toContain("private");
+    expect(media.headers.get("Access-Control-Allow-Origin")).toBe(TEST_ORIGIN);
+    expect(new Uint8Array(await media.arrayBuffer())).toEqual(jpegStripped());
+  });
+
+  it("serves only the owner, under the right check-in", async () => {
+    for (const path of [
+      `${photos()}/${PHOTO}`,
+      `${photos()}/${PHOTO}:download`,
+    ]) {
+      await expectError(
+        await send("GET", path, { device: "dev-2" }),
+        404,
+        "NOT_FOUND",
+      );
+    }
+    await expectError(
+      await send("GET", `${photos(SECOND_PINT)}/${PHOTO}`),
+      404,
+      "NOT_FOUND",
+    );
+    await expectError(
+      await send("DELETE", `${photos()}/${PHOTO}`, { device: "dev-2" }),
+      404,
+      "NOT_FOUND",
+    );
+    const theirs = await (
+      await send("GET", photos(), { device: "dev-2" })
+    ).json();
+    expect(theirs.photos).toEqual([]);
+  });
+
+  it("deletes the record and the image", async () => {
+    const response = await send("DELETE", `${photos()}/${PHOTO}`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({});
+    expect(await storedKeys()).toEqual([
+      `test/cbf2025/${SECOND_PHOTO}`,
+      `test/cbf2025/${THIRD_PHOTO}`,
+    ]);
+    await expectError(
+      await send("GET", `${photos()}/${PHOTO}`),
+      404,
+      "NOT_FOUND",
+    );
+    await expectError(
+      await send("DELETE", `${photos()}/${PHOTO}`),
+      404,
+      "NOT_FOUND",
+    );
+    const replay = await send(
+      "DELETE",
+      `${photos()}/${PHOTO}?allowMissing=true`,
+    );
+    expect(await replay.json()).toEqual({});
+  });
+
+  it("keeps a deleted check-in's photos until it is purged", async () => {
+    await send("DELETE", `${TIMELINE}/${PINT}`);
+    expect((await send("GET", `${photos()}/${PHOTO}`)).status).toBe(200);
+
+    const day = 24 * 60 * 60 * 1000;
+    const controller = createScheduledController({
+      scheduledTime: Date.now() + 31 * day,
+      cron: "17 4 * * *",
+    });
+    const ctx = createExecutionContext();
+    await worker.scheduled(controller, env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    expect((await send("GET", `${photos()}/${PHOTO}`)).status).toBe(404);
+    expect(await storedKeys()).toEqual([`test/cbf2025/${THIRD_PHOTO}`]);
+  });
+});
+
+describe("photos — errors", () => {
+  it("rejects malformed names and other methods", async () => {
+    await expectError(
+      await send("GET", `${TIMELINE}/not-a-uuid/photos`),
+      400,
+      "INVALID_RESOURCE_NAME",
+    );
+    await expectError(
+      await send("GET", `${photos()}/not-a-uuid`),
+      400,
+      "INVALID_RESOURCE_NAME",
+    );
+    expect((await send("PATCH", `${photos()}/${PHOTO}`)).status).toBe(405);
+    expect((await send("DELETE", `${photos()}/${PHOTO}:download`)).status).toBe(
+      405,
+    );
+  });
+
+  it("is UNAVAILABLE without the bucket", async () => {
+    await expectError(
+      await send("GET", photos(), {
+        workerEnv: { ...env, PHOTOS: undefined },
+      }),
+      503,
+      "STORAGE_UNCONFIGURED",
+    );
+  });
+});
@@ -0,0 +1,22 @@
+import { vi } from "vitest";
+
+// Writes are refused once a festival has closed (festivals.ts), and the suite
+// writes to cbf2025. Shift the clock into that festival's week so the tests
+// do not start failing as the real date moves on. The clock keeps ticking, so
+// successive writes still get increasing timestamps.
+const PINNED = "2025-05-22T12:00:00Z";
+
+const realNow = Date.now.bind(Date);
+
+/** Move the clock to `iso` (and let it tick on from there). */
+export function setClock(iso) {
+  const offset = Date.parse(iso) - realNow();
+  vi.spyOn(Date, "now").mockImplementation(() => realNow() + offset);
+}
+
+/** Put the clock back in the pinned festival week. */
+export function pinClock() {
+  setClock(PINNED);
+}
+
+pinClock();
@@ -51,9 +51,13 @@ describe("health check", () => {
 describe("upstream proxy", () => {
   let mockFetch;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     mockFetch = vi.fn();
     vi.stubGlobal("fetch", mockFetch);
+    // Beverage lists are edge-cached (edgecache.ts); start every test cold.
+    for (const path of ["/cbf2025/beer.json", "/cbf2025/beer.json?v=2"]) {
+      await caches.default.delete(`${UPSTREAM}${path}`);
+    }
   });
 
   afterEach(() => {
@@ -177,6 +181,33 @@ describe("upstream proxy", () => {
     );
   });
 
+  it("forwards the client's validators on uncached paths", async () => {
+    mockFetch.mockResolvedValueOnce(
+      new Response(null, { status: 304, headers: { ETag: '"abc"' } }),
+    );
+
+    const request = new Request("https://worker.example.com/cbf2025/", {
+      headers: {
+        Origin: "https://cambeerfestival.app",
+        "If-None-Match": '"abc"',
+        "If-Modified-Since": "Wed, 21 May 2025 18:30:00 GMT",
+      },
+    });
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(request, env, ctx);
+    await waitOnExecutionContext(ctx);
+    expect(response.status).toBe(304);
+    expect(response.headers.get("ETag")).toBe('"abc"');
+    expect(mockFetch).toHaveBeenCalledWith(`${UPSTREAM}/cbf2025/`, {
+      method: "GET",
+      headers: {
+        "User-Agent": "Cambridge-Beer-Festival-App-Proxy/1.0",
+        "If-None-Match": '"abc"',
+        "If-Modified-Since": "Wed, 21 May 2025 18:30:00 GMT",
+      },
+    });
+  });
+
   it("preserves query string when proxying", async () => {
     mockFetch.mockResolvedValueOnce(
       new Response("[]", {
@@ -0,0 +1,42 @@
+import { env } from "cloudflare:test";
+
+// Races a request against another writer: the returned env's RATINGS_DB runs
+// `competing` just before the first batch that writes `reviews`, so the
+// request's reads are already stale when its writes land.
+
+const WRITES = /^(INSERT INTO|UPDATE) reviews\b/;
+
+/** `env` with a RATINGS_DB that lets `competing` in ahead of its first write. */
+export function racingEnv(competing) {
+  const writes = new WeakSet();
+  let raced = false;
+  const db = new Proxy(env.RATINGS_DB, {
+    get(target, prop) {
+      if (prop === "prepare") {
+        return (sql) => {
+          const statement = target.prepare(sql);
+          if (!WRITES.test(sql)) return statement;
+          return {
+            bind: (...values) => {
+              const bound = statement.bind(...values);
+              writes.add(bound);
+              return bound;
+            },
+          };
+        };
+      }
+      if (prop === "batch") {
+        return async (statements) => {
+          if (!raced && statements.some((s) => writes.has(s))) {
+            raced = true;
+            await competing();
+          }
+          return target.batch(statements);
+        };
+      }
+      const value = Reflect.get(target, prop);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+  return { ...env, RATINGS_DB: db };
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  env,
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../worker.js";
+import {
+  DEFAULT_RATE_LIMITS,
+  purgeRateLimits,
+  resolveLimits,
+} from "../ratelimit.js";
+
+const TEST_ORIGIN = "http://localhost:8080"; // non-prod → 'test' bucket
+const reviewPath = (d) => `/v1alpha/festivals/cbf2025/drinks/${d}/review`;
+const BATCH_PATH = "/v1alpha/festivals/cbf2025/drinkEntries:batchUpdate";
+
+// Small buckets so a handful of requests exhausts them: the caller gets 2
+// writes, the IP 3, each refilling at one a minute.
+const limitedEnv = {
+  ...env,
+  RATE_LIMITS: JSON.stringify({
+    write: {
+      caller: { burst: 2, perMinute: 1 },
+      ip: { burst: 3, perMinute: 1 },
+    },
+    batch: { caller: { burst: 1, perMinute: 1 } },
+  }),
+};
+
+async function send(
+  method,
+  path,
+  { body, device = "d1", ip, workerEnv = limitedEnv } = {},
+) {
+  const init = {
+    method,
+    headers: { Origin: TEST_ORIGIN, "X-Device-Id": device },
+  };
+  if (ip) init.headers["CF-Connecting-IP"] = ip;
+  if (body !== undefined) {
+    init.headers["Content-Type"] = "application/json";
+    init.body = JSON.stringify(body);
+  }
+  const request = new Request(`https://worker.example.com${path}`, init);
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, workerEnv, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+const rate = (options = {}) =>
+  send("PATCH", reviewPath("beer-1"), { body: { starRating: 4 }, ...options });
+
+beforeEach(async () => {
+  await env.RATINGS_DB.prepare("DELETE FROM reviews").run();
+  await env.RATINGS_DB.prepare("DELETE FROM review_aggregates").run();
+  await env.RATINGS_DB.prepare("DELETE FROM rate_limits").run();
+});
+
+describe("rate limits — caller", () => {
+  it("throttles a caller past the burst with RESOURCE_EXHAUSTED", async () => {
+    expect((await rate()).status).toBe(200);
+    expect((await send("DELETE", reviewPath("beer-1"))).status).toBe(200);
+
+    const response = await rate();
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("60");
+    expect(response.headers.get("Access-Control-Expose-Headers")).toBe(
+      "Retry-After",
+    );
+    const { error } = await response.json();
+    expect(error.status).toBe("RESOURCE_EXHAUSTED");
+    expect(error.details[0]).toMatchObject({
+      reason: "RATE_LIMITED",
+      metadata: { routeClass: "write", limit: "caller" },
+    });
+    expect(error.details[1]["@type"]).toBe(
+      "type.googleapis.com/google.rpc.RetryInfo",
+    );
+    expect(error.details[1].retryDelay).toMatch(/^(59\.\d+|60)s$/);
+
+    // The throttled write never reached the table.
+    const { n } = await env.RATINGS_DB.prepare(
+      "SELECT COUNT(*) AS n FROM reviews WHERE deleted_at IS NULL",
+    ).first();
+    expect(n).toBe(0);
+  });
+
+  it("leaves reads and other callers alone", async () => {
+    await rate();
+    await rate();
+    expect((await rate()).status).toBe(429);
+    expect((await send("GET", reviewPath("beer-1"))).status).toBe(200);
+    expect((await rate({ device: "d2" })).status).toBe(200);
+  });
+
+  it("refills over time", async () => {
+    await rate();
+    await rate();
+    expect((await rate()).status).toBe(429);
+    // Wind the bucket back a minute: one token has refilled.
+    await env.RATINGS_DB.prepare(
+      "UPDATE rate_limits SET updated_at = updated_at - 60000",
+    ).run();
+    expect((await rate()).status).toBe(200);
+    expect((await rate()).status).toBe(429);
+  });
+
+  it("limits batch routes separately", async () => {
+    const batch = () =>
+      send("POST", BATCH_PATH, {
+        body: {
+          requests: [
+            {
+              drinkEntry: {
+                name: "festivals/cbf2025/drinks/beer-2/entry",
+                isFavourite: true,
+              },
+              allowMissing: true,
+            },
+          ],
+        },
+      });
+    await rate();
+    await rate();
+    expect((await batch()).status).toBe(200);
+    const response = await batch();
+    expect(response.status).toBe(429);
+    expect((await response.json()).error.details[0].metadata.routeClass).toBe(
+      "batch",
+    );
+  });
+});
+
+describe("rate limits — client IP", () => {
+  it("throttles an IP however many device IDs it uses", async () => {
+    const ip = "203.0.113.7";
+    for (const device of ["d1", "d2", "d3"]) {
+      expect((await rate({ device, ip })).status).toBe(200);
+    }
+    const response = await rate({ device: "d4", ip });
+    expect(response.status).toBe(429);
+    expect((await response.json()).error.details[0].metadata.limit).toBe("ip");
+
+    expect((await rate({ device: "d4", ip: "203.0.113.8" })).status).toBe(200);
+  });
+
+  it("stores a hash of the IP, never the address", async () => {
+    await rate({ ip: "203.0.113.7" });
+    const { results } = await env.RATINGS_DB.prepare(
+      "SELECT key FROM rate_limits ORDER BY key",
+    ).all();
+    expect(results.map((r) => r.key)).toEqual([
+      "write:caller:d1",
+      expect.stringMatching(/^write:ip:[0-9a-f]{64}$/),
+    ]);
+  });
+
+  it("still counts requests that fail to authenticate", async () => {
+    const ip = "203.0.113.7";
+    for (let i = 0; i < 3; i++) {
+      const response = await send("PATCH", reviewPath("beer-1"), {
+        body: { starRating: 4 },
+        device: "",
+        ip,
+      });
+      expect(response.status).toBe(400);
+    }
+    expect((await rate({ ip })).status).toBe(429);
+  });
+});
+
+describe("rate limits — configuration and housekeeping", () => {
+  it("uses the defaults, with valid overrides applied", () => {
+    expect(resolveLimits({})).toEqual(DEFAULT_RATE_LIMITS);
+    expect(resolveLimits({ RATE_LIMITS: "not json" })).toEqual(
+      DEFAULT_RATE_LIMITS,
+    );
+    const limits = resolveLimits({
+      RATE_LIMITS: JSON.stringify({
+        write: { caller: { burst: 5, perMinute: 0 } },
+      }),
+    });
+    expect(limits.write.caller).toEqual({
+      burst: 5,
+      perMinute: DEFAULT_RATE_LIMITS.write.caller.perMinute,
+    });
+    expect(limits.batch).toEqual(DEFAULT_RATE_LIMITS.batch);
+  });
+
+  it("purges buckets idle for a day", async () => {
+    await rate();
+    await rate({ device: "d2" });
+    await env.RATINGS_DB.prepare(
+      "UPDATE rate_limits SET updated_at = updated_at - 2 * 86400000 " +
+        "WHERE key = 'write:caller:d1'",
+    ).run();
+    expect(await purgeRateLimits(env)).toBe(1);
+    const { results } = await env.RATINGS_DB.prepare(
+      "SELECT key FROM rate_limits",
+    ).all();
+    expect(results).toEqual([{ key: "write:caller:d2" }]);
+  });
+});
@@ -11,6 +11,8 @@ import {
   resolvePageSize,
   encodePageToken,
   decodePageToken,
+  encodeKeysetToken,
+  decodeKeysetToken,
 } from "../shared.js";
 
 const TEST_ORIGIN = "http://localhost:8080"; // non-prod → 'test' bucket
@@ -20,11 +22,11 @@ const DEVICE = "dev-1";
 async function send(
   method,
   path,
-  { body, origin = TEST_ORIGIN, device = DEVICE } = {},
+  { body, origin = TEST_ORIGIN, device = DEVICE, headers = {} } = {},
 ) {
   const init = {
     method,
-    headers: { Origin: origin, "X-Device-Id": device },
+    headers: { Origin: origin, "X-Device-Id": device, ...headers },
   };
   if (body !== undefined) {
     init.headers["Content-Type"] = "application/json";
@@ -58,6 +60,8 @@ const patch = (f, d, body, opts) =>
 
 beforeEach(async () => {
   await env.RATINGS_DB.prepare("DELETE FROM reviews").run();
+  await env.RATINGS_DB.prepare("DELETE FROM review_aggregates").run();
+  await env.RATINGS_DB.prepare("DELETE FROM rate_limits").run();
 });
 
 // ---------------------------------------------------------------------------
@@ -87,6 +91,24 @@ describe("shared — pure helpers", () => {
     expect(decodePageToken(null)).toBe(null);
     expect(decodePageToken("!!!not-base64!!!")).toBe(undefined);
   });
+
+  it("page tokens are scoped to the filter they were issued for", () => {
+    const token = encodePageToken("beer-1", "starRating >= 4");
+    expect(decodePageToken(token, "starRating >= 4")).toBe("beer-1");
+    expect(decodePageToken(token, "starRating >= 3")).toBe(undefined);
+    expect(decodePageToken(token)).toBe(undefined);
+  });
+
+  it("keyset tokens carry a sort value and id", () => {
+    const cursor = { value: 4.25, id: "beer-1" };
+    expect(decodeKeysetToken(encodeKeysetToken(cursor, "s"), "s")).toEqual(
+      cursor,
+    );
+    expect(decodeKeysetToken(encodePageToken("beer-1", "s"), "s")).toBe(
+      undefined,
+    );
+    expect(decodeKeysetToken(null)).toBe(null);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -233,6 +255,63 @@ describe("reviews — GET and DELETE", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Etags (AIP-154)
+// ---------------------------------------------------------------------------
+
+describe("reviews — etags", () => {
+  it("returns an etag and answers a matching If-None-Match with 304", async () => {
+    const created = await patch("cbf2025", "beer-1", { starRating: 4 });
+    const { etag } = await created.json();
+    expect(created.headers.get("ETag")).toBe(`"${etag}"`);
+
+    const response = await send("GET", reviewPath("cbf2025", "beer-1"), {
+      headers: { "If-None-Match": `"${etag}"` },
+    });
+    expect(response.status).toBe(304);
+  });
+
+  it("rejects a PATCH with a stale etag with 409 ABORTED", async () => {
+    const { etag } = await (
+      await patch("cbf2025", "beer-1", { starRating: 4 })
+    ).json();
+    await patch("cbf2025", "beer-1", { starRating: 5 });
+
+    const byBody = await patch("cbf2025", "beer-1", { starRating: 1, etag });
+    expect(byBody.status).toBe(409);
+    expect((await byBody.json()).error.status).toBe("ABORTED");
+    const byHeader = await patch(
+      "cbf2025",
+      "beer-1",
+      { starRating: 1 },
+      { headers: { "If-Match": `"${etag}"` } },
+    );
+    expect(byHeader.status).toBe(409);
+
+    const get = await send("GET", reviewPath("cbf2025", "beer-1"));
+    expect((await get.json()).starRating).toBe(5);
+  });
+
+  it("applies a PATCH and a DELETE whose etag is current", async () => {
+    const { etag } = await (
+      await patch("cbf2025", "beer-1", { starRating: 4 })
+    ).json();
+    const updated = await patch("cbf2025", "beer-1", { starRating: 2, etag });
+    expect(updated.status).toBe(200);
+    const { etag: next } = await updated.json();
+
+    const stale = await send(
+      "DELETE",
+      `${reviewPath("cbf2025", "beer-1")}?etag=${etag}`,
+    );
+    expect(stale.status).toBe(409);
+    const current = await send("DELETE", reviewPath("cbf2025", "beer-1"), {
+      headers: { "If-Match": `"${next}"` },
+    });
+    expect(current.status).toBe(200);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // List reviews (caller's own)
 // ---------------------------------------------------------------------------
@@ -264,6 +343,51 @@ describe("reviews — list caller reviews", () => {
     expect(data.reviews).toHaveLength(0);
     expect(data.nextPageToken).toBe("");
   });
+
+  it("includes deleted reviews only with show_deleted", async () => {
+    await patch("cbf2025", "beer-1", { starRating: 4 });
+    await patch("cbf2025", "beer-2", { starRating: 2 });
+    await send("DELETE", reviewPath("cbf2025", "beer-1"));
+
+    const live = await (
+      await send("GET", "/v1alpha/festivals/cbf2025/reviews")
+    ).json();
+    expect(live.reviews.map((r) => r.starRating)).toEqual([2]);
+
+    for (const query of ["?show_deleted=true", "?showDeleted=true"]) {
+      const all = await (
+        await send("GET", `/v1alpha/festivals/cbf2025/reviews${query}`)
+      ).json();
+      expect(all.reviews, query).toHaveLength(2);
+      expect(all.reviews[0], query).toMatchObject({
+        starRating: 4,
+        deleteTime: expect.any(String),
+      });
+    }
+
+    // A token from the list with tombstones is no good for the list without.
+    const { nextPageToken } = await (
+      await send(
+        "GET",
+        "/v1alpha/festivals/cbf2025/reviews?show_deleted=true&page_size=1",
+      )
+    ).json();
+    const mismatched = await send(
+      "GET",
+      `/v1alpha/festivals/cbf2025/reviews?page_token=${nextPageToken}`,
+    );
+    expect(mismatched.status).toBe(400);
+  });
+
+  it("a review written over a deleted one starts afresh", async () => {
+    await patch("cbf2025", "beer-1", { starRating: 4, wouldRecommend: true });
+    await send("DELETE", reviewPath("cbf2025", "beer-1"));
+    const response = await patch("cbf2025", "beer-1", { starRating: 2 });
+    const data = await response.json();
+    expect(data.starRating).toBe(2);
+    expect(data.wouldRecommend).toBeUndefined();
+    expect(data.deleteTime).toBeUndefined();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -285,6 +409,33 @@ describe("reviews — summaries", () => {
     expect(data.averageRating).toBe(4);
   });
 
+  it("reports the star distribution on get and list", async () => {
+    await patch("cbf2025", "beer-1", { starRating: 5 }, { device: "d1" });
+    await patch("cbf2025", "beer-1", { starRating: 5 }, { device: "d2" });
+    await patch("cbf2025", "beer-1", { starRating: 2 }, { device: "d3" });
+    await patch(
+      "cbf2025",
+      "beer-1",
+      { wouldRecommend: true },
+      { device: "d4" },
+    );
+
+    const one = await (
+      await send("GET", "/v1alpha/festivals/cbf2025/reviewSummaries/beer-1")
+    ).json();
+    expect(one.ratingDistribution).toEqual([0, 1, 0, 0, 2]);
+
+    const list = await (
+      await send("GET", "/v1alpha/festivals/cbf2025/reviewSummaries")
+    ).json();
+    expect(list.reviewSummaries[0].ratingDistribution).toEqual([0, 1, 0, 0, 2]);
+
+    const none = await (
+      await send("GET", "/v1alpha/festivals/cbf2025/reviewSummaries/beer-9")
+    ).json();
+    expect(none.ratingDistribution).toEqual([0, 0, 0, 0, 0]);
+  });
+
   it("aggregates wouldRecommend across devices", async () => {
     await patch(
       "cbf2025",
@@ -328,6 +479,27 @@ describe("reviews — summaries", () => {
     expect(data.responseCount).toBe(1); // only d1 answered recommendation
   });
 
+  it("excludes soft-deleted reviews from get and list", async () => {
+    await patch("cbf2025", "beer-1", { starRating: 5 }, { device: "d1" });
+    await patch("cbf2025", "beer-1", { starRating: 1 }, { device: "d2" });
+    await patch("cbf2025", "beer-2", { starRating: 3 }, { device: "d2" });
+    await send("DELETE", reviewPath("cbf2025", "beer-1"), { device: "d2" });
+    await send("DELETE", reviewPath("cbf2025", "beer-2"), { device: "d2" });
+
+    const one = await (
+      await send("GET", "/v1alpha/festivals/cbf2025/reviewSummaries/beer-1")
+    ).json();
+    expect(one).toMatchObject({ ratingCount: 1, averageRating: 5 });
+
+    const list = await (
+      await send("GET", "/v1alpha/festivals/cbf2025/reviewSummaries")
+    ).json();
+    expect(list.totalSize).toBe(1);
+    expect(list.reviewSummaries.map((s) => s.name)).toEqual([
+      "festivals/cbf2025/reviewSummaries/beer-1",
+    ]);
+  });
+
   it("returns zero summary for a drink with no reviews", async () => {
     const response = await send(
       "GET",
@@ -402,6 +574,325 @@ describe("reviews — summaries", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Filters (AIP-160)
+// ---------------------------------------------------------------------------
+
+describe("reviews — filters (AIP-160)", () => {
+  const listReviews = async (filter) =>
+    (
+      await (
+        await send(
+          "GET",
+          `/v1alpha/festivals/cbf2025/reviews?filter=${encodeURIComponent(filter)}`,
+        )
+      ).json()
+    ).reviews.map((r) => r.name.split("/")[3]);
+
+  const listSummaries = async (filter, query = "") =>
+    send(
+      "GET",
+      `/v1alpha/festivals/cbf2025/reviewSummaries?filter=${encodeURIComponent(filter)}${query}`,
+    );
+
+  it("filters the caller's reviews by rating and recommendation", async () => {
+    await patch("cbf2025", "beer-1", { starRating: 5, wouldRecommend: true });
+    await patch("cbf2025", "beer-2", { starRating: 3, wouldRecommend: true });
+    await patch("cbf2025", "beer-3", { wouldRecommend: false });
+
+    expect(await listReviews("starRating >= 4")).toEqual(["beer-1"]);
+    expect(await listReviews("wouldRecommend = true")).toEqual([
+      "beer-1",
+      "beer-2",
+    ]);
+    expect(
+      await listReviews("star_rating < 4 OR would_recommend = false"),
+    ).toEqual(["beer-2", "beer-3"]);
+    expect(await listReviews("NOT starRating = 5")).toEqual(["beer-2"]);
+  });
+
+  it("filters reviews by update time", async () => {
+    await patch("cbf2025", "beer-1", { starRating: 4 });
+    expect(await listReviews('updateTime > "2000-01-01T00:00:00Z"')).toEqual([
+      "beer-1",
+    ]);
+    expect(await listReviews('updateTime > "2999-01-01T00:00:00Z"')).toEqual(
+      [],
+    );
+  });
+
+  it("filters summaries on their aggregates, with a matching totalSize", async () => {
+    for (const device of ["d1", "d2", "d3"]) {
+      await patch("cbf2025", "beer-1", { starRating: 5 }, { device });
+    }
+    await patch("cbf2025", "beer-2", { starRating: 5 }, { device: "d1" });
+    await patch("cbf2025", "beer-3", { starRating: 2 }, { device: "d1" });
+    await patch("cbf2025", "beer-3", { starRating: 3 }, { device: "d2" });
+
+    const data = await (await listSummaries("ratingCount >= 2")).json();
+    expect(data.reviewSummaries.map((s) => s.name.split("/")[3])).toEqual([
+      "beer-1",
+      "beer-3",
+    ]);
+    expect(data.totalSize).toBe(2);
+
+    const both = await (
+      await listSummaries("ratingCount >= 2 AND averageRating >= 4")
+    ).json();
+    expect(both.reviewSummaries).toHaveLength(1);
+    expect(both.totalSize).toBe(1);
+  });
+
+  it("rejects an unsupported field with a dedicated reason", async () => {
+    const response = await listSummaries("starRating >= 4");
+    expect(response.status).toBe(400);
+    const { error } = await response.json();
+    expect(error.status).toBe("INVALID_ARGUMENT");
+    expect(error.details[0].reason).toBe("UNSUPPORTED_FILTER_FIELD");
+  });
+
+  it("rejects malformed filters", async () => {
+    for (const filter of [
+      "starRating >=",
+      "(starRating = 4",
+      "wouldRecommend > true",
+      "starRating = 4.5",
+      'updateTime > "yesterday"',
+      'updateTime > "2025-13-45T00:00:00Z"',
+      Array(21).fill("starRating = 4").join(" "),
+    ]) {
+      const response = await send(
+        "GET",
+        `/v1alpha/festivals/cbf2025/reviews?filter=${encodeURIComponent(filter)}`,
+      );
+      expect(response.status, filter).toBe(400);
+      expect((await response.json()).error.details[0].reason).toBe(
+        "INVALID_FILTER",
+      );
+    }
+  });
+
+  it("accepts a page token only with the filter it was issued for", async () => {
+    for (const d of ["beer-1", "beer-2", "beer-3"]) {
+      await patch("cbf2025", d, { starRating: 4 }, { device: "d1" });
+    }
+    const first = await (
+      await listSummaries("ratingCount >= 1", "&page_size=2")
+    ).json();
+    expect(first.nextPageToken).not.toBe("");
+
+    const page = `&page_size=2&page_token=${first.nextPageToken}`;
+    const second = await listSummaries("ratingCount >= 1", page);
+    expect(second.status).toBe(200);
+    expect((await second.json()).reviewSummaries).toHaveLength(1);
+
+    const changed = await listSummaries("ratingCount >= 2", page);
+    expect(changed.status).toBe(400);
+    expect((await changed.json()).error.details[0].reason).toBe(
+      "INVALID_PAGE_TOKEN",
+    );
+    const unfiltered = await send(
+      "GET",
+      `/v1alpha/festivals/cbf2025/reviewSummaries?page_token=${first.nextPageToken}`,
+    );
+    expect(unfiltered.status).toBe(400);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Ordering (AIP-132)
+// ---------------------------------------------------------------------------
+
+describe("reviews — summary ordering (AIP-132)", () => {
+  const drinkIds = (data) =>
+    data.reviewSummaries.map((s) => s.name.split("/")[3]);
+  const list = (query) =>
+    send("GET", `/v1alpha/festivals/cbf2025/reviewSummaries?${query}`);
+
+  // beer-1: 5,5 (avg 5, 2 ratings); beer-2: 4 (1 rating);
+  // beer-3: 5 (avg 5, 1 rating); beer-4: recommend only (no rating).
+  beforeEach(async () => {
+    await patch(
+      "cbf2025",
+      "beer-1",
+      { starRating: 5, wouldRecommend: true },
+      { device: "d1" },
+    );
+    await patch(
+      "cbf2025",
+      "beer-1",
+      { starRating: 5, wouldRecommend: false },
+      { device: "d2" },
+    );
+    await patch(
+      "cbf2025",
+      "beer-2",
+      { starRating: 4, wouldRecommend: true },
+      { device: "d1" },
+    );
+    await patch("cbf2025", "beer-3", { starRating: 5 }, { device: "d1" });
+    await patch(
+      "cbf2025",
+      "beer-4",
+      { wouldRecommend: true },
+      { device: "d1" },
+    );
+  });
+
+  it("orders by average rating, ties broken by drink id", async () => {
+    const desc = await (await list("order_by=averageRating%20desc")).json();
+    expect(drinkIds(desc)).toEqual(["beer-1", "beer-3", "beer-2", "beer-4"]);
+    const asc = await (await list("order_by=average_rating")).json();
+    expect(drinkIds(asc)).toEqual(["beer-4", "beer-2", "beer-1", "beer-3"]);
+  });
+
+  it("orders by recommend rate and rating count", async () => {
+    const rate = await (await list("order_by=recommendRate%20desc")).json();
+    expect(drinkIds(rate)).toEqual(["beer-2", "beer-4", "beer-1", "beer-3"]);
+    const count = await (await list("order_by=ratingCount%20desc")).json();
+    expect(drinkIds(count)).toEqual(["beer-1", "beer-2", "beer-3", "beer-4"]);
+  });
+
+  it("pages through an ordering with composite tokens", async () => {
+    const seen = [];
+    let token = "";
+    do {
+      const data = await (
+        await list(
+          `order_by=averageRating%20desc&page_size=1&page_token=${token}`,
+        )
+      ).json();
+      expect(data.totalSize).toBe(4);
+      seen.push(...drinkIds(data));
+      token = data.nextPageToken;
+    } while (token);
+    expect(seen).toEqual(["beer-1", "beer-3", "beer-2", "beer-4"]);
+  });
+
+  it("combines order_by with a filter", async () => {
+    const data = await (
+      await list(
+        `order_by=averageRating%20desc&filter=${encodeURIComponent("ratingCount >= 1")}&page_size=2`,
+      )
+    ).json();
+    expect(drinkIds(data)).toEqual(["beer-1", "beer-3"]);
+    expect(data.totalSize).toBe(3);
+  });
+
+  it("rejects a token issued for a different ordering", async () => {
+    const first = await (
+      await list("order_by=averageRating%20desc&page_size=1")
+    ).json();
+    for (const query of [
+      "order_by=averageRating%20asc",
+      "order_by=ratingCount%20desc",
+      "",
+    ]) {
+      const response = await list(
+        `${query}&page_size=1&page_token=${first.nextPageToken}`,
+      );
+      expect(response.status, query).toBe(400);
+      expect((await response.json()).error.details[0].reason).toBe(
+        "INVALID_PAGE_TOKEN",
+      );
+    }
+  });
+
+  it("rejects unsupported and malformed order_by", async () => {
+    const unsupported = await list("order_by=responseCount");
+    expect(unsupported.status).toBe(400);
+    expect((await unsupported.json()).error.details[0].reason).toBe(
+      "UNSUPPORTED_ORDER_BY_FIELD",
+    );
+    const malformed = await list("order_by=averageRating%20sideways");
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).error.details[0].reason).toBe(
+      "INVALID_ORDER_BY",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Confidence-adjusted rating
+// ---------------------------------------------------------------------------
+
+describe("reviews — adjusted rating", () => {
+  // Festival mean: (5 + 8×5 + 2×4 + 5×2) / 16 = 3.9375.
+  beforeEach(async () => {
+    await patch("cbf2025", "lucky", { starRating: 5 }, { device: "d0" });
+    const ratings = [5, 5, 5, 5, 5, 5, 5, 5, 4, 4];
+    for (const [i, starRating] of ratings.entries()) {
+      await patch("cbf2025", "proven", { starRating }, { device: `d${i}` });
+    }
+    for (let i = 0; i < 5; i++) {
+      await patch("cbf2025", "poor", { starRating: 2 }, { device: `d${i}` });
+    }
+    await patch("cbf2025", "unrated", { wouldRecommend: true });
+  });
+
+  it("shrinks each drink's average towards the festival mean", async () => {
+    const summary = (d) =>
+      send("GET", `/v1alpha/festivals/cbf2025/reviewSummaries/${d}`).then((r) =>
+        r.json(),
+      );
+    // (5 × 3.9375 + rating sum) / (5 + rating count)
+    expect((await summary("lucky")).adjustedRating).toBe(4.11);
+    expect((await summary("proven")).adjustedRating).toBe(4.51);
+    expect((await summary("poor")).adjustedRating).toBe(2.97);
+    expect((await summary("unrated")).adjustedRating).toBe(0);
+    expect((await summary("absent")).adjustedRating).toBe(0);
+  });
+
+  it("ranks a well-reviewed drink above a single perfect score", async () => {
+    const byAverage = await (
+      await send(
+        "GET",
+        "/v1alpha/festivals/cbf2025/reviewSummaries?order_by=averageRating%20desc",
+      )
+    ).json();
+    expect(byAverage.reviewSummaries[0].name).toMatch(/\/lucky$/);
+
+    const names = [];
+    let token = "";
+    do {
+      const data = await (
+        await send(
+          "GET",
+          `/v1alpha/festivals/cbf2025/reviewSummaries?order_by=adjusted_rating%20desc&page_size=1&page_token=${token}`,
+        )
+      ).json();
+      names.push(...data.reviewSummaries.map((s) => s.name.split("/")[3]));
+      token = data.nextPageToken;
+    } while (token);
+    expect(names).toEqual(["proven", "lucky", "poor", "unrated"]);
+  });
+
+  it("pages against the mean the first page ranked by", async () => {
+    const path =
+      "/v1alpha/festivals/cbf2025/reviewSummaries?order_by=adjustedRating%20desc";
+    const first = await (await send("GET", `${path}&page_size=1`)).json();
+    expect(first.reviewSummaries[0].name).toMatch(/\/proven$/);
+
+    // Fifteen 5-star ratings land between pages, lifting the festival mean to
+    // 4.45 — enough, ranked afresh, to lift lucky past proven's cursor.
+    await env.RATINGS_DB.prepare(
+      "INSERT INTO review_aggregates (bucket, festival_id, drink_id, " +
+        "rating_count, rating_sum, response_count, stars_5) " +
+        "VALUES ('test', 'cbf2025', 'star', 15, 75, 15, 15)",
+    ).run();
+
+    const rest = await (
+      await send("GET", `${path}&page_token=${first.nextPageToken}`)
+    ).json();
+    expect(rest.reviewSummaries.map((s) => s.name.split("/")[3])).toEqual([
+      "lucky",
+      "poor",
+      "unrated",
+    ]);
+    expect(rest.reviewSummaries[0].adjustedRating).toBe(4.11);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Routing
 // ---------------------------------------------------------------------------
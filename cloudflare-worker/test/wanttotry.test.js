@@ -0,0 +1,278 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  env,
+  createExecutionContext,
+  createScheduledController,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../worker.js";
+
+const TEST_ORIGIN = "http://localhost:8080"; // non-prod → 'test' bucket
+const DEVICE = "dev-1";
+const FESTIVAL = "/v1alpha/festivals/cbf2025";
+const MOST_WANTED = `${FESTIVAL}/wantToTrySummaries`;
+
+async function send(
+  method,
+  path,
+  { origin = TEST_ORIGIN, device = DEVICE, workerEnv = env } = {},
+) {
+  const request = new Request(`https://worker.example.com${path}`, {
+    method,
+    headers: { Origin: origin, "X-Device-Id": device },
+  });
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, workerEnv, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+const wantPath = (drinkId) => `${FESTIVAL}/drinks/${drinkId}/wantToTry`;
+const mark = (drinkId, opts) => send("PATCH", wantPath(drinkId), opts);
+const unmark = (drinkId, opts) => send("DELETE", wantPath(drinkId), opts);
+
+async function expectError(response, httpStatus, reason) {
+  expect(response.status).toBe(httpStatus);
+  const { error } = await response.json();
+  expect(error.details[0].reason).toBe(reason);
+  return error;
+}
+
+async function list(path, query = "", opts) {
+  const response = await send("GET", `${path}${query}`, opts);
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+const drinkOf = (resource) => resource.name.split("/")[3];
+
+beforeEach(async () => {
+  await env.RATINGS_DB.prepare("DELETE FROM want_to_try").run();
+  await env.RATINGS_DB.prepare("DELETE FROM want_to_try_aggregates").run();
+  await env.RATINGS_DB.prepare("DELETE FROM rate_limits").run();
+});
+
+describe("want to try — the caller's marks", () => {
+  it("marks a drink, and re-marking leaves it unchanged", async () => {
+    const response = await mark("beer-1");
+    expect(response.status).toBe(200);
+    const first = await response.json();
+    expect(first).toEqual({
+      name: "festivals/cbf2025/drinks/beer-1/wantToTry",
+      createTime: first.updateTime,
+      updateTime: expect.stringMatching(/^2025-05-22T12:00/),
+    });
+
+    expect(await (await mark("beer-1")).json()).toEqual(first);
+    expect(await (await send("GET", wantPath("beer-1"))).json()).toEqual(first);
+  });
+
+  it("un-marks softly, serving the tombstone until marked again", async () => {
+    await mark("beer-1");
+    const response = await unmark("beer-1");
+    expect(response.status).toBe(200);
+    const tombstone = await response.json();
+    expect(tombstone.deleteTime).toBe(tombstone.updateTime);
+    expect(await (await send("GET", wantPath("beer-1"))).json()).toEqual(
+      tombstone,
+    );
+
+    await expectError(await unmark("beer-1"), 404, "NOT_FOUND");
+    const replay = await send(
+      "DELETE",
+      `${wantPath("beer-1")}?allowMissing=true`,
+    );
+    expect(await replay.json()).toEqual(tombstone);
+    const never = await send(
+      "DELETE",
+      `${wantPath("beer-2")}?allow_missing=true`,
+    );
+    expect(await never.json()).toEqual({});
+
+    const again = await (await mark("beer-1")).json();
+    expect(again.deleteTime).toBeUndefined();
+  });
+
+  it("lists the caller's marks in drink order", async () => {
+    for (const drink of ["beer-3", "beer-1", "beer-2"]) await mark(drink);
+    await unmark("beer-2");
+    await mark("beer-9", { device: "dev-2" });
+
+    const live = await list(`${FESTIVAL}/wantToTries`);
+    expect(live.wantToTries.map(drinkOf)).toEqual(["beer-1", "beer-3"]);
+    expect(live.totalSize).toBe(2);
+
+    const all = await list(`${FESTIVAL}/wantToTries`, "?show_deleted=true");
+    expect(all.wantToTries.map(drinkOf)).toEqual([
+      "beer-1",
+      "beer-2",
+      "beer-3",
+    ]);
+
+    const seen = [];
+    let token = "";
+    do {
+      const page = await list(
+        `${FESTIVAL}/wantToTries`,
+        `?page_size=1&show_deleted=true${token && `&page_token=${token}`}`,
+      );
+      seen.push(...page.wantToTries);
+      token = page.nextPageToken;
+    } while (token);
+    expect(seen).toEqual(all.wantToTries);
+
+    // A token issued with tombstones is refused without them.
+    const first = await list(
+      `${FESTIVAL}/wantToTries`,
+      "?page_size=1&show_deleted=true",
+    );
+    const mismatched = await send(
+      "GET",
+      `${FESTIVAL}/wantToTries?page_token=${first.nextPageToken}`,
+    );
+    expect(mismatched.status).toBe(400);
+
+    const deleted = await list(
+      `${FESTIVAL}/wantToTries`,
+      "?show_deleted=true&filter=deleteTime%20%3E%20%222025-01-01T00%3A00%3A00Z%22",
+    );
+    expect(deleted.wantToTries.map(drinkOf)).toEqual(["beer-2"]);
+  });
+
+  it("the scheduled purge removes tombstones past the retention window", async () => {
+    const day = 24 * 60 * 60 * 1000;
+    await mark("beer-1");
+    await unmark("beer-1");
+    const controller = createScheduledController({
+      scheduledTime: Date.now() + 31 * day,
+      cron: "17 4 * * *",
+    });
+    const ctx = createExecutionContext();
+    await worker.scheduled(controller, env, ctx);
+    await waitOnExecutionContext(ctx);
+    expect((await send("GET", wantPath("beer-1"))).status).toBe(404);
+  });
+});
+
+describe("want to try — most wanted", () => {
+  beforeEach(async () => {
+    // beer-2: three callers; beer-1 and beer-3: two each; beer-4: one, then
+    // none.
+    for (const device of ["dev-1", "dev-2", "dev-3"]) {
+      await mark("beer-2", { device });
+    }
+    for (const device of ["dev-1", "dev-2"]) {
+      await mark("beer-1", { device });
+      await mark("beer-3", { device });
+    }
+    await mark("beer-3", { device: "dev-2" }); // a repeat counts once
+    await mark("beer-4");
+    await unmark("beer-4");
+  });
+
+  it("ranks drinks by want count, ties by drink id", async () => {
+    const ranked = await list(MOST_WANTED);
+    expect(ranked).toEqual({
+      wantToTrySummaries: [
+        { name: "festivals/cbf2025/wantToTrySummaries/beer-2", wantCount: 3 },
+        { name: "festivals/cbf2025/wantToTrySummaries/beer-1", wantCount: 2 },
+        { name: "festivals/cbf2025/wantToTrySummaries/beer-3", wantCount: 2 },
+      ],
+      nextPageToken: "",
+      totalSize: 3,
+    });
+
+    const least = await list(MOST_WANTED, "?order_by=wantCount");
+    expect(least.wantToTrySummaries.map(drinkOf)).toEqual([
+      "beer-1",
+      "beer-3",
+      "beer-2",
+    ]);
+  });
+
+  it("serves one drink's count, zero when nobody wants it", async () => {
+    expect(await list(`${MOST_WANTED}/beer-2`)).toEqual({
+      name: "festivals/cbf2025/wantToTrySummaries/beer-2",
+      wantCount: 3,
+    });
+    expect((await list(`${MOST_WANTED}/beer-4`)).wantCount).toBe(0);
+  });
+
+  it("counts each bucket apart", async () => {
+    const prod = await list(MOST_WANTED, "", {
+      origin: "https://cambeerfestival.app",
+    });
+    expect(prod.wantToTrySummaries).toEqual([]);
+  });
+
+  it("pages in either direction", async () => {
+    for (const order of ["", "&order_by=wantCount%20asc"]) {
+      const all = (await list(MOST_WANTED, `?${order}`)).wantToTrySummaries;
+      const seen = [];
+      let token = "";
+      do {
+        const page = await list(
+          MOST_WANTED,
+          `?page_size=1${order}${token && `&page_token=${token}`}`,
+        );
+        seen.push(...page.wantToTrySummaries);
+        token = page.nextPageToken;
+      } while (token);
+      expect(seen).toEqual(all);
+    }
+  });
+
+  it("filters, and scopes page tokens to the filter and order", async () => {
+    const popular = await list(MOST_WANTED, "?filter=wantCount%20%3E%202");
+    expect(popular.wantToTrySummaries.map(drinkOf)).toEqual(["beer-2"]);
+    expect(popular.totalSize).toBe(1);
+
+    const { nextPageToken } = await list(MOST_WANTED, "?page_size=1");
+    await expectError(
+      await send(
+        "GET",
+        `${MOST_WANTED}?page_size=1&order_by=wantCount%20asc&page_token=${nextPageToken}`,
+      ),
+      400,
+      "INVALID_PAGE_TOKEN",
+    );
+    await expectError(
+      await send("GET", `${MOST_WANTED}?order_by=drinkId`),
+      400,
+      "UNSUPPORTED_ORDER_BY_FIELD",
+    );
+    await expectError(
+      await send("GET", `${MOST_WANTED}?filter=ratingCount%20%3E%201`),
+      400,
+      "UNSUPPORTED_FILTER_FIELD",
+    );
+  });
+});
+
+describe("want to try — errors", () => {
+  it("rejects unknown festivals and other methods", async () => {
+    await expectError(
+      await send("GET", "/v1alpha/festivals/cbf2062/wantToTries"),
+      404,
+      "FESTIVAL_NOT_FOUND",
+    );
+    expect((await send("POST", wantPath("beer-1"))).status).toBe(405);
+    expect((await send("PATCH", MOST_WANTED)).status).toBe(405);
+  });
+
+  it("refuses marks once the festival has closed, but not un-marks", async () => {
+    const closed = "/v1alpha/festivals/cbf2024/drinks/beer-1/wantToTry";
+    await expectError(await send("PATCH", closed), 400, "FESTIVAL_CLOSED");
+    await expectError(await send("DELETE", closed), 404, "NOT_FOUND");
+  });
+
+  it("is UNAVAILABLE without storage", async () => {
+    await expectError(
+      await send("GET", MOST_WANTED, {
+        workerEnv: { ...env, RATINGS_DB: undefined },
+      }),
+      503,
+      "STORAGE_UNCONFIGURED",
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import { env, createExecutionContext } from "cloudflare:test";
+import worker from "../worker.js";
+
+// Drives /v1alpha/festivals/{f}:watch in-process: the request goes through
+// the worker's fetch handler to the FestivalWatch object in the test runtime,
+// and the event stream is read straight from the response body.
+
+const decoder = new TextDecoder();
+
+/** How long a read waits for the next frame before failing the test. */
+const READ_TIMEOUT_MS = 2000;
+
+/**
+ * Open a watch stream. Resolves to the response and a reader of its frames:
+ * `next()` is the next frame, parsed (`{ event, id, data, retry, comments }`),
+ * `nextEvent()` the next frame carrying an event, and `close()` hangs up.
+ */
+export async function openWatch(
+  festivalId,
+  { origin = "http://localhost:8080", workerEnv = env } = {},
+) {
+  const request = new Request(
+    `https://worker.example.com/v1alpha/festivals/${festivalId}:watch`,
+    { headers: { Origin: origin } },
+  );
+  const response = await worker.fetch(
+    request,
+    workerEnv,
+    createExecutionContext(),
+  );
+  if (!response.ok) return { response };
+
+  const reader = response.body.getReader();
+  let buffered = "";
+
+  async function next() {
+    let end;
+    while ((end = buffered.indexOf("\n\n")) === -1) {
+      let timer;
+      const { done, value } = await Promise.race([
+        reader.read(),
+        new Promise((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error("No frame within the timeout")),
+            READ_TIMEOUT_MS,
+          );
+        }),
+      ]).finally(() => clearTimeout(timer));
+      if (done) throw new Error("The stream ended");
+      buffered += decoder.decode(value, { stream: true });
+    }
+    const frame = buffered.slice(0, end);
+    buffered = buffered.slice(end + 2);
+    return parseFrame(frame);
+  }
+
+  async function nextEvent() {
+    let frame;
+    do frame = await next();
+    while (frame.event === undefined);
+    return frame;
+  }
+
+  return {
+    response,
+    next,
+    nextEvent,
+    close: () => reader.cancel(),
+  };
+}
+
+function parseFrame(frame) {
+  const parsed = { comments: [] };
+  for (const line of frame.split("\n")) {
+    const colon = line.indexOf(":");
+    const field = line.slice(0, colon);
+    const value = line.slice(colon + 1).replace(/^ /, "");
+    if (field === "") parsed.comments.push(value);
+    else if (field === "data") parsed.data = JSON.parse(value);
+    else if (field === "retry") parsed.retry = Number(value);
+    else parsed[field] = value;
+  }
+  return parsed;
+}
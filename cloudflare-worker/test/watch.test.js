@@ -0,0 +1,345 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  env,
+  createExecutionContext,
+  waitOnExecutionContext,
+  runInDurableObject,
+} from "cloudflare:test";
+import worker from "../worker.js";
+import { recordDrinkChanges } from "../changes.js";
+import { MAX_WATCHERS, publishToWatchers } from "../watch.js";
+import { openWatch } from "./watch-harness.js";
+import { racingEnv } from "./racing-db.js";
+import beerList from "./fixtures/cbf2025-beer.json";
+import registry from "../festivals.json";
+
+const TEST_ORIGIN = "http://localhost:8080"; // → 'test' bucket
+const PROD_ORIGIN = "https://cambeerfestival.app"; // → 'prod' bucket
+const UPSTREAM = "https://data.cambridgebeerfestival.com";
+
+// cbf2025 polled as if it were on, with just its beer list.
+const ACTIVE = {
+  festivals: [
+    {
+      ...registry.festivals.find((f) => f.id === "cbf2025"),
+      is_active: true,
+      available_beverage_types: ["beer"],
+    },
+  ],
+};
+
+const T0 = Date.parse("2025-05-22T12:00:00Z");
+const MINUTE = 60 * 1000;
+
+async function send(
+  method,
+  path,
+  { body, origin = TEST_ORIGIN, workerEnv = env } = {},
+) {
+  const init = {
+    method,
+    headers: { Origin: origin, "X-Device-Id": "dev-1" },
+  };
+  if (body !== undefined) {
+    init.headers["Content-Type"] = "application/json";
+    init.body = JSON.stringify(body);
+  }
+  const request = new Request(`https://worker.example.com${path}`, init);
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, workerEnv, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+/** Serve `list` as cbf2025's beer.json and poll at `now`. */
+async function poll(list, now) {
+  mockFetch.mockImplementation(async (url) =>
+    url === `${UPSTREAM}/cbf2025/beer.json`
+      ? Response.json(list)
+      : new Response("Not found", { status: 404 }),
+  );
+  return recordDrinkChanges(env, ACTIVE, now);
+}
+
+// Sold out Pegasus.
+const soldOutList = structuredClone(beerList);
+soldOutList.producers
+  .find((p) => p.id === "p-milton")
+  .products.find((p) => p.id === "beer-pegasus").status_text = "Sold out";
+
+const watchStub = () =>
+  env.FESTIVAL_WATCH.get(env.FESTIVAL_WATCH.idFromName("cbf2025"));
+
+/** RATINGS_DB refusing over 100 bound parameters, as D1 does and Miniflare does not. */
+function boundedDb() {
+  return new Proxy(env.RATINGS_DB, {
+    get(target, prop) {
+      if (prop === "prepare") {
+        return (sql) => {
+          const statement = target.prepare(sql);
+          const bind = statement.bind.bind(statement);
+          statement.bind = (...values) => {
+            if (values.length > 100) throw new Error("too many SQL variables");
+            return bind(...values);
+          };
+          return statement;
+        };
+      }
+      const value = Reflect.get(target, prop);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+let mockFetch;
+let watches;
+
+async function watch(festivalId = "cbf2025", options) {
+  const opened = await openWatch(festivalId, options);
+  if (opened.close) watches.push(opened);
+  return opened;
+}
+
+beforeEach(async () => {
+  mockFetch = vi.fn();
+  vi.stubGlobal("fetch", mockFetch);
+  watches = [];
+  await env.RATINGS_DB.prepare("DELETE FROM drink_changes").run();
+  await env.RATINGS_DB.prepare("DELETE FROM drink_snapshots").run();
+  await env.RATINGS_DB.prepare("DELETE FROM reviews").run();
+  await env.RATINGS_DB.prepare("DELETE FROM review_aggregates").run();
+});
+
+afterEach(async () => {
+  for (const { close } of watches) await close();
+  vi.unstubAllGlobals();
+});
+
+describe("watch — the stream", () => {
+  it("opens an event stream for a festival", async () => {
+    const { response, next } = await watch();
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(
+      "text/event-stream; charset=utf-8",
+    );
+    expect(response.headers.get("Cache-Control")).toBe(
+      "no-cache, no-transform",
+    );
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+      TEST_ORIGIN,
+    );
+    expect((await next()).retry).toBe(5000);
+  });
+
+  it("pushes drink changes, with ids that resume the feed", async () => {
+    await poll(beerList, T0);
+    const { nextEvent } = await watch();
+    await poll(soldOutList, T0 + 5 * MINUTE);
+
+    const change = await nextEvent();
+    expect(change.event).toBe("drinkChange");
+    expect(change.data).toEqual({
+      drink: "festivals/cbf2025/drinks/beer-pegasus",
+      changeType: "CHANGE_TYPE_STATUS_CHANGED",
+      displayName: "Pegasus",
+      category: "beer",
+      statusText: "Sold out",
+      availability: "AVAILABILITY_OUT",
+      previousStatusText: "Plenty left",
+      previousAvailability: "AVAILABILITY_PLENTY",
+      changeTime: "2025-05-22T12:05:00.000Z",
+    });
+
+    // A client that dropped here catches up from the event's id.
+    await poll(beerList, T0 + 10 * MINUTE);
+    const missed = await send(
+      "GET",
+      `/v1alpha/festivals/cbf2025/drinkChanges?page_token=${change.id}`,
+    );
+    const { drinkChanges } = await missed.json();
+    expect(drinkChanges).toHaveLength(1);
+    expect(drinkChanges[0].statusText).toBe("Plenty left");
+    expect((await nextEvent()).data).toEqual(drinkChanges[0]);
+  });
+
+  it("fans out to every watcher of the festival, and no other", async () => {
+    await poll(beerList, T0);
+    const first = await watch();
+    const second = await watch();
+    const other = await watch("cbfw2025");
+    await poll(soldOutList, T0 + 5 * MINUTE);
+
+    expect((await first.nextEvent()).event).toBe("drinkChange");
+    expect((await second.nextEvent()).event).toBe("drinkChange");
+    await publishToWatchers(env, "cbfw2025", [
+      { event: "drinkChange", data: { marker: true } },
+    ]);
+    expect((await other.nextEvent()).data).toEqual({ marker: true });
+  });
+
+  it("writes keep-alives", async () => {
+    const { next } = await watch();
+    await next(); // retry
+    await runInDurableObject(watchStub(), (instance) => instance.keepAlive());
+    expect((await next()).comments).toEqual(["keep-alive"]);
+  });
+
+  it("drops a stream once its client has gone", async () => {
+    await runInDurableObject(watchStub(), async (instance) => {
+      const before = instance.size;
+      const response = await instance.fetch(
+        new Request("https://festival-watch/connect?bucket=test"),
+      );
+      expect(instance.size).toBe(before + 1);
+      await response.body.cancel();
+      expect(instance.size).toBe(before);
+    });
+  });
+});
+
+describe("watch — review summaries", () => {
+  it("pushes a drink's summary after a review write, to its bucket", async () => {
+    await poll(beerList, T0);
+    const testWatch = await watch();
+    const prodWatch = await watch("cbf2025", { origin: PROD_ORIGIN });
+
+    const review = "/v1alpha/festivals/cbf2025/drinks/beer-pegasus/review";
+    await send("PATCH", review, { body: { starRating: 4 } });
+    const summary = await testWatch.nextEvent();
+    expect(summary.event).toBe("reviewSummary");
+    expect(summary.data).toMatchObject({
+      name: "festivals/cbf2025/reviewSummaries/beer-pegasus",
+      ratingCount: 1,
+      averageRating: 4,
+      ratingDistribution: [0, 0, 0, 1, 0],
+    });
+
+    await send("DELETE", review);
+    expect((await testWatch.nextEvent()).data).toMatchObject({
+      ratingCount: 0,
+      averageRating: 0,
+    });
+
+    // The prod watcher saw neither: its next event is the drink change.
+    await poll(soldOutList, T0 + 5 * MINUTE);
+    expect((await prodWatch.nextEvent()).event).toBe("drinkChange");
+  });
+
+  it("pushes entry writes only when they move the summary", async () => {
+    const { nextEvent } = await watch();
+    const entry =
+      "/v1alpha/festivals/cbf2025/drinks/beer-pegasus/entry?allowMissing=true";
+    await send("PATCH", entry, { body: { note: "Hoppy" } });
+    await send("PATCH", entry, { body: { wouldRecommend: true } });
+
+    const summary = await nextEvent();
+    expect(summary.data).toMatchObject({
+      responseCount: 1,
+      recommendCount: 1,
+    });
+  });
+  it("does not push batch items that lost a race", async () => {
+    const { nextEvent } = await watch();
+    const batch = "/v1alpha/festivals/cbf2025/drinkEntries:batchUpdate";
+    const item = (drinkId, drinkEntry) => ({
+      drinkEntry: {
+        name: `festivals/cbf2025/drinks/${drinkId}/entry`,
+        ...drinkEntry,
+      },
+      allowMissing: true,
+    });
+    // Another request creates beer-pegasus first, without publishing.
+    const workerEnv = racingEnv(() =>
+      env.RATINGS_DB.prepare(
+        "INSERT INTO reviews (bucket, festival_id, drink_id, device_id, " +
+          "note, created_at, updated_at) " +
+          "VALUES ('test', 'cbf2025', 'beer-pegasus', 'dev-1', 'x', 1, 1)",
+      ).run(),
+    );
+    const response = await send("POST", batch, {
+      body: { requests: [item("beer-pegasus", { starRating: 5 })] },
+      workerEnv,
+    });
+    expect((await response.json()).statuses[0].code).toBe(10);
+
+    await send("POST", batch, {
+      body: { requests: [item("beer-citra", { starRating: 3 })] },
+    });
+    expect((await nextEvent()).data.name).toBe(
+      "festivals/cbf2025/reviewSummaries/beer-citra",
+    );
+  });
+  it("pushes every summary a full batch moves", async () => {
+    const { nextEvent } = await watch();
+    const drinkIds = Array.from({ length: 100 }, (_, i) => `beer-${i}`);
+    const response = await send(
+      "POST",
+      "/v1alpha/festivals/cbf2025/drinkEntries:batchUpdate",
+      {
+        body: {
+          requests: drinkIds.map((drinkId) => ({
+            drinkEntry: {
+              name: `festivals/cbf2025/drinks/${drinkId}/entry`,
+              starRating: 3,
+            },
+            allowMissing: true,
+          })),
+        },
+        workerEnv: { ...env, RATINGS_DB: boundedDb() },
+      },
+    );
+    expect(response.status).toBe(200);
+
+    const pushed = [];
+    for (const _ of drinkIds) pushed.push((await nextEvent()).data.name);
+    expect(pushed.sort()).toEqual(
+      drinkIds.map((d) => `festivals/cbf2025/reviewSummaries/${d}`).sort(),
+    );
+  });
+});
+
+describe("watch — errors", () => {
+  it("rejects unknown festivals and other methods", async () => {
+    expect((await watch("cbf2062")).response.status).toBe(404);
+    const post = await send("POST", "/v1alpha/festivals/cbf2025:watch");
+    expect(post.status).toBe(405);
+  });
+
+  it("is UNAVAILABLE once the festival has MAX_WATCHERS streams", async () => {
+    const held = await runInDurableObject(watchStub(), async (instance) => {
+      const responses = [];
+      while (instance.size < MAX_WATCHERS) {
+        responses.push(
+          await instance.fetch(
+            new Request("https://festival-watch/connect?bucket=test"),
+          ),
+        );
+      }
+      return responses;
+    });
+    try {
+      const { response } = await watch("cbf2025");
+      expect(response.status).toBe(503);
+      expect((await response.json()).error.details[0].reason).toBe(
+        "WATCH_FULL",
+      );
+    } finally {
+      await runInDurableObject(watchStub(), () =>
+        Promise.all(held.map((response) => response.body.cancel())),
+      );
+    }
+    const { response, close } = await watch("cbf2025");
+    expect(response.status).toBe(200);
+    await close();
+  });
+
+  it("is UNAVAILABLE without the binding", async () => {
+    const { response } = await watch("cbf2025", {
+      workerEnv: { ...env, FESTIVAL_WATCH: undefined },
+    });
+    expect(response.status).toBe(503);
+    expect((await response.json()).error.details[0].reason).toBe(
+      "WATCH_UNCONFIGURED",
+    );
+  });
+});
@@ -3,12 +3,17 @@ import {
   readD1Migrations,
 } from "@cloudflare/vitest-pool-workers";
 import { defineConfig } from "vitest/config";
+import { readFile } from "node:fs/promises";
 
 export default defineConfig(async () => {
   // Read the SQL migrations once at config time. They are exposed to tests as
   // the TEST_MIGRATIONS binding and applied to the simulated D1 in a setup file
   // (see test/apply-migrations.js), so no real database is needed.
   const migrations = await readD1Migrations("./migrations");
+  // Firebase ID tokens are verified against a fixture JWKS instead of
+  // Google's, so the suite runs offline; the tests sign with its private half
+  // (test/fixtures/firebase-signing-keys.json — a test-only key).
+  const jwks = await readFile("./test/fixtures/firebase-jwks.json", "utf8");
 
   return {
     plugins: [
@@ -22,12 +27,14 @@ export default defineConfig(async () => {
           // tests running against a real (local) database while the deployed
           // worker runs without the binding.
           d1Databases: ["RATINGS_DB"],
-          bindings: { TEST_MIGRATIONS: migrations },
+          // The PHOTOS bucket likewise (see wrangler.toml).
+          r2Buckets: ["PHOTOS"],
+          bindings: { TEST_MIGRATIONS: migrations, FIREBASE_JWKS: jwks },
         },
       }),
     ],
     test: {
-      setupFiles: ["./test/apply-migrations.js"],
+      setupFiles: ["./test/apply-migrations.js", "./test/pin-clock.js"],
     },
   };
 });
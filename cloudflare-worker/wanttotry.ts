@@ -0,0 +1,568 @@
+/**
+ * WantToTry resource handler: the Plan axis of My Festival, and the
+ * festival-wide "most wanted" list built from it.
+ *
+ * Routes (MyFestivalService in proto/.../my_festival_service.proto):
+ *   GET    /v1alpha/festivals/{f}/drinks/{d}/wantToTry    get caller's mark
+ *   PATCH  /v1alpha/festivals/{f}/drinks/{d}/wantToTry    mark the drink
+ *   DELETE /v1alpha/festivals/{f}/drinks/{d}/wantToTry    un-mark the drink
+ *   GET    /v1alpha/festivals/{f}/wantToTries             list caller's marks
+ *   GET    /v1alpha/festivals/{f}/wantToTrySummaries/{d}  want count for one drink
+ *   GET    /v1alpha/festivals/{f}/wantToTrySummaries      most wanted (paginated)
+ *
+ * A WantToTry is a singleton per (caller, drink), like the DrinkEntry, stored
+ * in the `want_to_try` table under the same key as `reviews` (migration 0008).
+ * It has no writable fields: its existence is the mark. PATCH creates it, or
+ * returns it unchanged when the drink is already marked, so a queued mark can
+ * be replayed; the body is ignored. Un-marking is a soft delete, as for
+ * drink entries: DELETE sets `deleted_at`, GET still serves the tombstone,
+ * the caller's list includes it under show_deleted, a later PATCH marks the
+ * drink afresh, and purgeDeletedWantToTries removes it after the retention
+ * window.
+ *
+ * Every write refreshes the drink's `want_to_try_aggregates` row in the same
+ * D1 batch (refreshWantCount, aggregates.ts). The summary list reads that
+ * table, most wanted first unless ordered by `wantCount` ascending; ties
+ * break on drink id. Like the review summaries, it is public and counts
+ * every caller.
+ *
+ * Marks are refused once the festival has closed, and may check drink IDs
+ * against its beverage lists (festivals.ts); un-marking is always allowed.
+ */
+
+import type { components } from "./src/api-types";
+import {
+  type CorsHeaders,
+  type Env,
+  resolveBucket,
+  rfc3339,
+  isValidId,
+  parseV1alphaPath,
+  queryParam,
+  jsonResponse,
+  errorResponse,
+  methodNotAllowed,
+  encodePageToken,
+  encodeKeysetToken,
+  resolvePageRequest,
+  resolveKeysetPageRequest,
+} from "./shared.js";
+import { type FilterFields, resolveFilter } from "./filter.js";
+import { refreshWantCount } from "./aggregates.js";
+import { resolveCaller } from "./auth.js";
+import { DELETED_RETENTION_MS } from "./entries.js";
+import {
+  type FestivalRegistry,
+  resolveFestival,
+  catalogDrinkIds,
+  drinkNotFound,
+} from "./festivals.js";
+
+type WantToTry = components["schemas"]["WantToTry"];
+type WantToTrySummary = components["schemas"]["WantToTrySummary"];
+type ListWantToTriesResponse = components["schemas"]["ListWantToTriesResponse"];
+type ListWantToTrySummariesResponse =
+  components["schemas"]["ListWantToTrySummariesResponse"];
+
+// Every mark the server returns carries its name and timestamps.
+type Resource = WantToTry &
+  Required<Pick<WantToTry, "name" | "createTime" | "updateTime">>;
+type Summary = Required<WantToTrySummary>;
+
+// D1 row shapes returned by SQL queries.
+interface WantRow {
+  drink_id: string;
+  created_at: number;
+  updated_at: number;
+  deleted_at: number | null;
+}
+interface SummaryRow {
+  drink_id: string;
+  want_count: number;
+}
+interface TotalRow {
+  n: number;
+}
+
+// Fields each list's AIP-160 filter can name (see filter.ts).
+const WANT_FILTER_FIELDS: FilterFields = {
+  createTime: { sql: "created_at", type: "timestamp" },
+  updateTime: { sql: "updated_at", type: "timestamp" },
+  deleteTime: { sql: "deleted_at", type: "timestamp" },
+};
+const SUMMARY_FILTER_FIELDS: FilterFields = {
+  wantCount: { sql: "want_count", type: "integer" },
+};
+
+const WANT_COLUMNS = "drink_id, created_at, updated_at, deleted_at";
+
+interface WantCtx {
+  db: D1Database;
+  bucket: string;
+  festivalId: string;
+  drinkId: string;
+  deviceId: string;
+  userId: string | null;
+  url: URL;
+  corsHeaders: CorsHeaders;
+}
+interface ListCtx {
+  db: D1Database;
+  bucket: string;
+  festivalId: string;
+  deviceId: string;
+  url: URL;
+  corsHeaders: CorsHeaders;
+}
+interface SummaryCtx {
+  db: D1Database;
+  bucket: string;
+  festivalId: string;
+  url: URL;
+  corsHeaders: CorsHeaders;
+}
+
+/** Route a request, or return null if the path doesn't match a want-to-try route. */
+export async function handleWantToTry(
+  request: Request,
+  url: URL,
+  env: Env,
+  corsHeaders: CorsHeaders,
+  festivals: FestivalRegistry,
+  executionCtx: ExecutionContext,
+): Promise<Response | null> {
+  const segments = parseV1alphaPath(url.pathname);
+  if (!segments || segments[0] !== "festivals" || segments.length < 3) {
+    return null;
+  }
+
+  // /v1alpha/festivals/{f}/drinks/{d}/wantToTry
+  const isRecord =
+    segments.length === 5 &&
+    segments[2] === "drinks" &&
+    segments[4] === "wantToTry";
+
+  // /v1alpha/festivals/{f}/wantToTries
+  const isList = segments.length === 3 && segments[2] === "wantToTries";
+
+  // /v1alpha/festivals/{f}/wantToTrySummaries[/{drink}]
+  const isSummary =
+    (segments.length === 3 || segments.length === 4) &&
+    segments[2] === "wantToTrySummaries";
+
+  if (!isRecord && !isList && !isSummary) return null;
+  if (!isRecord && request.method !== "GET") {
+    return methodNotAllowed(corsHeaders);
+  }
+
+  if (!env?.RATINGS_DB) {
+    return errorResponse(
+      503,
+      "UNAVAILABLE",
+      "Storage is not configured",
+      "STORAGE_UNCONFIGURED",
+      corsHeaders,
+    );
+  }
+
+  const festivalId = segments[1];
+  const drinkId = segments.length > 3 ? segments[3] : null;
+  if (!isValidId(festivalId) || (drinkId !== null && !isValidId(drinkId))) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      "Invalid resource name",
+      "INVALID_RESOURCE_NAME",
+      corsHeaders,
+    );
+  }
+  const isWrite = isRecord && request.method === "PATCH";
+  const festivalResult = resolveFestival(
+    festivals,
+    festivalId,
+    env,
+    corsHeaders,
+    { write: isWrite },
+  );
+  if ("error" in festivalResult) return festivalResult.error;
+
+  const db = env.RATINGS_DB;
+  const bucket = resolveBucket(request.headers.get("Origin") ?? "", env);
+
+  if (isSummary) {
+    const ctx = { db, bucket, festivalId, url, corsHeaders };
+    return drinkId === null
+      ? listWantToTrySummaries(ctx)
+      : getWantToTrySummary(drinkId, ctx);
+  }
+
+  const callerResult = await resolveCaller(request, env, corsHeaders);
+  if ("error" in callerResult) return callerResult.error;
+  const { deviceId, userId } = callerResult.caller;
+
+  if (isWrite && drinkId !== null) {
+    const drinkIds = await catalogDrinkIds(
+      festivalResult.festival,
+      env,
+      executionCtx,
+    );
+    if (drinkIds && !drinkIds.has(drinkId)) {
+      return drinkNotFound(festivalId, drinkId, corsHeaders);
+    }
+  }
+
+  if (drinkId === null) {
+    return listWantToTries({
+      db,
+      bucket,
+      festivalId,
+      deviceId,
+      url,
+      corsHeaders,
+    });
+  }
+
+  const ctx: WantCtx = {
+    db,
+    bucket,
+    festivalId,
+    drinkId,
+    deviceId,
+    userId,
+    url,
+    corsHeaders,
+  };
+  switch (request.method) {
+    case "GET":
+      return getWantToTry(ctx);
+    case "PATCH":
+      return markWantToTry(ctx);
+    case "DELETE":
+      return unmarkWantToTry(ctx);
+    default:
+      return methodNotAllowed(corsHeaders);
+  }
+}
+
+function wantToTryName(festivalId: string, drinkId: string): string {
+  return `festivals/${festivalId}/drinks/${drinkId}/wantToTry`;
+}
+
+function summaryName(festivalId: string, drinkId: string): string {
+  return `festivals/${festivalId}/wantToTrySummaries/${drinkId}`;
+}
+
+function serializeWantToTry(festivalId: string, row: WantRow): Resource {
+  return {
+    name: wantToTryName(festivalId, row.drink_id),
+    createTime: rfc3339(row.created_at),
+    updateTime: rfc3339(row.updated_at),
+    ...(row.deleted_at != null && { deleteTime: rfc3339(row.deleted_at) }),
+  };
+}
+
+function notFound(corsHeaders: CorsHeaders): Response {
+  return errorResponse(
+    404,
+    "NOT_FOUND",
+    "Drink is not on the want-to-try list",
+    "NOT_FOUND",
+    corsHeaders,
+  );
+}
+
+function selectRow(ctx: WantCtx): D1PreparedStatement {
+  const { db, bucket, festivalId, drinkId, deviceId } = ctx;
+  return db
+    .prepare(
+      `SELECT ${WANT_COLUMNS} FROM want_to_try ` +
+        "WHERE bucket = ? AND festival_id = ? AND drink_id = ? AND device_id = ?",
+    )
+    .bind(bucket, festivalId, drinkId, deviceId);
+}
+
+async function getWantToTry(ctx: WantCtx): Promise<Response> {
+  const row = await selectRow(ctx).first<WantRow>();
+  if (!row) return notFound(ctx.corsHeaders);
+  // A tombstone is still served, with deleteTime set (AIP-164).
+  return jsonResponse<Resource>(
+    serializeWantToTry(ctx.festivalId, row),
+    200,
+    ctx.corsHeaders,
+  );
+}
+
+async function markWantToTry(ctx: WantCtx): Promise<Response> {
+  const { db, bucket, festivalId, drinkId, deviceId, userId, corsHeaders } =
+    ctx;
+  const now = Date.now();
+
+  // A live mark is left as it is; a tombstone is marked afresh, restarting
+  // its create time. The row is read back in the same batch.
+  const results = await db.batch<WantRow>([
+    db
+      .prepare(
+        "INSERT INTO want_to_try (bucket, festival_id, drink_id, device_id, " +
+          "user_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?) " +
+          "ON CONFLICT (bucket, festival_id, drink_id, device_id) DO UPDATE " +
+          "SET created_at = excluded.created_at, " +
+          "updated_at = excluded.updated_at, deleted_at = NULL " +
+          "WHERE want_to_try.deleted_at IS NOT NULL",
+      )
+      .bind(bucket, festivalId, drinkId, deviceId, userId, now, now),
+    ...refreshWantCount(db, ctx),
+    selectRow(ctx),
+  ]);
+  const row = results[results.length - 1].results[0];
+
+  return jsonResponse<Resource>(
+    serializeWantToTry(festivalId, row),
+    200,
+    corsHeaders,
+  );
+}
+
+async function unmarkWantToTry(ctx: WantCtx): Promise<Response> {
+  const { db, bucket, festivalId, drinkId, deviceId, url, corsHeaders } = ctx;
+  const allowMissing =
+    queryParam(url, "allowMissing", "allow_missing") === "true";
+
+  const now = Date.now();
+  const [deleted] = await db.batch<WantRow>([
+    db
+      .prepare(
+        "UPDATE want_to_try SET deleted_at = ?, updated_at = ? " +
+          "WHERE bucket = ? AND festival_id = ? AND drink_id = ? " +
+          "AND device_id = ? AND deleted_at IS NULL " +
+          `RETURNING ${WANT_COLUMNS}`,
+      )
+      .bind(now, now, bucket, festivalId, drinkId, deviceId),
+    ...refreshWantCount(db, ctx),
+  ]);
+  const row = deleted.results[0];
+  if (row) {
+    return jsonResponse<Resource>(
+      serializeWantToTry(festivalId, row),
+      200,
+      corsHeaders,
+    );
+  }
+
+  // Un-marking a tombstone again is NOT_FOUND, like a drink never marked;
+  // with allowMissing a replay gets the tombstone it created the first time.
+  if (!allowMissing) return notFound(corsHeaders);
+  const tombstone = await selectRow(ctx).first<WantRow>();
+  if (!tombstone) return jsonResponse({}, 200, corsHeaders);
+  return jsonResponse<Resource>(
+    serializeWantToTry(festivalId, tombstone),
+    200,
+    corsHeaders,
+  );
+}
+
+async function listWantToTries(ctx: ListCtx): Promise<Response> {
+  const { db, bucket, festivalId, deviceId, url, corsHeaders } = ctx;
+
+  const filterResult = resolveFilter(url, WANT_FILTER_FIELDS, corsHeaders);
+  if ("error" in filterResult) return filterResult.error;
+  const { filter, raw } = filterResult;
+
+  const showDeleted = queryParam(url, "showDeleted", "show_deleted") === "true";
+  const scope = showDeleted ? `${raw}\nshow_deleted=true` : raw;
+  const pageRequest = resolvePageRequest(url, corsHeaders, scope);
+  if ("error" in pageRequest) return pageRequest.error;
+  const { pageSize, cursor } = pageRequest;
+
+  const where = ["bucket = ?", "festival_id = ?", "device_id = ?"];
+  const binds: unknown[] = [bucket, festivalId, deviceId];
+  if (!showDeleted) where.push("deleted_at IS NULL");
+  if (filter) {
+    where.push(filter.sql);
+    binds.push(...filter.binds);
+  }
+  const totalWhere = where.join(" AND ");
+  const totalBinds = [...binds];
+  if (cursor !== null) {
+    where.push("drink_id > ?");
+    binds.push(cursor);
+  }
+
+  const { results } = await db
+    .prepare(
+      `SELECT ${WANT_COLUMNS} FROM want_to_try ` +
+        `WHERE ${where.join(" AND ")} ORDER BY drink_id LIMIT ?`,
+    )
+    .bind(...binds, pageSize + 1)
+    .all<WantRow>();
+
+  const page = results.slice(0, pageSize);
+  const wantToTries = page.map((row) => serializeWantToTry(festivalId, row));
+
+  let nextPageToken = "";
+  if (results.length > pageSize) {
+    nextPageToken = encodePageToken(page[page.length - 1].drink_id, scope);
+  }
+
+  const totalRow = await db
+    .prepare(`SELECT COUNT(*) AS n FROM want_to_try WHERE ${totalWhere}`)
+    .bind(...totalBinds)
+    .first<TotalRow>();
+
+  return jsonResponse<ListWantToTriesResponse>(
+    { wantToTries, nextPageToken, totalSize: totalRow?.n ?? 0 },
+    200,
+    corsHeaders,
+  );
+}
+
+async function getWantToTrySummary(
+  drinkId: string,
+  ctx: SummaryCtx,
+): Promise<Response> {
+  const { db, bucket, festivalId, corsHeaders } = ctx;
+  const row = await db
+    .prepare(
+      "SELECT want_count FROM want_to_try_aggregates " +
+        "WHERE bucket = ? AND festival_id = ? AND drink_id = ?",
+    )
+    .bind(bucket, festivalId, drinkId)
+    .first<Pick<SummaryRow, "want_count">>();
+
+  // A drink nobody wants has no aggregate row: its count is zero.
+  return jsonResponse<Summary>(
+    {
+      name: summaryName(festivalId, drinkId),
+      wantCount: row?.want_count ?? 0,
+    },
+    200,
+    corsHeaders,
+  );
+}
+
+/**
+ * Parse the summary list's `order_by`: wantCount, optionally followed by
+ * `asc` or `desc`. Unset is most wanted first.
+ */
+function resolveWantOrder(
+  url: URL,
+  corsHeaders: CorsHeaders,
+): { desc: boolean } | { error: Response } {
+  const raw = (url.searchParams.get("order_by") ?? "").trim();
+  if (raw === "") return { desc: true };
+
+  const match = /^(\w+)(?:\s+(asc|desc))?$/i.exec(raw);
+  if (!match) {
+    return {
+      error: errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        `Invalid order_by "${raw}"; expected wantCount, optionally followed by asc or desc`,
+        "INVALID_ORDER_BY",
+        corsHeaders,
+      ),
+    };
+  }
+  if (match[1] !== "wantCount" && match[1] !== "want_count") {
+    return {
+      error: errorResponse(
+        400,
+        "INVALID_ARGUMENT",
+        `Unsupported order_by field: ${match[1]} (supported: wantCount)`,
+        "UNSUPPORTED_ORDER_BY_FIELD",
+        corsHeaders,
+      ),
+    };
+  }
+  // As AIP-132 has it, a field alone is ascending.
+  return { desc: match[2]?.toLowerCase() === "desc" };
+}
+
+async function listWantToTrySummaries(ctx: SummaryCtx): Promise<Response> {
+  const { db, bucket, festivalId, url, corsHeaders } = ctx;
+
+  const filterResult = resolveFilter(url, SUMMARY_FILTER_FIELDS, corsHeaders);
+  if ("error" in filterResult) return filterResult.error;
+  const { filter, raw } = filterResult;
+
+  const orderResult = resolveWantOrder(url, corsHeaders);
+  if ("error" in orderResult) return orderResult.error;
+  const { desc } = orderResult;
+
+  // A cursor read most wanted first means nothing least wanted first, so
+  // tokens are scoped to the direction as well as the filter.
+  const scope = `${raw}\norder_by=wantCount ${desc ? "desc" : "asc"}`;
+  const pageRequest = resolveKeysetPageRequest(url, corsHeaders, scope);
+  if ("error" in pageRequest) return pageRequest.error;
+  const { pageSize, cursor } = pageRequest;
+
+  const where = ["bucket = ?", "festival_id = ?"];
+  const binds: unknown[] = [bucket, festivalId];
+  if (filter) {
+    where.push(filter.sql);
+    binds.push(...filter.binds);
+  }
+  const totalWhere = where.join(" AND ");
+  const totalBinds = [...binds];
+  if (cursor !== null) {
+    // Drinks past the cursor's count in the list's direction, or level with
+    // it and later by drink id.
+    const past = desc ? "<" : ">";
+    where.push(`(want_count ${past} ? OR (want_count = ? AND drink_id > ?))`);
+    binds.push(cursor.value, cursor.value, cursor.id);
+  }
+
+  const { results } = await db
+    .prepare(
+      "SELECT drink_id, want_count FROM want_to_try_aggregates " +
+        `WHERE ${where.join(" AND ")} ` +
+        `ORDER BY want_count ${desc ? "DESC" : "ASC"}, drink_id LIMIT ?`,
+    )
+    .bind(...binds, pageSize + 1)
+    .all<SummaryRow>();
+
+  const page = results.slice(0, pageSize);
+  const wantToTrySummaries: Summary[] = page.map((row) => ({
+    name: summaryName(festivalId, row.drink_id),
+    wantCount: row.want_count,
+  }));
+
+  let nextPageToken = "";
+  if (results.length > pageSize) {
+    const last = page[page.length - 1];
+    nextPageToken = encodeKeysetToken(
+      { value: last.want_count, id: last.drink_id },
+      scope,
+    );
+  }
+
+  const totalRow = await db
+    .prepare(
+      `SELECT COUNT(*) AS n FROM want_to_try_aggregates WHERE ${totalWhere}`,
+    )
+    .bind(...totalBinds)
+    .first<TotalRow>();
+
+  return jsonResponse<ListWantToTrySummariesResponse>(
+    { wantToTrySummaries, nextPageToken, totalSize: totalRow?.n ?? 0 },
+    200,
+    corsHeaders,
+  );
+}
+
+/**
+ * Permanently remove want-to-try marks soft-deleted longer ago than the
+ * retention window. Run from the worker's scheduled handler; returns the
+ * number purged. Tombstones never count, so the aggregates are unchanged.
+ */
+export async function purgeDeletedWantToTries(
+  env: Partial<Env>,
+  now: number = Date.now(),
+): Promise<number> {
+  if (!env?.RATINGS_DB) return 0;
+  const result = await env.RATINGS_DB.prepare(
+    "DELETE FROM want_to_try WHERE deleted_at IS NOT NULL AND deleted_at < ?",
+  )
+    .bind(now - DELETED_RETENTION_MS)
+    .run();
+  return result.meta?.changes ?? 0;
+}
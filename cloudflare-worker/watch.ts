@@ -0,0 +1,248 @@
+/**
+ * Live festival updates (CatalogService WatchFestival):
+ *
+ *   GET /v1alpha/festivals/{f}:watch
+ *
+ * is a Server-Sent Events stream, so the bar board and the app's list screen
+ * can update without polling. It carries two events:
+ *
+ *   event: drinkChange    data: a DrinkChange, as the drinkChanges feed
+ *                         lists it (changes.ts); `id:` is the feed's page
+ *                         token after it
+ *   event: reviewSummary  data: a drink's ReviewSummary after a write changed
+ *                         its reviews (reviews.ts), for the caller's bucket
+ *
+ * The stream replays nothing. A client that reconnects passes its
+ * Last-Event-ID to drinkChanges as page_token to catch up on the drink
+ * changes it missed, and re-reads the summaries it shows.
+ *
+ * Fan-out runs through one Durable Object per festival (FestivalWatch, bound
+ * as FESTIVAL_WATCH and named by the festival ID). The worker hands a watch
+ * request to the festival's object, which answers with the stream and keeps
+ * its controller; publishers — the drink change poll and the review writes —
+ * POST their events to the same object, which writes them to every stream. A
+ * comment line every KEEP_ALIVE_MS stops proxies closing a quiet stream, and a
+ * stream is dropped as soon as its client hangs up.
+ *
+ * The route needs no credentials, so an object holds at most MAX_WATCHERS
+ * streams; past that a watch is 503 UNAVAILABLE, reason WATCH_FULL, until
+ * streams close. Without the binding the route is 503 UNAVAILABLE, reason
+ * WATCH_UNCONFIGURED, and publishing does nothing.
+ */
+
+import {
+  type CorsHeaders,
+  type Env,
+  resolveBucket,
+  isValidId,
+  parseV1alphaPath,
+  errorResponse,
+  methodNotAllowed,
+} from "./shared.js";
+import { type FestivalRegistry, resolveFestival } from "./festivals.js";
+
+/** One event for a festival's watchers. */
+export interface WatchEvent {
+  /** The SSE event name. */
+  event: "drinkChange" | "reviewSummary";
+  data: unknown;
+  /** The SSE event id, if any. */
+  id?: string;
+  /** Only watchers in this bucket get the event; all of them when unset. */
+  bucket?: string;
+}
+
+const WATCH_SUFFIX = ":watch";
+
+// The festival object's own routes. It is reached only through the binding,
+// so the host is a placeholder.
+const OBJECT_ORIGIN = "https://festival-watch";
+const CONNECT_PATH = "/connect";
+const PUBLISH_PATH = "/publish";
+
+const KEEP_ALIVE_MS = 25 * 1000;
+// How long a client waits before reconnecting a dropped stream.
+const RETRY_MS = 5 * 1000;
+/** The most streams one festival's object holds open. */
+export const MAX_WATCHERS = 500;
+
+const encoder = new TextEncoder();
+
+export async function handleWatch(
+  request: Request,
+  url: URL,
+  env: Env,
+  corsHeaders: CorsHeaders,
+  festivals: FestivalRegistry,
+): Promise<Response | null> {
+  const segments = parseV1alphaPath(url.pathname);
+  // /v1alpha/festivals/{f}:watch
+  if (
+    !segments ||
+    segments.length !== 2 ||
+    segments[0] !== "festivals" ||
+    !segments[1].endsWith(WATCH_SUFFIX)
+  ) {
+    return null;
+  }
+  if (request.method !== "GET") return methodNotAllowed(corsHeaders);
+
+  const festivalId = segments[1].slice(0, -WATCH_SUFFIX.length);
+  if (!isValidId(festivalId)) {
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      "Invalid resource name",
+      "INVALID_RESOURCE_NAME",
+      corsHeaders,
+    );
+  }
+  const festivalResult = resolveFestival(
+    festivals,
+    festivalId,
+    env,
+    corsHeaders,
+  );
+  if ("error" in festivalResult) return festivalResult.error;
+
+  const namespace = env?.FESTIVAL_WATCH;
+  if (!namespace) {
+    return errorResponse(
+      503,
+      "UNAVAILABLE",
+      "Live updates are not configured",
+      "WATCH_UNCONFIGURED",
+      corsHeaders,
+    );
+  }
+
+  const bucket = resolveBucket(request.headers.get("Origin") ?? "", env);
+  const connectUrl = `${OBJECT_ORIGIN}${CONNECT_PATH}?${new URLSearchParams({ bucket })}`;
+  const stream = await namespace
+    .get(namespace.idFromName(festivalId))
+    .fetch(connectUrl);
+  if (!stream.ok) {
+    return errorResponse(
+      503,
+      "UNAVAILABLE",
+      "Too many live update streams are open; retry later",
+      "WATCH_FULL",
+      corsHeaders,
+    );
+  }
+  return new Response(stream.body, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      ...corsHeaders,
+    },
+  });
+}
+
+/**
+ * Send events to a festival's watchers. A no-op without the binding or
+ * events; failures are logged, never thrown, so a publisher's own work is not
+ * undone by them.
+ */
+export async function publishToWatchers(
+  env: Partial<Env>,
+  festivalId: string,
+  events: WatchEvent[],
+): Promise<void> {
+  const namespace = env?.FESTIVAL_WATCH;
+  if (!namespace || events.length === 0) return;
+  try {
+    await namespace
+      .get(namespace.idFromName(festivalId))
+      .fetch(`${OBJECT_ORIGIN}${PUBLISH_PATH}`, {
+        method: "POST",
+        body: JSON.stringify({ events }),
+      });
+  } catch (e) {
+    console.error(`Watch: publishing to ${festivalId} failed: ${e}`);
+  }
+}
+
+/** One open stream. */
+interface Watcher {
+  controller: ReadableStreamDefaultController<Uint8Array>;
+  bucket: string;
+}
+
+/**
+ * The Durable Object holding one festival's open watch streams. State is
+ * in memory only: the object lives as long as a stream is open, and a
+ * restart drops the streams, which their clients then reconnect.
+ */
+export class FestivalWatch implements DurableObject {
+  private readonly watchers = new Set<Watcher>();
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.pathname === CONNECT_PATH) {
+      return this.openStream(url.searchParams.get("bucket") ?? "");
+    }
+    if (url.pathname === PUBLISH_PATH && request.method === "POST") {
+      const { events } = await request.json<{ events: WatchEvent[] }>();
+      for (const event of events) this.publish(event);
+      return new Response(null, { status: 204 });
+    }
+    return new Response("Not found", { status: 404 });
+  }
+
+  /** Write a keep-alive comment to every stream. */
+  keepAlive(): void {
+    for (const watcher of this.watchers)
+      this.write(watcher, ": keep-alive\n\n");
+  }
+
+  /** How many streams are open. */
+  get size(): number {
+    return this.watchers.size;
+  }
+
+  private openStream(bucket: string): Response {
+    if (this.watchers.size >= MAX_WATCHERS) {
+      return new Response("Too many streams", { status: 503 });
+    }
+    let watcher: Watcher;
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        watcher = { controller, bucket };
+        this.watchers.add(watcher);
+        this.write(watcher, `retry: ${RETRY_MS}\n\n`);
+      },
+      cancel: () => this.drop(watcher),
+    });
+    this.keepAliveTimer ??= setInterval(() => this.keepAlive(), KEEP_ALIVE_MS);
+    return new Response(stream);
+  }
+
+  private publish({ event, data, id, bucket }: WatchEvent): void {
+    const frame =
+      `event: ${event}\n` +
+      (id ? `id: ${id}\n` : "") +
+      `data: ${JSON.stringify(data)}\n\n`;
+    for (const watcher of this.watchers) {
+      if (!bucket || watcher.bucket === bucket) this.write(watcher, frame);
+    }
+  }
+
+  private write(watcher: Watcher, text: string): void {
+    try {
+      watcher.controller.enqueue(encoder.encode(text));
+    } catch {
+      this.drop(watcher);
+    }
+  }
+
+  private drop(watcher: Watcher): void {
+    if (!this.watchers.delete(watcher)) return;
+    if (this.watchers.size === 0 && this.keepAliveTimer !== null) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+}
@@ -9,22 +9,57 @@
  *
  * Cache Strategy:
  * - Uses Vary: Origin header to ensure CORS responses are cached per origin
+ * - Beverage lists are kept in the edge cache and served stale while the
+ *   upstream is slow or down (see edgecache.ts)
  * - CORS preflight cache (Access-Control-Max-Age) is reduced to 10 seconds for
  *   staging/preview environments for quick recovery from deployment issues
  */
 
 // Import festivals data directly - copied from data/festivals.json during build
 import festivalsData from "./festivals.json";
+import { handleEntries, purgeDeletedEntries } from "./entries.js";
+import { handleCheckIns, purgeDeletedCheckIns } from "./checkins.js";
+import { handleWantToTry, purgeDeletedWantToTries } from "./wanttotry.js";
+import { handlePhotos, purgeOrphanedPhotos } from "./photos.js";
+import { handleExport } from "./export.js";
 import { handleReviews } from "./reviews.js";
+import { handleAccount } from "./account.js";
+import { handleCatalog } from "./catalog.js";
+import {
+  DRINK_CHANGES_CRON,
+  handleDrinkChanges,
+  purgeDrinkChanges,
+  recordDrinkChanges,
+} from "./changes.js";
+import { handleWatch } from "./watch.js";
+import { checkReviewAggregates } from "./aggregates.js";
+import { enforceRateLimit, purgeRateLimits } from "./ratelimit.js";
 import { errorResponse } from "./shared.js";
+import { contentEtag, isNotModified } from "./etag.js";
+import { UPSTREAM_URL } from "./festivals.js";
+import {
+  beverageListFestivalId,
+  fetchBeverageListCached,
+} from "./edgecache.js";
 
-const UPSTREAM_URL = "https://data.cambridgebeerfestival.com";
+// The Durable Object class behind /v1alpha/festivals/{f}:watch, exported for
+// the FESTIVAL_WATCH binding (wrangler.toml).
+export { FestivalWatch } from "./watch.js";
 
 // Cache control for festivals.json
 // Use no-cache to ensure browsers revalidate on each request while still caching
 // This ensures updates are visible immediately while allowing conditional requests
 const FESTIVALS_CACHE_CONTROL = "no-cache, must-revalidate";
 
+// The embedded registry as served, and its ETag — computed once per isolate,
+// on first use.
+const FESTIVALS_BODY = JSON.stringify(festivalsData);
+let festivalsEtag = null;
+
+// Request validators forwarded to the upstream on uncached proxy requests, so
+// its 304s reach the client.
+const CONDITIONAL_HEADERS = ["If-None-Match", "If-Modified-Since"];
+
 // Allowed origins for CORS
 const ALLOWED_ORIGINS = [
   "https://richardthe3rd.github.io",
@@ -57,28 +92,141 @@ export default {
 
     // Serve festivals.json directly from embedded data
     if (url.pathname === "/festivals.json" || url.pathname === "/festivals") {
-      return new Response(JSON.stringify(festivalsData), {
-        status: 200,
-        headers: {
-          "Content-Type": "application/json; charset=utf-8",
-          "Cache-Control": FESTIVALS_CACHE_CONTROL,
-          ...getCorsHeaders(request),
-        },
-      });
+      return handleFestivals(request);
     }
 
     // "My festival" API (/v1alpha/...). Handled before the proxy fall-through
     // so these paths are never forwarded upstream.
+    // Writes spend from the caller's and the client IP's rate-limit buckets
+    // first.
+    const throttled = await enforceRateLimit(
+      request,
+      url,
+      env,
+      getCorsHeaders(request),
+    );
+    if (throttled) {
+      return throttled;
+    }
+
+    const entriesResponse = await handleEntries(
+      request,
+      url,
+      env,
+      getCorsHeaders(request),
+      festivalsData,
+      ctx,
+    );
+    if (entriesResponse) {
+      return entriesResponse;
+    }
+
+    const checkInsResponse = await handleCheckIns(
+      request,
+      url,
+      env,
+      getCorsHeaders(request),
+      festivalsData,
+      ctx,
+    );
+    if (checkInsResponse) {
+      return checkInsResponse;
+    }
+
+    const photosResponse = await handlePhotos(
+      request,
+      url,
+      env,
+      getCorsHeaders(request),
+      festivalsData,
+    );
+    if (photosResponse) {
+      return photosResponse;
+    }
+
+    const wantToTryResponse = await handleWantToTry(
+      request,
+      url,
+      env,
+      getCorsHeaders(request),
+      festivalsData,
+      ctx,
+    );
+    if (wantToTryResponse) {
+      return wantToTryResponse;
+    }
+
+    const exportResponse = await handleExport(
+      request,
+      url,
+      env,
+      getCorsHeaders(request),
+      festivalsData,
+      ctx,
+    );
+    if (exportResponse) {
+      return exportResponse;
+    }
+
     const reviewsResponse = await handleReviews(
       request,
       url,
       env,
       getCorsHeaders(request),
+      festivalsData,
+      ctx,
     );
     if (reviewsResponse) {
       return reviewsResponse;
     }
 
+    const accountResponse = await handleAccount(
+      request,
+      url,
+      env,
+      getCorsHeaders(request),
+      ctx,
+    );
+    if (accountResponse) {
+      return accountResponse;
+    }
+
+    // Before the catalog, whose GetFestival route would take `{f}:watch` for a
+    // festival ID.
+    const watchResponse = await handleWatch(
+      request,
+      url,
+      env,
+      getCorsHeaders(request),
+      festivalsData,
+    );
+    if (watchResponse) {
+      return watchResponse;
+    }
+
+    const catalogResponse = await handleCatalog(
+      request,
+      url,
+      env,
+      getCorsHeaders(request),
+      festivalsData,
+      ctx,
+    );
+    if (catalogResponse) {
+      return catalogResponse;
+    }
+
+    const changesResponse = await handleDrinkChanges(
+      request,
+      url,
+      env,
+      getCorsHeaders(request),
+      festivalsData,
+    );
+    if (changesResponse) {
+      return changesResponse;
+    }
+
     // Any other /v1alpha path is an unknown API route — don't proxy upstream.
     if (url.pathname === "/v1alpha" || url.pathname.startsWith("/v1alpha/")) {
       return errorResponse(
@@ -99,16 +247,26 @@ export default {
       return handleAvailableBeverageTypes(availableTypesMatch[1], request);
     }
 
-    // Proxy the request to the upstream API
+    // Proxy the request to the upstream API. Beverage lists
+    // (/{festivalId}/{type}.json) go through the edge cache, which keeps
+    // serving them while the upstream is slow or down.
     const upstreamUrl = UPSTREAM_URL + url.pathname + url.search;
+    const listFestivalId =
+      request.method === "GET" ? beverageListFestivalId(url.pathname) : null;
 
     try {
-      const response = await fetch(upstreamUrl, {
-        method: request.method,
-        headers: {
-          "User-Agent": "Cambridge-Beer-Festival-App-Proxy/1.0",
-        },
-      });
+      const response = listFestivalId
+        ? await fetchBeverageListCached(
+            request,
+            upstreamUrl,
+            listFestivalId,
+            env,
+            ctx,
+          )
+        : await fetch(upstreamUrl, {
+            method: request.method,
+            headers: upstreamRequestHeaders(request),
+          });
 
       // Clone the response and add CORS headers
       const newHeaders = new Headers(response.headers);
@@ -143,8 +301,88 @@ export default {
       );
     }
   },
+
+  // Cron triggers (see [triggers] in wrangler.toml): the drink change poll,
+  // and daily housekeeping for the "my festival" tables. Both are no-ops while
+  // no D1 database is bound.
+  async scheduled(controller, env, ctx) {
+    if (controller.cron === DRINK_CHANGES_CRON) {
+      ctx.waitUntil(
+        recordDrinkChanges(env, festivalsData, controller.scheduledTime),
+      );
+      return;
+    }
+    ctx.waitUntil(housekeeping(env, controller.scheduledTime));
+  },
 };
 
+/**
+ * Serves the embedded festivals.json with a content-hash ETag, answering a
+ * matching If-None-Match with 304. Both carry the same CORS, Vary and
+ * Cache-Control headers.
+ *
+ * @param {Request} request - The incoming request
+ * @returns {Promise<Response>} The registry, or 304
+ */
+async function handleFestivals(request) {
+  festivalsEtag ??= contentEtag(FESTIVALS_BODY);
+  const etag = await festivalsEtag;
+  const headers = {
+    "Cache-Control": FESTIVALS_CACHE_CONTROL,
+    ETag: `"${etag}"`,
+    "Access-Control-Expose-Headers": "ETag",
+    ...getCorsHeaders(request),
+  };
+  if (isNotModified(request, etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(FESTIVALS_BODY, {
+    status: 200,
+    headers: { "Content-Type": "application/json; charset=utf-8", ...headers },
+  });
+}
+
+/**
+ * Headers for an uncached upstream request: our User-Agent, and the client's
+ * validators.
+ *
+ * @param {Request} request - The incoming request
+ * @returns {Record<string, string>} Upstream request headers
+ */
+function upstreamRequestHeaders(request) {
+  const headers = { "User-Agent": "Cambridge-Beer-Festival-App-Proxy/1.0" };
+  for (const name of CONDITIONAL_HEADERS) {
+    const value = request.headers.get(name);
+    if (value !== null) headers[name] = value;
+  }
+  return headers;
+}
+
+/**
+ * Daily housekeeping: purge expired tombstones, the photos of purged
+ * check-ins, idle rate-limit buckets and drink changes past their retention,
+ * then recompute the review aggregates and repair any drift — which should
+ * never happen, so it is logged loudly when it does.
+ *
+ * @param {object} env - Worker environment
+ * @param {number} now - The trigger's scheduled time (epoch millis)
+ */
+async function housekeeping(env, now) {
+  await purgeDeletedEntries(env, now);
+  await purgeDeletedCheckIns(env, now);
+  await purgeOrphanedPhotos(env);
+  await purgeDeletedWantToTries(env, now);
+  await purgeRateLimits(env, now);
+  await purgeDrinkChanges(env, now);
+  const check = await checkReviewAggregates(env, { repair: true });
+  if (check.drift.length > 0) {
+    console.error(
+      `review_aggregates: repaired drift in ${check.drift.length} of ${check.checked} drinks`,
+      JSON.stringify(check.drift),
+    );
+  }
+}
+
 /**
  * Dynamically discovers available beverage types for a festival
  * by fetching the directory listing from the upstream API
@@ -269,8 +507,10 @@ function handleCorsPreflight(request) {
     status: 204,
     headers: {
       ...getCorsHeaders(request),
-      "Access-Control-Allow-Methods": "GET, PATCH, DELETE, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, X-Device-Id",
+      "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers":
+        "Content-Type, Authorization, X-Device-Id, If-Match, If-None-Match, " +
+        "If-Modified-Since",
       "Access-Control-Max-Age": maxAge,
     },
   });